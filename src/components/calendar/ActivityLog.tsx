@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'preact/hooks';
+import { fetchEvents, type EntryEvent, type EntryEventType } from '../../lib/calendarApi';
+import EventTimeline, { EVENT_LABELS } from './EventTimeline';
+
+const PAGE_SIZE = 50;
+
+/**
+ * Every change to every calendar entry, newest first, filterable by event and actor
+ */
+export default function ActivityLog() {
+  const [events, setEvents] = useState<EntryEvent[]>([]);
+  const [eventType, setEventType] = useState<EntryEventType | ''>('');
+  const [actorDraft, setActorDraft] = useState('');
+  const [actor, setActor] = useState('');
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadEvents();
+  }, [eventType, actor]);
+
+  async function loadEvents(cursor?: string) {
+    try {
+      setLoading(true);
+      setError(null);
+      const page = await fetchEvents({
+        event: eventType || undefined,
+        actor: actor || undefined,
+        limit: PAGE_SIZE,
+        cursor,
+      });
+      setEvents(prev => (cursor ? [...prev, ...page.data] : page.data));
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Failed to load activity log:', err);
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={eventType}
+          onChange={(e) => setEventType(e.currentTarget.value as EntryEventType | '')}
+          className="text-sm rounded border-gray-300"
+          aria-label="Event"
+        >
+          <option value="">All changes</option>
+          {Object.entries(EVENT_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={actorDraft}
+          onInput={(e) => setActorDraft(e.currentTarget.value)}
+          onKeyDown={(e) => e.key === 'Enter' && setActor(actorDraft.trim())}
+          onBlur={() => setActor(actorDraft.trim())}
+          placeholder="Filter by person"
+          className="w-48 text-sm rounded border-gray-300"
+        />
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-800">{error}</div>
+      )}
+
+      {loading && events.length === 0 ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+        </div>
+      ) : events.length === 0 ? (
+        <div className="text-center py-12">
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No changes recorded</h3>
+          <p className="mt-1 text-sm text-gray-500">Creates, edits, approvals, scheduling and deletes will show up here.</p>
+        </div>
+      ) : (
+        <div className="bg-white border border-gray-200 rounded-lg p-6">
+          <EventTimeline events={events} onOpenEntry={(id) => window.location.assign(`/?entry=${id}`)} />
+          {nextCursor && (
+            <button
+              onClick={() => loadEvents(nextCursor)}
+              disabled={loading}
+              className="mt-4 text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50"
+            >
+              {loading ? 'Loading...' : 'Load more'}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
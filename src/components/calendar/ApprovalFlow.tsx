@@ -2,9 +2,16 @@ import { useState, useEffect } from 'preact/hooks';
 import {
   fetchPendingApprovals,
   approveArticles,
+  declineArticles,
+  triggerGeneration,
   type CalendarEntry,
+  type UndoToken,
   getDifficultyColor,
 } from '../../lib/calendarApi';
+import { DECLINE_CATEGORIES } from '../../lib/declineReasons.js';
+import UndoToast from './UndoToast';
+import { ApprovalBadge, ReviewerInput, useReviewer } from './ReviewerStatus';
+import OpportunityScore from './OpportunityScore';
 
 interface ApprovalFlowProps {
   onApprove: () => void;
@@ -20,6 +27,9 @@ export default function ApprovalFlow({ onApprove }: ApprovalFlowProps) {
   const [perDay, setPerDay] = useState(1);
   const [showDeclineModal, setShowDeclineModal] = useState(false);
   const [declineReason, setDeclineReason] = useState('');
+  const [declineCategories, setDeclineCategories] = useState<string[]>([]);
+  const [lastAction, setLastAction] = useState<{ token: UndoToken; message: string } | null>(null);
+  const [reviewer, setReviewer] = useReviewer();
 
   useEffect(() => {
     loadPendingApprovals();
@@ -55,18 +65,33 @@ export default function ApprovalFlow({ onApprove }: ApprovalFlowProps) {
     setSelected(new Set());
   }
 
+  function requireReviewer(): boolean {
+    if (reviewer.trim()) return true;
+    alert('Enter your name in "Reviewing as" first, so your sign-off is recorded.');
+    return false;
+  }
+
   async function handleApprove() {
-    if (selected.size === 0) return;
+    if (selected.size === 0 || !requireReviewer()) return;
 
     try {
       setApproving(true);
-      await approveArticles({
+      const result = await approveArticles({
         ids: Array.from(selected),
+        reviewer: reviewer.trim(),
         auto_schedule: autoSchedule,
         schedule_start_date: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0],
         per_day: perDay,
       });
 
+      if (result.data.failed.length > 0 || result.summary.pending_second_approval > 0) {
+        alert(result.message);
+      }
+
+      if (result.undo) {
+        setLastAction({ token: result.undo, message: `Approved ${result.summary.approved}` });
+      }
+
       // Reload data
       await loadPendingApprovals();
       setSelected(new Set());
@@ -80,12 +105,12 @@ export default function ApprovalFlow({ onApprove }: ApprovalFlowProps) {
   }
 
   function handleDecline() {
-    if (selected.size === 0) return;
+    if (selected.size === 0 || !requireReviewer()) return;
     setShowDeclineModal(true);
   }
 
   async function handleGenerateNow() {
-    if (selected.size === 0) return;
+    if (selected.size === 0 || !requireReviewer()) return;
 
     // Only allow single selection for Generate Now
     if (selected.size > 1) {
@@ -103,17 +128,7 @@ export default function ApprovalFlow({ onApprove }: ApprovalFlowProps) {
       setGenerating(true);
       const id = Array.from(selected)[0];
 
-      const response = await fetch(`/api/calendar/${id}/generate`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' }
-      });
-
-      const result = await response.json();
-
-      if (!result.success) {
-        alert(`Failed to start generation: ${result.error}`);
-        return;
-      }
+      const result = await triggerGeneration(id, reviewer);
 
       alert(`✓ Workflow started for "${result.data.keyword}"!\n\nEstimated time: ${result.data.estimatedTime}\n\nThe article will be automatically published when complete.`);
 
@@ -123,7 +138,7 @@ export default function ApprovalFlow({ onApprove }: ApprovalFlowProps) {
       onApprove(); // Refresh parent dashboard
     } catch (error) {
       console.error('Failed to generate article:', error);
-      alert('Failed to start generation. Check console for details.');
+      alert(`Failed to start generation: ${(error as Error).message}`);
     } finally {
       setGenerating(false);
     }
@@ -137,23 +152,30 @@ export default function ApprovalFlow({ onApprove }: ApprovalFlowProps) {
     try {
       setApproving(true);
 
-      // Decline each selected article with optional reason
-      const promises = Array.from(selected).map(id =>
-        fetch(`/api/calendar/${id}`, {
-          method: 'PATCH',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            action: 'reject',
-            decline_reason: reason || undefined
-          })
-        })
-      );
+      // Decline all selected articles in one request
+      const result = await declineArticles({
+        ids: Array.from(selected),
+        reviewer: reviewer.trim(),
+        reason: reason || undefined,
+        reason_categories: skipReason ? undefined : declineCategories,
+      });
+
+      if (result.summary.failed > 0) {
+        const lines = result.data.failed.map(failure => {
+          const entry = entries.find(e => e.id === failure.id);
+          return `• ${entry?.keyword || failure.id}: ${failure.error}`;
+        });
+        alert(`${result.message}\n\n${lines.join('\n')}`);
+      }
 
-      await Promise.all(promises);
+      if (result.undo) {
+        setLastAction({ token: result.undo, message: `Declined ${result.summary.declined}` });
+      }
 
       // Close modal and reset
       setShowDeclineModal(false);
       setDeclineReason('');
+      setDeclineCategories([]);
 
       // Reload data
       await loadPendingApprovals();
@@ -167,11 +189,30 @@ export default function ApprovalFlow({ onApprove }: ApprovalFlowProps) {
     }
   }
 
+  function toggleDeclineCategory(category: string) {
+    setDeclineCategories(declineCategories.includes(category)
+      ? declineCategories.filter(c => c !== category)
+      : [...declineCategories, category]);
+  }
+
   function cancelDecline() {
     setShowDeclineModal(false);
     setDeclineReason('');
+    setDeclineCategories([]);
   }
 
+  const undoToast = lastAction && (
+    <UndoToast
+      token={lastAction.token}
+      message={lastAction.message}
+      onUndone={() => {
+        loadPendingApprovals();
+        onApprove();
+      }}
+      onDismiss={() => setLastAction(null)}
+    />
+  );
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -190,6 +231,7 @@ export default function ApprovalFlow({ onApprove }: ApprovalFlowProps) {
         <p className="mt-1 text-sm text-gray-500">
           All AI-suggested keywords have been reviewed. Check back after the next weekly run.
         </p>
+        {undoToast}
       </div>
     );
   }
@@ -215,6 +257,7 @@ export default function ApprovalFlow({ onApprove }: ApprovalFlowProps) {
             <span className="text-sm text-gray-500">
               {selected.size} of {entries.length} selected
             </span>
+            <ReviewerInput reviewer={reviewer} onChange={setReviewer} />
           </div>
 
           <div className="flex items-center space-x-3">
@@ -279,6 +322,7 @@ export default function ApprovalFlow({ onApprove }: ApprovalFlowProps) {
             key={entry.id}
             entry={entry}
             selected={selected.has(entry.id)}
+            reviewer={reviewer}
             onToggle={() => toggleSelection(entry.id)}
           />
         ))}
@@ -303,10 +347,33 @@ export default function ApprovalFlow({ onApprove }: ApprovalFlowProps) {
               </ul>
             </div>
 
+            {/* Reason Category */}
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Categories <span className="text-gray-500">(Select all that apply)</span>
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {DECLINE_CATEGORIES.map(category => (
+                  <button
+                    key={category.value}
+                    type="button"
+                    onClick={() => toggleDeclineCategory(category.value)}
+                    className={`px-3 py-1 rounded-full text-sm border transition ${
+                      declineCategories.includes(category.value)
+                        ? 'bg-red-50 border-red-300 text-red-700'
+                        : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {category.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             {/* Optional Reason */}
             <div className="mb-6">
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Why are you declining? <span className="text-gray-500">(Optional)</span>
+                Anything else? <span className="text-gray-500">(Optional)</span>
               </label>
               <p className="text-xs text-gray-500 mb-2">
                 This feedback helps the AI improve future keyword suggestions
@@ -347,6 +414,8 @@ export default function ApprovalFlow({ onApprove }: ApprovalFlowProps) {
           </div>
         </div>
       )}
+
+      {undoToast}
     </div>
   );
 }
@@ -354,12 +423,12 @@ export default function ApprovalFlow({ onApprove }: ApprovalFlowProps) {
 interface ArticleCardProps {
   entry: CalendarEntry;
   selected: boolean;
+  reviewer: string;
   onToggle: () => void;
 }
 
-function ArticleCard({ entry, selected, onToggle }: ArticleCardProps) {
+function ArticleCard({ entry, selected, reviewer, onToggle }: ArticleCardProps) {
   const difficultyColor = getDifficultyColor(entry.difficulty);
-  const opportunityScore = entry.opportunity_score || 0;
 
   return (
     <div
@@ -382,6 +451,7 @@ function ArticleCard({ entry, selected, onToggle }: ArticleCardProps) {
               className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
             />
             <h3 className="text-lg font-semibold text-gray-900">{entry.keyword}</h3>
+            <ApprovalBadge entry={entry} reviewer={reviewer} />
           </div>
 
           {/* Metrics */}
@@ -412,7 +482,7 @@ function ArticleCard({ entry, selected, onToggle }: ArticleCardProps) {
               <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
               </svg>
-              <span>Score: {opportunityScore}</span>
+              <span>Score: <OpportunityScore entry={entry} /></span>
             </div>
           </div>
 
@@ -1,21 +1,61 @@
-import { useState, useEffect } from 'preact/hooks';
+import { useState, useEffect, useRef } from 'preact/hooks';
 import {
-  fetchPendingApprovals,
+  fetchApprovalQueue,
+  updateCalendarEntry,
   approveArticles,
+  declineArticles,
+  triggerGeneration,
+  type ApprovalQueueParams,
   type CalendarEntry,
+  type UndoToken,
+  type Valuation,
   getDifficultyColor,
 } from '../../lib/calendarApi';
+import { DECLINE_CATEGORIES } from '../../lib/declineReasons.js';
+import {
+  parseApprovalFilters,
+  serializeApprovalFilters,
+  toApprovalQueueParams,
+  DEFAULT_APPROVAL_FILTERS,
+} from '../../lib/approvalFilters.js';
+import KeywordImportWizard from './KeywordImportWizard';
+import UndoToast from './UndoToast';
+import { ApprovalBadge, AutoRuleBadge, ReviewerInput, useReviewer } from './ReviewerStatus';
+import EntryCommentsPanel from './EntryCommentsPanel';
+import TriageMode from './TriageMode';
+import SavedViewsMenu from './SavedViewsMenu';
+import EditableCell from './EditableCell';
+import OpportunityScore from './OpportunityScore';
+import { RoiCell, describeValuation } from './EntryValue';
+import TrafficForecast from './TrafficForecast';
+import { ARTICLE_TYPES } from '../../lib/keywordImport.js';
 
 interface ApprovalFlowProps {
   onApprove: () => void;
+  onOpenEntry: (id: string) => void;
 }
 
-type SortField = 'keyword' | 'search_volume' | 'difficulty' | 'opportunity_score' | 'created_at';
+type SortField = 'keyword' | 'search_volume' | 'difficulty' | 'opportunity_score' | 'roi' | 'created_at';
 type SortDirection = 'asc' | 'desc';
 
-export default function ApprovalFlowTable({ onApprove }: ApprovalFlowProps) {
+const PAGE_SIZE = 50;
+
+// Filter and sort state lives in the URL so views can be bookmarked and shared
+const FILTER_PARAMS = Object.keys(DEFAULT_APPROVAL_FILTERS);
+
+function readUrlFilters(): typeof DEFAULT_APPROVAL_FILTERS {
+  if (typeof window === 'undefined') return DEFAULT_APPROVAL_FILTERS;
+  return parseApprovalFilters(new URLSearchParams(window.location.search)).filters;
+}
+
+export default function ApprovalFlowTable({ onApprove, onOpenEntry }: ApprovalFlowProps) {
   const [entries, setEntries] = useState<CalendarEntry[]>([]);
-  const [filteredEntries, setFilteredEntries] = useState<CalendarEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const latestRequest = useRef(0);
   const [selected, setSelected] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
   const [approving, setApproving] = useState(false);
@@ -24,166 +64,148 @@ export default function ApprovalFlowTable({ onApprove }: ApprovalFlowProps) {
   const [perDay, setPerDay] = useState(1);
   const [showDeclineModal, setShowDeclineModal] = useState(false);
   const [declineReason, setDeclineReason] = useState('');
+  const [declineCategories, setDeclineCategories] = useState<string[]>([]);
+  const [showImport, setShowImport] = useState(false);
+  const [lastAction, setLastAction] = useState<{ token: UndoToken; message: string } | null>(null);
+  const [reviewer, setReviewer] = useReviewer();
+  const [commentsEntry, setCommentsEntry] = useState<CalendarEntry | null>(null);
+  const [triaging, setTriaging] = useState(false);
+  const [showForecast, setShowForecast] = useState(false);
+  const [valuation, setValuation] = useState<Valuation | null>(null);
+
+  const [initialFilters] = useState(readUrlFilters);
 
   // Filters
-  const [difficultyFilter, setDifficultyFilter] = useState<string>('all');
-  const [dataSourceFilter, setDataSourceFilter] = useState<string>('all');
-  const [minVolume, setMinVolume] = useState<string>('');
-  const [articleTypeFilter, setArticleTypeFilter] = useState<string>('all');
-  const [opportunityFilter, setOpportunityFilter] = useState<string>('all');
-  const [createdFilter, setCreatedFilter] = useState<string>('all');
+  const [difficultyFilter, setDifficultyFilter] = useState<string>(initialFilters.difficulty);
+  const [dataSourceFilter, setDataSourceFilter] = useState<string>(initialFilters.data_source);
+  const [minVolume, setMinVolume] = useState<string>(initialFilters.min_volume);
+  const [articleTypeFilter, setArticleTypeFilter] = useState<string>(initialFilters.article_type);
+  const [opportunityFilter, setOpportunityFilter] = useState<string>(initialFilters.opportunity);
+  const [roiFilter, setRoiFilter] = useState<string>(initialFilters.roi);
+  const [createdFilter, setCreatedFilter] = useState<string>(initialFilters.created);
 
   // Sorting
-  const [sortField, setSortField] = useState<SortField>('opportunity_score');
-  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const [sortField, setSortField] = useState<SortField>(initialFilters.sort as SortField);
+  const [sortDirection, setSortDirection] = useState<SortDirection>(initialFilters.order as SortDirection);
+
+  const currentFilters = {
+    data_source: dataSourceFilter,
+    difficulty: difficultyFilter,
+    opportunity: opportunityFilter,
+    roi: roiFilter,
+    min_volume: minVolume,
+    article_type: articleTypeFilter,
+    created: createdFilter,
+    sort: sortField,
+    order: sortDirection,
+  };
 
+  // Debounce the free-text volume filter so typing does not refetch per keystroke
+  const [debouncedMinVolume, setDebouncedMinVolume] = useState(minVolume);
   useEffect(() => {
-    loadPendingApprovals();
-  }, []);
+    const timeout = setTimeout(() => setDebouncedMinVolume(minVolume), 300);
+    return () => clearTimeout(timeout);
+  }, [minVolume]);
 
   useEffect(() => {
-    applyFiltersAndSort();
-  }, [entries, difficultyFilter, dataSourceFilter, minVolume, articleTypeFilter, opportunityFilter, createdFilter, sortField, sortDirection]);
-
-  async function loadPendingApprovals() {
-    try {
-      setLoading(true);
-      const data = await fetchPendingApprovals(100);
-      setEntries(data);
-    } catch (error) {
-      console.error('Failed to load pending approvals:', error);
-    } finally {
-      setLoading(false);
+    loadPendingApprovals();
+    syncFiltersToUrl();
+  }, [difficultyFilter, dataSourceFilter, debouncedMinVolume, articleTypeFilter, opportunityFilter, roiFilter, createdFilter, sortField, sortDirection]);
+
+  function syncFiltersToUrl() {
+    const params = new URLSearchParams(window.location.search);
+    FILTER_PARAMS.forEach(key => params.delete(key));
+    for (const [key, value] of Object.entries(serializeApprovalFilters(currentFilters))) {
+      params.set(key, String(value));
     }
+    const search = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${search ? `?${search}` : ''}${window.location.hash}`);
   }
 
-  function applyFiltersAndSort() {
-    let filtered = [...entries];
+  function applyFilters(filters: typeof DEFAULT_APPROVAL_FILTERS) {
+    setDataSourceFilter(filters.data_source);
+    setDifficultyFilter(filters.difficulty);
+    setOpportunityFilter(filters.opportunity);
+    setRoiFilter(filters.roi);
+    setMinVolume(filters.min_volume);
+    setDebouncedMinVolume(filters.min_volume);
+    setArticleTypeFilter(filters.article_type);
+    setCreatedFilter(filters.created);
+    setSortField(filters.sort as SortField);
+    setSortDirection(filters.order as SortDirection);
+  }
 
-    // Difficulty filter (only applies to real data)
-    if (difficultyFilter !== 'all') {
-      if (difficultyFilter === 'ai-generated') {
-        // Show only AI-generated keywords
-        filtered = filtered.filter(entry =>
-          entry.seo_insights?.data_source !== 'dataforseo'
-        );
-      } else {
-        // For Easy/Medium/Hard/Very Hard - only show real data
-        filtered = filtered.filter(entry => {
-          // Must have real data
-          if (entry.seo_insights?.data_source !== 'dataforseo') return false;
-
-          const diff = entry.difficulty || 0;
-          if (difficultyFilter === 'easy') return diff < 30;
-          if (difficultyFilter === 'medium') return diff >= 30 && diff < 50;
-          if (difficultyFilter === 'hard') return diff >= 50 && diff < 70;
-          if (difficultyFilter === 'very-hard') return diff >= 70;
-          return true;
-        });
-      }
-    }
+  // Load the next page when the end of the table scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !nextCursor) return;
 
-    // Data source filter (using seo_insights)
-    if (dataSourceFilter !== 'all') {
-      filtered = filtered.filter(entry => {
-        const dataSource = entry.seo_insights?.data_source;
-        if (!dataSource) return dataSourceFilter === 'estimated';
-        return dataSource === dataSourceFilter;
-      });
-    }
+    const observer = new IntersectionObserver(([item]) => {
+      if (item.isIntersecting) loadMore();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadingMore]);
+
+  function buildQueueParams(): ApprovalQueueParams {
+    return {
+      ...toApprovalQueueParams({ ...currentFilters, min_volume: debouncedMinVolume }),
+      limit: PAGE_SIZE,
+    };
+  }
 
-    // Article type filter
-    if (articleTypeFilter !== 'all') {
-      filtered = filtered.filter(entry => entry.article_type === articleTypeFilter);
-    }
+  /**
+   * Save an inline edit; errors propagate so the cell can show them in place
+   */
+  async function saveField(entry: CalendarEntry, field: 'keyword' | 'article_type' | 'notes' | 'planned_date', value: string) {
+    const updated = await updateCalendarEntry(entry.id, {
+      [field]: value.trim() || null,
+      reviewer: reviewer.trim() || undefined,
+    });
+    setEntries(prev => prev.map(e => e.id === entry.id
+      ? { ...e, ...updated, cannibalization: field === 'keyword' ? updated.cannibalization || [] : e.cannibalization }
+      : e
+    ));
+  }
 
-    // Opportunity score filter (only applies to real data unless AI-generated selected)
-    if (opportunityFilter !== 'all') {
-      if (opportunityFilter === 'ai-generated') {
-        // Show only AI-generated keywords
-        filtered = filtered.filter(entry =>
-          entry.seo_insights?.data_source !== 'dataforseo'
-        );
-      } else {
-        // For High/Medium/Low - only show real data
-        filtered = filtered.filter(entry => {
-          // Must have real data
-          if (entry.seo_insights?.data_source !== 'dataforseo') return false;
-
-          const score = entry.seo_insights?.priority_score || 0;
-          if (opportunityFilter === 'high') return score >= 70;
-          if (opportunityFilter === 'medium') return score >= 40 && score < 70;
-          if (opportunityFilter === 'low') return score < 40;
-          return true;
-        });
+  async function loadPendingApprovals() {
+    // Ignore responses for filters that have since changed
+    const request = ++latestRequest.current;
+
+    try {
+      setRefreshing(true);
+      const page = await fetchApprovalQueue(buildQueueParams());
+      if (request !== latestRequest.current) return;
+      setEntries(page.data);
+      setTotal(page.total);
+      setValuation(page.valuation);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Failed to load pending approvals:', error);
+    } finally {
+      if (request === latestRequest.current) {
+        setLoading(false);
+        setRefreshing(false);
       }
     }
+  }
 
-    // Min volume filter (only applies to real data)
-    if (minVolume && !isNaN(parseInt(minVolume))) {
-      const min = parseInt(minVolume);
-      filtered = filtered.filter(entry => {
-        // Only filter real data keywords by volume
-        if (entry.seo_insights?.data_source !== 'dataforseo') return false;
-        return (entry.search_volume || 0) >= min;
-      });
-    }
+  async function loadMore() {
+    if (!nextCursor || loadingMore) return;
 
-    // Created date filter (weekly grouping)
-    if (createdFilter !== 'all') {
-      const now = new Date();
-      const todayStart = new Date(now.setHours(0, 0, 0, 0));
-
-      filtered = filtered.filter(entry => {
-        const created = new Date(entry.created_at);
-        const daysDiff = Math.floor((todayStart.getTime() - created.getTime()) / (1000 * 60 * 60 * 24));
-
-        if (createdFilter === 'today') return daysDiff === 0;
-        if (createdFilter === 'this-week') return daysDiff < 7;
-        if (createdFilter === 'last-week') return daysDiff >= 7 && daysDiff < 14;
-        if (createdFilter === 'this-month') return daysDiff < 30;
-        if (createdFilter === 'older') return daysDiff >= 30;
-        return true;
-      });
+    try {
+      setLoadingMore(true);
+      const request = latestRequest.current;
+      const page = await fetchApprovalQueue({ ...buildQueueParams(), cursor: nextCursor });
+      if (request !== latestRequest.current) return;
+      setEntries(current => [...current, ...page.data.filter(entry => !current.some(e => e.id === entry.id))]);
+      setTotal(page.total);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Failed to load more approvals:', error);
+    } finally {
+      setLoadingMore(false);
     }
-
-    // Sorting
-    filtered.sort((a, b) => {
-      let aVal: any, bVal: any;
-
-      switch (sortField) {
-        case 'keyword':
-          aVal = a.keyword.toLowerCase();
-          bVal = b.keyword.toLowerCase();
-          break;
-        case 'search_volume':
-          aVal = a.search_volume || 0;
-          bVal = b.search_volume || 0;
-          break;
-        case 'difficulty':
-          aVal = a.difficulty || 0;
-          bVal = b.difficulty || 0;
-          break;
-        case 'opportunity_score':
-          aVal = a.seo_insights?.priority_score || a.opportunity_score || 0;
-          bVal = b.seo_insights?.priority_score || b.opportunity_score || 0;
-          break;
-        case 'created_at':
-          aVal = new Date(a.created_at).getTime();
-          bVal = new Date(b.created_at).getTime();
-          break;
-        default:
-          return 0;
-      }
-
-      if (sortDirection === 'asc') {
-        return aVal > bVal ? 1 : aVal < bVal ? -1 : 0;
-      } else {
-        return aVal < bVal ? 1 : aVal > bVal ? -1 : 0;
-      }
-    });
-
-    setFilteredEntries(filtered);
   }
 
   function toggleSort(field: SortField) {
@@ -206,25 +228,59 @@ export default function ApprovalFlowTable({ onApprove }: ApprovalFlowProps) {
   }
 
   function selectAll() {
-    setSelected(new Set(filteredEntries.map(e => e.id)));
+    setSelected(new Set(entries.map(e => e.id)));
   }
 
   function clearSelection() {
     setSelected(new Set());
   }
 
+  function requireReviewer(): boolean {
+    if (reviewer.trim()) return true;
+    alert('Enter your name in "Reviewing as" first, so your sign-off is recorded.');
+    return false;
+  }
+
   async function handleApprove() {
-    if (selected.size === 0) return;
+    if (selected.size === 0 || !requireReviewer()) return;
 
     try {
       setApproving(true);
-      await approveArticles({
+      const result = await approveArticles({
         ids: Array.from(selected),
+        reviewer: reviewer.trim(),
         auto_schedule: autoSchedule,
         schedule_start_date: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0],
         per_day: perDay,
       });
 
+      if (result.data.schedule?.length > 0) {
+        const lines = result.data.schedule.map(item =>
+          `• ${item.keyword} → ${item.planned_date || 'not scheduled'}: ${item.reason}`
+        );
+        alert(`✓ Scheduled ${result.summary.scheduled} of ${result.summary.approved} approved entries\n\n${lines.join('\n')}`);
+      }
+
+      if (result.data.failed.length > 0 || result.summary.pending_second_approval > 0) {
+        const lines = [
+          ...result.data.pending.map(entry => `• ${entry.keyword}: waiting for a second reviewer`),
+          ...result.data.failed.map(failure => {
+            const entry = entries.find(e => e.id === failure.id);
+            return `• ${entry?.keyword || failure.id}: ${failure.error}`;
+          })
+        ];
+        alert(`${result.message}\n\n${lines.join('\n')}`);
+      }
+
+      if (result.undo) {
+        setLastAction({
+          token: result.undo,
+          message: result.summary.scheduled > 0
+            ? `Approved ${result.summary.approved}, scheduled ${result.summary.scheduled}`
+            : `Approved ${result.summary.approved}`
+        });
+      }
+
       await loadPendingApprovals();
       setSelected(new Set());
       onApprove();
@@ -237,12 +293,12 @@ export default function ApprovalFlowTable({ onApprove }: ApprovalFlowProps) {
   }
 
   function handleDecline() {
-    if (selected.size === 0) return;
+    if (selected.size === 0 || !requireReviewer()) return;
     setShowDeclineModal(true);
   }
 
   async function handleGenerateNow() {
-    if (selected.size === 0) return;
+    if (selected.size === 0 || !requireReviewer()) return;
 
     if (selected.size > 1) {
       alert('Please select only one keyword to generate at a time.');
@@ -259,17 +315,7 @@ export default function ApprovalFlowTable({ onApprove }: ApprovalFlowProps) {
       setGenerating(true);
       const id = Array.from(selected)[0];
 
-      const response = await fetch(`/api/calendar/${id}/generate`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' }
-      });
-
-      const result = await response.json();
-
-      if (!result.success) {
-        alert(`Failed to start generation: ${result.error}`);
-        return;
-      }
+      const result = await triggerGeneration(id, reviewer);
 
       alert(`✓ Workflow started for "${result.data.keyword}"!\n\nEstimated time: ${result.data.estimatedTime}\n\nThe article will be automatically published when complete.`);
 
@@ -278,7 +324,7 @@ export default function ApprovalFlowTable({ onApprove }: ApprovalFlowProps) {
       onApprove();
     } catch (error) {
       console.error('Failed to generate article:', error);
-      alert('Failed to start generation. Check console for details.');
+      alert(`Failed to start generation: ${(error as Error).message}`);
     } finally {
       setGenerating(false);
     }
@@ -292,21 +338,28 @@ export default function ApprovalFlowTable({ onApprove }: ApprovalFlowProps) {
     try {
       setApproving(true);
 
-      const promises = Array.from(selected).map(id =>
-        fetch(`/api/calendar/${id}`, {
-          method: 'PATCH',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            action: 'reject',
-            decline_reason: reason || undefined
-          })
-        })
-      );
+      const result = await declineArticles({
+        ids: Array.from(selected),
+        reviewer: reviewer.trim(),
+        reason: reason || undefined,
+        reason_categories: skipReason ? undefined : declineCategories,
+      });
 
-      await Promise.all(promises);
+      if (result.summary.failed > 0) {
+        const lines = result.data.failed.map(failure => {
+          const entry = entries.find(e => e.id === failure.id);
+          return `• ${entry?.keyword || failure.id}: ${failure.error}`;
+        });
+        alert(`${result.message}\n\n${lines.join('\n')}`);
+      }
+
+      if (result.undo) {
+        setLastAction({ token: result.undo, message: `Declined ${result.summary.declined}` });
+      }
 
       setShowDeclineModal(false);
       setDeclineReason('');
+      setDeclineCategories([]);
 
       await loadPendingApprovals();
       setSelected(new Set());
@@ -319,11 +372,39 @@ export default function ApprovalFlowTable({ onApprove }: ApprovalFlowProps) {
     }
   }
 
+  function toggleDeclineCategory(category: string) {
+    setDeclineCategories(declineCategories.includes(category)
+      ? declineCategories.filter(c => c !== category)
+      : [...declineCategories, category]);
+  }
+
   function cancelDecline() {
     setShowDeclineModal(false);
     setDeclineReason('');
+    setDeclineCategories([]);
   }
 
+  const importWizard = showImport && (
+    <KeywordImportWizard
+      onClose={() => setShowImport(false)}
+      onImported={() => {
+        loadPendingApprovals();
+        onApprove();
+      }}
+    />
+  );
+
+  const undoToast = lastAction && (
+    <UndoToast
+      token={lastAction.token}
+      message={lastAction.message}
+      onUndone={() => {
+        loadPendingApprovals();
+        onApprove();
+      }}
+      onDismiss={() => setLastAction(null)}
+    />
+  );
 
   if (loading) {
     return (
@@ -333,7 +414,10 @@ export default function ApprovalFlowTable({ onApprove }: ApprovalFlowProps) {
     );
   }
 
-  if (entries.length === 0) {
+  const filtersActive = difficultyFilter !== 'all' || dataSourceFilter !== 'all' || minVolume !== ''
+    || articleTypeFilter !== 'all' || opportunityFilter !== 'all' || roiFilter !== 'all' || createdFilter !== 'all';
+
+  if (entries.length === 0 && !filtersActive && !refreshing) {
     return (
       <div className="text-center py-12">
         <svg className="mx-auto h-12 w-12 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -343,6 +427,14 @@ export default function ApprovalFlowTable({ onApprove }: ApprovalFlowProps) {
         <p className="mt-1 text-sm text-gray-500">
           All AI-suggested keywords have been reviewed. Check back after the next weekly run.
         </p>
+        <button
+          onClick={() => setShowImport(true)}
+          className="mt-4 text-sm text-blue-600 hover:text-blue-700 font-medium"
+        >
+          📥 Import keywords from CSV/JSON
+        </button>
+        {importWizard}
+        {undoToast}
       </div>
     );
   }
@@ -358,8 +450,16 @@ export default function ApprovalFlowTable({ onApprove }: ApprovalFlowProps) {
     <div className="space-y-6">
       {/* Filters */}
       <div className="bg-white border border-gray-200 rounded-lg p-4">
-        <h3 className="text-sm font-medium text-gray-900 mb-3">Filters</h3>
-        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-7 gap-4">
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center space-x-4">
+            <h3 className="text-sm font-medium text-gray-900">Filters</h3>
+            <SavedViewsMenu filters={currentFilters} reviewer={reviewer} onApply={applyFilters} />
+          </div>
+          <span className="text-xs text-gray-500">
+            {refreshing ? 'Updating...' : `${total} matching ${total === 1 ? 'keyword' : 'keywords'}`}
+          </span>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-8 gap-4">
           <div>
             <label className="block text-xs text-gray-700 mb-1">Data Source</label>
             <select
@@ -409,9 +509,27 @@ export default function ApprovalFlowTable({ onApprove }: ApprovalFlowProps) {
             >
               <option value="all">All</option>
               <option value="ai-generated">🤖 AI Generated</option>
-              <option value="high">📊 High (70+)</option>
-              <option value="medium">📊 Medium (40-69)</option>
-              <option value="low">📊 Low (Less than 40)</option>
+              <option value="high">High (70+)</option>
+              <option value="medium">Medium (40-69)</option>
+              <option value="low">Low (Less than 40)</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-700 mb-1">Est. ROI</label>
+            <select
+              value={roiFilter}
+              onChange={(e) => setRoiFilter(e.currentTarget.value)}
+              className="w-full text-sm rounded border-gray-300"
+              title={valuation?.cost.average == null ? 'No generation cost history yet, so ROI cannot be estimated' : undefined}
+            >
+              <option value="all">All</option>
+              <option value="high" disabled={valuation?.cost.average == null}>
+                High (top {Math.round((valuation?.assumptions.highShare ?? 0.25) * 100)}%)
+              </option>
+              <option value="positive" disabled={valuation?.cost.average == null}>Pays back</option>
+              <option value="negative" disabled={valuation?.cost.average == null}>Does not pay back</option>
+              <option value="no-cpc">No CPC data</option>
             </select>
           </div>
 
@@ -455,6 +573,7 @@ export default function ApprovalFlowTable({ onApprove }: ApprovalFlowProps) {
                 setMinVolume('');
                 setArticleTypeFilter('all');
                 setOpportunityFilter('all');
+                setRoiFilter('all');
                 setCreatedFilter('all');
               }}
               className="text-sm text-blue-600 hover:text-blue-700 font-medium whitespace-nowrap"
@@ -473,7 +592,7 @@ export default function ApprovalFlowTable({ onApprove }: ApprovalFlowProps) {
               onClick={selectAll}
               className="text-sm text-blue-600 hover:text-blue-700 font-medium"
             >
-              Select All ({filteredEntries.length})
+              Select All ({entries.length}{total > entries.length ? ` loaded of ${total}` : ''})
             </button>
             <button
               onClick={clearSelection}
@@ -484,6 +603,21 @@ export default function ApprovalFlowTable({ onApprove }: ApprovalFlowProps) {
             <span className="text-sm text-gray-500">
               {selected.size} selected
             </span>
+            <ReviewerInput reviewer={reviewer} onChange={setReviewer} />
+            <button
+              onClick={() => requireReviewer() && setTriaging(true)}
+              disabled={entries.length === 0}
+              className="text-sm text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
+              title="Review the filtered queue one entry at a time with keyboard shortcuts"
+            >
+              ⌨ Triage
+            </button>
+            <button
+              onClick={() => setShowImport(true)}
+              className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+            >
+              📥 Import
+            </button>
           </div>
 
           <div className="flex items-center space-x-3">
@@ -538,7 +672,21 @@ export default function ApprovalFlowTable({ onApprove }: ApprovalFlowProps) {
               </select>
             </div>
           )}
+
+          <button
+            onClick={() => setShowForecast(!showForecast)}
+            className="text-sm text-blue-600 hover:text-blue-700 font-medium"
+            title="Projected traffic if the selected keywords were approved and scheduled"
+          >
+            📈 {showForecast ? 'Hide forecast' : 'Forecast impact'}
+          </button>
         </div>
+
+        {showForecast && (
+          <div className="mt-4">
+            <TrafficForecast approveIds={Array.from(selected)} perDay={perDay} />
+          </div>
+        )}
       </div>
 
       {/* Table */}
@@ -550,7 +698,7 @@ export default function ApprovalFlowTable({ onApprove }: ApprovalFlowProps) {
                 <th className="px-4 py-3 text-left">
                   <input
                     type="checkbox"
-                    checked={filteredEntries.length > 0 && selected.size === filteredEntries.length}
+                    checked={entries.length > 0 && selected.size === entries.length}
                     onChange={(e) => e.currentTarget.checked ? selectAll() : clearSelection()}
                     className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                   />
@@ -591,9 +739,22 @@ export default function ApprovalFlowTable({ onApprove }: ApprovalFlowProps) {
                     <SortIcon field="opportunity_score" />
                   </div>
                 </th>
+                <th
+                  className="px-4 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                  onClick={() => toggleSort('roi')}
+                  title={valuation ? describeValuation(valuation) : undefined}
+                >
+                  <div className="flex items-center space-x-1">
+                    <span>Est. ROI</span>
+                    <SortIcon field="roi" />
+                  </div>
+                </th>
                 <th className="px-4 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
                   Type
                 </th>
+                <th className="px-4 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider">
+                  Planned
+                </th>
                 <th
                   className="px-4 py-3 text-left text-xs font-medium text-gray-700 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
                   onClick={() => toggleSort('created_at')}
@@ -609,7 +770,7 @@ export default function ApprovalFlowTable({ onApprove }: ApprovalFlowProps) {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {filteredEntries.map((entry) => (
+              {entries.map((entry) => (
                 <tr
                   key={entry.id}
                   className={`hover:bg-gray-50 ${selected.has(entry.id) ? 'bg-blue-50' : ''}`}
@@ -625,7 +786,51 @@ export default function ApprovalFlowTable({ onApprove }: ApprovalFlowProps) {
                     />
                   </td>
                   <td className="px-4 py-3 text-sm font-medium text-gray-900">
-                    {entry.keyword}
+                    <div className="flex items-center gap-2">
+                      <EditableCell
+                        value={entry.keyword}
+                        label="keyword"
+                        onSave={(value) => saveField(entry, 'keyword', value)}
+                      >
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onOpenEntry(entry.id);
+                          }}
+                          className="text-left hover:text-blue-600 hover:underline"
+                          title="Open details"
+                        >
+                          {entry.keyword}
+                        </button>
+                      </EditableCell>
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setCommentsEntry(entry);
+                        }}
+                        className={`inline-flex items-center px-1.5 py-0.5 text-xs rounded ${
+                          entry.comment_count
+                            ? 'bg-blue-100 text-blue-700 hover:bg-blue-200'
+                            : 'text-gray-400 hover:text-gray-600'
+                        }`}
+                        title="Comments"
+                      >
+                        💬{entry.comment_count ? ` ${entry.comment_count}` : ''}
+                      </button>
+                    </div>
+                    <ApprovalBadge entry={entry} reviewer={reviewer} />
+                    <AutoRuleBadge entry={entry} />
+                    {entry.cannibalization && entry.cannibalization.length > 0 && (
+                      <span
+                        className="inline-flex mt-1 px-2 py-0.5 text-xs font-medium rounded-full bg-yellow-100 text-yellow-800"
+                        title={entry.cannibalization
+                          .map(match => `"${match.keyword}" (${match.status}, ${Math.round(match.score * 100)}% overlap)`)
+                          .join('\n')}
+                      >
+                        ⚠ Overlaps "{entry.cannibalization[0].keyword}" ({entry.cannibalization[0].status})
+                        {entry.cannibalization.length > 1 && ` +${entry.cannibalization.length - 1}`}
+                      </span>
+                    )}
                   </td>
                   <td className="px-4 py-3 text-sm text-gray-600">
                     <div className="flex items-center space-x-1">
@@ -660,20 +865,33 @@ export default function ApprovalFlowTable({ onApprove }: ApprovalFlowProps) {
                   </td>
                   <td className="px-4 py-3 text-sm">
                     <div className="flex items-center space-x-1">
-                      {entry.seo_insights?.data_source === 'dataforseo' && entry.seo_insights?.priority_score ? (
-                        <>
-                          <span>📊</span>
-                          <span className="font-medium text-green-600">{entry.seo_insights.priority_score}</span>
-                        </>
-                      ) : (
-                        <span>🤖</span>
-                      )}
+                      <span>{entry.seo_insights?.data_source === 'dataforseo' ? '📊' : '🤖'}</span>
+                      <OpportunityScore entry={entry} className="font-medium text-green-600" />
                     </div>
                   </td>
+                  <td className="px-4 py-3 text-sm">
+                    <RoiCell value={entry.value} />
+                  </td>
                   <td className="px-4 py-3 text-sm text-gray-600">
-                    <span className="inline-flex px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
-                      {entry.article_type}
-                    </span>
+                    <EditableCell
+                      value={entry.article_type}
+                      label="article type"
+                      type="select"
+                      options={ARTICLE_TYPES}
+                      onSave={(value) => saveField(entry, 'article_type', value)}
+                    >
+                      <span className="inline-flex px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+                        {entry.article_type}
+                      </span>
+                    </EditableCell>
+                  </td>
+                  <td className="px-4 py-3 text-sm text-gray-600 whitespace-nowrap">
+                    <EditableCell
+                      value={entry.planned_date?.split('T')[0] || ''}
+                      label="planned date"
+                      type="date"
+                      onSave={(value) => saveField(entry, 'planned_date', value)}
+                    />
                   </td>
                   <td className="px-4 py-3 text-sm text-gray-600">
                     {new Date(entry.created_at).toLocaleDateString('en-US', {
@@ -685,9 +903,12 @@ export default function ApprovalFlowTable({ onApprove }: ApprovalFlowProps) {
                   </td>
                   <td className="px-4 py-3 text-sm text-gray-600">
                     <div className="max-w-lg">
-                      <p className="whitespace-normal break-words">
-                        {entry.notes || '-'}
-                      </p>
+                      <EditableCell
+                        value={entry.notes || ''}
+                        label="notes"
+                        type="textarea"
+                        onSave={(value) => saveField(entry, 'notes', value)}
+                      />
                     </div>
                   </td>
                 </tr>
@@ -696,11 +917,23 @@ export default function ApprovalFlowTable({ onApprove }: ApprovalFlowProps) {
           </table>
         </div>
 
-        {filteredEntries.length === 0 && (
+        {entries.length === 0 && !refreshing && (
           <div className="text-center py-8 text-gray-500 text-sm">
             No keywords match your filters. Try adjusting the filter criteria.
           </div>
         )}
+
+        {nextCursor && (
+          <div ref={loadMoreRef} className="text-center py-4 border-t border-gray-200">
+            <button
+              onClick={loadMore}
+              disabled={loadingMore}
+              className="text-sm text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
+            >
+              {loadingMore ? 'Loading...' : `Load more (${entries.length} of ${total})`}
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Decline Reason Modal */}
@@ -721,9 +954,31 @@ export default function ApprovalFlowTable({ onApprove }: ApprovalFlowProps) {
               </ul>
             </div>
 
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Categories <span className="text-gray-500">(Select all that apply)</span>
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {DECLINE_CATEGORIES.map(category => (
+                  <button
+                    key={category.value}
+                    type="button"
+                    onClick={() => toggleDeclineCategory(category.value)}
+                    className={`px-3 py-1 rounded-full text-sm border transition ${
+                      declineCategories.includes(category.value)
+                        ? 'bg-red-50 border-red-300 text-red-700'
+                        : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {category.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
             <div className="mb-6">
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Why are you declining? <span className="text-gray-500">(Optional)</span>
+                Anything else? <span className="text-gray-500">(Optional)</span>
               </label>
               <p className="text-xs text-gray-500 mb-2">
                 This feedback helps the AI improve future keyword suggestions
@@ -763,6 +1018,36 @@ export default function ApprovalFlowTable({ onApprove }: ApprovalFlowProps) {
           </div>
         </div>
       )}
+
+      {triaging && (
+        <TriageMode
+          entries={entries}
+          reviewer={reviewer}
+          autoSchedule={autoSchedule}
+          perDay={perDay}
+          onClose={(changed) => {
+            setTriaging(false);
+            if (changed) {
+              loadPendingApprovals();
+              onApprove();
+            }
+          }}
+        />
+      )}
+
+      {commentsEntry && (
+        <EntryCommentsPanel
+          entry={commentsEntry}
+          author={reviewer}
+          onClose={() => setCommentsEntry(null)}
+          onCountChange={(count) => {
+            setEntries(current => current.map(e => (e.id === commentsEntry.id ? { ...e, comment_count: count } : e)));
+          }}
+        />
+      )}
+
+      {importWizard}
+      {undoToast}
     </div>
   );
 }
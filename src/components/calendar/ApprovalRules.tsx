@@ -0,0 +1,503 @@
+import { useState, useEffect } from 'preact/hooks';
+import {
+  fetchApprovalRules,
+  createApprovalRule,
+  updateApprovalRule,
+  deleteApprovalRule,
+  previewApprovalRule,
+  type ApprovalRule,
+  type ApprovalRuleInput,
+  type RuleCondition,
+  type RuleDecision,
+  type RuleOperator,
+  type RulePreview,
+} from '../../lib/calendarApi';
+import { DECLINE_CATEGORIES } from '../../lib/declineReasons.js';
+import { useReviewer } from './ReviewerStatus';
+
+interface DraftCondition {
+  field: string;
+  op: string;
+  value: string;
+}
+
+interface RuleDraft {
+  id?: string;
+  name: string;
+  decision: RuleDecision;
+  priority: string;
+  enabled: boolean;
+  auto_schedule: boolean;
+  decline_categories: string[];
+  decline_reason: string;
+  conditions: DraftCondition[];
+}
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: '',
+  decision: 'approve',
+  priority: '100',
+  enabled: true,
+  auto_schedule: false,
+  decline_categories: [],
+  decline_reason: '',
+  conditions: [{ field: 'difficulty', op: 'lt', value: '' }],
+};
+
+/**
+ * Admin page for auto-approve / auto-decline rules: list, edit, switch on and off, and dry-run against past entries
+ */
+export default function ApprovalRules() {
+  const [rules, setRules] = useState<ApprovalRule[]>([]);
+  const [fields, setFields] = useState<string[]>([]);
+  const [operators, setOperators] = useState<RuleOperator[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [previews, setPreviews] = useState<Record<string, RulePreview>>({});
+  const [previewing, setPreviewing] = useState<string | null>(null);
+  const [reviewer] = useReviewer();
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  async function loadRules() {
+    try {
+      setLoading(true);
+      const result = await fetchApprovalRules();
+      setRules(result.rules);
+      setFields(result.fields);
+      setOperators(result.operators);
+    } catch (err) {
+      console.error('Failed to load approval rules:', err);
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function takes(op: string): RuleOperator['takes'] {
+    return operators.find(o => o.value === op)?.takes || 'any';
+  }
+
+  function toInput(rule: RuleDraft): ApprovalRuleInput {
+    return {
+      name: rule.name.trim(),
+      decision: rule.decision,
+      priority: parseInt(rule.priority) || 0,
+      enabled: rule.enabled,
+      auto_schedule: rule.auto_schedule,
+      decline_categories: rule.decline_categories,
+      decline_reason: rule.decline_reason.trim() || null,
+      conditions: rule.conditions.map(condition => toCondition(condition, takes(condition.op))),
+    };
+  }
+
+  async function handlePreview(key: string, rule: ApprovalRuleInput) {
+    try {
+      setPreviewing(key);
+      setError(null);
+      const preview = await previewApprovalRule(rule);
+      setPreviews(prev => ({ ...prev, [key]: preview }));
+    } catch (err) {
+      console.error('Failed to preview rule:', err);
+      setError((err as Error).message);
+    } finally {
+      setPreviewing(null);
+    }
+  }
+
+  async function handleSave() {
+    if (!draft) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+      const input = toInput(draft);
+      if (draft.id) {
+        await updateApprovalRule(draft.id, input);
+      } else {
+        await createApprovalRule({ ...input, created_by: reviewer.trim() || undefined });
+      }
+      setDraft(null);
+      await loadRules();
+    } catch (err) {
+      console.error('Failed to save rule:', err);
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleToggle(rule: ApprovalRule) {
+    try {
+      const updated = await updateApprovalRule(rule.id, { enabled: !rule.enabled });
+      setRules(prev => prev.map(r => (r.id === rule.id ? updated : r)));
+    } catch (err) {
+      console.error('Failed to update rule:', err);
+      alert(`Failed to update rule: ${(err as Error).message}`);
+    }
+  }
+
+  async function handleDelete(rule: ApprovalRule) {
+    if (!confirm(`Delete the rule "${rule.name}"? Entries it decided keep its name.`)) return;
+
+    try {
+      await deleteApprovalRule(rule.id);
+      await loadRules();
+    } catch (err) {
+      console.error('Failed to delete rule:', err);
+      alert(`Failed to delete rule: ${(err as Error).message}`);
+    }
+  }
+
+  function updateCondition(index: number, changes: Partial<DraftCondition>) {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      conditions: draft.conditions.map((c, i) => (i === index ? { ...c, ...changes } : c)),
+    });
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          New suggestions created through the API run through enabled rules, lowest priority number first.
+          The first rule whose conditions all match approves or declines the entry in its name.
+        </p>
+        {!draft && (
+          <button
+            onClick={() => setDraft({ ...EMPTY_DRAFT, conditions: [...EMPTY_DRAFT.conditions] })}
+            className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 font-medium whitespace-nowrap"
+          >
+            New rule
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-800">{error}</div>
+      )}
+
+      {draft && (
+        <div className="bg-white border border-blue-200 rounded-lg p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <label className="md:col-span-2 text-sm text-gray-700">
+              Name
+              <input
+                type="text"
+                value={draft.name}
+                onInput={(e) => setDraft({ ...draft, name: e.currentTarget.value })}
+                className="mt-1 w-full text-sm rounded border-gray-300"
+              />
+            </label>
+            <label className="text-sm text-gray-700">
+              Decision
+              <select
+                value={draft.decision}
+                onChange={(e) => setDraft({ ...draft, decision: e.currentTarget.value as RuleDecision })}
+                className="mt-1 w-full text-sm rounded border-gray-300"
+              >
+                <option value="approve">Approve</option>
+                <option value="decline">Decline</option>
+              </select>
+            </label>
+            <label className="text-sm text-gray-700">
+              Priority
+              <input
+                type="number"
+                value={draft.priority}
+                onInput={(e) => setDraft({ ...draft, priority: e.currentTarget.value })}
+                className="mt-1 w-full text-sm rounded border-gray-300"
+              />
+            </label>
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium text-gray-900">When all of these match</h4>
+            <datalist id="rule-fields">
+              {fields.map(field => <option key={field} value={field} />)}
+            </datalist>
+            {draft.conditions.map((condition, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <input
+                  type="text"
+                  list="rule-fields"
+                  value={condition.field}
+                  onInput={(e) => updateCondition(index, { field: e.currentTarget.value })}
+                  className="w-56 text-sm rounded border-gray-300"
+                  aria-label="Field"
+                />
+                <select
+                  value={condition.op}
+                  onChange={(e) => updateCondition(index, { op: e.currentTarget.value })}
+                  className="text-sm rounded border-gray-300"
+                  aria-label="Operator"
+                >
+                  {operators.map(op => <option key={op.value} value={op.value}>{op.label}</option>)}
+                </select>
+                {takes(condition.op) !== 'none' && (
+                  <input
+                    type={takes(condition.op) === 'number' ? 'number' : 'text'}
+                    value={condition.value}
+                    onInput={(e) => updateCondition(index, { value: e.currentTarget.value })}
+                    placeholder={takes(condition.op) === 'list' ? 'guide, tutorial' : ''}
+                    className="flex-1 text-sm rounded border-gray-300"
+                    aria-label="Value"
+                  />
+                )}
+                <button
+                  onClick={() => setDraft({ ...draft, conditions: draft.conditions.filter((_, i) => i !== index) })}
+                  disabled={draft.conditions.length === 1}
+                  className="text-gray-400 hover:text-red-600 disabled:opacity-30"
+                  aria-label="Remove condition"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => setDraft({ ...draft, conditions: [...draft.conditions, { field: '', op: 'eq', value: '' }] })}
+              className="text-sm text-blue-600 hover:text-blue-700"
+            >
+              + Add condition
+            </button>
+          </div>
+
+          {draft.decision === 'approve' ? (
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={draft.auto_schedule}
+                onChange={(e) => setDraft({ ...draft, auto_schedule: e.currentTarget.checked })}
+                className="rounded border-gray-300 mr-2"
+              />
+              Schedule approved entries in the first free publishing slot
+            </label>
+          ) : (
+            <div className="space-y-2">
+              <div className="flex flex-wrap gap-3">
+                {DECLINE_CATEGORIES.map(category => (
+                  <label key={category.value} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={draft.decline_categories.includes(category.value)}
+                      onChange={() => setDraft({
+                        ...draft,
+                        decline_categories: draft.decline_categories.includes(category.value)
+                          ? draft.decline_categories.filter(c => c !== category.value)
+                          : [...draft.decline_categories, category.value],
+                      })}
+                      className="rounded border-gray-300 mr-1"
+                    />
+                    {category.label}
+                  </label>
+                ))}
+              </div>
+              <input
+                type="text"
+                value={draft.decline_reason}
+                onInput={(e) => setDraft({ ...draft, decline_reason: e.currentTarget.value })}
+                placeholder="Feedback recorded on declined entries (optional)"
+                className="w-full text-sm rounded border-gray-300"
+              />
+            </div>
+          )}
+
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={draft.enabled}
+              onChange={(e) => setDraft({ ...draft, enabled: e.currentTarget.checked })}
+              className="rounded border-gray-300 mr-2"
+            />
+            Enabled
+          </label>
+
+          {previews.draft && <PreviewPanel preview={previews.draft} decision={draft.decision} />}
+
+          <div className="flex justify-end space-x-2">
+            <button onClick={() => setDraft(null)} className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800">
+              Cancel
+            </button>
+            <button
+              onClick={() => handlePreview('draft', toInput(draft))}
+              disabled={previewing === 'draft'}
+              className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 font-medium"
+            >
+              {previewing === 'draft' ? 'Previewing...' : 'Preview'}
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || !draft.name.trim()}
+              className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50 font-medium"
+            >
+              {saving ? 'Saving...' : draft.id ? 'Save rule' : 'Create rule'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {rules.length === 0 ? (
+        <div className="text-center py-12">
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No approval rules yet</h3>
+          <p className="mt-1 text-sm text-gray-500">Every suggestion waits for a reviewer until you add one.</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {rules.map(rule => (
+            <div key={rule.id} className={`bg-white border rounded-lg p-4 ${rule.enabled ? 'border-gray-200' : 'border-dashed border-gray-300 opacity-75'}`}>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full ${rule.decision === 'approve' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                      Auto-{rule.decision}
+                    </span>
+                    <span className="font-medium text-gray-900">{rule.name}</span>
+                    <span className="text-xs text-gray-500">priority {rule.priority}</span>
+                    {rule.auto_schedule && <span className="text-xs text-gray-500">· auto-schedules</span>}
+                  </div>
+                  <div className="mt-2 flex flex-wrap gap-1">
+                    {rule.conditions.map((condition, i) => (
+                      <span key={i} className="px-2 py-0.5 text-xs font-mono bg-gray-100 text-gray-700 rounded">
+                        {describeCondition(condition, operators)}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex items-center gap-3 text-sm whitespace-nowrap">
+                  <label className="flex items-center text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={() => handleToggle(rule)}
+                      className="rounded border-gray-300 mr-1"
+                    />
+                    Enabled
+                  </label>
+                  <button
+                    onClick={() => handlePreview(rule.id, rule)}
+                    disabled={previewing === rule.id}
+                    className="text-gray-600 hover:text-gray-800 disabled:opacity-50"
+                  >
+                    {previewing === rule.id ? 'Previewing...' : 'Preview'}
+                  </button>
+                  <button onClick={() => setDraft(fromRule(rule))} className="text-blue-600 hover:text-blue-700">
+                    Edit
+                  </button>
+                  <button onClick={() => handleDelete(rule)} className="text-gray-500 hover:text-red-600">
+                    Delete
+                  </button>
+                </div>
+              </div>
+              {previews[rule.id] && <PreviewPanel preview={previews[rule.id]} decision={rule.decision} />}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function PreviewPanel({ preview, decision }: { preview: RulePreview; decision: RuleDecision }) {
+  return (
+    <div className="mt-3 p-3 bg-gray-50 border border-gray-200 rounded text-sm space-y-2">
+      <p className="text-gray-700">
+        Would have matched <strong>{preview.matched}</strong> of {preview.scanned} entries:
+        {' '}{preview.outcomes.approved} approved, {preview.outcomes.declined} declined, {preview.outcomes.pending} still pending
+        {preview.outcomes.by_rule > 0 && <>, {preview.outcomes.by_rule} decided by a rule</>}.
+        {preview.agreement !== null && (
+          <> Reviewers made the same call {Math.round(preview.agreement * 100)}% of the time.</>
+        )}
+      </p>
+      {preview.conflicts.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-red-700">
+            Reviewers {decision === 'approve' ? 'declined' : 'approved'} these matches:
+          </p>
+          <ul className="mt-1 text-xs text-gray-700 space-y-0.5">
+            {preview.conflicts.map(match => (
+              <li key={match.id}>
+                <a href={`/?entry=${match.id}`} className="text-blue-600 hover:text-blue-700">{match.keyword}</a>
+                <span className="text-gray-500">
+                  {' '}· {match.article_type} · vol {match.search_volume ?? '—'} · KD {match.difficulty ?? '—'}
+                  {match.decided_by && ` · ${match.decided_by}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {preview.sample.length > 0 && (
+        <details>
+          <summary className="text-xs text-gray-600 cursor-pointer">Matched entries ({preview.sample.length} shown)</summary>
+          <ul className="mt-1 text-xs text-gray-700 space-y-0.5">
+            {preview.sample.map(match => (
+              <li key={match.id}>
+                <a href={`/?entry=${match.id}`} className="text-blue-600 hover:text-blue-700">{match.keyword}</a>
+                <span className="text-gray-500"> · {match.status.replace(/_/g, ' ')}</span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
+
+function fromRule(rule: ApprovalRule): RuleDraft {
+  return {
+    id: rule.id,
+    name: rule.name,
+    decision: rule.decision,
+    priority: String(rule.priority),
+    enabled: rule.enabled,
+    auto_schedule: rule.auto_schedule,
+    decline_categories: rule.decline_categories || [],
+    decline_reason: rule.decline_reason || '',
+    conditions: rule.conditions.map(condition => ({
+      field: condition.field,
+      op: condition.op,
+      value: Array.isArray(condition.value) ? condition.value.join(', ') : String(condition.value ?? ''),
+    })),
+  };
+}
+
+function toCondition({ field, op, value }: DraftCondition, takes: RuleOperator['takes']): RuleCondition {
+  const text = value.trim();
+  switch (takes) {
+    case 'none':
+      return { field: field.trim(), op };
+    case 'number':
+      return { field: field.trim(), op, value: text === '' ? NaN : Number(text) };
+    case 'list':
+      return { field: field.trim(), op, value: text.split(',').map(item => item.trim()).filter(Boolean).map(toScalar) };
+    case 'text':
+      return { field: field.trim(), op, value: text };
+    default:
+      return { field: field.trim(), op, value: toScalar(text) };
+  }
+}
+
+// Numbers typed as text still compare as numbers
+function toScalar(text: string): string | number {
+  return /^-?\d+(\.\d+)?$/.test(text) ? Number(text) : text;
+}
+
+function describeCondition({ field, op, value }: RuleCondition, operators: RuleOperator[]): string {
+  const operator = operators.find(o => o.value === op);
+  if (!operator) return `${field} ${op}`;
+  if (operator.takes === 'none') return `${field} ${operator.label}`;
+  return `${field} ${operator.label} ${Array.isArray(value) ? value.join(', ') : value}`;
+}
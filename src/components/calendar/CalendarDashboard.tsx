@@ -1,7 +1,38 @@
 import { useState, useEffect } from 'preact/hooks';
 import { fetchCalendarStats, type CalendarEntry } from '../../lib/calendarApi';
 import ApprovalFlowTable from './ApprovalFlowTable';
+import CalendarGrid from './CalendarGrid';
 import CalendarStats from './CalendarStats';
+import TopicClusters from './TopicClusters';
+import EntryDetailDrawer from './EntryDetailDrawer';
+
+type DashboardTab = 'overview' | 'calendar' | 'clusters' | 'approvals';
+
+const TABS: DashboardTab[] = ['overview', 'calendar', 'clusters', 'approvals'];
+
+// The open tab is kept in ?tab= so shared approval filter links land on the right view
+function readUrlTab(): DashboardTab {
+  if (typeof window === 'undefined') return 'overview';
+  const tab = new URLSearchParams(window.location.search).get('tab') as DashboardTab;
+  return TABS.includes(tab) ? tab : 'overview';
+}
+
+// ?entry=<id> opens the detail drawer (the ICS feed links here)
+function readUrlEntry(): string | null {
+  if (typeof window === 'undefined') return null;
+  return new URLSearchParams(window.location.search).get('entry');
+}
+
+function updateUrlParam(key: string, value: string | null) {
+  const params = new URLSearchParams(window.location.search);
+  if (value === null) {
+    params.delete(key);
+  } else {
+    params.set(key, value);
+  }
+  const search = params.toString();
+  window.history.replaceState(null, '', `${window.location.pathname}${search ? `?${search}` : ''}`);
+}
 
 export default function CalendarDashboard() {
   const [stats, setStats] = useState({
@@ -12,15 +43,17 @@ export default function CalendarDashboard() {
     todayScheduled: null as CalendarEntry | null,
   });
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'overview' | 'approvals'>('overview');
+  const [activeTab, setActiveTab] = useState<DashboardTab>(readUrlTab);
+  const [openEntryId, setOpenEntryId] = useState<string | null>(readUrlEntry);
+  const [dataVersion, setDataVersion] = useState(0);
 
   useEffect(() => {
     loadStats();
   }, []);
 
-  async function loadStats() {
+  async function loadStats(showSpinner = true) {
     try {
-      setLoading(true);
+      if (showSpinner) setLoading(true);
 
       // Fetch all stats in a single optimized call
       const statsData = await fetchCalendarStats();
@@ -32,6 +65,22 @@ export default function CalendarDashboard() {
     }
   }
 
+  function selectTab(tab: DashboardTab) {
+    setActiveTab(tab);
+    updateUrlParam('tab', tab === 'overview' ? null : tab);
+  }
+
+  function openEntry(id: string | null) {
+    setOpenEntryId(id);
+    updateUrlParam('entry', id);
+  }
+
+  // Reload the open tab's list without unmounting the drawer
+  function handleEntryChanged() {
+    setDataVersion(v => v + 1);
+    loadStats(false);
+  }
+
   if (loading) {
     return (
       <div className="flex items-center justify-center py-12">
@@ -46,7 +95,7 @@ export default function CalendarDashboard() {
       <div className="border-b border-gray-200">
         <nav className="-mb-px flex space-x-8">
           <button
-            onClick={() => setActiveTab('overview')}
+            onClick={() => selectTab('overview')}
             className={`${
               activeTab === 'overview'
                 ? 'border-blue-500 text-blue-600'
@@ -56,7 +105,27 @@ export default function CalendarDashboard() {
             Overview
           </button>
           <button
-            onClick={() => setActiveTab('approvals')}
+            onClick={() => selectTab('calendar')}
+            className={`${
+              activeTab === 'calendar'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            } whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm`}
+          >
+            Calendar
+          </button>
+          <button
+            onClick={() => selectTab('clusters')}
+            className={`${
+              activeTab === 'clusters'
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            } whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm`}
+          >
+            Topic Clusters
+          </button>
+          <button
+            onClick={() => selectTab('approvals')}
             className={`${
               activeTab === 'approvals'
                 ? 'border-blue-500 text-blue-600'
@@ -74,10 +143,26 @@ export default function CalendarDashboard() {
       </div>
 
       {/* Content */}
-      {activeTab === 'overview' ? (
-        <CalendarStats stats={stats} onRefresh={loadStats} />
-      ) : (
-        <ApprovalFlowTable onApprove={loadStats} />
+      {activeTab === 'overview' && (
+        <CalendarStats key={dataVersion} stats={stats} onRefresh={loadStats} onOpenEntry={openEntry} />
+      )}
+      {activeTab === 'calendar' && (
+        <CalendarGrid key={dataVersion} onReschedule={loadStats} onOpenEntry={openEntry} />
+      )}
+      {activeTab === 'clusters' && (
+        <TopicClusters key={dataVersion} onOpenEntry={openEntry} />
+      )}
+      {activeTab === 'approvals' && (
+        <ApprovalFlowTable key={dataVersion} onApprove={loadStats} onOpenEntry={openEntry} />
+      )}
+
+      {openEntryId && (
+        <EntryDetailDrawer
+          entryId={openEntryId}
+          onClose={() => openEntry(null)}
+          onOpenEntry={openEntry}
+          onChanged={handleEntryChanged}
+        />
       )}
     </div>
   );
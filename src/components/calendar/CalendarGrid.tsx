@@ -0,0 +1,311 @@
+import { useState, useEffect } from 'preact/hooks';
+import {
+  fetchCalendarEntries,
+  runEntryAction,
+  getStatusColor,
+  type CalendarEntry,
+  type UndoToken,
+} from '../../lib/calendarApi';
+import UndoToast from './UndoToast';
+import { useReviewer } from './ReviewerStatus';
+
+interface CalendarGridProps {
+  onReschedule: () => void;
+  onOpenEntry: (id: string) => void;
+}
+
+type GridView = 'month' | 'week';
+
+// Statuses that occupy a day on the calendar
+const GRID_STATUSES = ['scheduled', 'generating', 'in_progress', 'published'];
+
+// Only entries in these statuses can be moved via the reschedule action
+const DRAGGABLE_STATUSES = ['scheduled'];
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export default function CalendarGrid({ onReschedule, onOpenEntry }: CalendarGridProps) {
+  const [view, setView] = useState<GridView>('month');
+  const [anchorDate, setAnchorDate] = useState<Date>(startOfDay(new Date()));
+  const [entries, setEntries] = useState<CalendarEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [lastAction, setLastAction] = useState<{ token: UndoToken; message: string } | null>(null);
+  const [reviewer] = useReviewer();
+
+  const days = getVisibleDays(view, anchorDate);
+  const windowStart = toDateKey(days[0]);
+  const windowEnd = toDateKey(days[days.length - 1]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [windowStart, windowEnd]);
+
+  async function loadEntries() {
+    try {
+      setLoading(true);
+      const result = await fetchCalendarEntries({
+        start_date: windowStart,
+        end_date: windowEnd,
+        limit: 500,
+      });
+      setEntries(result.data.filter(entry => GRID_STATUSES.includes(entry.status)));
+    } catch (error) {
+      console.error('Failed to load calendar window:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function navigate(direction: -1 | 1) {
+    const next = new Date(anchorDate);
+    if (view === 'month') {
+      next.setDate(1);
+      next.setMonth(next.getMonth() + direction);
+    } else {
+      next.setDate(next.getDate() + direction * 7);
+    }
+    setAnchorDate(next);
+  }
+
+  async function handleDrop(dateKey: string) {
+    const id = draggingId;
+    setDraggingId(null);
+    setDropTarget(null);
+    if (!id) return;
+
+    const entry = entries.find(e => e.id === id);
+    if (!entry || entry.planned_date === dateKey) return;
+
+    // Optimistically move the entry, then reconcile with the server
+    const previous = entries;
+    setEntries(entries.map(e => (e.id === id ? { ...e, planned_date: dateKey } : e)));
+
+    try {
+      setSaving(true);
+      const result = await runEntryAction(id, {
+        action: 'reschedule',
+        planned_date: dateKey,
+        reviewer: reviewer.trim() || undefined,
+      });
+      setEntries(current => current.map(e => (e.id === id ? { ...e, ...result.data } : e)));
+      if (result.undo) {
+        setLastAction({ token: result.undo, message: `Moved "${entry.keyword}" to ${dateKey}` });
+      }
+      onReschedule();
+    } catch (error) {
+      console.error('Failed to reschedule entry:', error);
+      alert(`Failed to reschedule "${entry.keyword}". Check console for details.`);
+      setEntries(previous);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const entriesByDate: Record<string, CalendarEntry[]> = {};
+  for (const entry of entries) {
+    if (!entry.planned_date) continue;
+    const key = entry.planned_date.split('T')[0];
+    (entriesByDate[key] = entriesByDate[key] || []).push(entry);
+  }
+
+  const todayKey = toDateKey(new Date());
+  const title = view === 'month'
+    ? anchorDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+    : `${days[0].toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} – ${days[6].toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4 flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => navigate(-1)}
+            className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 text-sm"
+          >
+            ←
+          </button>
+          <button
+            onClick={() => setAnchorDate(startOfDay(new Date()))}
+            className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 text-sm font-medium text-gray-700"
+          >
+            Today
+          </button>
+          <button
+            onClick={() => navigate(1)}
+            className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 text-sm"
+          >
+            →
+          </button>
+          <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+          {(loading || saving) && (
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+          )}
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <a
+            href="/api/calendar/feed.ics"
+            title="Subscribe from Google Calendar or Outlook using this URL"
+            className="px-3 py-1 text-sm text-blue-600 hover:text-blue-700 font-medium"
+          >
+            📆 Subscribe (.ics)
+          </a>
+          {(['month', 'week'] as GridView[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setView(option)}
+              className={`px-3 py-1 rounded-lg text-sm font-medium transition ${
+                view === option
+                  ? 'bg-blue-600 text-white'
+                  : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option === 'month' ? 'Month' : 'Week'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Grid */}
+      <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+        <div className="grid grid-cols-7 bg-gray-50 border-b border-gray-200">
+          {WEEKDAY_LABELS.map(label => (
+            <div key={label} className="px-2 py-2 text-xs font-medium text-gray-700 uppercase tracking-wider text-center">
+              {label}
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-7">
+          {days.map(day => {
+            const dateKey = toDateKey(day);
+            const dayEntries = entriesByDate[dateKey] || [];
+            const outsideMonth = view === 'month' && day.getMonth() !== anchorDate.getMonth();
+
+            return (
+              <div
+                key={dateKey}
+                onDragOver={(e) => {
+                  if (!draggingId) return;
+                  e.preventDefault();
+                  setDropTarget(dateKey);
+                }}
+                onDragLeave={() => setDropTarget(current => (current === dateKey ? null : current))}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  handleDrop(dateKey);
+                }}
+                className={`border-b border-r border-gray-200 p-2 ${view === 'month' ? 'min-h-28' : 'min-h-64'} ${
+                  dropTarget === dateKey ? 'bg-blue-50' : outsideMonth ? 'bg-gray-50' : 'bg-white'
+                }`}
+              >
+                <div className={`text-xs font-medium mb-1 ${
+                  dateKey === todayKey
+                    ? 'inline-flex items-center justify-center w-6 h-6 rounded-full bg-blue-600 text-white'
+                    : outsideMonth ? 'text-gray-400' : 'text-gray-700'
+                }`}>
+                  {day.getDate()}
+                </div>
+
+                <div className="space-y-1">
+                  {dayEntries.map(entry => {
+                    const color = getStatusColor(entry.status);
+                    const draggable = DRAGGABLE_STATUSES.includes(entry.status);
+
+                    return (
+                      <div
+                        key={entry.id}
+                        draggable={draggable}
+                        onDragStart={(e) => {
+                          e.dataTransfer?.setData('text/plain', entry.id);
+                          setDraggingId(entry.id);
+                        }}
+                        onDragEnd={() => {
+                          setDraggingId(null);
+                          setDropTarget(null);
+                        }}
+                        onClick={() => onOpenEntry(entry.id)}
+                        title={`${entry.keyword} • ${entry.article_type} • ${entry.status}`}
+                        className={`px-2 py-1 text-xs rounded bg-${color}-100 text-${color}-700 truncate ${
+                          draggable ? 'cursor-move' : 'cursor-pointer'
+                        } ${draggingId === entry.id ? 'opacity-50' : ''}`}
+                      >
+                        {entry.keyword}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Legend */}
+      <div className="flex items-center space-x-4 text-xs text-gray-600">
+        {GRID_STATUSES.map(status => {
+          const color = getStatusColor(status);
+          return (
+            <div key={status} className="flex items-center">
+              <span className={`inline-block w-3 h-3 rounded mr-1 bg-${color}-100 border border-${color}-300`}></span>
+              <span className="capitalize">{status.replace('_', ' ')}</span>
+            </div>
+          );
+        })}
+        <span className="text-gray-400">Drag scheduled entries to another day to reschedule</span>
+      </div>
+
+      {lastAction && (
+        <UndoToast
+          token={lastAction.token}
+          message={lastAction.message}
+          onUndone={() => {
+            loadEntries();
+            onReschedule();
+          }}
+          onDismiss={() => setLastAction(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+/**
+ * Days shown for the current view, padded to whole weeks (Sunday first)
+ */
+function getVisibleDays(view: GridView, anchor: Date): Date[] {
+  let start: Date;
+  let count: number;
+
+  if (view === 'month') {
+    const first = new Date(anchor.getFullYear(), anchor.getMonth(), 1);
+    const last = new Date(anchor.getFullYear(), anchor.getMonth() + 1, 0);
+    start = addDays(first, -first.getDay());
+    count = Math.ceil((first.getDay() + last.getDate()) / 7) * 7;
+  } else {
+    start = addDays(startOfDay(anchor), -anchor.getDay());
+    count = 7;
+  }
+
+  return Array.from({ length: count }, (_, i) => addDays(start, i));
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+function addDays(date: Date, amount: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + amount);
+}
+
+/**
+ * Local YYYY-MM-DD key, matching the planned_date column format
+ */
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
@@ -1,6 +1,16 @@
 import { useState, useEffect } from 'preact/hooks';
-import { type CalendarEntry } from '../../lib/calendarApi';
+import {
+  fetchFailedGenerations,
+  runGenerationWatchdog,
+  runEntryAction,
+  triggerGeneration,
+  type CalendarEntry,
+  type UndoToken,
+} from '../../lib/calendarApi';
 import StrategySummarizer from './StrategySummarizer';
+import TrafficForecast from './TrafficForecast';
+import UndoToast from './UndoToast';
+import { useReviewer } from './ReviewerStatus';
 
 interface StatsProps {
   stats: {
@@ -11,21 +21,88 @@ interface StatsProps {
     todayScheduled: CalendarEntry | null;
   };
   onRefresh: () => void;
+  onOpenEntry: (id: string) => void;
 }
 
-export default function CalendarStats({ stats, onRefresh }: StatsProps) {
+export default function CalendarStats({ stats, onRefresh, onOpenEntry }: StatsProps) {
   const [scheduledArticles, setScheduledArticles] = useState<CalendarEntry[]>([]);
   const [runningJobs, setRunningJobs] = useState<CalendarEntry[]>([]);
+  const [failedJobs, setFailedJobs] = useState<CalendarEntry[]>([]);
+  const [recoveringId, setRecoveringId] = useState<string | null>(null);
+  const [lastAction, setLastAction] = useState<{ token: UndoToken; message: string } | null>(null);
+  const [reviewer] = useReviewer();
 
   useEffect(() => {
     loadScheduledArticles();
-    loadRunningJobs();
+    sweepStuckGenerations();
 
-    // Poll for running jobs every 10 seconds
+    // Poll for running jobs every 10 seconds and failed ones every minute;
+    // the scheduled watchdog (vercel.json) recovers stuck ones in between
     const interval = setInterval(loadRunningJobs, 10000);
-    return () => clearInterval(interval);
+    const failedInterval = setInterval(loadFailedJobs, 60000);
+    return () => {
+      clearInterval(interval);
+      clearInterval(failedInterval);
+    };
   }, []);
 
+  async function sweepStuckGenerations() {
+    try {
+      await runGenerationWatchdog();
+    } catch (error) {
+      console.error('Failed to run generation watchdog:', error);
+    }
+    await Promise.all([loadRunningJobs(), loadFailedJobs()]);
+  }
+
+  async function loadFailedJobs() {
+    try {
+      setFailedJobs(await fetchFailedGenerations());
+    } catch (error) {
+      console.error('Failed to load failed generations:', error);
+    }
+  }
+
+  async function retryGeneration(job: CalendarEntry) {
+    try {
+      setRecoveringId(job.id);
+      await triggerGeneration(job.id, reviewer);
+    } catch (error) {
+      console.error('Failed to retry generation:', error);
+      alert(`Failed to retry generation: ${(error as Error).message}`);
+    } finally {
+      setRecoveringId(null);
+      await Promise.all([loadRunningJobs(), loadFailedJobs()]);
+      onRefresh();
+    }
+  }
+
+  async function revertToScheduled(job: CalendarEntry) {
+    const today = new Date().toISOString().split('T')[0];
+    const plannedDate = job.planned_date && job.planned_date >= today
+      ? job.planned_date
+      : new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+
+    try {
+      setRecoveringId(job.id);
+      const result = await runEntryAction(job.id, {
+        action: 'reschedule',
+        planned_date: plannedDate,
+        reviewer: reviewer.trim() || undefined,
+      });
+      if (result.undo) {
+        setLastAction({ token: result.undo, message: `Rescheduled "${job.keyword}" for ${plannedDate}` });
+      }
+    } catch (error) {
+      console.error('Failed to reschedule entry:', error);
+      alert('Failed to reschedule entry. Check console for details.');
+    } finally {
+      setRecoveringId(null);
+      await loadFailedJobs();
+      onRefresh();
+    }
+  }
+
   async function loadScheduledArticles() {
     try {
       const response = await fetch('/api/calendar?status=scheduled&limit=5');
@@ -62,9 +139,12 @@ export default function CalendarStats({ stats, onRefresh }: StatsProps) {
               <h3 className="text-lg font-semibold text-blue-900">
                 Today's Scheduled Article
               </h3>
-              <p className="mt-1 text-2xl font-bold text-blue-600">
+              <button
+                onClick={() => onOpenEntry(stats.todayScheduled!.id)}
+                className="mt-1 text-2xl font-bold text-blue-600 text-left hover:underline"
+              >
                 {stats.todayScheduled.keyword}
-              </p>
+              </button>
               <p className="mt-2 text-sm text-blue-700">
                 Type: {stats.todayScheduled.article_type} •
                 Volume: {stats.todayScheduled.search_volume?.toLocaleString() || 'N/A'} •
@@ -94,7 +174,7 @@ export default function CalendarStats({ stats, onRefresh }: StatsProps) {
               <div key={job.id} className="bg-white border border-purple-200 rounded-lg p-4">
                 <div className="flex items-center justify-between">
                   <div>
-                    <p className="font-semibold text-gray-900">{job.keyword}</p>
+                    <KeywordLink entry={job} onOpen={onOpenEntry} />
                     <p className="text-sm text-gray-600 mt-1">
                       Status: ⚡ Generating Article
                     </p>
@@ -111,6 +191,49 @@ export default function CalendarStats({ stats, onRefresh }: StatsProps) {
         </div>
       )}
 
+      {/* Failed Generations */}
+      {failedJobs.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+          <h3 className="text-lg font-semibold text-red-900 mb-4">
+            Failed Generations ({failedJobs.length})
+          </h3>
+          <div className="space-y-3">
+            {failedJobs.map(job => (
+              <div key={job.id} className="bg-white border border-red-200 rounded-lg p-4">
+                <div className="flex items-start justify-between">
+                  <div className="flex-1">
+                    <KeywordLink entry={job} onOpen={onOpenEntry} />
+                    <p className="text-sm text-red-700 mt-1">
+                      {job.failure_reason || 'No reason recorded'}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-2">
+                      {job.failed_at && `Failed ${new Date(job.failed_at).toLocaleString()} • `}
+                      {job.generation_attempts || 0} attempt{job.generation_attempts === 1 ? '' : 's'}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2 ml-4">
+                    <button
+                      onClick={() => revertToScheduled(job)}
+                      disabled={recoveringId === job.id}
+                      className="px-3 py-1 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition font-medium"
+                    >
+                      Reschedule
+                    </button>
+                    <button
+                      onClick={() => retryGeneration(job)}
+                      disabled={recoveringId === job.id}
+                      className="px-3 py-1 text-sm bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 transition font-medium"
+                    >
+                      {recoveringId === job.id ? 'Working...' : '⚡ Retry'}
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Stats Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <StatCard
@@ -146,7 +269,7 @@ export default function CalendarStats({ stats, onRefresh }: StatsProps) {
       {/* Quick Actions */}
       <div className="bg-white border border-gray-200 rounded-lg p-6">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Quick Actions</h3>
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
           <button
             onClick={onRefresh}
             className="flex items-center justify-center px-4 py-3 border border-gray-300 rounded-lg hover:bg-gray-50 transition"
@@ -176,9 +299,42 @@ export default function CalendarStats({ stats, onRefresh }: StatsProps) {
             </svg>
             <span className="text-sm font-medium text-gray-700">View Analytics</span>
           </a>
+
+          <a
+            href="/calendar/activity"
+            className="flex items-center justify-center px-4 py-3 border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+          >
+            <svg className="w-5 h-5 mr-2 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <span className="text-sm font-medium text-gray-700">Activity Log</span>
+          </a>
+
+          <a
+            href="/calendar/rules"
+            className="flex items-center justify-center px-4 py-3 border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+          >
+            <svg className="w-5 h-5 mr-2 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+            </svg>
+            <span className="text-sm font-medium text-gray-700">Approval Rules</span>
+          </a>
+
+          <a
+            href="/calendar/scoring"
+            className="flex items-center justify-center px-4 py-3 border border-gray-300 rounded-lg hover:bg-gray-50 transition"
+          >
+            <svg className="w-5 h-5 mr-2 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6V4m0 2a2 2 0 100 4m0-4a2 2 0 110 4m-6 8a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4m6 6v10m6-2a2 2 0 100-4m0 4a2 2 0 110-4m0 4v2m0-6V4" />
+            </svg>
+            <span className="text-sm font-medium text-gray-700">Opportunity Scoring</span>
+          </a>
         </div>
       </div>
 
+      {/* Traffic Forecast */}
+      <TrafficForecast />
+
       {/* Strategy Summarizer */}
       <StrategySummarizer />
 
@@ -193,7 +349,7 @@ export default function CalendarStats({ stats, onRefresh }: StatsProps) {
               <div key={article.id} className="border border-gray-200 rounded-lg p-4 hover:border-blue-300 transition">
                 <div className="flex items-start justify-between">
                   <div className="flex-1">
-                    <p className="font-semibold text-gray-900">{article.keyword}</p>
+                    <KeywordLink entry={article} onOpen={onOpenEntry} />
                     <p className="text-sm text-gray-600 mt-1">
                       {article.article_type} • {article.search_volume?.toLocaleString() || 'N/A'} searches/mo •
                       Difficulty: {article.difficulty || 'N/A'}
@@ -236,6 +392,18 @@ export default function CalendarStats({ stats, onRefresh }: StatsProps) {
           </div>
         </div>
       </div>
+
+      {lastAction && (
+        <UndoToast
+          token={lastAction.token}
+          message={lastAction.message}
+          onUndone={() => {
+            loadFailedJobs();
+            onRefresh();
+          }}
+          onDismiss={() => setLastAction(null)}
+        />
+      )}
     </div>
   );
 }
@@ -266,4 +434,14 @@ function StatCard({ title, value, color, icon, description }: StatCardProps) {
       <p className="text-xs mt-1 opacity-75">{description}</p>
     </div>
   );
-}
\ No newline at end of file
+}
+function KeywordLink({ entry, onOpen }: { entry: CalendarEntry; onOpen: (id: string) => void }) {
+  return (
+    <button
+      onClick={() => onOpen(entry.id)}
+      className="font-semibold text-gray-900 text-left hover:text-blue-600 hover:underline"
+    >
+      {entry.keyword}
+    </button>
+  );
+}
@@ -0,0 +1,257 @@
+import { useState, useEffect } from 'preact/hooks';
+import {
+  fetchComments,
+  addComment,
+  editComment,
+  deleteComment,
+  type EntryComment,
+} from '../../lib/calendarApi';
+
+interface CommentThreadProps {
+  entryId: string;
+  author: string;
+  onCountChange?: (count: number) => void;
+}
+
+export default function CommentThread({ entryId, author, onCountChange }: CommentThreadProps) {
+  const [comments, setComments] = useState<EntryComment[]>([]);
+  const [teammates, setTeammates] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState('');
+  const [posting, setPosting] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [historyId, setHistoryId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadComments();
+  }, [entryId]);
+
+  async function loadComments() {
+    try {
+      setLoading(true);
+      const result = await fetchComments(entryId);
+      setComments(result.comments);
+      setTeammates(result.teammates);
+      onCountChange?.(result.comments.filter(c => !c.deleted_at).length);
+    } catch (error) {
+      console.error('Failed to load comments:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function requireAuthor(): boolean {
+    if (author.trim()) return true;
+    alert('Enter your name in "Reviewing as" first, so your comment is attributed.');
+    return false;
+  }
+
+  async function handlePost() {
+    if (!draft.trim() || !requireAuthor()) return;
+
+    try {
+      setPosting(true);
+      await addComment(entryId, { author: author.trim(), body: draft });
+      setDraft('');
+      await loadComments();
+    } catch (error) {
+      console.error('Failed to add comment:', error);
+      alert(`Failed to add comment: ${(error as Error).message}`);
+    } finally {
+      setPosting(false);
+    }
+  }
+
+  async function handleSaveEdit(comment: EntryComment) {
+    if (!editDraft.trim() || editDraft === comment.body) {
+      setEditingId(null);
+      return;
+    }
+
+    try {
+      setPosting(true);
+      await editComment(entryId, comment.id, { author: author.trim(), body: editDraft });
+      setEditingId(null);
+      await loadComments();
+    } catch (error) {
+      console.error('Failed to edit comment:', error);
+      alert(`Failed to edit comment: ${(error as Error).message}`);
+    } finally {
+      setPosting(false);
+    }
+  }
+
+  async function handleDelete(comment: EntryComment) {
+    if (!confirm('Delete this comment?')) return;
+
+    try {
+      await deleteComment(entryId, comment.id, author.trim());
+      await loadComments();
+    } catch (error) {
+      console.error('Failed to delete comment:', error);
+      alert(`Failed to delete comment: ${(error as Error).message}`);
+    }
+  }
+
+  // Suggest teammates while the draft ends in an unfinished @mention
+  const mentionQuery = draft.match(/(?:^|\s)@([\w.-]*)$/)?.[1];
+  const suggestions = mentionQuery === undefined
+    ? []
+    : teammates
+        .filter(name => name.toLowerCase().startsWith(mentionQuery.toLowerCase()) && name !== author.trim())
+        .slice(0, 5);
+
+  function insertMention(name: string) {
+    setDraft(draft.replace(/@([\w.-]*)$/, `@${mentionHandle(name)} `));
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {comments.length === 0 && (
+        <p className="text-sm text-gray-500">No comments yet. Start the discussion below.</p>
+      )}
+
+      {comments.map(comment => (
+        <div key={comment.id} className="border-b border-gray-100 pb-3">
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span>
+              <span className="font-medium text-gray-900">{comment.author}</span>
+              {' · '}
+              {new Date(comment.created_at).toLocaleString()}
+              {comment.edits.length > 0 && (
+                <button
+                  onClick={() => setHistoryId(historyId === comment.id ? null : comment.id)}
+                  className="ml-1 underline hover:text-gray-700"
+                >
+                  (edited)
+                </button>
+              )}
+            </span>
+            {!comment.deleted_at && comment.author === author.trim() && editingId !== comment.id && (
+              <span className="space-x-2">
+                <button
+                  onClick={() => {
+                    setEditingId(comment.id);
+                    setEditDraft(comment.body);
+                  }}
+                  className="hover:text-gray-700"
+                >
+                  Edit
+                </button>
+                <button onClick={() => handleDelete(comment)} className="hover:text-red-600">
+                  Delete
+                </button>
+              </span>
+            )}
+          </div>
+
+          {comment.deleted_at ? (
+            <p className="mt-1 text-sm italic text-gray-400">Comment deleted</p>
+          ) : editingId === comment.id ? (
+            <div className="mt-1">
+              <textarea
+                value={editDraft}
+                onInput={(e) => setEditDraft(e.currentTarget.value)}
+                rows={3}
+                className="w-full text-sm rounded border-gray-300"
+              />
+              <div className="flex justify-end space-x-2 mt-1">
+                <button onClick={() => setEditingId(null)} className="text-xs text-gray-600 hover:text-gray-800">
+                  Cancel
+                </button>
+                <button
+                  onClick={() => handleSaveEdit(comment)}
+                  disabled={posting}
+                  className="text-xs font-medium text-blue-600 hover:text-blue-700 disabled:opacity-50"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          ) : (
+            <p className="mt-1 text-sm text-gray-800 whitespace-pre-wrap">
+              {renderBody(comment.body, comment.mentions)}
+            </p>
+          )}
+
+          {historyId === comment.id && (
+            <div className="mt-2 pl-3 border-l-2 border-gray-200 space-y-2">
+              {[...comment.edits].reverse().map(edit => (
+                <div key={edit.edited_at} className="text-xs text-gray-500">
+                  <div>Before edit on {new Date(edit.edited_at).toLocaleString()}:</div>
+                  <div className="whitespace-pre-wrap text-gray-600">{edit.body}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="relative">
+        <textarea
+          value={draft}
+          onInput={(e) => setDraft(e.currentTarget.value)}
+          rows={3}
+          placeholder="Add a comment. Use @name to mention a teammate."
+          className="w-full text-sm rounded border-gray-300"
+        />
+        {suggestions.length > 0 && (
+          <div className="absolute left-0 bottom-full mb-1 bg-white border border-gray-200 rounded shadow-lg z-10">
+            {suggestions.map(name => (
+              <button
+                key={name}
+                onClick={() => insertMention(name)}
+                className="block w-full text-left px-3 py-1 text-sm hover:bg-gray-50"
+              >
+                @{mentionHandle(name)}
+              </button>
+            ))}
+          </div>
+        )}
+        <div className="flex justify-end mt-2">
+          <button
+            onClick={handlePost}
+            disabled={posting || !draft.trim()}
+            className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50 transition font-medium"
+          >
+            {posting ? 'Posting...' : 'Comment'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Names can contain spaces; mentions cannot
+ */
+function mentionHandle(name: string): string {
+  return name.replace(/\s+/g, '.');
+}
+
+/**
+ * Highlight @mentions in a comment body
+ */
+function renderBody(body: string, mentions: string[]) {
+  if (mentions.length === 0) return body;
+
+  const pattern = new RegExp(`(@(?:${mentions.map(escapeRegExp).join('|')}))(?![\\w])`, 'g');
+  return body.split(pattern).map((part, i) =>
+    i % 2 === 1
+      ? <span key={i} className="font-medium text-blue-600">{part}</span>
+      : part
+  );
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
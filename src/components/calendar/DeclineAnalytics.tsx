@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'preact/hooks';
+import {
+  fetchDeclineAnalytics,
+  formatDate,
+  type DeclineAnalytics as DeclineAnalyticsData,
+  type DeclineBreakdown,
+} from '../../lib/calendarApi';
+import { getDeclineCategoryLabel } from '../../lib/declineReasons.js';
+
+const WINDOWS = [30, 90, 180];
+
+export default function DeclineAnalytics() {
+  const [days, setDays] = useState(90);
+  const [analytics, setAnalytics] = useState<DeclineAnalyticsData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [days]);
+
+  async function loadAnalytics() {
+    try {
+      setLoading(true);
+      setAnalytics(await fetchDeclineAnalytics(days));
+    } catch (error) {
+      console.error('Failed to load decline analytics:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!analytics || analytics.total === 0) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="mt-2 text-sm font-medium text-gray-900">No declines in the last {days} days</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Declined suggestions and their categories will show up here.
+        </p>
+      </div>
+    );
+  }
+
+  const maxWeek = Math.max(...analytics.timeline.map(week => week.total));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          {analytics.total} {analytics.total === 1 ? 'suggestion' : 'suggestions'} declined in the last {days} days
+        </p>
+        <select
+          value={days}
+          onChange={(e) => setDays(parseInt(e.currentTarget.value))}
+          className="text-sm rounded border-gray-300"
+        >
+          {WINDOWS.map(window => (
+            <option key={window} value={window}>Last {window} days</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Categories */}
+      <div className="bg-white border border-gray-200 rounded-lg p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Decline Reasons</h3>
+        <div className="space-y-3">
+          {analytics.byCategory.map(bucket => (
+            <div key={bucket.category}>
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium text-gray-900">{bucket.label}</span>
+                <span className="text-gray-600">
+                  {bucket.count} ({Math.round((bucket.count / analytics.total) * 100)}%)
+                </span>
+              </div>
+              <div className="mt-1 h-2 bg-gray-100 rounded">
+                <div
+                  className="h-2 bg-red-400 rounded"
+                  style={{ width: `${(bucket.count / analytics.total) * 100}%` }}
+                ></div>
+              </div>
+              <p className="mt-1 text-xs text-gray-500">e.g. {bucket.examples.join(', ')}</p>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <BreakdownTable title="By Data Source" groups={analytics.byDataSource} />
+        <BreakdownTable title="By Difficulty" groups={analytics.byDifficulty} />
+      </div>
+
+      {/* Weekly trend */}
+      <div className="bg-white border border-gray-200 rounded-lg p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Declines per Week</h3>
+        <div className="flex items-end gap-2 h-40">
+          {analytics.timeline.map(week => (
+            <div key={week.week} className="flex-1 flex flex-col items-center justify-end h-full">
+              <span className="text-xs text-gray-600 mb-1">{week.total}</span>
+              <div
+                className="w-full bg-red-400 rounded-t"
+                style={{ height: `${(week.total / maxWeek) * 100}%` }}
+                title={Object.entries(week.categories)
+                  .map(([category, count]) => `${getDeclineCategoryLabel(category)}: ${count}`)
+                  .join('\n')}
+              ></div>
+              <span className="text-xs text-gray-500 mt-1 whitespace-nowrap">{formatDate(week.week)}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function BreakdownTable({ title, groups }: { title: string; groups: Record<string, DeclineBreakdown> }) {
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">{title}</h3>
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+            <th className="pb-2"></th>
+            <th className="pb-2">Declined</th>
+            <th className="pb-2">Top reason</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          {Object.entries(groups).map(([key, group]) => {
+            const [top] = Object.entries(group.categories).sort((a, b) => b[1] - a[1]);
+            return (
+              <tr key={key}>
+                <td className="py-2 font-medium text-gray-900 capitalize">{key}</td>
+                <td className="py-2 text-gray-700">{group.total}</td>
+                <td className="py-2 text-gray-700">{top ? getDeclineCategoryLabel(top[0]) : '—'}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState, useRef, useEffect } from 'preact/hooks';
+
+interface EditableCellProps {
+  value: string;
+  label: string;
+  type?: 'text' | 'textarea' | 'select' | 'date';
+  options?: string[];
+  placeholder?: string;
+  onSave: (value: string) => Promise<void>;
+  // Custom display; when given, only the pencil button starts editing
+  children?: any;
+}
+
+/**
+ * Table cell that edits in place: Enter (Ctrl+Enter for text areas) or blur saves, Escape cancels.
+ * A failed save keeps the editor open with the error underneath.
+ */
+export default function EditableCell({
+  value,
+  label,
+  type = 'text',
+  options = [],
+  placeholder = '-',
+  onSave,
+  children,
+}: EditableCellProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(value);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const savingRef = useRef(false);
+  const inputRef = useRef<HTMLInputElement & HTMLTextAreaElement & HTMLSelectElement>(null);
+
+  useEffect(() => {
+    if (editing) inputRef.current?.focus();
+  }, [editing]);
+
+  function startEditing(e: Event) {
+    e.stopPropagation();
+    setDraft(value);
+    setError(null);
+    setEditing(true);
+  }
+
+  function cancel() {
+    setEditing(false);
+    setError(null);
+  }
+
+  async function save(next: string) {
+    if (savingRef.current) return;
+    if (next.trim() === value.trim()) {
+      cancel();
+      return;
+    }
+
+    try {
+      savingRef.current = true;
+      setSaving(true);
+      await onSave(next);
+      setEditing(false);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      savingRef.current = false;
+      setSaving(false);
+    }
+  }
+
+  function handleKeyDown(e: KeyboardEvent) {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      cancel();
+    } else if (e.key === 'Enter' && (type !== 'textarea' || e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      save(draft);
+    }
+  }
+
+  if (!editing) {
+    return (
+      <div className="group flex items-start gap-1">
+        {children ?? (
+          <button
+            onClick={startEditing}
+            className="text-left whitespace-normal break-words hover:text-blue-600"
+            title={`Edit ${label}`}
+          >
+            {value || placeholder}
+          </button>
+        )}
+        <button
+          onClick={startEditing}
+          className="opacity-0 group-hover:opacity-100 text-gray-400 hover:text-blue-600 text-xs"
+          aria-label={`Edit ${label}`}
+        >
+          ✎
+        </button>
+      </div>
+    );
+  }
+
+  const inputProps = {
+    ref: inputRef,
+    value: draft,
+    disabled: saving,
+    onClick: (e: Event) => e.stopPropagation(),
+    onKeyDown: handleKeyDown,
+    onBlur: () => save(draft),
+    className: `w-full text-sm rounded ${error ? 'border-red-400' : 'border-gray-300'}`,
+    'aria-label': label,
+  };
+
+  return (
+    <div className="min-w-[8rem]">
+      {type === 'select' ? (
+        <select
+          {...inputProps}
+          onChange={(e) => {
+            setDraft(e.currentTarget.value);
+            save(e.currentTarget.value);
+          }}
+        >
+          {options.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      ) : type === 'textarea' ? (
+        <textarea {...inputProps} rows={3} onInput={(e) => setDraft(e.currentTarget.value)} />
+      ) : (
+        <input {...inputProps} type={type} onInput={(e) => setDraft(e.currentTarget.value)} />
+      )}
+      {saving && <p className="mt-1 text-xs text-gray-500">Saving...</p>}
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import type { CalendarEntry } from '../../lib/calendarApi';
+import CommentThread from './CommentThread';
+
+interface EntryCommentsPanelProps {
+  entry: CalendarEntry;
+  author: string;
+  onClose: () => void;
+  onCountChange?: (count: number) => void;
+}
+
+export default function EntryCommentsPanel({ entry, author, onClose, onCountChange }: EntryCommentsPanelProps) {
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end bg-black bg-opacity-30" onClick={onClose}>
+      <div
+        className="w-full max-w-md h-full bg-white shadow-xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between p-4 border-b border-gray-200">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">{entry.keyword}</h3>
+            <p className="text-sm text-gray-500">{entry.article_type} · {entry.status}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-xl" aria-label="Close">
+            ×
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          <h4 className="text-sm font-medium text-gray-900 mb-3">Comments</h4>
+          <CommentThread entryId={entry.id} author={author} onCountChange={onCountChange} />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,466 @@
+import { useState, useEffect } from 'preact/hooks';
+import {
+  getCalendarEntry,
+  runEntryAction,
+  triggerGeneration,
+  deleteCalendarEntry,
+  formatDate,
+  getDifficultyColor,
+  getStatusColor,
+  type CalendarEntryDetail,
+  type EntryAction,
+  type NextAction,
+  type RelatedEntry,
+  type UndoToken,
+} from '../../lib/calendarApi';
+import { DECLINE_CATEGORIES } from '../../lib/declineReasons.js';
+import { ApprovalBadge, AutoRuleBadge, ReviewerInput, useReviewer } from './ReviewerStatus';
+import CommentThread from './CommentThread';
+import EntryHistory from './EntryHistory';
+import { describeScore } from './OpportunityScore';
+import UndoToast from './UndoToast';
+
+interface EntryDetailDrawerProps {
+  entryId: string;
+  onClose: () => void;
+  onOpenEntry: (id: string) => void;
+  onChanged?: () => void;
+}
+
+/**
+ * Side drawer with everything known about one calendar entry, and its actions
+ */
+export default function EntryDetailDrawer({ entryId, onClose, onOpenEntry, onChanged }: EntryDetailDrawerProps) {
+  const [entry, setEntry] = useState<CalendarEntryDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [working, setWorking] = useState(false);
+  const [reviewer, setReviewer] = useReviewer();
+  const [declining, setDeclining] = useState(false);
+  const [declineCategories, setDeclineCategories] = useState<string[]>([]);
+  const [declineReason, setDeclineReason] = useState('');
+  const [plannedDate, setPlannedDate] = useState('');
+  const [lastAction, setLastAction] = useState<{ token: UndoToken; message: string } | null>(null);
+
+  useEffect(() => {
+    setDeclining(false);
+    loadEntry();
+  }, [entryId]);
+
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key === 'Escape') onClose();
+    }
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  async function loadEntry() {
+    try {
+      setLoading(true);
+      setLoadError(null);
+      const data = await getCalendarEntry(entryId, reviewer.trim() || undefined);
+      setEntry(data);
+      setPlannedDate(data.planned_date || '');
+    } catch (error) {
+      console.error('Failed to load calendar entry:', error);
+      setLoadError((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function requireReviewer(): boolean {
+    if (reviewer.trim()) return true;
+    alert('Enter your name in "Reviewing as" first, so the decision is attributed.');
+    return false;
+  }
+
+  async function runAction(body: { action: string; [key: string]: any }, message: string) {
+    if (!entry) return;
+
+    try {
+      setWorking(true);
+      const result = await runEntryAction(entry.id, body);
+      if (result.undo) {
+        setLastAction({ token: result.undo, message: `${message} "${entry.keyword}"` });
+      }
+      setDeclining(false);
+      await loadEntry();
+      onChanged?.();
+    } catch (error) {
+      console.error(`Failed to ${body.action} entry:`, error);
+      alert((error as Error).message);
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  async function handleApprove() {
+    if (!requireReviewer()) return;
+    await runAction({ action: 'approve', reviewer: reviewer.trim() }, 'Approved');
+  }
+
+  async function handleDecline() {
+    if (!requireReviewer()) return;
+    await runAction({
+      action: 'reject',
+      reviewer: reviewer.trim(),
+      decline_reason: declineReason.trim() || undefined,
+      decline_categories: declineCategories,
+    }, 'Declined');
+    setDeclineReason('');
+    setDeclineCategories([]);
+  }
+
+  async function handleReschedule() {
+    if (!plannedDate) return;
+    await runAction(
+      { action: 'reschedule', planned_date: plannedDate, reviewer: reviewer.trim() || undefined },
+      `Scheduled for ${plannedDate}:`
+    );
+  }
+
+  async function handleGenerate() {
+    if (!entry || !confirm(`Generate an article for "${entry.keyword}" now?`)) return;
+
+    try {
+      setWorking(true);
+      const result = await triggerGeneration(entry.id, reviewer);
+      alert(result.message);
+      await loadEntry();
+      onChanged?.();
+    } catch (error) {
+      console.error('Failed to generate article:', error);
+      alert((error as Error).message);
+    } finally {
+      setWorking(false);
+    }
+  }
+
+  async function handleDelete() {
+    if (!entry || !confirm(`Delete "${entry.keyword}"? This cannot be undone.`)) return;
+
+    try {
+      setWorking(true);
+      await deleteCalendarEntry(entry.id, reviewer);
+      onChanged?.();
+      onClose();
+    } catch (error) {
+      console.error('Failed to delete entry:', error);
+      alert((error as Error).message);
+      setWorking(false);
+    }
+  }
+
+  function toggleCategory(value: string) {
+    setDeclineCategories(prev =>
+      prev.includes(value) ? prev.filter(c => c !== value) : [...prev, value]
+    );
+  }
+
+  // Buttons follow the status machine's legal next actions for this entry
+  function nextAction(action: EntryAction): NextAction | undefined {
+    return entry?.next_actions?.find(a => a.action === action);
+  }
+  const approve = nextAction('approve');
+  const decline = nextAction('decline');
+  const schedule = nextAction('schedule');
+  const generate = nextAction('generate');
+  const remove = nextAction('delete');
+
+  const insights = Object.entries(entry?.seo_insights || {})
+    .filter(([key]) => key !== 'strategic_reasoning');
+  const article = entry?.articles;
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40 flex justify-end bg-black bg-opacity-30" onClick={onClose}>
+        <div
+          className="w-full max-w-2xl h-full bg-white shadow-xl flex flex-col"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <div className="flex items-start justify-between p-4 border-b border-gray-200">
+            {entry ? (
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900">{entry.keyword}</h3>
+                <div className="mt-1 flex flex-wrap items-center gap-2 text-sm text-gray-600">
+                  <span className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full bg-${getStatusColor(entry.status)}-100 text-${getStatusColor(entry.status)}-800`}>
+                    {entry.status.replace(/_/g, ' ')}
+                  </span>
+                  <span>{entry.article_type}</span>
+                  {entry.planned_date && <span>📅 {formatDate(entry.planned_date)}</span>}
+                  <span>{entry.seo_insights?.data_source === 'dataforseo' ? '📊 DataForSEO' : '🤖 Estimated'}</span>
+                  <ApprovalBadge entry={entry} reviewer={reviewer} />
+                  <AutoRuleBadge entry={entry} />
+                </div>
+              </div>
+            ) : (
+              <h3 className="text-lg font-semibold text-gray-900">Calendar entry</h3>
+            )}
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 text-xl" aria-label="Close">
+              ×
+            </button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-4 space-y-6">
+            {loading && !entry && (
+              <div className="flex items-center justify-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            )}
+
+            {loadError && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-800">
+                {loadError}
+              </div>
+            )}
+
+            {entry && (
+              <>
+                {/* Actions */}
+                <div className="p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-3">
+                  <ReviewerInput reviewer={reviewer} onChange={setReviewer} />
+                  <div className="flex flex-wrap items-center gap-2">
+                    {approve && (
+                      <button
+                        onClick={handleApprove}
+                        disabled={working || !!approve.blocked_reason}
+                        title={approve.blocked_reason || undefined}
+                        className="px-3 py-1.5 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 disabled:opacity-50 transition font-medium"
+                      >
+                        ✓ {approve.label}
+                      </button>
+                    )}
+                    {decline && (
+                      <button
+                        onClick={() => setDeclining(!declining)}
+                        disabled={working || !!decline.blocked_reason}
+                        title={decline.blocked_reason || undefined}
+                        className="px-3 py-1.5 bg-red-600 text-white text-sm rounded-lg hover:bg-red-700 disabled:opacity-50 transition font-medium"
+                      >
+                        ✗ {decline.label}
+                      </button>
+                    )}
+                    {schedule && (
+                      <>
+                        <input
+                          type="date"
+                          value={plannedDate}
+                          onInput={(e) => setPlannedDate(e.currentTarget.value)}
+                          className="text-sm rounded border-gray-300"
+                        />
+                        <button
+                          onClick={handleReschedule}
+                          disabled={working || !!schedule.blocked_reason || !plannedDate || plannedDate === entry.planned_date}
+                          title={schedule.blocked_reason || undefined}
+                          className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 disabled:opacity-50 transition font-medium"
+                        >
+                          {entry.status === 'scheduled' ? 'Reschedule' : schedule.label}
+                        </button>
+                      </>
+                    )}
+                    {generate && (
+                      <button
+                        onClick={handleGenerate}
+                        disabled={working || !!generate.blocked_reason}
+                        title={generate.blocked_reason || undefined}
+                        className="px-3 py-1.5 bg-purple-600 text-white text-sm rounded-lg hover:bg-purple-700 disabled:opacity-50 transition font-medium"
+                      >
+                        ⚡ {generate.label}
+                      </button>
+                    )}
+                    {remove && (
+                      <button
+                        onClick={handleDelete}
+                        disabled={working || !!remove.blocked_reason}
+                        className="ml-auto text-sm text-gray-500 hover:text-red-600 disabled:opacity-50"
+                      >
+                        {remove.label}
+                      </button>
+                    )}
+                    {entry.next_actions?.length === 0 && (
+                      <span className="text-sm text-gray-500">No actions available while {entry.status.replace(/_/g, ' ')}</span>
+                    )}
+                  </div>
+
+                  {declining && (
+                    <div className="space-y-2">
+                      <div className="flex flex-wrap gap-2">
+                        {DECLINE_CATEGORIES.map(category => (
+                          <label key={category.value} className="flex items-center text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={declineCategories.includes(category.value)}
+                              onChange={() => toggleCategory(category.value)}
+                              className="rounded border-gray-300 mr-1"
+                            />
+                            {category.label}
+                          </label>
+                        ))}
+                      </div>
+                      <textarea
+                        value={declineReason}
+                        onInput={(e) => setDeclineReason(e.currentTarget.value)}
+                        rows={2}
+                        placeholder="Optional: why is this keyword not a fit?"
+                        className="w-full text-sm rounded border-gray-300"
+                      />
+                      <div className="flex justify-end space-x-2">
+                        <button onClick={() => setDeclining(false)} className="text-sm text-gray-600 hover:text-gray-800">
+                          Cancel
+                        </button>
+                        <button
+                          onClick={handleDecline}
+                          disabled={working}
+                          className="px-3 py-1 bg-red-600 text-white text-sm rounded-lg hover:bg-red-700 disabled:opacity-50 font-medium"
+                        >
+                          Confirm Decline
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {/* Metrics */}
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <Metric label="Volume" value={entry.search_volume?.toLocaleString() ?? '—'} />
+                  <Metric
+                    label="Difficulty"
+                    value={entry.difficulty ?? '—'}
+                    className={entry.difficulty !== null ? `text-${getDifficultyColor(entry.difficulty)}-700` : ''}
+                  />
+                  <Metric label="Opportunity" value={entry.priority_score ?? '—'} title={describeScore(entry.score_breakdown)} />
+                  <Metric label="Competitors" value={entry.competitor_count ?? '—'} />
+                </div>
+
+                {entry.seo_insights?.strategic_reasoning && (
+                  <Section title="Strategic reasoning">
+                    <p className="text-sm text-gray-700 whitespace-pre-wrap">{entry.seo_insights.strategic_reasoning}</p>
+                  </Section>
+                )}
+
+                {entry.brief_content && (
+                  <Section title="Brief">
+                    <p className="text-sm text-gray-700 whitespace-pre-wrap">{entry.brief_content}</p>
+                  </Section>
+                )}
+
+                {entry.notes && (
+                  <Section title="Notes">
+                    <p className="text-sm text-gray-700 whitespace-pre-wrap">{entry.notes}</p>
+                  </Section>
+                )}
+
+                <Section title="SEO insights">
+                  {insights.length === 0 ? (
+                    <p className="text-sm text-gray-500">No SEO insights recorded.</p>
+                  ) : (
+                    <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                      {insights.map(([key, value]) => (
+                        <div key={key} className="flex justify-between gap-4 border-b border-gray-50 py-1">
+                          <dt className="text-gray-500">{key.replace(/_/g, ' ')}</dt>
+                          <dd className="text-gray-900 text-right break-all">{formatInsight(value)}</dd>
+                        </div>
+                      ))}
+                    </dl>
+                  )}
+                </Section>
+
+                {article && (
+                  <Section title="Published article">
+                    <div className="p-3 border border-gray-200 rounded-lg text-sm">
+                      <p className="font-medium text-gray-900">{article.title}</p>
+                      <p className="text-gray-500">/{article.slug}</p>
+                      <div className="mt-2 grid grid-cols-2 md:grid-cols-4 gap-3">
+                        <Metric label="Quality" value={article.quality_score ?? '—'} />
+                        <Metric label="Words" value={article.actual_word_count?.toLocaleString() ?? '—'} />
+                        <Metric
+                          label="Cost"
+                          value={article.generation_cost != null ? `$${Number(article.generation_cost).toFixed(2)}` : '—'}
+                        />
+                        <Metric label="Published" value={formatDate(article.published_at)} />
+                      </div>
+                    </div>
+                  </Section>
+                )}
+
+                {(entry.pillar || entry.clusters.length > 0) && (
+                  <Section title="Topic cluster">
+                    {entry.pillar && (
+                      <p className="text-sm text-gray-700 mb-1">
+                        Supports pillar <RelatedLink entry={entry.pillar} onOpen={onOpenEntry} />
+                      </p>
+                    )}
+                    {entry.clusters.length > 0 && (
+                      <ul className="text-sm text-gray-700 space-y-1">
+                        {entry.clusters.map(cluster => (
+                          <li key={cluster.id}>
+                            <RelatedLink entry={cluster} onOpen={onOpenEntry} />
+                            <span className="text-gray-500"> · {cluster.status}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </Section>
+                )}
+
+                <Section title="History">
+                  <EntryHistory entryId={entry.id} version={entry.updated_at} statusHistory={entry.status_history} />
+                </Section>
+
+                <Section title="Comments">
+                  <CommentThread entryId={entry.id} author={reviewer} />
+                </Section>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {lastAction && (
+        <UndoToast
+          token={lastAction.token}
+          message={lastAction.message}
+          onUndone={() => {
+            loadEntry();
+            onChanged?.();
+          }}
+          onDismiss={() => setLastAction(null)}
+        />
+      )}
+    </>
+  );
+}
+
+function Section({ title, children }: { title: string; children: any }) {
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-900 mb-2">{title}</h4>
+      {children}
+    </div>
+  );
+}
+
+function Metric({ label, value, className = '', title }: { label: string; value: string | number; className?: string; title?: string }) {
+  return (
+    <div className="p-2 bg-gray-50 rounded" title={title}>
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className={`text-base font-semibold text-gray-900 ${className}`}>{value}</div>
+    </div>
+  );
+}
+
+function RelatedLink({ entry, onOpen }: { entry: RelatedEntry; onOpen: (id: string) => void }) {
+  return (
+    <button onClick={() => onOpen(entry.id)} className="text-blue-600 hover:text-blue-700 font-medium">
+      {entry.keyword}
+    </button>
+  );
+}
+
+function formatInsight(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
@@ -0,0 +1,88 @@
+import { useState, useEffect } from 'preact/hooks';
+import {
+  fetchEvents,
+  getStatusColor,
+  type EntryEvent,
+  type EntryEventsPage,
+  type StatusHistoryEvent,
+} from '../../lib/calendarApi';
+import EventTimeline, { EVENT_LABELS } from './EventTimeline';
+
+interface EntryHistoryProps {
+  entryId: string;
+  // Changes whenever the entry does, to pick up new events
+  version: string;
+  // Reconstructed from the entry's timestamps, for entries older than the event log
+  statusHistory: StatusHistoryEvent[];
+}
+
+/**
+ * One entry's change history from the event log, with a tally of how often each change happened
+ */
+export default function EntryHistory({ entryId, version, statusHistory }: EntryHistoryProps) {
+  const [events, setEvents] = useState<EntryEvent[]>([]);
+  const [counts, setCounts] = useState<EntryEventsPage['counts']>({});
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadEvents();
+  }, [entryId, version]);
+
+  async function loadEvents(cursor?: string) {
+    try {
+      setLoading(true);
+      const page = await fetchEvents({ entry_id: entryId, cursor });
+      setEvents(prev => (cursor ? [...prev, ...page.data] : page.data));
+      setCounts(page.counts || {});
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Failed to load entry history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  if (loading && events.length === 0) {
+    return <p className="text-sm text-gray-500">Loading history...</p>;
+  }
+
+  if (events.length === 0) {
+    return (
+      <div>
+        <p className="text-xs text-gray-500 mb-2">No logged changes yet; reconstructed from the entry's timestamps.</p>
+        <ol className="border-l-2 border-gray-200 pl-4 space-y-3">
+          {statusHistory.map((event, i) => (
+            <li key={`${event.status}-${event.at}-${i}`} className="relative text-sm">
+              <span className={`absolute -left-[1.4rem] top-1.5 w-2.5 h-2.5 rounded-full bg-${getStatusColor(event.status)}-500`}></span>
+              <span className="font-medium text-gray-900">{event.label}</span>
+              {event.actor && <span className="text-gray-600"> by {event.actor}</span>}
+              <div className="text-xs text-gray-500">{new Date(event.at).toLocaleString()}</div>
+              {event.detail && <div className="text-xs text-gray-600 mt-0.5">{event.detail}</div>}
+            </li>
+          ))}
+        </ol>
+      </div>
+    );
+  }
+
+  const tally = Object.entries(counts || {})
+    .filter(([event]) => event !== 'create' && event !== 'import')
+    .map(([event, count]) => `${EVENT_LABELS[event as keyof typeof EVENT_LABELS] || event} ${count}×`);
+
+  return (
+    <div>
+      {tally.length > 0 && <p className="text-xs text-gray-500 mb-2">{tally.join(' · ')}</p>}
+      <EventTimeline events={events} />
+      {nextCursor && (
+        <button
+          onClick={() => loadEvents(nextCursor)}
+          disabled={loading}
+          className="mt-3 text-sm text-blue-600 hover:text-blue-700 disabled:opacity-50"
+        >
+          {loading ? 'Loading...' : 'Show older changes'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import type { EntryValue, Valuation } from '../../lib/calendarApi';
+
+/**
+ * The assumptions behind every ROI figure, for a tooltip
+ */
+export function describeValuation({ assumptions, cost }: Valuation): string {
+  return [
+    `Pipeline = traffic × CPC × ${formatPercent(assumptions.conversionRate)} lead rate × ${assumptions.cpcMultiple}× CPC per lead`,
+    `ROI over ${assumptions.horizonMonths} months, with a ${assumptions.rampDays}-day ramp-up`,
+    cost.average != null
+      ? `Average generation cost ${formatMoney(cost.average)} (${cost.samples} ${cost.source === 'articles' ? 'articles' : 'workflow runs'})`
+      : 'No generation cost history yet',
+  ].join('\n');
+}
+
+/**
+ * An entry's estimated ROI, with the value behind it on hover
+ */
+export function RoiCell({ value }: { value?: EntryValue }) {
+  if (!value || value.pipeline_value === null) {
+    return <span className="text-gray-400" title="No CPC data">—</span>;
+  }
+
+  const tooltip = [
+    `Pipeline ${formatMoney(value.pipeline_value)}/mo once ramped up`,
+    `${formatMoney(value.horizon_value)} over the ROI horizon`,
+    value.cost != null && `Generation cost ${formatMoney(value.cost)}`,
+    value.payback_months != null && `Pays back in ${value.payback_months} months`,
+  ].filter(Boolean).join('\n');
+
+  if (value.roi === null) {
+    return <span title={tooltip} className="cursor-help text-gray-700">{formatMoney(value.pipeline_value)}/mo</span>;
+  }
+
+  return (
+    <span
+      title={tooltip}
+      className={`cursor-help font-medium ${value.roi >= 0 ? 'text-green-600' : 'text-red-600'}`}
+    >
+      {value.roi >= 0 ? '+' : ''}{formatPercent(value.roi)}
+    </span>
+  );
+}
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100).toLocaleString()}%`;
+}
+
+function formatMoney(value: number | null): string {
+  if (value === null) return '—';
+  return `$${value.toLocaleString(undefined, { maximumFractionDigits: value < 100 ? 2 : 0 })}`;
+}
@@ -0,0 +1,103 @@
+import { getStatusColor, type EntryEvent, type EntryEventType } from '../../lib/calendarApi';
+
+export const EVENT_LABELS: Record<EntryEventType, string> = {
+  create: 'Created',
+  import: 'Imported',
+  update: 'Edited',
+  set_pillar: 'Pillar changed',
+  rescore: 'Rescored',
+  undo: 'Undone',
+  delete: 'Deleted',
+  approve: 'Approved',
+  decline: 'Declined',
+  schedule: 'Scheduled',
+  generate: 'Generation started',
+  retry_generation: 'Generation retried',
+  generation_failed: 'Generation failed',
+  revert_generation: 'Returned to schedule',
+  start_writing: 'Writing started',
+  publish: 'Published',
+};
+
+// Columns that change alongside the ones worth reading (status, dates, reviewers, score)
+const HIDDEN_FIELDS = ['id', 'created_at', 'updated_at', 'approvals', 'generation_started_at', 'score_breakdown', 'score_version', 'scored_at'];
+
+interface EventTimelineProps {
+  events: EntryEvent[];
+  // Global log: show which entry each event belongs to
+  onOpenEntry?: (id: string) => void;
+}
+
+/**
+ * Event log entries, newest first: what happened, who did it, through which route and what changed
+ */
+export default function EventTimeline({ events, onOpenEntry }: EventTimelineProps) {
+  return (
+    <ol className="border-l-2 border-gray-200 pl-4 space-y-3">
+      {events.map(event => {
+        const status = event.after?.status ?? event.before?.status;
+        return (
+          <li key={event.id} className="relative text-sm">
+            <span
+              className={`absolute -left-[1.4rem] top-1.5 w-2.5 h-2.5 rounded-full ${
+                status ? `bg-${getStatusColor(status)}-500` : 'bg-gray-400'
+              }`}
+            ></span>
+            <span className="font-medium text-gray-900">{EVENT_LABELS[event.event] || event.event}</span>
+            {onOpenEntry && event.keyword && (
+              event.event === 'delete'
+                ? <span className="text-gray-600"> "{event.keyword}"</span>
+                : (
+                  <button onClick={() => onOpenEntry(event.entry_id)} className="ml-1 text-blue-600 hover:text-blue-700">
+                    "{event.keyword}"
+                  </button>
+                )
+            )}
+            {event.actor && <span className="text-gray-600"> by {event.actor}</span>}
+            <div className="text-xs text-gray-500">
+              {new Date(event.created_at).toLocaleString()}
+              {event.source && <span className="ml-2 font-mono">{event.source}</span>}
+            </div>
+            <EventChanges event={event} />
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
+
+function EventChanges({ event }: { event: EntryEvent }) {
+  if (!event.before) {
+    return <div className="text-xs text-gray-600 mt-0.5">As {event.after?.status?.replace(/_/g, ' ')}</div>;
+  }
+  if (!event.after) {
+    return <div className="text-xs text-gray-600 mt-0.5">Was {event.before.status?.replace(/_/g, ' ')}</div>;
+  }
+
+  const fields = Object.keys(event.after).filter(field => !HIDDEN_FIELDS.includes(field));
+  if (fields.length === 0) return null;
+
+  return (
+    <ul className="text-xs text-gray-600 mt-0.5 space-y-0.5">
+      {fields.map(field => (
+        <li key={field}>
+          <span className="text-gray-500">{field.replace(/_/g, ' ')}:</span>{' '}
+          <span className="line-through text-gray-400">{formatValue(event.before?.[field])}</span>
+          {' → '}
+          <span className="text-gray-900">{formatValue(event.after?.[field])}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.length ? value.map(v => (typeof v === 'object' ? JSON.stringify(v) : String(v))).join(', ') : '—';
+  if (typeof value === 'object') return truncate(JSON.stringify(value));
+  return truncate(String(value));
+}
+
+function truncate(text: string, length = 80): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
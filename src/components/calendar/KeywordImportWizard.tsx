@@ -0,0 +1,285 @@
+import { useState } from 'preact/hooks';
+import {
+  importKeywords,
+  type ImportField,
+  type ImportResponse,
+} from '../../lib/calendarApi';
+import { useReviewer } from './ReviewerStatus';
+import OpportunityScore from './OpportunityScore';
+
+interface KeywordImportWizardProps {
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type Step = 'upload' | 'preview' | 'done';
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  keyword: 'Keyword',
+  article_type: 'Article Type',
+  search_volume: 'Search Volume',
+  difficulty: 'Difficulty',
+  notes: 'Notes',
+};
+
+export default function KeywordImportWizard({ onClose, onImported }: KeywordImportWizardProps) {
+  const [step, setStep] = useState<Step>('upload');
+  const [format, setFormat] = useState<'csv' | 'json'>('csv');
+  const [content, setContent] = useState('');
+  const [mapping, setMapping] = useState<Partial<Record<ImportField, string>>>({});
+  const [result, setResult] = useState<ImportResponse | null>(null);
+  const [previewTab, setPreviewTab] = useState<'new' | 'duplicate' | 'invalid'>('new');
+  const [loading, setLoading] = useState(false);
+  const [reviewer] = useReviewer();
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleFile(file: File | undefined) {
+    if (!file) return;
+    setFormat(file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv');
+    setContent(await file.text());
+  }
+
+  async function runPreview(nextMapping?: Partial<Record<ImportField, string>>) {
+    try {
+      setLoading(true);
+      setError(null);
+      const preview = await importKeywords({
+        format,
+        content,
+        mapping: nextMapping,
+        dry_run: true,
+      });
+      setResult(preview);
+      setMapping(preview.mapping);
+      setStep('preview');
+    } catch (err) {
+      console.error('Failed to preview import:', err);
+      setError(err instanceof Error ? err.message : 'Failed to preview import');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function commitImport() {
+    try {
+      setLoading(true);
+      setError(null);
+      const committed = await importKeywords({
+        format,
+        content,
+        mapping,
+        dry_run: false,
+        reviewer: reviewer.trim() || undefined,
+      });
+      setResult(committed);
+      setStep('done');
+      onImported();
+    } catch (err) {
+      console.error('Failed to import keywords:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import keywords');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function updateMapping(field: ImportField, column: string) {
+    const next = { ...mapping };
+    if (column) {
+      next[field] = column;
+    } else {
+      delete next[field];
+    }
+    runPreview(next);
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div className="bg-white rounded-lg max-w-4xl w-full max-h-[90vh] overflow-hidden flex flex-col" onClick={(e) => e.stopPropagation()}>
+        {/* Header */}
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Import Keywords</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              {step === 'upload' && 'Upload or paste a CSV/JSON export from your keyword tool'}
+              {step === 'preview' && 'Check the column mapping and review what will be imported'}
+              {step === 'done' && 'Import complete'}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-800">{error}</p>
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <>
+              <div className="flex items-center space-x-4">
+                <input
+                  type="file"
+                  accept=".csv,.tsv,.json,text/csv,application/json"
+                  onChange={(e) => handleFile(e.currentTarget.files?.[0])}
+                  className="text-sm"
+                />
+                <select
+                  value={format}
+                  onChange={(e) => setFormat(e.currentTarget.value as 'csv' | 'json')}
+                  className="text-sm rounded border-gray-300"
+                >
+                  <option value="csv">CSV</option>
+                  <option value="json">JSON</option>
+                </select>
+              </div>
+              <textarea
+                value={content}
+                onChange={(e) => setContent(e.currentTarget.value)}
+                placeholder={'Keyword,Volume,KD,Type,Notes\nhubspot salesforce integration,880,34,guide,Integration cluster'}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                rows={12}
+              />
+            </>
+          )}
+
+          {step === 'preview' && result && (
+            <>
+              {/* Column Mapping */}
+              <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                <h3 className="text-sm font-medium text-gray-900 mb-3">Column Mapping</h3>
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                  {(Object.keys(FIELD_LABELS) as ImportField[]).map(field => (
+                    <div key={field}>
+                      <label className="block text-xs text-gray-700 mb-1">
+                        {FIELD_LABELS[field]}{field === 'keyword' && ' *'}
+                      </label>
+                      <select
+                        value={mapping[field] || ''}
+                        onChange={(e) => updateMapping(field, e.currentTarget.value)}
+                        disabled={loading}
+                        className="w-full text-sm rounded border-gray-300"
+                      >
+                        <option value="">— Not mapped —</option>
+                        {result.columns.map(column => (
+                          <option key={column} value={column}>{column}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Preview Tabs */}
+              <div className="flex space-x-2">
+                {(['new', 'duplicate', 'invalid'] as const).map(tab => (
+                  <button
+                    key={tab}
+                    onClick={() => setPreviewTab(tab)}
+                    className={`px-3 py-1 rounded-lg text-sm font-medium transition ${
+                      previewTab === tab ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {tab === 'new' ? 'New' : tab === 'duplicate' ? 'Duplicates' : 'Invalid'} ({result.summary[tab]})
+                  </button>
+                ))}
+              </div>
+
+              <div className="border border-gray-200 rounded-lg overflow-hidden">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-700 uppercase">Row</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-700 uppercase">Keyword</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-700 uppercase">Type</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-700 uppercase">Volume</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-700 uppercase">Difficulty</th>
+                      <th className="px-3 py-2 text-left text-xs font-medium text-gray-700 uppercase">
+                        {previewTab === 'new' ? 'Score' : 'Reason'}
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {result.preview[previewTab].map(item => (
+                      <tr key={item.row}>
+                        <td className="px-3 py-2 text-gray-500">{item.row}</td>
+                        <td className="px-3 py-2 font-medium text-gray-900">{item.values.keyword || '-'}</td>
+                        <td className="px-3 py-2 text-gray-600">{item.values.article_type}</td>
+                        <td className="px-3 py-2 text-gray-600">{item.values.search_volume?.toLocaleString() ?? '-'}</td>
+                        <td className="px-3 py-2 text-gray-600">{item.values.difficulty ?? '-'}</td>
+                        <td className="px-3 py-2 text-gray-600">
+                          {'errors' in item
+                            ? <span className="text-red-600">{item.errors.join('; ')}</span>
+                            : 'reason' in item
+                              ? <span className="text-yellow-700">{item.reason}</span>
+                              : <OpportunityScore entry={{ priority_score: item.values.priority_score ?? null, score_breakdown: item.values.score_breakdown }} />}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {result.preview[previewTab].length === 0 && (
+                  <div className="text-center py-6 text-gray-500 text-sm">No rows in this group.</div>
+                )}
+              </div>
+            </>
+          )}
+
+          {step === 'done' && result && (
+            <div className="text-center py-8">
+              <p className="text-2xl font-bold text-green-600">✓ {result.summary.imported} keywords imported</p>
+              <p className="mt-2 text-sm text-gray-600">
+                Skipped {result.summary.duplicate} duplicate and {result.summary.invalid} invalid rows.
+                New keywords are waiting in Pending Approvals.
+              </p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 border-t border-gray-200 bg-gray-50 flex items-center justify-end space-x-3">
+          {step === 'preview' && (
+            <button
+              onClick={() => setStep('upload')}
+              disabled={loading}
+              className="px-4 py-2 text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 disabled:opacity-50 transition font-medium"
+            >
+              Back
+            </button>
+          )}
+          {step === 'upload' && (
+            <button
+              onClick={() => runPreview()}
+              disabled={loading || !content.trim()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition font-medium"
+            >
+              {loading ? 'Analyzing...' : 'Preview Import'}
+            </button>
+          )}
+          {step === 'preview' && result && (
+            <button
+              onClick={commitImport}
+              disabled={loading || result.summary.new === 0}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition font-medium"
+            >
+              {loading ? 'Importing...' : `Import ${result.summary.new} Keywords`}
+            </button>
+          )}
+          {step === 'done' && (
+            <button
+              onClick={onClose}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg hover:bg-gray-300 transition font-medium"
+            >
+              Close
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
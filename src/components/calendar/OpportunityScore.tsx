@@ -0,0 +1,41 @@
+import type { CalendarEntry, ScoreBreakdown } from '../../lib/calendarApi';
+
+/**
+ * Tooltip text explaining a score: each factor's input, normalized value,
+ * weight and the points it contributed
+ */
+export function describeScore(breakdown: ScoreBreakdown | null | undefined): string | undefined {
+  if (!breakdown?.factors?.length) return undefined;
+
+  return [
+    ...breakdown.factors.map(factor =>
+      `${factor.label} (${formatInput(factor.input)}): ${Math.round(factor.value * 100)}% × weight ${Math.round(factor.weight * 100)}% = ${factor.points} pts`
+    ),
+    `Formula ${breakdown.formula} v${breakdown.version}`,
+  ].join('\n');
+}
+
+/**
+ * An entry's opportunity score, with its breakdown on hover
+ */
+export default function OpportunityScore({ entry, className = '' }: { entry: Pick<CalendarEntry, 'priority_score' | 'score_breakdown'>; className?: string }) {
+  if (entry.priority_score === null || entry.priority_score === undefined) {
+    return <span className="text-gray-400">—</span>;
+  }
+
+  const tooltip = describeScore(entry.score_breakdown);
+
+  return (
+    <span
+      title={tooltip}
+      className={`${tooltip ? 'cursor-help underline decoration-dotted underline-offset-2' : ''} ${className}`}
+    >
+      {entry.priority_score}
+    </span>
+  );
+}
+
+function formatInput(input: number | string | null): string {
+  if (input === null || input === undefined) return 'unknown';
+  return typeof input === 'number' ? input.toLocaleString() : input;
+}
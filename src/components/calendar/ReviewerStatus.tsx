@@ -0,0 +1,99 @@
+import { useState } from 'preact/hooks';
+import type { CalendarEntry } from '../../lib/calendarApi';
+
+const REVIEWER_STORAGE_KEY = 'calendar.reviewer';
+
+/**
+ * Reviewer name remembered in this browser, recorded on every approval and decline
+ */
+export function useReviewer(): [string, (name: string) => void] {
+  const [reviewer, setReviewer] = useState(() =>
+    typeof localStorage === 'undefined' ? '' : localStorage.getItem(REVIEWER_STORAGE_KEY) || ''
+  );
+
+  function updateReviewer(name: string) {
+    setReviewer(name);
+    localStorage.setItem(REVIEWER_STORAGE_KEY, name.trim());
+  }
+
+  return [reviewer, updateReviewer];
+}
+
+interface ReviewerInputProps {
+  reviewer: string;
+  onChange: (name: string) => void;
+}
+
+export function ReviewerInput({ reviewer, onChange }: ReviewerInputProps) {
+  return (
+    <label className="flex items-center text-sm text-gray-700">
+      <span className="mr-2">Reviewing as</span>
+      <input
+        type="text"
+        value={reviewer}
+        onInput={(e) => onChange(e.currentTarget.value)}
+        placeholder="Your name"
+        className={`w-36 text-sm rounded ${reviewer.trim() ? 'border-gray-300' : 'border-red-300'}`}
+      />
+    </label>
+  );
+}
+
+interface ApprovalBadgeProps {
+  entry: CalendarEntry;
+  reviewer: string;
+}
+
+/**
+ * Who has signed off on an entry and who still needs to act
+ */
+export function ApprovalBadge({ entry, reviewer }: ApprovalBadgeProps) {
+  const approvals = entry.approvals || [];
+
+  if (entry.status === 'pending_second_approval') {
+    const approvedByMe = approvals.some(a => a.reviewer.trim().toLowerCase() === reviewer.trim().toLowerCase());
+    return (
+      <span
+        className="inline-flex mt-1 px-2 py-0.5 text-xs font-medium rounded-full bg-orange-100 text-orange-800"
+        title={[
+          entry.approval_requirement?.reason,
+          ...approvals.map(a => `Approved by ${a.reviewer} on ${new Date(a.at).toLocaleString()}`)
+        ].filter(Boolean).join('\n')}
+      >
+        ✓ {approvals.map(a => a.reviewer).join(', ')} · {approvedByMe
+          ? 'waiting for another reviewer'
+          : 'needs a second reviewer'}
+      </span>
+    );
+  }
+
+  if (entry.approval_requirement?.required === 2) {
+    return (
+      <span
+        className="inline-flex mt-1 px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700"
+        title={entry.approval_requirement.reason || undefined}
+      >
+        👥 Needs 2 reviewers
+      </span>
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Marks an entry an approval rule approved or declined, rather than a reviewer
+ */
+export function AutoRuleBadge({ entry }: { entry: CalendarEntry }) {
+  if (!entry.auto_rule_name) return null;
+
+  const declined = entry.status === 'rejected';
+  return (
+    <span
+      className={`inline-flex mt-1 px-2 py-0.5 text-xs font-medium rounded-full ${declined ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}
+      title={`${declined ? 'Declined' : 'Approved'} automatically by the rule "${entry.auto_rule_name}"`}
+    >
+      ⚙ Auto-{declined ? 'declined' : 'approved'} · {entry.auto_rule_name}
+    </span>
+  );
+}
@@ -0,0 +1,157 @@
+import { useState, useEffect } from 'preact/hooks';
+import {
+  fetchSavedViews,
+  createSavedView,
+  updateSavedView,
+  deleteSavedView,
+  type SavedView,
+} from '../../lib/calendarApi';
+import { parseApprovalFilters, serializeApprovalFilters } from '../../lib/approvalFilters.js';
+
+type ApprovalFilters = ReturnType<typeof parseApprovalFilters>['filters'];
+
+interface SavedViewsMenuProps {
+  filters: ApprovalFilters;
+  reviewer: string;
+  onApply: (filters: ApprovalFilters) => void;
+}
+
+/**
+ * Shared, named filter presets for the approvals table, plus a shareable link to the current filters
+ */
+export default function SavedViewsMenu({ filters, reviewer, onApply }: SavedViewsMenuProps) {
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [lastSelected, setLastSelected] = useState<SavedView | null>(null);
+
+  useEffect(() => {
+    loadViews();
+  }, []);
+
+  async function loadViews() {
+    try {
+      setViews(await fetchSavedViews());
+    } catch (error) {
+      console.error('Failed to load saved views:', error);
+    }
+  }
+
+  const current = serializeApprovalFilters(filters) as Record<string, string>;
+  // Views are matched by their filters, so editing a filter drops back to "Custom filters"
+  const activeView = views.find(view => sameFilters(view.filters, current));
+
+  useEffect(() => {
+    if (activeView) setLastSelected(activeView);
+  }, [activeView?.id]);
+
+  function handleSelect(id: string) {
+    const view = views.find(v => v.id === id);
+    if (view) {
+      onApply(parseApprovalFilters(view.filters).filters);
+    }
+  }
+
+  async function handleSave() {
+    const name = prompt('Name this view:');
+    if (!name?.trim()) return;
+
+    try {
+      setSaving(true);
+      await createSavedView({ name: name.trim(), filters: current, created_by: reviewer.trim() || undefined });
+      await loadViews();
+    } catch (error) {
+      console.error('Failed to save view:', error);
+      alert(`Failed to save view: ${(error as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleUpdate(view: SavedView) {
+    if (!confirm(`Replace the filters saved in "${view.name}" with the current ones?`)) return;
+
+    try {
+      setSaving(true);
+      await updateSavedView(view.id, { filters: current });
+      await loadViews();
+    } catch (error) {
+      console.error('Failed to update view:', error);
+      alert(`Failed to update view: ${(error as Error).message}`);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleDelete(view: SavedView) {
+    if (!confirm(`Delete the saved view "${view.name}" for everyone?`)) return;
+
+    try {
+      await deleteSavedView(view.id);
+      await loadViews();
+    } catch (error) {
+      console.error('Failed to delete view:', error);
+      alert(`Failed to delete view: ${(error as Error).message}`);
+    }
+  }
+
+  async function handleCopyLink() {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      prompt('Copy this link:', window.location.href);
+    }
+  }
+
+  return (
+    <div className="flex items-center space-x-2 text-sm">
+      <select
+        value={activeView?.id || ''}
+        onChange={(e) => handleSelect(e.currentTarget.value)}
+        className="text-sm rounded border-gray-300"
+        aria-label="Saved views"
+      >
+        <option value="">{views.length ? 'Custom filters' : 'No saved views'}</option>
+        {views.map(view => (
+          <option key={view.id} value={view.id}>{view.name}</option>
+        ))}
+      </select>
+
+      {activeView ? (
+        <button onClick={() => handleDelete(activeView)} className="text-gray-500 hover:text-red-600">
+          Delete
+        </button>
+      ) : (
+        <>
+          {lastSelected && views.some(v => v.id === lastSelected.id) && (
+            <button
+              onClick={() => handleUpdate(lastSelected)}
+              disabled={saving}
+              className="text-blue-600 hover:text-blue-700 disabled:opacity-50"
+            >
+              Update "{lastSelected.name}"
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
+          >
+            Save view
+          </button>
+        </>
+      )}
+
+      <button onClick={handleCopyLink} className="text-gray-500 hover:text-gray-700">
+        {copied ? 'Link copied' : 'Copy link'}
+      </button>
+    </div>
+  );
+}
+
+function sameFilters(a: Record<string, string>, b: Record<string, string>): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  return [...keys].every(key => String(a[key] ?? '') === String(b[key] ?? ''));
+}
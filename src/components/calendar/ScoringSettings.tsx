@@ -0,0 +1,225 @@
+import { useState, useEffect } from 'preact/hooks';
+import {
+  fetchScoringSettings,
+  saveScoringFormula,
+  backfillScores,
+  type ScoreFactorKey,
+  type ScoringSettings as Settings,
+} from '../../lib/calendarApi';
+import { useReviewer } from './ReviewerStatus';
+
+/**
+ * Admin page for the opportunity score: tune factor weights (each save is a new
+ * formula version) and rescore entries scored by an older version
+ */
+export default function ScoringSettings() {
+  const [settings, setSettings] = useState<Settings | null>(null);
+  const [weights, setWeights] = useState<Record<string, string>>({});
+  const [articleTypes, setArticleTypes] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [rescoring, setRescoring] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reviewer] = useReviewer();
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  async function loadSettings() {
+    try {
+      setLoading(true);
+      const result = await fetchScoringSettings();
+      setSettings(result);
+      setWeights(toStrings(result.formula.weights));
+      setArticleTypes(toStrings(result.formula.article_types));
+    } catch (err) {
+      console.error('Failed to load scoring formula:', err);
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleSave() {
+    try {
+      setSaving(true);
+      setError(null);
+      await saveScoringFormula({
+        weights: toNumbers(weights) as Partial<Record<ScoreFactorKey, number>>,
+        article_types: toNumbers(articleTypes),
+        notes: notes.trim() || undefined,
+        created_by: reviewer.trim() || undefined,
+      });
+      setNotes('');
+      await loadSettings();
+    } catch (err) {
+      console.error('Failed to save scoring formula:', err);
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function handleRescore() {
+    try {
+      setRescoring(true);
+      setError(null);
+      let total = 0;
+      let remaining = settings?.stale ?? 0;
+      do {
+        const result = await backfillScores(reviewer.trim() || undefined);
+        total += result.rescored;
+        remaining = result.remaining;
+        setProgress(`Rescored ${total} entries, ${remaining} left`);
+        if (result.rescored === 0) break;
+      } while (remaining > 0);
+      await loadSettings();
+    } catch (err) {
+      console.error('Failed to rescore entries:', err);
+      setError((err as Error).message);
+    } finally {
+      setRescoring(false);
+    }
+  }
+
+  if (loading || !settings) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        {error
+          ? <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-800">{error}</div>
+          : <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>}
+      </div>
+    );
+  }
+
+  const { formula, history, stale, factors } = settings;
+  const totalWeight = factors.reduce((sum, { key }) => sum + (parseFloat(weights[key]) || 0), 0);
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-800">{error}</div>
+      )}
+
+      <div className="bg-white border border-gray-200 rounded-lg p-6 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">
+            {formula.name} <span className="text-gray-500 font-normal">v{formula.version}</span>
+          </h3>
+          <p className="text-sm text-gray-600">
+            {stale > 0
+              ? `${stale} ${stale === 1 ? 'entry was' : 'entries were'} scored by an older version, not at all, or under other value settings`
+              : 'Every entry is scored by this version'}
+          </p>
+          {progress && <p className="text-xs text-gray-500 mt-1">{progress}</p>}
+        </div>
+        <button
+          onClick={handleRescore}
+          disabled={rescoring || stale === 0}
+          className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50 font-medium"
+        >
+          {rescoring ? 'Rescoring...' : 'Rescore entries'}
+        </button>
+      </div>
+
+      <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Factor weights</h3>
+          <p className="text-sm text-gray-600">
+            Each factor is scaled to 0-100%; the score is their weighted average. Weights are relative to each other.
+          </p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+          {factors.map(({ key, label }) => (
+            <label key={key} className="text-sm text-gray-700">
+              {label}
+              <input
+                type="number"
+                min="0"
+                step="0.05"
+                value={weights[key] ?? ''}
+                onInput={(e) => setWeights({ ...weights, [key]: e.currentTarget.value })}
+                className="mt-1 w-full text-sm rounded border-gray-300"
+              />
+              <span className="text-xs text-gray-500">
+                {totalWeight > 0 ? `${Math.round(((parseFloat(weights[key]) || 0) / totalWeight) * 100)}% of the score` : '—'}
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-900">Article type value</h4>
+          <p className="text-xs text-gray-500">0 to 1: how much each article type is worth to the article type factor</p>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+          {settings.articleTypes.map(type => (
+            <label key={type} className="text-sm text-gray-700">
+              {type}
+              <input
+                type="number"
+                min="0"
+                max="1"
+                step="0.1"
+                value={articleTypes[type] ?? ''}
+                onInput={(e) => setArticleTypes({ ...articleTypes, [type]: e.currentTarget.value })}
+                className="mt-1 w-full text-sm rounded border-gray-300"
+              />
+            </label>
+          ))}
+        </div>
+
+        <input
+          type="text"
+          value={notes}
+          onInput={(e) => setNotes(e.currentTarget.value)}
+          placeholder="Why the weights changed (optional)"
+          className="w-full text-sm rounded border-gray-300"
+        />
+
+        <div className="flex justify-end">
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50 font-medium"
+          >
+            {saving ? 'Saving...' : `Save as v${formula.version + 1}`}
+          </button>
+        </div>
+      </div>
+
+      {history.length > 0 && (
+        <div className="bg-white border border-gray-200 rounded-lg p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-3">Versions</h3>
+          <ul className="divide-y divide-gray-100 text-sm">
+            {history.map(version => (
+              <li key={version.version} className="py-2">
+                <span className="font-medium text-gray-900">v{version.version}</span>
+                <span className="text-gray-600">
+                  {' '}
+                  {factors.map(({ key, label }) => `${label} ${version.weights[key] ?? 0}`).join(' · ')}
+                </span>
+                <div className="text-xs text-gray-500">
+                  {version.created_at && new Date(version.created_at).toLocaleString()}
+                  {version.created_by && ` by ${version.created_by}`}
+                  {version.notes && ` — ${version.notes}`}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function toStrings(values: Record<string, number>): Record<string, string> {
+  return Object.fromEntries(Object.entries(values || {}).map(([key, value]) => [key, String(value)]));
+}
+
+function toNumbers(values: Record<string, string>): Record<string, number> {
+  return Object.fromEntries(Object.entries(values).map(([key, value]) => [key, parseFloat(value)]));
+}
@@ -10,6 +10,8 @@ export default function StrategySummarizer({ days = 7 }: StrategySummarizerProps
   const [error, setError] = useState<string | null>(null);
   const [keywordCount, setKeywordCount] = useState<number>(0);
   const [generatedAt, setGeneratedAt] = useState<string | null>(null);
+  const [rankBy, setRankBy] = useState<'recent' | 'roi'>('recent');
+  const [roi, setRoi] = useState('');
 
   async function generateSummary() {
     try {
@@ -19,7 +21,7 @@ export default function StrategySummarizer({ days = 7 }: StrategySummarizerProps
       const response = await fetch('/api/calendar/strategy-summary', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ days })
+        body: JSON.stringify({ days, rank_by: rankBy, roi: roi || undefined })
       });
 
       const result = await response.json();
@@ -56,13 +58,35 @@ export default function StrategySummarizer({ days = 7 }: StrategySummarizerProps
           </p>
         </div>
 
-        <button
-          onClick={generateSummary}
-          disabled={loading}
-          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition font-medium"
-        >
-          {loading ? 'Generating...' : '📊 Generate Strategy Report'}
-        </button>
+        <div className="flex items-center space-x-3">
+          <select
+            value={rankBy}
+            onChange={(e) => setRankBy(e.currentTarget.value as 'recent' | 'roi')}
+            className="rounded border-gray-300 text-sm"
+            aria-label="Rank keywords by"
+          >
+            <option value="recent">Newest first</option>
+            <option value="roi">Highest est. ROI first</option>
+          </select>
+          <select
+            value={roi}
+            onChange={(e) => setRoi(e.currentTarget.value)}
+            className="rounded border-gray-300 text-sm"
+            aria-label="Estimated ROI"
+          >
+            <option value="">Any ROI</option>
+            <option value="high">High ROI (top entries)</option>
+            <option value="positive">Pays back</option>
+            <option value="negative">Does not pay back</option>
+          </select>
+          <button
+            onClick={generateSummary}
+            disabled={loading}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition font-medium"
+          >
+            {loading ? 'Generating...' : '📊 Generate Strategy Report'}
+          </button>
+        </div>
       </div>
 
       {error && (
@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'preact/hooks';
+import {
+  fetchTopicClusters,
+  formatDate,
+  getStatusColor,
+  type TopicCluster,
+} from '../../lib/calendarApi';
+
+interface TopicClustersProps {
+  onOpenEntry: (id: string) => void;
+}
+
+export default function TopicClusters({ onOpenEntry }: TopicClustersProps) {
+  const [pillars, setPillars] = useState<TopicCluster[]>([]);
+  const [unclustered, setUnclustered] = useState(0);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadClusters();
+  }, []);
+
+  async function loadClusters() {
+    try {
+      setLoading(true);
+      const result = await fetchTopicClusters();
+      setPillars(result.pillars);
+      setUnclustered(result.unclustered);
+    } catch (error) {
+      console.error('Failed to load topic clusters:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function toggleExpanded(id: string) {
+    const next = new Set(expanded);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setExpanded(next);
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (pillars.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <h3 className="mt-2 text-sm font-medium text-gray-900">No topic clusters yet</h3>
+        <p className="mt-1 text-sm text-gray-500">
+          Set a pillar on calendar entries (parent_id) to group cluster articles under it.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        {pillars.length} pillar{pillars.length === 1 ? '' : 's'} • {unclustered} standalone entries
+      </p>
+
+      {pillars.map(pillar => {
+        const { coverage } = pillar;
+        const isExpanded = expanded.has(pillar.id);
+        const percent = (count: number) => `${(count / coverage.total) * 100}%`;
+
+        return (
+          <div key={pillar.id} className="bg-white border border-gray-200 rounded-lg">
+            <button
+              onClick={() => toggleExpanded(pillar.id)}
+              className="w-full text-left p-4 flex items-center justify-between hover:bg-gray-50"
+            >
+              <div className="flex-1">
+                <div className="flex items-center space-x-2">
+                  <span className="text-gray-400">{isExpanded ? '▾' : '▸'}</span>
+                  <span
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onOpenEntry(pillar.id);
+                    }}
+                    className="font-semibold text-gray-900 hover:text-blue-600 hover:underline"
+                    title="Open details"
+                  >
+                    {pillar.keyword}
+                  </span>
+                  <StatusBadge status={pillar.status} />
+                </div>
+                <p className="text-xs text-gray-500 mt-1 ml-5">
+                  Pillar • {pillar.clusters.length} cluster article{pillar.clusters.length === 1 ? '' : 's'} • {formatDate(pillar.planned_date)}
+                </p>
+              </div>
+
+              {/* Coverage */}
+              <div className="w-64">
+                <div className="flex h-2 rounded-full overflow-hidden bg-gray-100">
+                  <div className="bg-gray-500" style={{ width: percent(coverage.published) }}></div>
+                  <div className="bg-purple-500" style={{ width: percent(coverage.scheduled) }}></div>
+                  <div className="bg-blue-300" style={{ width: percent(coverage.suggested) }}></div>
+                </div>
+                <p className="text-xs text-gray-600 mt-1">
+                  {coverage.published} published • {coverage.scheduled} scheduled • {coverage.suggested} suggested
+                </p>
+              </div>
+            </button>
+
+            {isExpanded && (
+              <ul className="border-t border-gray-200 divide-y divide-gray-100">
+                {pillar.clusters.map(cluster => (
+                  <li key={cluster.id} className="px-4 py-2 pl-12 flex items-center justify-between text-sm">
+                    <div className="flex items-center space-x-2">
+                      <span className="text-gray-300">└</span>
+                      <button onClick={() => onOpenEntry(cluster.id)} className="text-gray-900 hover:text-blue-600 hover:underline">
+                        {cluster.keyword}
+                      </button>
+                      <span className="text-xs text-gray-500">{cluster.article_type}</span>
+                    </div>
+                    <div className="flex items-center space-x-3">
+                      <span className="text-xs text-gray-500">{formatDate(cluster.planned_date)}</span>
+                      <StatusBadge status={cluster.status} />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function StatusBadge({ status }: { status: string }) {
+  const color = getStatusColor(status);
+  return (
+    <span className={`inline-flex px-2 py-0.5 text-xs font-medium rounded-full bg-${color}-100 text-${color}-700`}>
+      {status}
+    </span>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState, useEffect } from 'preact/hooks';
+import { fetchTrafficForecast, type TrafficForecast as Forecast } from '../../lib/calendarApi';
+
+interface TrafficForecastProps {
+  // Suggestions to count as approved in the what-if scenario (the approvals table's selection)
+  approveIds?: string[];
+  // Initial what-if publishing rate
+  perDay?: number;
+}
+
+/**
+ * Projected cumulative organic traffic for scheduled and published entries,
+ * against a what-if: the approved backlog (and any selection) scheduled at per_day
+ */
+export default function TrafficForecast({ approveIds = [], perDay: initialPerDay = 1 }: TrafficForecastProps) {
+  const [months, setMonths] = useState(12);
+  const [perDay, setPerDay] = useState(initialPerDay);
+  const [forecast, setForecast] = useState<Forecast | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const selectionKey = approveIds.join(',');
+
+  useEffect(() => {
+    setPerDay(initialPerDay);
+  }, [initialPerDay]);
+
+  useEffect(() => {
+    loadForecast();
+  }, [months, perDay, selectionKey]);
+
+  async function loadForecast() {
+    try {
+      setLoading(true);
+      setError(null);
+      setForecast(await fetchTrafficForecast({ months, per_day: perDay, approve_ids: approveIds }));
+    } catch (err) {
+      console.error('Failed to load traffic forecast:', err);
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const baseline = forecast?.baseline;
+  const scenario = forecast?.scenario;
+  const max = Math.max(1, ...(baseline?.monthly || []).map(m => m.cumulative), ...(scenario?.monthly || []).map(m => m.cumulative));
+  const gain = scenario && baseline ? scenario.total - baseline.total : 0;
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6">
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Traffic Forecast</h3>
+          <p className="text-sm text-gray-600">
+            Projected cumulative organic visits from scheduled and published articles
+            {forecast && `, ramping up over ${forecast.ramp_days} days after publishing`}
+          </p>
+        </div>
+        <div className="flex items-center space-x-3 text-sm">
+          <select
+            value={months}
+            onChange={(e) => setMonths(parseInt(e.currentTarget.value))}
+            className="rounded border-gray-300 text-sm"
+            aria-label="Forecast period"
+          >
+            <option value={6}>6 months</option>
+            <option value={9}>9 months</option>
+            <option value={12}>12 months</option>
+          </select>
+          <label className="flex items-center text-gray-700">
+            What if
+            <select
+              value={perDay}
+              onChange={(e) => setPerDay(parseInt(e.currentTarget.value))}
+              className="mx-1 rounded border-gray-300 text-sm"
+            >
+              {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+            per day
+          </label>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-800 mb-4">{error}</div>
+      )}
+
+      {loading && !forecast ? (
+        <p className="text-sm text-gray-500">Loading forecast...</p>
+      ) : baseline && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+            <Summary label="As scheduled" value={baseline.total} detail={`${baseline.entries} articles with a date`} color="blue" />
+            {scenario && (
+              <>
+                <Summary
+                  label={approveIds.length > 0 ? `Approving ${scenario.approved} selected, ${scenario.per_day}/day` : `Backlog at ${scenario.per_day}/day`}
+                  value={scenario.total}
+                  detail={`${scenario.schedule.filter(item => item.planned_date).length} more articles scheduled`}
+                  color="green"
+                />
+                <Summary label="Difference" value={gain} detail={baseline.total > 0 ? `${gain >= 0 ? '+' : ''}${Math.round((gain / baseline.total) * 100)}%` : ''} color="gray" signed />
+              </>
+            )}
+          </div>
+
+          <div className={`flex items-end gap-2 h-48 ${loading ? 'opacity-50' : ''}`}>
+            {baseline.monthly.map((month, i) => {
+              const what = scenario?.monthly[i];
+              return (
+                <div key={month.month} className="flex-1 flex flex-col items-center justify-end h-full">
+                  <div className="w-full flex items-end justify-center gap-0.5 h-full">
+                    <div
+                      className="w-1/2 bg-blue-400 rounded-t"
+                      style={{ height: `${(month.cumulative / max) * 100}%` }}
+                      title={`${formatMonth(month.month)} as scheduled: ${month.cumulative.toLocaleString()} total, ${month.traffic.toLocaleString()} that month`}
+                    ></div>
+                    {what && (
+                      <div
+                        className="w-1/2 bg-green-400 rounded-t"
+                        style={{ height: `${(what.cumulative / max) * 100}%` }}
+                        title={`${formatMonth(what.month)} what-if: ${what.cumulative.toLocaleString()} total, ${what.traffic.toLocaleString()} that month`}
+                      ></div>
+                    )}
+                  </div>
+                  <span className="text-xs text-gray-500 mt-1 whitespace-nowrap">{formatMonth(month.month)}</span>
+                </div>
+              );
+            })}
+          </div>
+
+          {(baseline.unscheduled > 0 || (scenario?.ignored.length ?? 0) > 0) && (
+            <p className="text-xs text-gray-500 mt-3">
+              {baseline.unscheduled > 0 && `${baseline.unscheduled} approved ${baseline.unscheduled === 1 ? 'article has' : 'articles have'} no date yet and only count in the what-if. `}
+              {scenario && scenario.ignored.length > 0 && `${scenario.ignored.length} selected ${scenario.ignored.length === 1 ? 'entry is' : 'entries are'} no longer awaiting approval and ${scenario.ignored.length === 1 ? 'was' : 'were'} left out.`}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+interface SummaryProps {
+  label: string;
+  value: number;
+  detail: string;
+  color: 'blue' | 'green' | 'gray';
+  signed?: boolean;
+}
+
+function Summary({ label, value, detail, color, signed = false }: SummaryProps) {
+  return (
+    <div className={`p-3 bg-${color}-50 rounded`}>
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className={`text-xl font-semibold text-${color}-700`}>
+        {signed && value > 0 ? '+' : ''}{value.toLocaleString()}
+      </div>
+      <div className="text-xs text-gray-500">{detail}</div>
+    </div>
+  );
+}
+
+function formatMonth(month: string): string {
+  return new Date(`${month}-01T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', year: '2-digit', timeZone: 'UTC' });
+}
@@ -0,0 +1,399 @@
+import { useState, useEffect } from 'preact/hooks';
+import {
+  approveArticles,
+  declineArticles,
+  undoAction,
+  triggerGeneration,
+  getDifficultyColor,
+  type CalendarEntry,
+  type UndoToken,
+} from '../../lib/calendarApi';
+import { DECLINE_CATEGORIES, getDeclineCategoryLabel } from '../../lib/declineReasons.js';
+import { ApprovalBadge } from './ReviewerStatus';
+import { describeScore } from './OpportunityScore';
+
+interface TriageModeProps {
+  entries: CalendarEntry[];
+  reviewer: string;
+  autoSchedule: boolean;
+  perDay: number;
+  onClose: (changed: boolean) => void;
+}
+
+type Decision =
+  | { id: string; type: 'approve' }
+  | { id: string; type: 'decline'; category: string }
+  | { id: string; type: 'skip' }
+  | { id: string; type: 'generate' };
+
+// Decisions are sent to the server once this many are queued, and on exit
+const BATCH_SIZE = 10;
+
+const SHORTCUTS = [
+  ['A', 'Approve'],
+  ['D', 'Decline (then 1–6 for the reason)'],
+  ['S / →', 'Skip'],
+  ['←', 'Previous entry'],
+  ['G', 'Generate now'],
+  ['U / Ctrl+Z', 'Undo last decision'],
+  ['Esc', 'Exit triage'],
+];
+
+export default function TriageMode({ entries, reviewer, autoSchedule, perDay, onClose }: TriageModeProps) {
+  const [index, setIndex] = useState(0);
+  const [decisions, setDecisions] = useState<Record<string, Decision>>({});
+  const [queued, setQueued] = useState<Decision[]>([]);
+  const [lastBatch, setLastBatch] = useState<{ decisions: Decision[]; tokens: UndoToken[] } | null>(null);
+  const [pickingReason, setPickingReason] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [changed, setChanged] = useState(false);
+
+  const entry = entries[index];
+  const done = index >= entries.length;
+
+  useEffect(() => {
+    function handleKey(e: KeyboardEvent) {
+      const target = e.target as HTMLElement;
+      if (busy || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+
+      if (pickingReason) {
+        const category = DECLINE_CATEGORIES[parseInt(e.key) - 1];
+        if (category) decide({ id: entry.id, type: 'decline', category: category.value });
+        if (category || e.key === 'Escape') setPickingReason(false);
+        return;
+      }
+
+      if ((e.key === 'z' && (e.ctrlKey || e.metaKey)) || e.key === 'u') {
+        e.preventDefault();
+        undo();
+        return;
+      }
+
+      switch (e.key) {
+        case 'Escape':
+          exit();
+          break;
+        case 'ArrowLeft':
+          setIndex(Math.max(0, index - 1));
+          break;
+        case 'a':
+          if (!done) decide({ id: entry.id, type: 'approve' });
+          break;
+        case 'd':
+          if (!done) setPickingReason(true);
+          break;
+        case 's':
+        case 'ArrowRight':
+          if (!done) decide({ id: entry.id, type: 'skip' });
+          break;
+        case 'g':
+          if (!done) generate();
+          break;
+      }
+    }
+
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  function advance() {
+    // Move to the next entry without a decision, or past the end
+    let next = index + 1;
+    while (next < entries.length && decisions[entries[next].id]) next++;
+    setIndex(next);
+  }
+
+  async function decide(decision: Decision) {
+    setDecisions({ ...decisions, [decision.id]: decision });
+
+    if (decision.type === 'skip') {
+      setIndex(index + 1);
+      return;
+    }
+
+    const nextQueue = [...queued.filter(d => d.id !== decision.id), decision];
+    setQueued(nextQueue);
+    advance();
+
+    if (nextQueue.length >= BATCH_SIZE) {
+      await flush(nextQueue);
+    }
+  }
+
+  /**
+   * Send queued decisions to the server: one approve call, one decline call per reason
+   */
+  async function flush(batch = queued) {
+    if (batch.length === 0) return;
+
+    try {
+      setBusy(true);
+      const tokens: UndoToken[] = [];
+      const failures: string[] = [];
+      const keywordOf = (id: string) => entries.find(e => e.id === id)?.keyword || id;
+
+      const approveIds = batch.filter(d => d.type === 'approve').map(d => d.id);
+      if (approveIds.length > 0) {
+        const result = await approveArticles({
+          ids: approveIds,
+          reviewer: reviewer.trim(),
+          auto_schedule: autoSchedule,
+          schedule_start_date: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+          per_day: perDay,
+        });
+        if (result.undo) tokens.push(result.undo);
+        failures.push(...result.data.failed.map(f => `${keywordOf(f.id)}: ${f.error}`));
+      }
+
+      const declinesByCategory: Record<string, string[]> = {};
+      for (const decision of batch) {
+        if (decision.type !== 'decline') continue;
+        (declinesByCategory[decision.category] = declinesByCategory[decision.category] || []).push(decision.id);
+      }
+
+      for (const [category, ids] of Object.entries(declinesByCategory)) {
+        const result = await declineArticles({
+          ids,
+          reviewer: reviewer.trim(),
+          reason_categories: [category],
+        });
+        if (result.undo) tokens.push(result.undo);
+        failures.push(...result.data.failed.map(f => `${keywordOf(f.id)}: ${f.error}`));
+      }
+
+      setQueued(queued.filter(d => !batch.includes(d)));
+      setLastBatch({ decisions: batch, tokens });
+      setChanged(true);
+
+      if (failures.length > 0) {
+        alert(`Some decisions could not be saved:\n\n${failures.map(f => `• ${f}`).join('\n')}`);
+      }
+    } catch (error) {
+      console.error('Failed to save triage decisions:', error);
+      alert('Failed to save decisions. They are still queued; try again or exit to retry.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function undo() {
+    // Prefer decisions that have not reached the server yet
+    const last = queued[queued.length - 1];
+    if (last) {
+      setQueued(queued.slice(0, -1));
+      forget([last]);
+      return;
+    }
+
+    if (!lastBatch) return;
+
+    try {
+      setBusy(true);
+      for (const token of lastBatch.tokens) {
+        await undoAction(token.action_id, reviewer);
+      }
+      forget(lastBatch.decisions);
+      setLastBatch(null);
+    } catch (error) {
+      console.error('Failed to undo triage batch:', error);
+      alert(`Failed to undo: ${(error as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  /**
+   * Drop decisions and return to the first of them
+   */
+  function forget(undone: Decision[]) {
+    const next = { ...decisions };
+    for (const decision of undone) delete next[decision.id];
+    setDecisions(next);
+
+    const positions = undone.map(d => entries.findIndex(e => e.id === d.id)).filter(i => i >= 0);
+    if (positions.length > 0) setIndex(Math.min(...positions));
+  }
+
+  async function generate() {
+    const confirmed = confirm(
+      `Generate "${entry.keyword}" now? This triggers the workflow immediately and is not batched.`
+    );
+    if (!confirmed) return;
+
+    try {
+      setBusy(true);
+      await triggerGeneration(entry.id, reviewer);
+      setDecisions({ ...decisions, [entry.id]: { id: entry.id, type: 'generate' } });
+      setChanged(true);
+      advance();
+    } catch (error) {
+      console.error('Failed to generate article:', error);
+      alert(`Failed to start generation: ${(error as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function exit() {
+    await flush();
+    onClose(changed || queued.length > 0);
+  }
+
+  const counts = { approve: 0, decline: 0, skip: 0, generate: 0 };
+  for (const decision of Object.values(decisions)) counts[decision.type]++;
+  const reviewed = counts.approve + counts.decline + counts.generate;
+  const current = entry ? decisions[entry.id] : undefined;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-gray-900 bg-opacity-60 flex items-center justify-center p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-full flex flex-col">
+        {/* Progress */}
+        <div className="p-4 border-b border-gray-200">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium text-gray-900">
+              Triage · {Math.min(index + 1, entries.length)} of {entries.length}
+            </span>
+            <span className="text-gray-600">
+              ✓ {counts.approve} approved · ✕ {counts.decline} declined · ⚡ {counts.generate} generated · {counts.skip} skipped
+              {queued.length > 0 && ` · ${queued.length} unsaved`}
+            </span>
+            <button onClick={exit} disabled={busy} className="text-gray-400 hover:text-gray-600 text-xl" aria-label="Exit triage">
+              ×
+            </button>
+          </div>
+          <div className="mt-2 h-1.5 bg-gray-100 rounded">
+            <div
+              className="h-1.5 bg-blue-600 rounded"
+              style={{ width: `${(reviewed / Math.max(entries.length, 1)) * 100}%` }}
+            ></div>
+          </div>
+        </div>
+
+        {/* Entry */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {done ? (
+            <div className="text-center py-8">
+              <h3 className="text-lg font-semibold text-gray-900">End of queue</h3>
+              <p className="mt-1 text-sm text-gray-600">
+                {reviewed} decided, {counts.skip} skipped. Press Esc to save and exit, or ← to go back.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div>
+                <div className="flex items-center gap-3">
+                  <h2 className="text-2xl font-bold text-gray-900">{entry.keyword}</h2>
+                  {current && (
+                    <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+                      {current.type === 'decline' ? `declined: ${getDeclineCategoryLabel(current.category)}` : current.type}
+                    </span>
+                  )}
+                </div>
+                <div className="mt-1 flex items-center gap-2 text-sm text-gray-600">
+                  <span className="inline-flex px-2 py-0.5 text-xs font-medium rounded-full bg-gray-100 text-gray-700">
+                    {entry.article_type}
+                  </span>
+                  <span>{entry.seo_insights?.data_source === 'dataforseo' ? '📊 DataForSEO' : '🤖 Estimated'}</span>
+                  <ApprovalBadge entry={entry} reviewer={reviewer} />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                <Metric label="Volume" value={entry.search_volume?.toLocaleString() ?? '—'} />
+                <Metric
+                  label="Difficulty"
+                  value={entry.difficulty ?? '—'}
+                  className={entry.difficulty !== null ? `text-${getDifficultyColor(entry.difficulty)}-700` : ''}
+                />
+                <Metric label="Opportunity" value={entry.priority_score ?? '—'} title={describeScore(entry.score_breakdown)} />
+                <Metric label="Est. traffic/mo" value={entry.estimated_traffic?.toLocaleString() ?? '—'} />
+                <Metric label="Competitors" value={entry.competitor_count ?? '—'} />
+              </div>
+
+              {entry.cannibalization && entry.cannibalization.length > 0 && (
+                <div className="p-3 bg-yellow-50 border border-yellow-200 rounded text-sm text-yellow-800">
+                  ⚠ Overlaps {entry.cannibalization.map(match => `"${match.keyword}" (${match.status})`).join(', ')}
+                </div>
+              )}
+
+              {entry.seo_insights?.strategic_reasoning && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900 mb-1">Strategic reasoning</h4>
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">{entry.seo_insights.strategic_reasoning}</p>
+                </div>
+              )}
+
+              {entry.notes && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-900 mb-1">Notes</h4>
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">{entry.notes}</p>
+                </div>
+              )}
+
+              <div>
+                <h4 className="text-sm font-medium text-gray-900 mb-1">SEO insights</h4>
+                <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                  {Object.entries(entry.seo_insights || {})
+                    .filter(([key]) => key !== 'strategic_reasoning')
+                    .map(([key, value]) => (
+                      <div key={key} className="flex justify-between gap-4 border-b border-gray-50 py-1">
+                        <dt className="text-gray-500">{key.replace(/_/g, ' ')}</dt>
+                        <dd className="text-gray-900 text-right break-all">{formatInsight(value)}</dd>
+                      </div>
+                    ))}
+                </dl>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Shortcuts */}
+        <div className="p-4 border-t border-gray-200 bg-gray-50 rounded-b-lg">
+          {pickingReason ? (
+            <div className="flex flex-wrap gap-2 text-sm">
+              <span className="font-medium text-gray-900 mr-2">Decline reason:</span>
+              {DECLINE_CATEGORIES.map((category, i) => (
+                <button
+                  key={category.value}
+                  onClick={() => {
+                    decide({ id: entry.id, type: 'decline', category: category.value });
+                    setPickingReason(false);
+                  }}
+                  className="px-2 py-1 rounded border border-gray-300 bg-white hover:bg-red-50"
+                >
+                  <kbd className="font-mono text-xs text-gray-500 mr-1">{i + 1}</kbd>
+                  {category.label}
+                </button>
+              ))}
+              <span className="text-gray-500 self-center">Esc to cancel</span>
+            </div>
+          ) : (
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-600">
+              {SHORTCUTS.map(([key, label]) => (
+                <span key={key}>
+                  <kbd className="px-1.5 py-0.5 font-mono bg-white border border-gray-300 rounded">{key}</kbd> {label}
+                </span>
+              ))}
+              {busy && <span className="text-blue-600">Saving...</span>}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function Metric({ label, value, className = '', title }: { label: string; value: string | number; className?: string; title?: string }) {
+  return (
+    <div className="p-3 bg-gray-50 rounded" title={title}>
+      <div className="text-xs text-gray-500">{label}</div>
+      <div className={`text-lg font-semibold text-gray-900 ${className}`}>{value}</div>
+    </div>
+  );
+}
+
+function formatInsight(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
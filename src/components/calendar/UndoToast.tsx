@@ -0,0 +1,76 @@
+import { useState, useEffect } from 'preact/hooks';
+import { undoAction, type UndoToken } from '../../lib/calendarApi';
+import { useReviewer } from './ReviewerStatus';
+
+interface UndoToastProps {
+  token: UndoToken;
+  message: string;
+  onUndone: () => void;
+  onDismiss: () => void;
+}
+
+export default function UndoToast({ token, message, onUndone, onDismiss }: UndoToastProps) {
+  const [remaining, setRemaining] = useState(secondsLeft(token.expires_at));
+  const [undoing, setUndoing] = useState(false);
+  const [reviewer] = useReviewer();
+
+  useEffect(() => {
+    setRemaining(secondsLeft(token.expires_at));
+    const interval = setInterval(() => {
+      const left = secondsLeft(token.expires_at);
+      setRemaining(left);
+      if (left <= 0) {
+        clearInterval(interval);
+        onDismiss();
+      }
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [token.action_id]);
+
+  async function handleUndo() {
+    try {
+      setUndoing(true);
+      const result = await undoAction(token.action_id, reviewer);
+
+      if (result.data.skipped.length > 0) {
+        alert(`${result.message}. ${result.data.skipped.length} changed since and were left as is.`);
+      }
+
+      onUndone();
+    } catch (error) {
+      console.error('Failed to undo action:', error);
+      alert(`Failed to undo: ${(error as Error).message}`);
+    } finally {
+      setUndoing(false);
+      onDismiss();
+    }
+  }
+
+  const minutes = Math.floor(remaining / 60);
+  const seconds = String(remaining % 60).padStart(2, '0');
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 px-4 py-3 bg-gray-900 text-white rounded-lg shadow-lg">
+      <span className="text-sm">{message}</span>
+      <button
+        onClick={handleUndo}
+        disabled={undoing}
+        className="text-sm font-semibold text-blue-300 hover:text-blue-200 disabled:opacity-50"
+      >
+        {undoing ? 'Undoing...' : `Undo (${minutes}:${seconds})`}
+      </button>
+      <button
+        onClick={onDismiss}
+        className="text-gray-400 hover:text-white"
+        aria-label="Dismiss"
+      >
+        ×
+      </button>
+    </div>
+  );
+}
+
+function secondsLeft(expiresAt: string): number {
+  return Math.max(0, Math.round((new Date(expiresAt).getTime() - Date.now()) / 1000));
+}
@@ -0,0 +1,126 @@
+/**
+ * Approval Filters
+ *
+ * The approvals table's filter and sort state, as it appears in the page URL
+ * and in saved views. Shared by the table (URL sync) and the saved views API
+ * (validation), and translated into GET /api/calendar/approve query params.
+ */
+
+import { ARTICLE_TYPES } from './keywordImport.js';
+
+// Allowed values per filter; 'all' (or '' for min_volume) means unfiltered
+export const APPROVAL_FILTER_OPTIONS = {
+  data_source: ['dataforseo', 'estimated'],
+  difficulty: ['ai-generated', 'easy', 'medium', 'hard', 'very-hard'],
+  opportunity: ['ai-generated', 'high', 'medium', 'low'],
+  roi: ['high', 'positive', 'negative', 'no-cpc'],
+  article_type: ARTICLE_TYPES,
+  created: ['today', 'this-week', 'last-week', 'this-month', 'older'],
+  sort: ['keyword', 'search_volume', 'difficulty', 'opportunity_score', 'roi', 'created_at'],
+  order: ['asc', 'desc']
+};
+
+export const DEFAULT_APPROVAL_FILTERS = {
+  data_source: 'all',
+  difficulty: 'all',
+  opportunity: 'all',
+  roi: 'all',
+  min_volume: '',
+  article_type: 'all',
+  created: 'all',
+  sort: 'opportunity_score',
+  order: 'desc'
+};
+
+// Longest saved view name
+export const MAX_VIEW_NAME_LENGTH = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Read filters from URL search params or a saved view's filter object
+ * Unknown keys are ignored; invalid values fall back to the default.
+ * Returns: { filters, invalid: string[] }
+ */
+export function parseApprovalFilters(source) {
+  const get = key => (source instanceof URLSearchParams ? source.get(key) : source?.[key]);
+  const filters = { ...DEFAULT_APPROVAL_FILTERS };
+  const invalid = [];
+
+  for (const [key, options] of Object.entries(APPROVAL_FILTER_OPTIONS)) {
+    const value = get(key);
+    if (value == null || value === '' || value === 'all') continue;
+
+    if (options.includes(value)) {
+      filters[key] = value;
+    } else {
+      invalid.push(`${key}=${value}`);
+    }
+  }
+
+  const minVolume = get('min_volume');
+  if (minVolume != null && minVolume !== '') {
+    if (/^\d+$/.test(String(minVolume))) {
+      filters.min_volume = String(minVolume);
+    } else {
+      invalid.push(`min_volume=${minVolume}`);
+    }
+  }
+
+  return { filters, invalid };
+}
+
+/**
+ * Only the filters that differ from the defaults, for URLs and saved views
+ */
+export function serializeApprovalFilters(filters) {
+  const serialized = {};
+  for (const [key, value] of Object.entries(filters)) {
+    if (key in DEFAULT_APPROVAL_FILTERS && value !== DEFAULT_APPROVAL_FILTERS[key]) {
+      serialized[key] = value;
+    }
+  }
+  return serialized;
+}
+
+/**
+ * Translate filters into GET /api/calendar/approve query params
+ * Created windows are whole local days back from `now`.
+ */
+export function toApprovalQueueParams(filters, now = new Date()) {
+  const params = { sort: filters.sort, order: filters.order };
+
+  for (const key of ['data_source', 'difficulty', 'opportunity', 'roi', 'article_type']) {
+    if (filters[key] !== 'all') params[key] = filters[key];
+  }
+  if (filters.min_volume !== '') {
+    params.min_volume = parseInt(filters.min_volume);
+  }
+
+  if (filters.created !== 'all') {
+    const todayStart = new Date(now);
+    todayStart.setHours(0, 0, 0, 0);
+    const daysAgo = days => new Date(todayStart.getTime() - days * DAY_MS).toISOString();
+
+    switch (filters.created) {
+      case 'today':
+        params.created_after = daysAgo(0);
+        break;
+      case 'this-week':
+        params.created_after = daysAgo(7);
+        break;
+      case 'last-week':
+        params.created_after = daysAgo(14);
+        params.created_before = daysAgo(7);
+        break;
+      case 'this-month':
+        params.created_after = daysAgo(30);
+        break;
+      case 'older':
+        params.created_before = daysAgo(30);
+        break;
+    }
+  }
+
+  return params;
+}
@@ -0,0 +1,232 @@
+/**
+ * Approval Queue
+ *
+ * Server-side filtering, sorting and keyset pagination for entries awaiting
+ * review. Bands mirror the approvals table: difficulty and volume filters
+ * only match entries with real DataForSEO metrics. Opportunity bands apply to
+ * priority_score, which every entry has (see lib/scoring.js). ROI bands apply
+ * to traffic_value, in a range the route works out from the average generation
+ * cost (see lib/pipelineValue.js).
+ */
+
+import { ARTICLE_TYPES } from './keywordImport.js';
+import { rules, validate } from './requestSchema.js';
+
+// Statuses shown in the approval queue
+export const QUEUE_STATUSES = ['suggested', 'pending_second_approval'];
+
+export const MAX_QUEUE_LIMIT = 200;
+
+// Sortable fields and the column each one orders by
+// opportunity_score is the approvals table's name for priority_score, kept for saved views
+export const QUEUE_SORTS = {
+  priority_score: 'priority_score',
+  opportunity_score: 'priority_score',
+  // Same cost and assumptions for every entry, so ROI orders like traffic_value
+  roi: 'traffic_value',
+  keyword: 'keyword',
+  search_volume: 'search_volume',
+  difficulty: 'difficulty',
+  created_at: 'created_at'
+};
+
+const DATA_SOURCES = ['dataforseo', 'estimated'];
+
+const DIFFICULTY_BANDS = {
+  easy: [null, 30],
+  medium: [30, 50],
+  hard: [50, 70],
+  'very-hard': [70, null]
+};
+
+const OPPORTUNITY_BANDS = {
+  high: [70, null],
+  medium: [40, 70],
+  low: [null, 40]
+};
+
+const ROI_FILTERS = ['high', 'positive', 'negative', 'no-cpc'];
+
+const REAL_DATA = 'seo_insights->>data_source';
+
+/**
+ * Query params accepted by GET /api/calendar/approve
+ * - data_source: dataforseo | estimated
+ * - difficulty: easy | medium | hard | very-hard | ai-generated
+ * - opportunity: high | medium | low | ai-generated
+ * - roi: high | positive | negative (see ROI_BANDS) | no-cpc
+ * - min_volume: minimum search volume
+ * - article_type: exact article type
+ * - created_after / created_before: ISO timestamps bounding created_at
+ * - sort: one of QUEUE_SORTS (default priority_score), order: asc | desc (default desc)
+ * - limit: page size (default 50, max MAX_QUEUE_LIMIT)
+ * - cursor: pagination.nextCursor from the previous page
+ */
+export const QUEUE_QUERY = {
+  data_source: rules.oneOf(DATA_SOURCES),
+  difficulty: rules.oneOf([...Object.keys(DIFFICULTY_BANDS), 'ai-generated']),
+  opportunity: rules.oneOf([...Object.keys(OPPORTUNITY_BANDS), 'ai-generated']),
+  roi: rules.oneOf(ROI_FILTERS),
+  min_volume: rules.integer({ min: 0 }),
+  article_type: rules.oneOf(ARTICLE_TYPES),
+  created_after: rules.timestamp(),
+  created_before: rules.timestamp(),
+  sort: rules.oneOf(Object.keys(QUEUE_SORTS), { default: 'priority_score' }),
+  order: rules.oneOf(['asc', 'desc'], { default: 'desc' }),
+  limit: rules.integer({ min: 1, max: MAX_QUEUE_LIMIT, default: 50 }),
+  cursor: rules.string()
+};
+
+/**
+ * Read queue options from query params (see QUEUE_QUERY)
+ * Returns: { options } or { errors: { field: message } }
+ */
+export function parseQueueParams(params) {
+  const { value: query, errors } = validate(QUEUE_QUERY, Object.fromEntries(params), { strings: true });
+  if (errors) {
+    return { errors };
+  }
+
+  let cursor = null;
+  if (query.cursor) {
+    cursor = decodeCursor(query.cursor);
+    if (!cursor || cursor.sort !== query.sort || cursor.order !== query.order) {
+      return { errors: { cursor: 'Invalid cursor for this sort; restart from the first page' } };
+    }
+  }
+
+  return {
+    options: {
+      filters: {
+        dataSource: query.data_source ?? null,
+        difficulty: query.difficulty ?? null,
+        opportunity: query.opportunity ?? null,
+        roi: query.roi ?? null,
+        // traffic_value range for the roi band, set by the route
+        roiRange: null,
+        minVolume: query.min_volume ?? null,
+        articleType: query.article_type ?? null,
+        createdAfter: query.created_after ?? null,
+        createdBefore: query.created_before ?? null
+      },
+      sort: query.sort,
+      order: query.order,
+      limit: query.limit,
+      cursor
+    }
+  };
+}
+
+/**
+ * Apply queue filters to a content_calendar query
+ */
+export function applyQueueFilters(query, filters) {
+  query = query.in('status', QUEUE_STATUSES);
+
+  if (filters.dataSource === 'dataforseo') {
+    query = query.eq(REAL_DATA, 'dataforseo');
+  } else if (filters.dataSource === 'estimated') {
+    query = query.or(`${REAL_DATA}.is.null,${REAL_DATA}.eq.estimated`);
+  }
+
+  if (filters.difficulty === 'ai-generated' || filters.opportunity === 'ai-generated') {
+    query = query.or(`${REAL_DATA}.is.null,${REAL_DATA}.neq.dataforseo`);
+  }
+
+  // Difficulty bands and volume only apply to real data; missing values count as 0
+  const needsRealData = DIFFICULTY_BANDS[filters.difficulty] || filters.minVolume !== null;
+
+  if (needsRealData) {
+    query = query.eq(REAL_DATA, 'dataforseo');
+  }
+
+  if (DIFFICULTY_BANDS[filters.difficulty]) {
+    query = applyBand(query, 'difficulty', DIFFICULTY_BANDS[filters.difficulty]);
+  }
+  if (OPPORTUNITY_BANDS[filters.opportunity]) {
+    query = applyBand(query, 'priority_score', OPPORTUNITY_BANDS[filters.opportunity]);
+  }
+  if (filters.roi === 'no-cpc') {
+    query = query.is('traffic_value', null);
+  } else if (filters.roiRange) {
+    query = applyBand(query.not('traffic_value', 'is', null), 'traffic_value', filters.roiRange);
+  }
+  if (filters.minVolume > 0) {
+    query = query.gte('search_volume', filters.minVolume);
+  }
+
+  if (filters.articleType) {
+    query = query.eq('article_type', filters.articleType);
+  }
+  if (filters.createdAfter) {
+    query = query.gte('created_at', filters.createdAfter);
+  }
+  if (filters.createdBefore) {
+    query = query.lt('created_at', filters.createdBefore);
+  }
+
+  return query;
+}
+
+/**
+ * Order a query for keyset pagination and skip past the cursor
+ * Rows are ordered by the sort column (nulls last), then id.
+ */
+export function applySortAndCursor(query, { sort, order, cursor }) {
+  const column = QUEUE_SORTS[sort];
+
+  if (cursor) {
+    const idAfter = `id.gt.${cursor.id}`;
+    if (cursor.value === null) {
+      query = query.or(`and(${column}.is.null,${idAfter})`);
+    } else {
+      const value = quoteFilterValue(cursor.value);
+      const beyond = order === 'desc' ? 'lt' : 'gt';
+      query = query.or(`${column}.${beyond}.${value},and(${column}.eq.${value},${idAfter}),${column}.is.null`);
+    }
+  }
+
+  return query
+    .order(column, { ascending: order === 'asc', nullsFirst: false })
+    .order('id', { ascending: true });
+}
+
+/**
+ * Cursor pointing just past the last row of a page
+ */
+export function encodeCursor(row, sort, order) {
+  const value = row[QUEUE_SORTS[sort]] ?? null;
+  return Buffer.from(JSON.stringify({ sort, order, value, id: row.id })).toString('base64url');
+}
+
+function decodeCursor(cursor) {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    return decoded && typeof decoded.id === 'string' ? decoded : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Lower bound inclusive, upper bound exclusive; missing values fall in the lowest band
+ */
+function applyBand(query, column, [min, max]) {
+  if (min !== null) {
+    query = query.gte(column, min);
+  }
+  if (max !== null) {
+    query = min === null
+      ? query.or(`${column}.lt.${max},${column}.is.null`)
+      : query.lt(column, max);
+  }
+  return query;
+}
+
+/**
+ * Quote a value for use inside a PostgREST or() filter
+ */
+function quoteFilterValue(value) {
+  if (typeof value === 'number') return String(value);
+  return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
@@ -0,0 +1,398 @@
+/**
+ * Approval Rules
+ *
+ * Admin-defined rules that approve or decline new suggestions without a
+ * reviewer. A rule is a list of conditions over entry columns and
+ * seo_insights keys; enabled rules run in priority order and the first one
+ * whose conditions all match decides. Decisions go through the status
+ * machine like any other, with the rule as the reviewer, and the entry keeps
+ * the deciding rule in auto_rule_id / auto_rule_name.
+ */
+
+import { ARTICLE_TYPES } from './keywordImport.js';
+import { parseDeclineCategories } from './declineReasons.js';
+import { getApprovalRequirement } from './approvals.js';
+import { getSchedulingRules, loadOccupancy, loadPillarDates, planSchedule } from './scheduler.js';
+import { applyTransition } from './statusMachine.js';
+import { rules, validate } from './requestSchema.js';
+
+export const RULE_DECISIONS = ['approve', 'decline'];
+
+// Entry columns rules may test; any other seo_insights key is available as seo_insights.<key>
+export const RULE_FIELDS = [
+  'keyword',
+  'article_type',
+  'search_volume',
+  'difficulty',
+  'competitor_count',
+  'priority_score',
+  'seo_insights.data_source',
+  'seo_insights.cpc'
+];
+
+// The research tool's own opportunity number; rules use the scored priority_score instead
+const RETIRED_FIELDS = ['seo_insights.priority_score'];
+
+// takes: what `value` must be ('number', 'text', 'list', 'any' scalar, or 'none')
+export const RULE_OPERATORS = [
+  { value: 'eq', label: '=', takes: 'any' },
+  { value: 'neq', label: '≠', takes: 'any' },
+  { value: 'lt', label: '<', takes: 'number' },
+  { value: 'lte', label: '≤', takes: 'number' },
+  { value: 'gt', label: '>', takes: 'number' },
+  { value: 'gte', label: '≥', takes: 'number' },
+  { value: 'in', label: 'is one of', takes: 'list' },
+  { value: 'not_in', label: 'is none of', takes: 'list' },
+  { value: 'contains', label: 'contains', takes: 'text' },
+  { value: 'exists', label: 'is set', takes: 'none' },
+  { value: 'missing', label: 'is not set', takes: 'none' }
+];
+
+const MAX_RULE_NAME_LENGTH = 100;
+const MAX_CONDITIONS = 20;
+const MAX_DECLINE_REASON_LENGTH = 2000;
+const INSIGHT_FIELD = /^seo_insights\.[a-z0-9_]+$/;
+
+// Where an entry ended up after human review, for comparing against a rule
+const DECLINED_STATUSES = ['rejected'];
+const UNDECIDED_STATUSES = ['suggested', 'pending_second_approval'];
+
+// A rule definition in a request body; conditions and categories are checked further by parseRule
+const RULE_BODY = {
+  name: rules.string({ max: MAX_RULE_NAME_LENGTH, required: true }),
+  decision: rules.oneOf(RULE_DECISIONS, { required: true }),
+  conditions: rules.list(rules.object(), { max: MAX_CONDITIONS, required: true }),
+  priority: rules.integer({ default: 100 }),
+  enabled: rules.boolean({ default: true }),
+  auto_schedule: rules.boolean({ default: false }),
+  decline_categories: rules.list(rules.string(), { nullable: true }),
+  decline_reason: rules.string({ max: MAX_DECLINE_REASON_LENGTH, nullable: true })
+};
+
+/**
+ * Validate a rule definition from a request body
+ * Pass `existing` to validate a partial update merged over a stored rule.
+ * Returns: { rule } with normalized columns, or { errors: { field: message } }
+ */
+export function parseRule(input, existing = null) {
+  const source = existing
+    ? { ...Object.fromEntries(Object.keys(RULE_BODY).map(field => [field, existing[field]])), ...input }
+    : input;
+
+  const { value, errors = {} } = validate(RULE_BODY, source);
+
+  const conditions = [];
+  if (!errors.conditions) {
+    const problems = [];
+    for (const [index, condition] of source.conditions.entries()) {
+      const parsed = parseCondition(condition);
+      if (parsed.error) {
+        problems.push(`Condition ${index + 1}: ${parsed.error}`);
+      } else {
+        conditions.push(parsed.condition);
+      }
+    }
+    if (source.conditions.length === 0) {
+      problems.push('conditions must list at least one condition');
+    }
+    if (problems.length > 0) {
+      errors.conditions = problems.join('; ');
+    }
+  }
+
+  const { categories, invalid } = parseDeclineCategories(value?.decline_categories ?? source.decline_categories);
+  if (!errors.decline_categories && invalid.length > 0) {
+    errors.decline_categories = `Unknown reason categories: ${invalid.join(', ')}`;
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { errors };
+  }
+
+  return {
+    rule: {
+      name: value.name,
+      decision: value.decision,
+      conditions,
+      priority: value.priority,
+      enabled: value.enabled,
+      auto_schedule: value.decision === 'approve' && value.auto_schedule,
+      decline_categories: value.decision === 'decline' ? categories : [],
+      decline_reason: value.decision === 'decline' ? value.decline_reason || null : null
+    }
+  };
+}
+
+function parseCondition(condition) {
+  const { field, op, value } = condition || {};
+
+  if (RETIRED_FIELDS.includes(field)) {
+    return { error: `${field} is not used for rules; test priority_score instead` };
+  }
+  if (typeof field !== 'string' || (!RULE_FIELDS.includes(field) && !INSIGHT_FIELD.test(field))) {
+    return { error: `unknown field ${field}` };
+  }
+
+  const operator = RULE_OPERATORS.find(o => o.value === op);
+  if (!operator) {
+    return { error: `unknown operator ${op}` };
+  }
+
+  switch (operator.takes) {
+    case 'none':
+      return { condition: { field, op } };
+    case 'number':
+      if (typeof value !== 'number' || !isFinite(value)) {
+        return { error: `${field} ${operator.label} needs a number` };
+      }
+      break;
+    case 'text':
+      if (typeof value !== 'string' || !value.trim()) {
+        return { error: `${field} ${operator.label} needs text` };
+      }
+      break;
+    case 'list':
+      if (!Array.isArray(value) || value.length === 0 || !value.every(isScalar)) {
+        return { error: `${field} ${operator.label} needs a list of values` };
+      }
+      break;
+    default:
+      if (!isScalar(value)) {
+        return { error: `${field} ${operator.label} needs a value` };
+      }
+  }
+
+  if (field === 'article_type') {
+    const types = Array.isArray(value) ? value : [value];
+    const unknown = types.filter(type => !ARTICLE_TYPES.includes(type));
+    if (['eq', 'neq', 'in', 'not_in'].includes(op) && unknown.length > 0) {
+      return { error: `unknown article_type ${unknown.join(', ')}` };
+    }
+  }
+
+  return { condition: { field, op, value } };
+}
+
+function isScalar(value) {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+/**
+ * Whether an entry meets every condition of a rule
+ */
+export function matchesRule(entry, rule) {
+  return rule.conditions.length > 0 && rule.conditions.every(condition => matchesCondition(entry, condition));
+}
+
+function matchesCondition(entry, { field, op, value }) {
+  const actual = field.startsWith('seo_insights.')
+    ? entry.seo_insights?.[field.slice('seo_insights.'.length)]
+    : entry[field];
+  const isSet = actual !== null && actual !== undefined && actual !== '';
+
+  switch (op) {
+    case 'exists':
+      return isSet;
+    case 'missing':
+      return !isSet;
+    case 'eq':
+      return isSet && normalize(actual) === normalize(value);
+    case 'neq':
+      return !isSet || normalize(actual) !== normalize(value);
+    case 'lt':
+      return isSet && Number(actual) < value;
+    case 'lte':
+      return isSet && Number(actual) <= value;
+    case 'gt':
+      return isSet && Number(actual) > value;
+    case 'gte':
+      return isSet && Number(actual) >= value;
+    case 'in':
+      return isSet && value.map(normalize).includes(normalize(actual));
+    case 'not_in':
+      return !isSet || !value.map(normalize).includes(normalize(actual));
+    case 'contains':
+      return isSet && String(actual).toLowerCase().includes(value.toLowerCase());
+    default:
+      return false;
+  }
+}
+
+function normalize(value) {
+  return typeof value === 'string' ? value.trim().toLowerCase() : value;
+}
+
+/**
+ * Human-readable condition, e.g. "difficulty < 30"
+ */
+export function describeCondition({ field, op, value }) {
+  const operator = RULE_OPERATORS.find(o => o.value === op);
+  if (operator.takes === 'none') return `${field} ${operator.label}`;
+  return `${field} ${operator.label} ${Array.isArray(value) ? value.join(', ') : value}`;
+}
+
+/**
+ * The reviewer name a rule's decisions are recorded under
+ */
+export function ruleReviewer(rule) {
+  return `Rule: ${rule.name}`;
+}
+
+/**
+ * Load rules in evaluation order
+ */
+export async function loadRules(supabase, { enabledOnly = false } = {}) {
+  let query = supabase
+    .from('approval_rules')
+    .select('*')
+    .order('priority', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (enabledOnly) {
+    query = query.eq('enabled', true);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * The first enabled rule (in priority order) an entry matches, or null
+ */
+export function findMatchingRule(entry, rules) {
+  return rules.find(rule => rule.enabled && matchesRule(entry, rule)) || null;
+}
+
+/**
+ * Run the enabled rules on a new suggestion and apply the first match
+ * An approve rule counts as one reviewer, so entries under the two-person
+ * policy wait in 'pending_second_approval' for a human. With auto_schedule,
+ * fully approved entries take the first free publishing slot from tomorrow.
+ * Returns null when no rule matches, otherwise
+ * { rule: { id, name }, decision, entry, schedule } or { rule, decision, error }
+ */
+export async function applyApprovalRules(repository, entry, { source = null, now = new Date() } = {}) {
+  if (entry.status !== 'suggested') return null;
+
+  const rule = findMatchingRule(entry, await loadRules(repository.db, { enabledOnly: true }));
+  if (!rule) return null;
+
+  const reviewer = ruleReviewer(rule);
+  const label = { id: rule.id, name: rule.name };
+
+  const result = rule.decision === 'approve'
+    ? await applyTransition(repository, 'approve', entry.id, {
+      reviewer,
+      rule,
+      now,
+      source,
+      requiredApprovals: row => getApprovalRequirement(row).required
+    })
+    : await applyTransition(repository, 'decline', entry.id, {
+      reviewer,
+      rule,
+      now,
+      source,
+      declineReason: rule.decline_reason || `Declined automatically by rule "${rule.name}"`,
+      declineCategories: rule.decline_categories || []
+    });
+
+  if (result.error) {
+    return { rule: label, decision: rule.decision, error: result.error };
+  }
+
+  let decided = result.data;
+  let schedule = null;
+
+  if (rule.auto_schedule && decided.status === 'approved') {
+    const startDate = new Date(now.getTime() + 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    const [assignment] = planSchedule([decided], {
+      startDate,
+      rules: getSchedulingRules(),
+      occupancy: await loadOccupancy(repository, startDate),
+      pillarDates: await loadPillarDates(repository, [decided])
+    });
+    schedule = assignment;
+
+    if (assignment.planned_date) {
+      const scheduled = await applyTransition(repository, 'schedule', entry.id, {
+        plannedDate: assignment.planned_date,
+        actor: reviewer,
+        source
+      });
+      if (scheduled.data) {
+        decided = scheduled.data;
+      }
+    }
+  }
+
+  return { rule: label, decision: rule.decision, entry: decided, schedule };
+}
+
+/**
+ * What a rule would have matched among existing entries, against what reviewers actually decided
+ * Returns: {
+ *   matched, outcomes: { approved, declined, pending, by_rule },
+ *   agreement: share of reviewer-decided matches where reviewers made the rule's decision (null if none),
+ *   conflicts: matches reviewers decided the other way, sample: first matches
+ * }
+ */
+export async function previewRule(repository, rule, { sampleSize = 25 } = {}) {
+  const entries = await repository.entries.list(
+    'id, keyword, article_type, search_volume, difficulty, competitor_count, priority_score, seo_insights, status, approved_by, declined_by, auto_rule_id, auto_rule_name, created_at'
+  );
+
+  const matches = entries.filter(entry => matchesRule(entry, rule));
+  const outcomes = { approved: 0, declined: 0, pending: 0, by_rule: 0 };
+  const conflicts = [];
+
+  for (const entry of matches) {
+    const outcome = reviewOutcome(entry);
+    outcomes[outcome]++;
+
+    const disagrees = (rule.decision === 'approve' && outcome === 'declined')
+      || (rule.decision === 'decline' && outcome === 'approved');
+    if (disagrees && conflicts.length < sampleSize) {
+      conflicts.push({ ...summarize(entry), outcome });
+    }
+  }
+
+  // Decisions a rule made are not reviewer judgement, so they only count as by_rule
+  const decided = outcomes.approved + outcomes.declined;
+  const agreeing = rule.decision === 'approve' ? outcomes.approved : outcomes.declined;
+
+  return {
+    scanned: entries.length,
+    matched: matches.length,
+    outcomes,
+    agreement: decided > 0 ? Math.round((agreeing / decided) * 100) / 100 : null,
+    conflicts,
+    sample: matches.slice(0, sampleSize).map(entry => ({ ...summarize(entry), outcome: reviewOutcome(entry) }))
+  };
+}
+
+function reviewOutcome({ status, auto_rule_id, auto_rule_name }) {
+  if (UNDECIDED_STATUSES.includes(status)) return 'pending';
+  // The rule reference is cleared when a rule is deleted; its name stays
+  if (auto_rule_id || auto_rule_name) return 'by_rule';
+  if (DECLINED_STATUSES.includes(status)) return 'declined';
+  return 'approved';
+}
+
+function summarize(entry) {
+  return {
+    id: entry.id,
+    keyword: entry.keyword,
+    article_type: entry.article_type,
+    search_volume: entry.search_volume,
+    difficulty: entry.difficulty,
+    status: entry.status,
+    decided_by: entry.declined_by || entry.approved_by || null,
+    created_at: entry.created_at
+  };
+}
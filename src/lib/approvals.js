@@ -0,0 +1,85 @@
+/**
+ * Approvals
+ *
+ * Reviewer identity and the optional two-person approval policy. Entries the
+ * policy covers wait in 'pending_second_approval' until a second, different
+ * reviewer signs off.
+ */
+
+import { calculateEstimatedTraffic } from './trafficForecast.js';
+import { applyTransitions } from './statusMachine.js';
+
+export const MAX_REVIEWER_LENGTH = 100;
+
+/**
+ * Resolve the two-person approval policy from environment
+ * The policy is off unless at least one threshold is set.
+ *
+ * Env:
+ * - SECOND_APPROVAL_MIN_TRAFFIC: estimated monthly traffic at or above which two reviewers are required
+ * - SECOND_APPROVAL_MIN_DIFFICULTY: keyword difficulty at or above which two reviewers are required
+ */
+export function getApprovalPolicy() {
+  const minTraffic = parseInt(import.meta.env.SECOND_APPROVAL_MIN_TRAFFIC);
+  const minDifficulty = parseInt(import.meta.env.SECOND_APPROVAL_MIN_DIFFICULTY);
+
+  return {
+    enabled: !isNaN(minTraffic) || !isNaN(minDifficulty),
+    minTraffic: isNaN(minTraffic) ? null : minTraffic,
+    minDifficulty: isNaN(minDifficulty) ? null : minDifficulty
+  };
+}
+
+/**
+ * How many distinct reviewers an entry needs, and why
+ * Returns: { required: 1 | 2, reason: string | null }
+ */
+export function getApprovalRequirement(entry, policy = getApprovalPolicy()) {
+  if (!policy.enabled) return { required: 1, reason: null };
+
+  const traffic = calculateEstimatedTraffic(entry.search_volume, entry.difficulty);
+
+  if (policy.minTraffic !== null && traffic >= policy.minTraffic) {
+    return { required: 2, reason: `Estimated traffic ${traffic}/mo ≥ ${policy.minTraffic}` };
+  }
+
+  if (policy.minDifficulty !== null && entry.difficulty != null && entry.difficulty >= policy.minDifficulty) {
+    return { required: 2, reason: `Difficulty ${entry.difficulty} ≥ ${policy.minDifficulty}` };
+  }
+
+  return { required: 1, reason: null };
+}
+
+/**
+ * Normalize a reviewer name from a request body
+ * Returns the trimmed name, or null if missing or invalid
+ */
+export function parseReviewer(value) {
+  if (typeof value !== 'string') return null;
+  const reviewer = value.trim();
+  if (!reviewer || reviewer.length > MAX_REVIEWER_LENGTH) return null;
+  return reviewer;
+}
+
+/**
+ * Record one reviewer's approval on each entry
+ * A first approval on an entry the policy covers moves it to
+ * 'pending_second_approval'; a second approval by a different reviewer
+ * (or a single approval where the policy does not apply) approves it.
+ * `source` labels the approvals in the event log.
+ * Returns: { approved: row[], pending: row[], failed: [{ id, error }] }
+ */
+export async function approveEntries(repository, ids, reviewer, { policy = getApprovalPolicy(), now = new Date(), source = null } = {}) {
+  const { updated, failed } = await applyTransitions(repository, 'approve', ids, {
+    reviewer,
+    now,
+    source,
+    requiredApprovals: entry => getApprovalRequirement(entry, policy).required
+  });
+
+  return {
+    approved: updated.filter(row => row.status === 'approved'),
+    pending: updated.filter(row => row.status === 'pending_second_approval'),
+    failed: failed.map(({ id, error }) => ({ id, error }))
+  };
+}
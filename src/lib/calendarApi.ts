@@ -1,26 +1,115 @@
 // Calendar API client utilities
 const API_BASE = import.meta.env.DEV ? 'http://localhost:4321' : '';
 
+// Codes in the API's error envelope: { success: false, code, error, fields? } (see lib/requestSchema.js)
+export type ApiErrorCode =
+  | 'BAD_REQUEST'
+  | 'VALIDATION_FAILED'
+  | 'FORBIDDEN'
+  | 'NOT_FOUND'
+  | 'CONFLICT'
+  | 'GONE'
+  | 'INTERNAL_ERROR'
+  | 'UPSTREAM_FAILED';
+
+/**
+ * A failed API request. Every client function throws one of these (or a
+ * subclass by code), with the server's message and, for invalid input, the
+ * message per field in `fields`.
+ */
+export class ApiError extends Error {
+  code: ApiErrorCode;
+  status: number;
+  fields: Record<string, string>;
+
+  constructor(message: string, code: ApiErrorCode, status: number, fields: Record<string, string> = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = status;
+    this.fields = fields;
+  }
+}
+
+// VALIDATION_FAILED: `fields` names each invalid field
+export class ValidationError extends ApiError {}
+export class NotFoundError extends ApiError {}
+// CONFLICT: a duplicate, or the data changed since it was loaded
+export class ConflictError extends ApiError {}
+export class ForbiddenError extends ApiError {}
+
+const ERROR_CLASSES: Partial<Record<ApiErrorCode, typeof ApiError>> = {
+  VALIDATION_FAILED: ValidationError,
+  NOT_FOUND: NotFoundError,
+  CONFLICT: ConflictError,
+  FORBIDDEN: ForbiddenError,
+};
+
+/**
+ * The typed error for a failed response and its parsed body (null if it had none)
+ * `fallback` is the message when the body carries no error, e.g. a proxy's error page.
+ */
+export function toApiError(response: Response, data: any, fallback: string): ApiError {
+  const code: ApiErrorCode = data?.code || (response.status >= 500 ? 'INTERNAL_ERROR' : 'BAD_REQUEST');
+  const ErrorClass = ERROR_CLASSES[code] || ApiError;
+  return new ErrorClass(data?.error || fallback, code, response.status, data?.fields);
+}
+
+/**
+ * Parse a response body, throwing an ApiError if the request failed
+ */
+async function readResponse(response: Response, fallback: string): Promise<any> {
+  const data = await response.json().catch(() => null);
+  if (!response.ok || data?.success === false) {
+    throw toApiError(response, data, fallback);
+  }
+  return data;
+}
+
 export interface CalendarEntry {
   id: string;
   keyword: string;
   article_type: string;
   search_volume: number | null;
   difficulty: number | null;
-  status: 'suggested' | 'approved' | 'scheduled' | 'in_progress' | 'published' | 'failed' | 'rejected';
+  status: EntryStatus;
   planned_date: string | null;
+  // The opportunity score; explained by score_breakdown (see lib/scoring.js)
   priority_score: number | null;
+  score_breakdown?: ScoreBreakdown | null;
+  score_version?: number | null;
+  scored_at?: string | null;
+  // Estimated monthly traffic × CPC (see lib/pipelineValue.js)
+  traffic_value?: number | null;
+  value?: EntryValue;
   quality_score: number | null;
   competitor_count: number | null;
   created_at: string;
   updated_at: string;
   approved_at: string | null;
   approved_by: string | null;
+  approvals?: ReviewerApproval[];
+  approval_requirement?: ApprovalRequirement;
+  declined_at?: string | null;
+  declined_by?: string | null;
+  // Approval rule that approved or declined the entry automatically
+  auto_rule_id?: string | null;
+  auto_rule_name?: string | null;
+  decline_reason?: string | null;
+  decline_categories?: string[] | null;
   published_at: string | null;
   notes: string | null;
-  opportunity_score?: number;
+  brief_content?: string | null;
+  parent_id?: string | null;
+  generation_started_at?: string | null;
+  generation_attempts?: number;
+  failure_reason?: string | null;
+  failed_at?: string | null;
   estimated_traffic?: number;
   difficulty_label?: string;
+  cannibalization?: KeywordOverlap[];
+  comment_count?: number;
+  next_actions?: NextAction[];
   data_sources?: {
     search_volume?: 'dataforseo' | 'claude-ai';
     difficulty?: 'dataforseo' | 'claude-ai';
@@ -39,6 +128,121 @@ export interface CalendarEntry {
   };
 }
 
+// Mirrors ENTRY_STATUSES in lib/statusMachine.js
+export type EntryStatus =
+  | 'suggested'
+  | 'pending_second_approval'
+  | 'approved'
+  | 'scheduled'
+  | 'generating'
+  | 'in_progress'
+  | 'published'
+  | 'failed'
+  | 'rejected';
+
+export type EntryAction = 'approve' | 'decline' | 'schedule' | 'generate' | 'edit' | 'delete';
+
+/**
+ * An action the status machine allows from the entry's current status
+ * blocked_reason is set when a guard (e.g. the two-person policy) currently prevents it.
+ */
+export interface NextAction {
+  action: EntryAction;
+  label: string;
+  to: EntryStatus[];
+  requires: string[];
+  blocked_reason: string | null;
+}
+
+/**
+ * Full entry as returned by GET /api/calendar/[id]
+ */
+export interface CalendarEntryDetail extends CalendarEntry {
+  articles: LinkedArticle | null;
+  pillar: RelatedEntry | null;
+  clusters: RelatedEntry[];
+  status_history: StatusHistoryEvent[];
+}
+
+export interface LinkedArticle {
+  id: string;
+  slug: string;
+  title: string;
+  published_at: string | null;
+  quality_score: number | null;
+  actual_word_count: number | null;
+  generation_cost: number | null;
+}
+
+export type RelatedEntry = Pick<CalendarEntry, 'id' | 'keyword' | 'article_type' | 'status' | 'planned_date'>;
+
+export interface StatusHistoryEvent {
+  status: string;
+  label: string;
+  at: string;
+  actor: string | null;
+  detail: string | null;
+}
+
+// Mirrors EVENT_TYPES in lib/eventLog.js
+export type EntryEventType =
+  | 'create'
+  | 'import'
+  | 'update'
+  | 'set_pillar'
+  | 'rescore'
+  | 'undo'
+  | 'delete'
+  | 'approve'
+  | 'decline'
+  | 'schedule'
+  | 'generate'
+  | 'retry_generation'
+  | 'generation_failed'
+  | 'revert_generation'
+  | 'start_writing'
+  | 'publish';
+
+/**
+ * One change in the event log
+ * before/after hold only the columns the change touched (the whole row for create/import and delete).
+ */
+export interface EntryEvent {
+  id: number;
+  entry_id: string;
+  keyword: string | null;
+  event: EntryEventType;
+  actor: string | null;
+  source: string | null;
+  before: Record<string, any> | null;
+  after: Record<string, any> | null;
+  created_at: string;
+}
+
+export interface EntryEventsPage {
+  data: EntryEvent[];
+  nextCursor: string | null;
+  // Per-entry history only: how often each event happened over the entry's life
+  counts?: Partial<Record<EntryEventType, number>>;
+}
+
+export interface ReviewerApproval {
+  reviewer: string;
+  at: string;
+}
+
+export interface ApprovalRequirement {
+  required: 1 | 2;
+  reason: string | null;
+}
+
+export interface KeywordOverlap {
+  id: string;
+  keyword: string;
+  status: CalendarEntry['status'];
+  score: number;
+}
+
 export interface PaginatedResponse {
   success: boolean;
   data: CalendarEntry[];
@@ -56,15 +260,28 @@ export interface ApprovalResponse {
   summary: {
     requested: number;
     approved: number;
+    pending_second_approval: number;
     scheduled: number;
     failed: number;
   };
+  undo: UndoToken | null;
   data: {
     approved: CalendarEntry[];
+    pending: CalendarEntry[];
     scheduled: CalendarEntry[];
+    schedule: ScheduleAssignment[];
+    failed: { id: string; error: string }[];
   };
 }
 
+export interface ScheduleAssignment {
+  id: string;
+  keyword: string;
+  planned_date: string | null;
+  reason: string;
+  skipped: { date: string; reason: string }[];
+}
+
 /**
  * Fetch calendar entries with filtering
  */
@@ -83,22 +300,89 @@ export async function fetchCalendarEntries(params: {
   if (params.offset) queryParams.set('offset', params.offset.toString());
 
   const response = await fetch(`${API_BASE}/api/calendar?${queryParams}`);
-  if (!response.ok) {
-    throw new Error('Failed to fetch calendar entries');
-  }
-  return response.json();
+  return readResponse(response, 'Failed to fetch calendar entries');
 }
 
 /**
  * Fetch pending approvals
  */
 export async function fetchPendingApprovals(limit = 50): Promise<CalendarEntry[]> {
-  const response = await fetch(`${API_BASE}/api/calendar/approve?limit=${limit}`);
-  if (!response.ok) {
-    throw new Error('Failed to fetch pending approvals');
+  const result = await fetchApprovalQueue({ limit });
+  return result.data;
+}
+
+export interface ApprovalQueueParams {
+  data_source?: 'dataforseo' | 'estimated';
+  difficulty?: 'easy' | 'medium' | 'hard' | 'very-hard' | 'ai-generated';
+  opportunity?: 'high' | 'medium' | 'low' | 'ai-generated';
+  roi?: 'high' | 'positive' | 'negative' | 'no-cpc';
+  min_volume?: number;
+  article_type?: string;
+  created_after?: string;
+  created_before?: string;
+  sort?: 'priority_score' | 'opportunity_score' | 'roi' | 'keyword' | 'search_volume' | 'difficulty' | 'created_at';
+  order?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+// Estimated commercial value of an entry; null without a CPC (ROI also without cost history)
+export interface EntryValue {
+  traffic_value: number | null;
+  // Monthly, once ramped up
+  pipeline_value: number | null;
+  // Over the ROI horizon, including ramp-up
+  horizon_value: number | null;
+  cost: number | null;
+  // (horizon_value - cost) / cost
+  roi: number | null;
+  payback_months: number | null;
+}
+
+export interface Valuation {
+  assumptions: {
+    conversionRate: number;
+    cpcMultiple: number;
+    horizonMonths: number;
+    rampDays: number;
+    // Share of valued entries in the 'high' ROI band
+    highShare: number;
+  };
+  cost: {
+    average: number | null;
+    samples: number;
+    source: 'articles' | 'workflow_logs' | null;
+  };
+  // ROI where the 'high' band starts; null without cost history
+  highRoi: number | null;
+}
+
+export interface ApprovalQueuePage {
+  data: CalendarEntry[];
+  total: number;
+  nextCursor: string | null;
+  valuation: Valuation | null;
+}
+
+/**
+ * Fetch one page of the approval queue, filtered and sorted on the server
+ */
+export async function fetchApprovalQueue(params: ApprovalQueueParams = {}): Promise<ApprovalQueuePage> {
+  const queryParams = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined && value !== null && value !== '') {
+      queryParams.set(key, String(value));
+    }
   }
-  const data = await response.json();
-  return data.data || [];
+
+  const response = await fetch(`${API_BASE}/api/calendar/approve?${queryParams}`);
+  const data = await readResponse(response, 'Failed to fetch pending approvals');
+  return {
+    data: data.data || [],
+    total: data.total || 0,
+    nextCursor: data.pagination?.nextCursor || null,
+    valuation: data.valuation || null,
+  };
 }
 
 /**
@@ -106,9 +390,13 @@ export async function fetchPendingApprovals(limit = 50): Promise<CalendarEntry[]
  */
 export async function approveArticles(params: {
   ids: string[];
+  reviewer: string;
   auto_schedule?: boolean;
   schedule_start_date?: string;
   per_day?: number;
+  publish_weekdays?: number[];
+  blackout_dates?: string[];
+  pillar_first?: boolean;
 }): Promise<ApprovalResponse> {
   const response = await fetch(`${API_BASE}/api/calendar/approve`, {
     method: 'POST',
@@ -116,18 +404,154 @@ export async function approveArticles(params: {
     body: JSON.stringify(params),
   });
 
-  if (!response.ok) {
-    throw new Error('Failed to approve articles');
-  }
-  return response.json();
+  return readResponse(response, 'Failed to approve articles');
+}
+
+export interface DeclineResponse {
+  success: boolean;
+  message: string;
+  summary: {
+    requested: number;
+    declined: number;
+    failed: number;
+  };
+  undo: UndoToken | null;
+  results: { id: string; success: boolean; error?: string }[];
+  data: {
+    declined: CalendarEntry[];
+    failed: { id: string; error: string }[];
+  };
+}
+
+/**
+ * Decline multiple articles in one request
+ */
+export async function declineArticles(params: {
+  ids: string[];
+  reviewer: string;
+  reason?: string;
+  reason_categories?: string[];
+}): Promise<DeclineResponse> {
+  const response = await fetch(`${API_BASE}/api/calendar/decline`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+
+  return readResponse(response, 'Failed to decline articles');
+}
+
+export interface UndoToken {
+  action_id: string;
+  expires_at: string;
+}
+
+export interface UndoResponse {
+  success: boolean;
+  message: string;
+  action: string;
+  data: {
+    restored: CalendarEntry[];
+    skipped: { id: string; error: string }[];
+  };
+}
+
+/**
+ * Undo an approve, decline or schedule action while its undo window is open
+ */
+export async function undoAction(actionId: string, reviewer?: string): Promise<UndoResponse> {
+  const response = await fetch(`${API_BASE}/api/calendar/undo`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action_id: actionId, reviewer: reviewer?.trim() || undefined }),
+  });
+
+  return readResponse(response, 'Failed to undo action');
+}
+
+export interface DeclineBreakdown {
+  total: number;
+  categories: Record<string, number>;
+}
+
+export interface DeclineAnalytics {
+  total: number;
+  byCategory: { category: string; label: string; count: number; examples: string[] }[];
+  byDataSource: Record<string, DeclineBreakdown>;
+  byDifficulty: Record<string, DeclineBreakdown>;
+  timeline: ({ week: string } & DeclineBreakdown)[];
+}
+
+/**
+ * Fetch decline feedback aggregated by category, data source, difficulty and week
+ */
+export async function fetchDeclineAnalytics(days = 90): Promise<DeclineAnalytics> {
+  const response = await fetch(`${API_BASE}/api/calendar/decline-analytics?days=${days}`);
+  const data = await readResponse(response, 'Failed to fetch decline analytics');
+  return data.data;
+}
+
+export type ImportField = 'keyword' | 'article_type' | 'search_volume' | 'difficulty' | 'notes';
+
+export interface ImportRowValues {
+  keyword: string;
+  article_type: string;
+  search_volume: number | null;
+  difficulty: number | null;
+  notes: string | null;
+  priority_score?: number;
+  score_breakdown?: ScoreBreakdown;
+}
+
+export interface ImportResponse {
+  success: boolean;
+  message: string;
+  dryRun: boolean;
+  columns: string[];
+  mapping: Partial<Record<ImportField, string>>;
+  summary: {
+    total: number;
+    new: number;
+    duplicate: number;
+    invalid: number;
+    imported: number;
+  };
+  preview: {
+    new: { row: number; values: ImportRowValues }[];
+    duplicate: { row: number; values: ImportRowValues; reason: string }[];
+    invalid: { row: number; values: ImportRowValues; errors: string[] }[];
+  };
+  data: CalendarEntry[];
+}
+
+/**
+ * Preview (dry run) or commit a bulk keyword import
+ */
+export async function importKeywords(params: {
+  format: 'csv' | 'json';
+  content: string;
+  mapping?: Partial<Record<ImportField, string>>;
+  dry_run?: boolean;
+  reviewer?: string;
+}): Promise<ImportResponse> {
+  const response = await fetch(`${API_BASE}/api/calendar/import`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+
+  return readResponse(response, 'Failed to import keywords');
 }
 
 /**
  * Update a calendar entry
+ * Keyword changes come back with any near-duplicates in `cannibalization`;
+ * invalid fields throw a ValidationError and a keyword already in the calendar a
+ * ConflictError. `reviewer` is logged as who made the change.
  */
 export async function updateCalendarEntry(
   id: string,
-  updates: Partial<CalendarEntry> | { action: string; [key: string]: any }
+  updates: (Partial<CalendarEntry> & { reviewer?: string }) | { action: string; [key: string]: any }
 ): Promise<CalendarEntry> {
   const response = await fetch(`${API_BASE}/api/calendar/${id}`, {
     method: 'PATCH',
@@ -135,35 +559,486 @@ export async function updateCalendarEntry(
     body: JSON.stringify(updates),
   });
 
-  if (!response.ok) {
-    throw new Error('Failed to update calendar entry');
-  }
-  const data = await response.json();
-  return data.data;
+  const data = await readResponse(response, 'Failed to update calendar entry');
+  return data.cannibalization ? { ...data.data, cannibalization: data.cannibalization } : data.data;
+}
+
+export interface EntryActionResponse {
+  success: boolean;
+  message: string;
+  undo?: UndoToken | null;
+  data: CalendarEntry;
 }
 
 /**
- * Delete a calendar entry
+ * Run a calendar entry action (approve, reject, reschedule, set_pillar)
+ * Unlike updateCalendarEntry, returns the full response including the undo token.
  */
-export async function deleteCalendarEntry(id: string): Promise<void> {
+export async function runEntryAction(
+  id: string,
+  body: { action: string; [key: string]: any }
+): Promise<EntryActionResponse> {
   const response = await fetch(`${API_BASE}/api/calendar/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  return readResponse(response, `Failed to ${body.action} calendar entry`);
+}
+
+/**
+ * Delete a calendar entry
+ */
+export async function deleteCalendarEntry(id: string, reviewer?: string): Promise<void> {
+  const query = reviewer?.trim() ? `?reviewer=${encodeURIComponent(reviewer.trim())}` : '';
+  const response = await fetch(`${API_BASE}/api/calendar/${id}${query}`, {
     method: 'DELETE',
   });
 
-  if (!response.ok) {
-    throw new Error('Failed to delete calendar entry');
-  }
+  await readResponse(response, 'Failed to delete calendar entry');
+}
+
+/**
+ * Trigger article generation for an entry now
+ * `reviewer` is logged as who started it (and approved it, for a suggestion).
+ */
+export async function triggerGeneration(id: string, reviewer?: string): Promise<{
+  success: boolean;
+  message: string;
+  data: { id: string; keyword: string; status: EntryStatus; estimatedTime: string };
+}> {
+  const response = await fetch(`${API_BASE}/api/calendar/${id}/generate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ reviewer: reviewer?.trim() || undefined }),
+  });
+
+  return readResponse(response, 'Failed to trigger generation');
 }
 
 /**
  * Get a single calendar entry with full details
  */
-export async function getCalendarEntry(id: string): Promise<CalendarEntry> {
-  const response = await fetch(`${API_BASE}/api/calendar/${id}`);
-  if (!response.ok) {
-    throw new Error('Failed to fetch calendar entry');
+export async function getCalendarEntry(id: string, reviewer?: string): Promise<CalendarEntryDetail> {
+  const query = reviewer ? `?reviewer=${encodeURIComponent(reviewer)}` : '';
+  const response = await fetch(`${API_BASE}/api/calendar/${id}${query}`);
+  const data = await readResponse(response, 'Failed to fetch calendar entry');
+  return data.data;
+}
+
+/**
+ * Fetch one page of the event log, newest first
+ * Pass entry_id for a single entry's history (including deleted entries).
+ */
+export async function fetchEvents(params: {
+  entry_id?: string;
+  event?: EntryEventType;
+  actor?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+  cursor?: string;
+} = {}): Promise<EntryEventsPage> {
+  const { entry_id, ...filters } = params;
+  const queryParams = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== null && value !== '') {
+      queryParams.set(key, String(value));
+    }
   }
-  const data = await response.json();
+
+  const path = entry_id ? `/api/calendar/${entry_id}/events` : '/api/calendar/events';
+  const response = await fetch(`${API_BASE}${path}?${queryParams}`);
+  const data = await readResponse(response, 'Failed to fetch history');
+  return {
+    data: data.data || [],
+    nextCursor: data.pagination?.nextCursor || null,
+    counts: data.counts,
+  };
+}
+
+export interface EntryComment {
+  id: string;
+  entry_id: string;
+  author: string;
+  body: string;
+  mentions: string[];
+  edits: { body: string; edited_at: string }[];
+  created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+}
+
+/**
+ * Fetch the comment thread for an entry, with teammates to suggest for @mentions
+ */
+export async function fetchComments(entryId: string): Promise<{ comments: EntryComment[]; teammates: string[] }> {
+  const response = await fetch(`${API_BASE}/api/calendar/${entryId}/comments`);
+  const data = await readResponse(response, 'Failed to fetch comments');
+  return { comments: data.data || [], teammates: data.teammates || [] };
+}
+
+/**
+ * Add a comment to an entry
+ */
+export async function addComment(entryId: string, params: { author: string; body: string }): Promise<EntryComment> {
+  const response = await fetch(`${API_BASE}/api/calendar/${entryId}/comments`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+
+  const data = await readResponse(response, 'Failed to add comment');
+  return data.data;
+}
+
+/**
+ * Edit one of your own comments; the previous text is kept in its history
+ */
+export async function editComment(
+  entryId: string,
+  commentId: string,
+  params: { author: string; body: string }
+): Promise<EntryComment> {
+  const response = await fetch(`${API_BASE}/api/calendar/${entryId}/comments/${commentId}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+
+  const data = await readResponse(response, 'Failed to edit comment');
+  return data.data;
+}
+
+/**
+ * Delete one of your own comments
+ */
+export async function deleteComment(entryId: string, commentId: string, author: string): Promise<void> {
+  const response = await fetch(
+    `${API_BASE}/api/calendar/${entryId}/comments/${commentId}?author=${encodeURIComponent(author)}`,
+    { method: 'DELETE' }
+  );
+
+  await readResponse(response, 'Failed to delete comment');
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  filters: Record<string, string>;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/**
+ * Fetch saved approval table views
+ */
+export async function fetchSavedViews(): Promise<SavedView[]> {
+  const response = await fetch(`${API_BASE}/api/calendar/views`);
+  const data = await readResponse(response, 'Failed to fetch saved views');
+  return data.data || [];
+}
+
+/**
+ * Save filters as a named view
+ */
+export async function createSavedView(params: {
+  name: string;
+  filters: Record<string, string>;
+  created_by?: string;
+}): Promise<SavedView> {
+  const response = await fetch(`${API_BASE}/api/calendar/views`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+
+  const data = await readResponse(response, 'Failed to save view');
+  return data.data;
+}
+
+/**
+ * Rename a saved view or replace its filters
+ */
+export async function updateSavedView(
+  id: string,
+  updates: { name?: string; filters?: Record<string, string> }
+): Promise<SavedView> {
+  const response = await fetch(`${API_BASE}/api/calendar/views/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(updates),
+  });
+
+  const data = await readResponse(response, 'Failed to update view');
+  return data.data;
+}
+
+/**
+ * Delete a saved view
+ */
+export async function deleteSavedView(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/api/calendar/views/${id}`, { method: 'DELETE' });
+
+  await readResponse(response, 'Failed to delete view');
+}
+
+export type RuleDecision = 'approve' | 'decline';
+
+export interface RuleCondition {
+  field: string;
+  op: string;
+  value?: string | number | boolean | (string | number)[];
+}
+
+// takes: what a condition's value must be for this operator
+export interface RuleOperator {
+  value: string;
+  label: string;
+  takes: 'any' | 'number' | 'text' | 'list' | 'none';
+}
+
+export interface ApprovalRule {
+  id: string;
+  name: string;
+  decision: RuleDecision;
+  conditions: RuleCondition[];
+  priority: number;
+  enabled: boolean;
+  auto_schedule: boolean;
+  decline_categories: string[];
+  decline_reason: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ApprovalRuleInput = Pick<ApprovalRule, 'name' | 'decision' | 'conditions'>
+  & Partial<Pick<ApprovalRule, 'priority' | 'enabled' | 'auto_schedule' | 'decline_categories' | 'decline_reason'>>;
+
+export interface RuleMatch {
+  id: string;
+  keyword: string;
+  article_type: string;
+  search_volume: number | null;
+  difficulty: number | null;
+  status: EntryStatus;
+  decided_by: string | null;
+  created_at: string;
+  outcome: 'approved' | 'declined' | 'pending' | 'by_rule';
+}
+
+export interface RulePreview {
+  scanned: number;
+  matched: number;
+  outcomes: { approved: number; declined: number; pending: number; by_rule: number };
+  agreement: number | null;
+  conflicts: RuleMatch[];
+  sample: RuleMatch[];
+}
+
+/**
+ * Fetch approval rules in evaluation order, with the fields and operators conditions can use
+ */
+export async function fetchApprovalRules(): Promise<{ rules: ApprovalRule[]; fields: string[]; operators: RuleOperator[] }> {
+  const response = await fetch(`${API_BASE}/api/calendar/rules`);
+  const data = await readResponse(response, 'Failed to fetch approval rules');
+  return { rules: data.data || [], fields: data.fields || [], operators: data.operators || [] };
+}
+
+/**
+ * Create an approval rule
+ */
+export async function createApprovalRule(rule: ApprovalRuleInput & { created_by?: string }): Promise<ApprovalRule> {
+  const response = await fetch(`${API_BASE}/api/calendar/rules`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(rule),
+  });
+
+  const data = await readResponse(response, 'Failed to create rule');
+  return data.data;
+}
+
+/**
+ * Change an approval rule, or switch it on or off
+ */
+export async function updateApprovalRule(id: string, updates: Partial<ApprovalRuleInput>): Promise<ApprovalRule> {
+  const response = await fetch(`${API_BASE}/api/calendar/rules/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(updates),
+  });
+
+  const data = await readResponse(response, 'Failed to update rule');
+  return data.data;
+}
+
+/**
+ * Delete an approval rule
+ */
+export async function deleteApprovalRule(id: string): Promise<void> {
+  const response = await fetch(`${API_BASE}/api/calendar/rules/${id}`, { method: 'DELETE' });
+
+  await readResponse(response, 'Failed to delete rule');
+}
+
+/**
+ * Dry-run a rule (saved or not) against existing entries
+ */
+export async function previewApprovalRule(rule: ApprovalRuleInput): Promise<RulePreview> {
+  const response = await fetch(`${API_BASE}/api/calendar/rules/preview`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(rule),
+  });
+
+  const data = await readResponse(response, 'Failed to preview rule');
+  return data.data;
+}
+
+// Mirrors SCORE_FACTORS in lib/scoring.js
+export type ScoreFactorKey = 'volume' | 'difficulty' | 'competitors' | 'cpc' | 'article_type';
+
+export interface ScoreFactor {
+  factor: ScoreFactorKey;
+  label: string;
+  // The entry's value the factor was computed from (null when unknown)
+  input: number | string | null;
+  // Normalized 0-1
+  value: number;
+  // Share of the total weight
+  weight: number;
+  // Contribution to the score; the points add up to it
+  points: number;
+}
+
+export interface ScoreBreakdown {
+  formula: string;
+  version: number;
+  factors: ScoreFactor[];
+}
+
+export interface ScoringFormula {
+  name: string;
+  version: number;
+  weights: Record<ScoreFactorKey, number>;
+  article_types: Record<string, number>;
+  notes?: string | null;
+  created_by?: string | null;
+  created_at?: string;
+}
+
+export interface ScoringSettings {
+  formula: ScoringFormula;
+  history: ScoringFormula[];
+  // Entries scored by an older version
+  stale: number;
+  factors: { key: ScoreFactorKey; label: string }[];
+  articleTypes: string[];
+}
+
+export interface BackfillResult {
+  version: number;
+  rescored: number;
+  remaining: number;
+}
+
+/**
+ * Fetch the scoring formula in use, its earlier versions and the number of stale scores
+ */
+export async function fetchScoringSettings(): Promise<ScoringSettings> {
+  const response = await fetch(`${API_BASE}/api/calendar/scoring`);
+  const data = await readResponse(response, 'Failed to fetch scoring formula');
+  return {
+    formula: data.data,
+    history: data.history || [],
+    stale: data.stale || 0,
+    factors: data.factors || [],
+    articleTypes: data.article_types || [],
+  };
+}
+
+/**
+ * Save new weights as the next formula version
+ */
+export async function saveScoringFormula(params: {
+  weights: Partial<Record<ScoreFactorKey, number>>;
+  article_types?: Record<string, number>;
+  notes?: string;
+  created_by?: string;
+}): Promise<{ formula: ScoringFormula; stale: number }> {
+  const response = await fetch(`${API_BASE}/api/calendar/scoring`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(params),
+  });
+
+  const data = await readResponse(response, 'Failed to save scoring formula');
+  return { formula: data.data, stale: data.stale || 0 };
+}
+
+/**
+ * Rescore one batch of entries with the current formula; repeat until remaining is 0
+ */
+export async function backfillScores(reviewer?: string, batchSize?: number): Promise<BackfillResult> {
+  const response = await fetch(`${API_BASE}/api/calendar/scoring/backfill`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ reviewer, batch_size: batchSize }),
+  });
+
+  const data = await readResponse(response, 'Failed to rescore entries');
+  return data.data;
+}
+
+export interface ForecastMonth {
+  month: string;
+  traffic: number;
+  cumulative: number;
+}
+
+export interface ForecastSeries {
+  // Entries with a publish date, and those without one (left out)
+  entries: number;
+  unscheduled: number;
+  // Cumulative traffic over the whole period
+  total: number;
+  monthly: ForecastMonth[];
+}
+
+export interface TrafficForecast {
+  months: number;
+  start_month: string;
+  ramp_days: number;
+  baseline: ForecastSeries;
+  scenario: (ForecastSeries & {
+    per_day: number;
+    // Selected suggestions counted as approved, and ids that were not suggestions
+    approved: number;
+    ignored: string[];
+    schedule: { id: string; keyword: string; planned_date: string | null }[];
+  }) | null;
+}
+
+/**
+ * Project organic traffic for the calendar, optionally with a what-if scenario:
+ * the approved backlog (plus approve_ids, as if approved now) scheduled at per_day
+ */
+export async function fetchTrafficForecast(params: {
+  months?: number;
+  per_day?: number;
+  approve_ids?: string[];
+} = {}): Promise<TrafficForecast> {
+  const searchParams = new URLSearchParams();
+  if (params.months) searchParams.set('months', String(params.months));
+  if (params.per_day) searchParams.set('per_day', String(params.per_day));
+  if (params.approve_ids?.length) searchParams.set('approve_ids', params.approve_ids.join(','));
+
+  const response = await fetch(`${API_BASE}/api/calendar/forecast?${searchParams}`);
+  const data = await readResponse(response, 'Failed to forecast traffic');
   return data.data;
 }
 
@@ -180,13 +1055,60 @@ export interface CalendarStats {
 
 export async function fetchCalendarStats(): Promise<CalendarStats> {
   const response = await fetch(`${API_BASE}/api/calendar/stats`);
-  if (!response.ok) {
-    throw new Error('Failed to fetch calendar stats');
-  }
-  const data = await response.json();
+  const data = await readResponse(response, 'Failed to fetch calendar stats');
   return data.stats;
 }
 
+/**
+ * Generation watchdog: recover stuck generations and list failures
+ */
+export interface WatchdogResult {
+  id: string;
+  keyword: string;
+  action: 'retried' | 'reverted' | 'failed';
+  reason: string;
+  attempts: number;
+}
+
+export async function runGenerationWatchdog(): Promise<WatchdogResult[]> {
+  const response = await fetch(`${API_BASE}/api/calendar/watchdog`, {
+    method: 'POST',
+  });
+  const data = await readResponse(response, 'Failed to run generation watchdog');
+  return data.data || [];
+}
+
+export async function fetchFailedGenerations(limit = 20): Promise<CalendarEntry[]> {
+  const response = await fetch(`${API_BASE}/api/calendar/watchdog?limit=${limit}`);
+  const data = await readResponse(response, 'Failed to fetch failed generations');
+  return data.data || [];
+}
+
+/**
+ * Fetch pillar pages with their cluster articles and coverage counts
+ */
+export interface TopicCluster {
+  id: string;
+  keyword: string;
+  article_type: string;
+  status: CalendarEntry['status'];
+  planned_date: string | null;
+  published_at: string | null;
+  clusters: Pick<CalendarEntry, 'id' | 'keyword' | 'article_type' | 'status' | 'planned_date' | 'published_at' | 'parent_id'>[];
+  coverage: {
+    total: number;
+    published: number;
+    scheduled: number;
+    suggested: number;
+  };
+}
+
+export async function fetchTopicClusters(): Promise<{ pillars: TopicCluster[]; unclustered: number }> {
+  const response = await fetch(`${API_BASE}/api/calendar/clusters`);
+  const data = await readResponse(response, 'Failed to fetch topic clusters');
+  return { pillars: data.data || [], unclustered: data.unclustered || 0 };
+}
+
 /**
  * Format date for display
  */
@@ -217,8 +1139,10 @@ export function getDifficultyColor(difficulty: number | null): string {
 export function getStatusColor(status: string): string {
   const colors: Record<string, string> = {
     suggested: 'blue',
+    pending_second_approval: 'orange',
     approved: 'green',
     scheduled: 'purple',
+    generating: 'yellow',
     in_progress: 'yellow',
     published: 'gray',
     failed: 'red',
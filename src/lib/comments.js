@@ -0,0 +1,79 @@
+/**
+ * Comments
+ *
+ * Discussion threads on calendar entries. Comments keep every previous
+ * version in `edits` and are soft-deleted so the thread stays readable.
+ */
+
+import { rules } from './requestSchema.js';
+import { MAX_REVIEWER_LENGTH } from './approvals.js';
+
+export const MAX_COMMENT_LENGTH = 5000;
+
+// Body of a new or edited comment; the text is stored trimmed
+export const COMMENT_BODY = {
+  author: rules.string({ required: true, max: MAX_REVIEWER_LENGTH }),
+  body: rules.string({ required: true, max: MAX_COMMENT_LENGTH })
+};
+
+// @name, where names may contain letters, digits, dots, dashes and underscores
+const MENTION_PATTERN = /(^|[^\w@])@([\w][\w.-]*)/g;
+
+/**
+ * Extract the distinct names mentioned in a comment body
+ */
+export function parseMentions(body) {
+  const mentions = new Set();
+  for (const match of body.matchAll(MENTION_PATTERN)) {
+    mentions.add(match[2].replace(/[.-]+$/, ''));
+  }
+  return [...mentions];
+}
+
+/**
+ * Count live comments per entry
+ * Returns: { [entryId]: number }
+ */
+export async function countComments(supabase, entryIds) {
+  if (entryIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('calendar_comments')
+    .select('entry_id')
+    .in('entry_id', entryIds)
+    .is('deleted_at', null);
+
+  if (error) {
+    throw error;
+  }
+
+  const counts = {};
+  for (const row of data) {
+    counts[row.entry_id] = (counts[row.entry_id] || 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Everyone who has commented or reviewed recently, for @mention suggestions
+ * Takes the storage repository (lib/storage.js).
+ */
+export async function loadTeammates(repository) {
+  const [commentsResult, reviewers] = await Promise.all([
+    repository.db
+      .from('calendar_comments')
+      .select('author')
+      .order('created_at', { ascending: false })
+      .limit(500),
+    repository.entries.listRecentReviewers(500)
+  ]);
+
+  if (commentsResult.error) throw commentsResult.error;
+
+  const names = [
+    ...commentsResult.data.map(row => row.author),
+    ...reviewers
+  ].filter(Boolean);
+
+  return [...new Set(names)].sort((a, b) => a.localeCompare(b));
+}
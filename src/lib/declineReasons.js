@@ -0,0 +1,147 @@
+/**
+ * Decline Reasons
+ *
+ * Categories reviewers pick from when declining a keyword suggestion, and
+ * aggregation of past declines for analytics and the strategy summary.
+ */
+
+import { getDifficultyLabel } from './scoring.js';
+
+export const DECLINE_CATEGORIES = [
+  { value: 'too_competitive', label: 'Too competitive' },
+  { value: 'off_niche', label: 'Off-niche' },
+  { value: 'duplicate', label: 'Duplicate / already covered' },
+  { value: 'low_intent', label: 'Low intent' },
+  { value: 'wrong_article_type', label: 'Wrong article type' },
+  { value: 'other', label: 'Other' }
+];
+
+// Bucket for declines recorded before categories existed, or without one
+export const UNCATEGORIZED = 'uncategorized';
+
+export function isDeclineCategory(value) {
+  return DECLINE_CATEGORIES.some(category => category.value === value);
+}
+
+export function getDeclineCategoryLabel(value) {
+  if (value === UNCATEGORIZED) return 'Uncategorized';
+  return DECLINE_CATEGORIES.find(category => category.value === value)?.label || value;
+}
+
+/**
+ * Normalize a single category or a list of categories
+ * Returns: { categories: string[], invalid: string[] }
+ */
+export function parseDeclineCategories(value) {
+  const list = value == null ? [] : Array.isArray(value) ? value : [value];
+  const categories = [...new Set(list.filter(Boolean))];
+
+  return {
+    categories: categories.filter(isDeclineCategory),
+    invalid: categories.filter(category => !isDeclineCategory(category))
+  };
+}
+
+/**
+ * Load declined entries from the last `days` days
+ * Declines from before declined_at existed fall back to updated_at.
+ */
+export async function loadDeclines(repository, days) {
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - days);
+
+  return repository.entries.listDeclinedSince(
+    cutoff.toISOString(),
+    'keyword, decline_reason, decline_categories, difficulty, search_volume, seo_insights, declined_at, updated_at'
+  );
+}
+
+/**
+ * Aggregate declined entries by category, data source, difficulty band and week
+ */
+export function summarizeDeclines(rows) {
+  const byCategory = {};
+  const byDataSource = {};
+  const byDifficulty = {};
+  const timeline = {};
+
+  for (const row of rows) {
+    const categories = row.decline_categories?.length > 0 ? row.decline_categories : [UNCATEGORIZED];
+    const dataSource = row.seo_insights?.data_source === 'dataforseo' ? 'dataforseo' : 'estimated';
+    const band = getDifficultyLabel(row.difficulty);
+    const week = startOfWeek(row.declined_at || row.updated_at);
+
+    for (const category of categories) {
+      const bucket = byCategory[category] = byCategory[category] || {
+        category,
+        label: getDeclineCategoryLabel(category),
+        count: 0,
+        examples: []
+      };
+      bucket.count++;
+      if (bucket.examples.length < 5) {
+        bucket.examples.push(row.keyword);
+      }
+    }
+
+    byDataSource[dataSource] = addCategories(byDataSource[dataSource], categories);
+    byDifficulty[band] = addCategories(byDifficulty[band], categories);
+
+    if (week) {
+      timeline[week] = addCategories(timeline[week], categories);
+    }
+  }
+
+  return {
+    total: rows.length,
+    byCategory: Object.values(byCategory).sort((a, b) => b.count - a.count),
+    byDataSource,
+    byDifficulty,
+    timeline: Object.keys(timeline).sort().map(week => ({ week, ...timeline[week] }))
+  };
+}
+
+/**
+ * Render aggregated decline patterns as prompt context
+ */
+export function formatDeclinePatterns(summary) {
+  if (summary.total === 0) return 'None';
+
+  const lines = summary.byCategory.map(bucket =>
+    `- ${bucket.label}: ${bucket.count} (${Math.round((bucket.count / summary.total) * 100)}%) — e.g. ${bucket.examples.map(k => `"${k}"`).join(', ')}`
+  );
+
+  const describe = group => Object.entries(group)
+    .map(([key, value]) => `${key}: ${value.total} declined (top: ${topCategory(value.categories)})`)
+    .join('; ');
+
+  lines.push('');
+  lines.push(`By data source — ${describe(summary.byDataSource)}`);
+  lines.push(`By difficulty band — ${describe(summary.byDifficulty)}`);
+
+  return lines.join('\n');
+}
+
+function addCategories(bucket = { total: 0, categories: {} }, categories) {
+  bucket.total++;
+  for (const category of categories) {
+    bucket.categories[category] = (bucket.categories[category] || 0) + 1;
+  }
+  return bucket;
+}
+
+function topCategory(categories) {
+  const [top] = Object.entries(categories).sort((a, b) => b[1] - a[1]);
+  return top ? getDeclineCategoryLabel(top[0]) : 'n/a';
+}
+
+/**
+ * Monday of the week containing a timestamp, as YYYY-MM-DD
+ */
+function startOfWeek(timestamp) {
+  if (!timestamp) return null;
+  const date = new Date(timestamp);
+  const offset = (date.getUTCDay() + 6) % 7;
+  date.setUTCDate(date.getUTCDate() - offset);
+  return date.toISOString().split('T')[0];
+}
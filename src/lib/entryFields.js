@@ -0,0 +1,34 @@
+/**
+ * Calendar Entry Fields
+ *
+ * The fields of a calendar entry that requests may write, as request schema
+ * rules (lib/requestSchema.js). POST /api/calendar creates entries from them
+ * and PATCH /api/calendar/[id] only updates these; status and the other
+ * lifecycle fields change through actions, and the score through the formula.
+ */
+
+import { rules } from './requestSchema.js';
+import { ARTICLE_TYPES } from './keywordImport.js';
+
+export const MAX_KEYWORD_LENGTH = 200;
+export const MAX_NOTES_LENGTH = 5000;
+
+export const ENTRY_FIELDS = {
+  keyword: rules.string({ max: MAX_KEYWORD_LENGTH }),
+  article_type: rules.oneOf(ARTICLE_TYPES),
+  planned_date: rules.date({ nullable: true }),
+  search_volume: rules.integer({ min: 0, nullable: true }),
+  difficulty: rules.number({ min: 0, max: 100, nullable: true }),
+  competitor_count: rules.integer({ min: 0, nullable: true }),
+  notes: rules.string({ max: MAX_NOTES_LENGTH, nullable: true }),
+  brief_content: rules.string({ nullable: true }),
+  seo_insights: rules.object({ nullable: true }),
+  parent_id: rules.uuid({ nullable: true })
+};
+
+/**
+ * Collapse runs of whitespace in a keyword, as stored
+ */
+export function normalizeKeyword(keyword) {
+  return keyword.trim().replace(/\s+/g, ' ');
+}
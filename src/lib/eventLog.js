@@ -0,0 +1,179 @@
+/**
+ * Event Log
+ *
+ * Append-only history of every change to a calendar entry: creates, imports,
+ * field edits, rescores, status transitions, undos and deletes. Each event stores the
+ * columns the change touched before and after, who made it (when known) and
+ * the route it came through.
+ *
+ * Status transitions are recorded by the status machine; routes record the
+ * other changes themselves. Recording never fails the change it describes:
+ * the change has already been written, so a logging error is only reported.
+ */
+
+import { rules, validate } from './requestSchema.js';
+
+// Changes that are not status transitions
+export const ENTRY_EVENTS = ['create', 'import', 'update', 'set_pillar', 'rescore', 'undo', 'delete'];
+
+// Every event type, including the status machine's actions
+export const EVENT_TYPES = [
+  ...ENTRY_EVENTS,
+  'approve',
+  'decline',
+  'schedule',
+  'generate',
+  'retry_generation',
+  'generation_failed',
+  'revert_generation',
+  'start_writing',
+  'publish'
+];
+
+export const MAX_EVENTS_LIMIT = 200;
+
+// Bookkeeping columns that change on every write and say nothing about the change
+const IGNORED_FIELDS = ['updated_at'];
+
+/**
+ * The columns that differ between two versions of a row
+ * Only columns present in both are compared, so `before` may be a partial snapshot.
+ * A create (no before) or delete (no after) keeps the whole row.
+ * Returns: { before, after }
+ */
+export function diffEntry(before, after) {
+  if (!before || !after) {
+    return { before: before || null, after: after || null };
+  }
+
+  const changed = { before: {}, after: {} };
+  for (const key of Object.keys(after)) {
+    if (IGNORED_FIELDS.includes(key) || !(key in before)) continue;
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changed.before[key] = before[key];
+      changed.after[key] = after[key];
+    }
+  }
+  return changed;
+}
+
+/**
+ * Build an event row for one entry
+ * `before` / `after` are the row before and after the change (null for create / delete).
+ */
+export function buildEvent(event, before, after, { actor = null, source = null } = {}) {
+  const row = after || before;
+  const diff = diffEntry(before, after);
+
+  return {
+    entry_id: row.id,
+    keyword: row.keyword ?? null,
+    event,
+    actor: actor || null,
+    source: source || null,
+    before: diff.before,
+    after: diff.after
+  };
+}
+
+/**
+ * Append events to the log, skipping updates that changed nothing
+ */
+export async function recordEvents(supabase, events) {
+  const changes = events.filter(event =>
+    !event.before || !event.after || Object.keys(event.after).length > 0
+  );
+
+  if (changes.length === 0) return;
+
+  const { error } = await supabase
+    .from('calendar_events')
+    .insert(changes);
+
+  if (error) {
+    console.error('Failed to record calendar events:', error);
+  }
+}
+
+/**
+ * Append a single entry event
+ */
+export async function recordEvent(supabase, event, before, after, meta = {}) {
+  await recordEvents(supabase, [buildEvent(event, before, after, meta)]);
+}
+
+/**
+ * Query params accepted by the event log routes
+ * - entry_id: only this entry's events
+ * - event: one of EVENT_TYPES
+ * - actor: exact actor name
+ * - since / until: ISO timestamps bounding created_at
+ * - limit: page size (default 50, max MAX_EVENTS_LIMIT)
+ * - cursor: pagination.nextCursor from the previous page
+ */
+export const EVENTS_QUERY = {
+  entry_id: rules.uuid(),
+  event: rules.oneOf(EVENT_TYPES),
+  actor: rules.string({ max: 100 }),
+  since: rules.timestamp(),
+  until: rules.timestamp(),
+  limit: rules.integer({ min: 1, max: MAX_EVENTS_LIMIT, default: 50 }),
+  cursor: rules.integer({ min: 1 })
+};
+
+/**
+ * Read event log options from query params (see EVENTS_QUERY)
+ * Returns: { options } or { errors: { field: message } }
+ */
+export function parseEventParams(params) {
+  const { value: query, errors } = validate(EVENTS_QUERY, Object.fromEntries(params), { strings: true });
+  if (errors) {
+    return { errors };
+  }
+
+  return {
+    options: {
+      entryId: query.entry_id ?? null,
+      event: query.event ?? null,
+      actor: query.actor ?? null,
+      since: query.since ?? null,
+      until: query.until ?? null,
+      limit: query.limit,
+      cursor: query.cursor ?? null
+    }
+  };
+}
+
+/**
+ * Load one page of events, newest first
+ * Returns: { events, hasMore, nextCursor }
+ */
+export async function loadEvents(supabase, { entryId, event, actor, since, until, limit = 50, cursor = null } = {}) {
+  let query = supabase
+    .from('calendar_events')
+    .select('*')
+    .order('id', { ascending: false })
+    .limit(limit + 1);
+
+  if (entryId) query = query.eq('entry_id', entryId);
+  if (event) query = query.eq('event', event);
+  if (actor) query = query.eq('actor', actor);
+  if (since) query = query.gte('created_at', since);
+  if (until) query = query.lt('created_at', until);
+  if (cursor) query = query.lt('id', cursor);
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw error;
+  }
+
+  const hasMore = data.length > limit;
+  const events = hasMore ? data.slice(0, limit) : data;
+
+  return {
+    events,
+    hasMore,
+    nextCursor: hasMore ? String(events[events.length - 1].id) : null
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Generation Dispatch
+ *
+ * Triggers the article generation workflow in GitHub Actions via
+ * repository_dispatch.
+ */
+
+const GITHUB_REPO = 'Bonke88/revops-partner-site';
+
+/**
+ * Dispatch the generate-article workflow for a calendar entry
+ * Returns: { dispatched: boolean } - false when GITHUB_TOKEN is not configured
+ * Throws if GitHub rejects the dispatch.
+ */
+export async function dispatchGeneration(entry) {
+  const githubToken = import.meta.env.GITHUB_TOKEN;
+
+  if (!githubToken) {
+    console.warn('GITHUB_TOKEN not configured - workflow must be triggered manually');
+    return { dispatched: false };
+  }
+
+  const dispatchResponse = await fetch(
+    `https://api.github.com/repos/${GITHUB_REPO}/dispatches`,
+    {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/vnd.github+json',
+        'Authorization': `Bearer ${githubToken}`,
+        'X-GitHub-Api-Version': '2022-11-28'
+      },
+      body: JSON.stringify({
+        event_type: 'generate-article',
+        client_payload: {
+          keyword: entry.keyword,
+          article_type: entry.article_type || 'guide',
+          calendar_id: entry.id
+        }
+      })
+    }
+  );
+
+  if (!dispatchResponse.ok) {
+    const details = await dispatchResponse.text();
+    console.error('Failed to trigger GitHub Actions:', details);
+    throw new Error(`GitHub Actions dispatch failed (${dispatchResponse.status})`);
+  }
+
+  console.log(`✓ GitHub Actions workflow triggered for keyword: "${entry.keyword}" (ID: ${entry.id})`);
+  return { dispatched: true };
+}
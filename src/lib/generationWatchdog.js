@@ -0,0 +1,138 @@
+/**
+ * Generation Watchdog
+ *
+ * Finds calendar entries stuck in 'generating' past a timeout, records why
+ * they failed and recovers them according to the retry policy.
+ */
+
+import { dispatchGeneration } from './generationDispatch.js';
+import { applyTransition } from './statusMachine.js';
+
+// How recoveries appear in the event log
+const EVENT_META = { actor: 'watchdog', source: 'POST /api/calendar/watchdog' };
+
+/**
+ * Resolve the watchdog policy from environment
+ *
+ * Env:
+ * - GENERATION_TIMEOUT_MINUTES: minutes without progress before an entry is stuck (default 60)
+ * - GENERATION_MAX_ATTEMPTS: total generation attempts before giving up (default 2)
+ * - GENERATION_ON_EXHAUSTED: 'failed' to leave the entry failed, 'scheduled' to
+ *   revert it to the publishing queue (default 'failed')
+ */
+export function getWatchdogPolicy() {
+  return {
+    timeoutMinutes: parseInt(import.meta.env.GENERATION_TIMEOUT_MINUTES) || 60,
+    maxAttempts: parseInt(import.meta.env.GENERATION_MAX_ATTEMPTS) || 2,
+    onExhausted: import.meta.env.GENERATION_ON_EXHAUSTED === 'scheduled' ? 'scheduled' : 'failed'
+  };
+}
+
+/**
+ * Find and recover stuck generations
+ * Takes the storage repository (lib/storage.js), which also reads the workflow logs.
+ * Returns: [{ id, keyword, action: 'retried' | 'reverted' | 'failed', reason, attempts }]
+ * Entries that left 'generating' while being recovered are skipped.
+ */
+export async function runWatchdog(repository, policy = getWatchdogPolicy(), now = new Date()) {
+  const cutoff = new Date(now.getTime() - policy.timeoutMinutes * 60 * 1000);
+
+  const candidates = await repository.entries.listGeneratingBefore(
+    cutoff.toISOString(),
+    'id, keyword, article_type, planned_date, generation_started_at, generation_attempts, updated_at'
+  );
+
+  const results = [];
+
+  for (const entry of candidates) {
+    const reason = await diagnoseStuckEntry(repository.workflowLogs, entry, cutoff, policy);
+    if (!reason) continue;
+
+    const result = await recoverEntry(repository, entry, reason, policy, now);
+    if (result) {
+      results.push(result);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Count recoveries by action: { stuck, retried, reverted, failed }
+ */
+export function summarizeRecoveries(results) {
+  return {
+    stuck: results.length,
+    retried: results.filter(r => r.action === 'retried').length,
+    reverted: results.filter(r => r.action === 'reverted').length,
+    failed: results.filter(r => r.action === 'failed').length
+  };
+}
+
+/**
+ * Explain why an entry is stuck, or return null if its workflow is still active
+ */
+async function diagnoseStuckEntry(workflowLogs, entry, cutoff, policy) {
+  const startedAt = entry.generation_started_at || entry.updated_at;
+
+  // The workflow logs each step; recent activity means it is still running
+  const lastLog = await workflowLogs.latestStep(entry.keyword, startedAt);
+
+  if (lastLog?.status === 'failed') {
+    return `Workflow failed at step ${lastLog.step ?? '?'}`;
+  }
+
+  if (lastLog && new Date(lastLog.created_at) >= cutoff) {
+    return null;
+  }
+
+  if (lastLog) {
+    return `No workflow progress for ${policy.timeoutMinutes} minutes (last completed step ${lastLog.step ?? '?'})`;
+  }
+
+  return `Workflow never reported progress within ${policy.timeoutMinutes} minutes`;
+}
+
+/**
+ * Mark an entry failed, then retry or revert it per policy
+ * Returns null if the entry moved on before it could be recovered.
+ */
+async function recoverEntry(repository, entry, reason, policy, now) {
+  const attempts = entry.generation_attempts || 1;
+
+  // Retry while attempts remain
+  if (attempts < policy.maxAttempts) {
+    // Claimed against the attempt this sweep found stuck, so a concurrent sweep cannot retry it again
+    const retry = await applyTransition(repository, 'retry_generation', entry.id, { reason, now, seen: entry, ...EVENT_META });
+    if (retry.error) {
+      return null;
+    }
+
+    try {
+      const { dispatched } = await dispatchGeneration(entry);
+      if (dispatched) {
+        return { id: entry.id, keyword: entry.keyword, action: 'retried', reason, attempts: attempts + 1 };
+      }
+      // Left in 'generating' without a workflow, it would only get stuck again
+      reason = `${reason}; retry not dispatched: GITHUB_TOKEN is not configured`;
+    } catch (dispatchError) {
+      reason = `${reason}; retry dispatch failed: ${dispatchError.message}`;
+    }
+  }
+
+  // Out of attempts (or the retry could not start): revert or leave failed
+  const revert = policy.onExhausted === 'scheduled' && entry.planned_date;
+  const result = await applyTransition(repository, revert ? 'revert_generation' : 'generation_failed', entry.id, { reason, now, ...EVENT_META });
+
+  if (result.error) {
+    return null;
+  }
+
+  return {
+    id: entry.id,
+    keyword: entry.keyword,
+    action: revert ? 'reverted' : 'failed',
+    reason,
+    attempts
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * Keyword Import
+ *
+ * Parses CSV/JSON keyword exports, maps their columns onto calendar fields
+ * and validates each row before it is inserted as a suggestion.
+ */
+
+export const ARTICLE_TYPES = ['guide', 'comparison', 'listicle', 'checklist', 'tutorial'];
+
+export const IMPORT_FIELDS = ['keyword', 'article_type', 'search_volume', 'difficulty', 'notes'];
+
+// Maximum rows accepted in a single import
+export const MAX_IMPORT_ROWS = 1000;
+
+// Column names commonly exported by keyword tools, per calendar field
+const COLUMN_ALIASES = {
+  keyword: ['keyword', 'keywords', 'query', 'search term', 'term', 'phrase'],
+  article_type: ['article_type', 'article type', 'type', 'content type', 'format'],
+  search_volume: ['search_volume', 'search volume', 'volume', 'monthly volume', 'avg. monthly searches', 'sv'],
+  difficulty: ['difficulty', 'keyword difficulty', 'kd', 'kd%', 'seo difficulty'],
+  notes: ['notes', 'note', 'comments', 'comment', 'intent']
+};
+
+/**
+ * Parse raw CSV or JSON content into records keyed by column name
+ * Returns: { columns: string[], records: object[] }
+ */
+export function parseImport(format, content) {
+  if (format === 'json') {
+    const parsed = typeof content === 'string' ? JSON.parse(content) : content;
+    const records = Array.isArray(parsed) ? parsed : parsed?.keywords;
+
+    if (!Array.isArray(records)) {
+      throw new Error('JSON import must be an array of objects or { keywords: [...] }');
+    }
+
+    const columns = [];
+    for (const record of records.filter(isRecord)) {
+      for (const key of Object.keys(record)) {
+        if (!columns.includes(key)) columns.push(key);
+      }
+    }
+    return { columns, records };
+  }
+
+  const rows = parseCsv(content);
+  if (rows.length === 0) {
+    return { columns: [], records: [] };
+  }
+
+  const columns = rows[0].map(column => column.trim());
+  const records = rows.slice(1)
+    .filter(row => row.some(cell => cell.trim() !== ''))
+    .map(row => Object.fromEntries(columns.map((column, i) => [column, row[i] ?? ''])));
+
+  return { columns, records };
+}
+
+/**
+ * Guess which source column feeds each calendar field
+ * Returns: { keyword: 'Keyword', search_volume: 'Volume', ... }
+ */
+export function guessMapping(columns) {
+  const mapping = {};
+  for (const field of IMPORT_FIELDS) {
+    const match = columns.find(column =>
+      COLUMN_ALIASES[field].includes(column.trim().toLowerCase())
+    );
+    if (match) {
+      mapping[field] = match;
+    }
+  }
+  return mapping;
+}
+
+/**
+ * Apply a column mapping and validate a record
+ * Returns: { values, errors } where errors is empty for a valid row
+ */
+export function mapRecord(record, mapping) {
+  if (!isRecord(record)) {
+    return { values: {}, errors: ['Row must be an object of column values'] };
+  }
+
+  const errors = [];
+  const raw = field => {
+    const value = mapping[field] ? record[mapping[field]] : undefined;
+    return typeof value === 'string' ? value.trim() : value;
+  };
+
+  const keyword = raw('keyword');
+  if (!keyword) {
+    errors.push('Keyword is required');
+  }
+
+  const articleType = raw('article_type') ? String(raw('article_type')).toLowerCase() : 'guide';
+  if (!ARTICLE_TYPES.includes(articleType)) {
+    errors.push(`Unknown article type "${articleType}"`);
+  }
+
+  const searchVolume = parseNumber(raw('search_volume'));
+  if (Number.isNaN(searchVolume) || searchVolume < 0) {
+    errors.push(`Invalid search volume "${raw('search_volume')}"`);
+  }
+
+  const difficulty = parseNumber(raw('difficulty'));
+  if (Number.isNaN(difficulty) || difficulty < 0 || difficulty > 100) {
+    errors.push(`Invalid difficulty "${raw('difficulty')}" (expected 0-100)`);
+  }
+
+  return {
+    values: {
+      keyword: keyword ? String(keyword).replace(/\s+/g, ' ') : '',
+      article_type: articleType,
+      search_volume: searchVolume,
+      difficulty,
+      notes: raw('notes') ? String(raw('notes')) : null
+    },
+    errors
+  };
+}
+
+/**
+ * Key used to detect duplicate keywords (case and whitespace insensitive)
+ */
+export function keywordKey(keyword) {
+  return String(keyword).trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function isRecord(value) {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Parse a number cell, tolerating thousands separators and percent signs
+ * Returns null for empty cells and NaN for unparseable ones
+ */
+function parseNumber(value) {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'number') return value;
+
+  const cleaned = String(value).replace(/[,%\s]/g, '');
+  if (cleaned === '') return null;
+
+  const number = Number(cleaned);
+  return Number.isFinite(number) ? Math.round(number) : NaN;
+}
+
+/**
+ * Minimal RFC 4180 CSV parser (quoted fields, escaped quotes, CRLF)
+ * Tab-separated exports are detected from the header line.
+ */
+function parseCsv(content) {
+  const text = String(content).replace(/^\uFEFF/, '');
+  const headerLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = headerLine.includes('\t') && !headerLine.includes(',') ? '\t' : ',';
+
+  const rows = [];
+  let row = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
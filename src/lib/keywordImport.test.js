@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { guessMapping, keywordKey, mapRecord, parseImport } from './keywordImport.js';
+
+test('parseImport reads quoted CSV fields, escaped quotes and CRLF, skipping blank rows', () => {
+  const csv = '\uFEFFKeyword,Volume,Notes\r\n"lead scoring, explained","1,200","say ""hi"""\r\n,,\r\nrevops,90,\r\n';
+
+  const { columns, records } = parseImport('csv', csv);
+  assert.deepEqual(columns, ['Keyword', 'Volume', 'Notes']);
+  assert.deepEqual(records, [
+    { Keyword: 'lead scoring, explained', Volume: '1,200', Notes: 'say "hi"' },
+    { Keyword: 'revops', Volume: '90', Notes: '' }
+  ]);
+});
+
+test('parseImport detects tab-separated exports', () => {
+  const { records } = parseImport('csv', 'Keyword\tKD\nlead scoring\t35');
+  assert.deepEqual(records, [{ Keyword: 'lead scoring', KD: '35' }]);
+});
+
+test('parseImport accepts a JSON array or { keywords } and takes columns from object rows only', () => {
+  assert.deepEqual(parseImport('json', '{"keywords":[{"query":"revops"}]}').records, [{ query: 'revops' }]);
+
+  const { columns, records } = parseImport('json', [{ keyword: 'a' }, 'b', null, { volume: 10 }]);
+  assert.deepEqual(columns, ['keyword', 'volume']);
+  assert.equal(records.length, 4);
+
+  assert.throws(() => parseImport('json', '{"rows":[]}'), /must be an array/);
+});
+
+test('guessMapping matches common keyword tool column names', () => {
+  assert.deepEqual(guessMapping(['Search Term', 'Avg. monthly searches', 'KD%', 'Format']), {
+    keyword: 'Search Term',
+    article_type: 'Format',
+    search_volume: 'Avg. monthly searches',
+    difficulty: 'KD%'
+  });
+});
+
+test('mapRecord parses numbers and defaults the article type', () => {
+  const mapping = { keyword: 'Keyword', search_volume: 'Volume', difficulty: 'KD' };
+
+  assert.deepEqual(mapRecord({ Keyword: '  lead   scoring ', Volume: '1,200', KD: '35%' }, mapping), {
+    values: { keyword: 'lead scoring', article_type: 'guide', search_volume: 1200, difficulty: 35, notes: null },
+    errors: []
+  });
+  assert.equal(mapRecord({ Keyword: 'revops', Volume: '0', KD: '' }, mapping).values.search_volume, 0);
+});
+
+test('mapRecord reports every invalid value in a row', () => {
+  const mapping = { keyword: 'k', article_type: 't', search_volume: 'v', difficulty: 'd' };
+
+  assert.deepEqual(mapRecord({ k: '', t: 'Essay', v: 'lots', d: '140' }, mapping).errors, [
+    'Keyword is required',
+    'Unknown article type "essay"',
+    'Invalid search volume "lots"',
+    'Invalid difficulty "140" (expected 0-100)'
+  ]);
+  assert.deepEqual(mapRecord('revops', mapping).errors, ['Row must be an object of column values']);
+});
+
+test('keywordKey ignores case and spacing', () => {
+  assert.equal(keywordKey('  Lead   Scoring '), keywordKey('lead scoring'));
+});
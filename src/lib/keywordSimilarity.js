@@ -0,0 +1,86 @@
+/**
+ * Keyword Similarity
+ *
+ * Offline near-duplicate detection for calendar keywords. Keywords are
+ * normalized (case, stop words, plurals, word order) into token sets and
+ * compared by overlap, so "hubspot salesforce integration" and
+ * "salesforce hubspot integration guide" are recognised as the same topic.
+ */
+
+// Entries scoring at or above this are flagged as likely cannibalization
+export const CANNIBALIZATION_THRESHOLD = 0.7;
+
+// Function words plus content-format modifiers that don't change search intent
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'for', 'to', 'of', 'in', 'on', 'with', 'by',
+  'at', 'from', 'into', 'your', 'you', 'my', 'our', 'is', 'are', 'do', 'does',
+  'how', 'what', 'why', 'when', 'which', 'vs', 'versus', 'v',
+  'guide', 'tutorial', 'checklist', 'list', 'listicle', 'comparison',
+  'best', 'top', 'ultimate', 'complete', 'step', 'steps', 'tips', 'examples',
+  'example', 'way', 'ways'
+]);
+
+/**
+ * Split a keyword into its sorted set of meaningful tokens
+ */
+export function tokenizeKeyword(keyword) {
+  const tokens = String(keyword || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .split(/[\s-]+/)
+    .filter(token => token && !STOP_WORDS.has(token) && !/^(19|20)\d{2}$/.test(token))
+    .map(singularize);
+
+  return [...new Set(tokens)].sort();
+}
+
+/**
+ * Similarity between two keywords, 0 (unrelated) to 1 (same topic)
+ * Dice coefficient over normalized token sets.
+ */
+export function keywordSimilarity(a, b) {
+  const tokensA = tokenizeKeyword(a);
+  const tokensB = tokenizeKeyword(b);
+
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const setB = new Set(tokensB);
+  const shared = tokensA.filter(token => setB.has(token)).length;
+
+  return Math.round((2 * shared / (tokensA.length + tokensB.length)) * 100) / 100;
+}
+
+/**
+ * Find existing entries that likely cannibalize a keyword
+ * Returns: [{ id, keyword, status, score }] most similar first
+ */
+export function findCannibalization(keyword, entries, { excludeId = null, threshold = CANNIBALIZATION_THRESHOLD } = {}) {
+  const matches = [];
+
+  for (const entry of entries) {
+    if (entry.id === excludeId) continue;
+
+    const score = keywordSimilarity(keyword, entry.keyword);
+    if (score >= threshold) {
+      matches.push({
+        id: entry.id,
+        keyword: entry.keyword,
+        status: entry.status,
+        score
+      });
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Reduce simple English plurals to their singular form
+ */
+function singularize(token) {
+  if (token.length <= 3 || /\d/.test(token)) return token;
+  if (token.endsWith('ies')) return token.slice(0, -3) + 'y';
+  if (/(ss|sh|ch|x|z)es$/.test(token)) return token.slice(0, -2);
+  if (token.endsWith('s') && !/(ss|us|is)$/.test(token)) return token.slice(0, -1);
+  return token;
+}
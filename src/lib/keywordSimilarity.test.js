@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findCannibalization, keywordSimilarity, tokenizeKeyword } from './keywordSimilarity.js';
+
+test('tokenizeKeyword drops stop words, years and plurals and ignores word order', () => {
+  assert.deepEqual(tokenizeKeyword('The Best HubSpot Integrations Guide 2026'), ['hubspot', 'integration']);
+  assert.deepEqual(tokenizeKeyword('salesforce hubspot'), tokenizeKeyword('HubSpot vs Salesforce'));
+});
+
+test('keywordSimilarity scores shared topic tokens from 0 to 1', () => {
+  assert.equal(keywordSimilarity('hubspot salesforce integration', 'salesforce hubspot integration guide'), 1);
+  assert.equal(keywordSimilarity('lead scoring', 'lead routing'), 0.5);
+  assert.equal(keywordSimilarity('lead scoring', 'the guide'), 0);
+});
+
+test('findCannibalization returns entries above the threshold, most similar first', () => {
+  const entries = [
+    { id: 'a', keyword: 'lead scoring model', status: 'scheduled' },
+    { id: 'b', keyword: 'lead scoring models', status: 'suggested' },
+    { id: 'c', keyword: 'pipeline reviews', status: 'approved' },
+    { id: 'd', keyword: 'lead scoring model template', status: 'published' }
+  ];
+
+  const matches = findCannibalization('Lead Scoring Models', entries, { excludeId: 'b' });
+  assert.deepEqual(matches, [
+    { id: 'a', keyword: 'lead scoring model', status: 'scheduled', score: 1 },
+    { id: 'd', keyword: 'lead scoring model template', status: 'published', score: 0.86 }
+  ]);
+
+  assert.deepEqual(findCannibalization('lead scoring models', entries, { threshold: 0.9 }).map(match => match.id), ['a', 'b']);
+});
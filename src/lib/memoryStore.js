@@ -0,0 +1,601 @@
+/**
+ * In-Memory Store
+ *
+ * A process-local stand-in for the Supabase client, used when
+ * CALENDAR_STORAGE=memory (see lib/storage.js). It implements the part of the
+ * supabase-js query builder this app uses - select/insert/update/delete,
+ * eq/neq/gt/gte/lt/lte/in/is/not, PostgREST `or` strings, order, range,
+ * limit, single/maybeSingle and exact counts - over plain arrays of rows, so
+ * lib/* helpers run unchanged without a database.
+ *
+ * It mimics the schema where the app relies on it: column defaults, generated
+ * columns, unique names and keywords, the updated_at trigger on content_calendar, the append-only
+ * calendar_events table and the foreign keys that cascade or set null when an
+ * entry is deleted. Errors come back as { code, message } like PostgREST's.
+ * Data lives until the process exits.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { keywordKey } from './keywordImport.js';
+
+// Defaults the database fills in on insert
+const TABLE_DEFAULTS = {
+  content_calendar: () => ({
+    id: randomUUID(),
+    status: 'suggested',
+    article_type: 'guide',
+    approvals: [],
+    generation_attempts: 0,
+    created_at: timestamp(),
+    updated_at: timestamp()
+  }),
+  articles: () => ({ id: randomUUID(), created_at: timestamp() }),
+  workflow_logs: () => ({ id: randomUUID(), created_at: timestamp() }),
+  calendar_events: () => ({ created_at: timestamp() }),
+  calendar_comments: () => ({
+    id: randomUUID(),
+    mentions: [],
+    edits: [],
+    created_at: timestamp(),
+    updated_at: timestamp(),
+    deleted_at: null
+  }),
+  calendar_undo_log: () => ({ id: randomUUID(), created_at: timestamp(), undone_at: null }),
+  approval_views: () => ({ id: randomUUID(), filters: {}, created_at: timestamp(), updated_at: timestamp() }),
+  approval_rules: () => ({
+    id: randomUUID(),
+    conditions: [],
+    priority: 100,
+    enabled: true,
+    auto_schedule: false,
+    decline_categories: [],
+    created_at: timestamp(),
+    updated_at: timestamp()
+  }),
+  scoring_formulas: () => ({ created_at: timestamp() })
+};
+
+// Generated columns, recomputed from the row on every write
+const GENERATED_COLUMNS = {
+  content_calendar: {
+    keyword_key: row => (row.keyword == null ? null : keywordKey(row.keyword))
+  }
+};
+
+// Columns that must be unique per table (besides the primary key)
+const UNIQUE_COLUMNS = {
+  content_calendar: ['keyword_key'],
+  approval_views: ['name'],
+  approval_rules: ['name']
+};
+
+const PRIMARY_KEYS = {
+  scoring_formulas: 'version'
+};
+
+// Tables with an identity primary key
+const IDENTITY_TABLES = ['calendar_events'];
+
+const APPEND_ONLY_TABLES = ['calendar_events'];
+
+// Tables with an updated_at trigger
+const TOUCHED_TABLES = ['content_calendar'];
+
+// What happens to rows referencing a deleted content_calendar entry
+const ENTRY_REFERENCES = [
+  { table: 'content_calendar', column: 'parent_id', onDelete: 'set null' },
+  { table: 'calendar_comments', column: 'entry_id', onDelete: 'cascade' }
+];
+
+/**
+ * Create a client over seeded tables: { table: [rows] }
+ * Rows are copied in; unknown tables start empty.
+ */
+export function createMemoryClient(seed = {}) {
+  const tables = {};
+  const sequences = {};
+
+  for (const [table, rows] of Object.entries(seed)) {
+    tables[table] = rows.map(row => withGenerated(table, structuredClone(row)));
+  }
+  for (const table of IDENTITY_TABLES) {
+    sequences[table] = Math.max(0, ...(tables[table] || []).map(row => row.id || 0));
+  }
+
+  const store = {
+    rows(table) {
+      tables[table] ||= [];
+      return tables[table];
+    },
+    nextId(table) {
+      sequences[table] = (sequences[table] || 0) + 1;
+      return sequences[table];
+    }
+  };
+
+  return {
+    from(table) {
+      return new MemoryQuery(store, table);
+    }
+  };
+}
+
+/**
+ * One query, built up by chaining and run when awaited
+ */
+class MemoryQuery {
+  constructor(store, table) {
+    this.store = store;
+    this.table = table;
+    this.action = 'select';
+    this.columns = '*';
+    this.returning = false;
+    this.count = null;
+    this.head = false;
+    this.values = null;
+    this.filters = [];
+    this.orders = [];
+    this.offset = 0;
+    this.max = null;
+    this.expect = null;
+  }
+
+  select(columns = '*', { count = null, head = false } = {}) {
+    this.columns = columns;
+    if (this.action === 'select') {
+      this.count = count;
+      this.head = head;
+    } else {
+      this.returning = true;
+    }
+    return this;
+  }
+
+  insert(values) {
+    this.action = 'insert';
+    this.values = values;
+    return this;
+  }
+
+  update(values) {
+    this.action = 'update';
+    this.values = values;
+    return this;
+  }
+
+  delete() {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column, value) {
+    return this.where(row => compare(read(row, column), value) === 0);
+  }
+
+  neq(column, value) {
+    return this.where(row => {
+      const result = compare(read(row, column), value);
+      return result !== null && result !== 0;
+    });
+  }
+
+  gt(column, value) {
+    return this.where(row => compare(read(row, column), value) > 0);
+  }
+
+  gte(column, value) {
+    return this.where(row => {
+      const result = compare(read(row, column), value);
+      return result !== null && result >= 0;
+    });
+  }
+
+  lt(column, value) {
+    return this.where(row => compare(read(row, column), value) < 0);
+  }
+
+  lte(column, value) {
+    return this.where(row => {
+      const result = compare(read(row, column), value);
+      return result !== null && result <= 0;
+    });
+  }
+
+  in(column, values) {
+    return this.where(row => values.some(value => compare(read(row, column), value) === 0));
+  }
+
+  is(column, value) {
+    return this.where(row => matchesIs(read(row, column), value));
+  }
+
+  not(column, operator, value) {
+    const test = buildCondition(column, operator, value);
+    return this.where(row => !test(row));
+  }
+
+  // PostgREST logic tree, e.g. 'a.is.null,and(b.eq.1,c.gt.2)'
+  or(expression) {
+    const conditions = parseLogicTree(expression);
+    return this.where(row => conditions.some(test => test(row)));
+  }
+
+  order(column, { ascending = true, nullsFirst = !ascending } = {}) {
+    this.orders.push({ column, ascending, nullsFirst });
+    return this;
+  }
+
+  range(from, to) {
+    this.offset = from;
+    this.max = to - from + 1;
+    return this;
+  }
+
+  limit(count) {
+    this.max = count;
+    return this;
+  }
+
+  single() {
+    this.expect = 'one';
+    return this;
+  }
+
+  maybeSingle() {
+    this.expect = 'maybe';
+    return this;
+  }
+
+  then(resolve, reject) {
+    return Promise.resolve().then(() => this.execute()).then(resolve, reject);
+  }
+
+  where(test) {
+    this.filters.push(test);
+    return this;
+  }
+
+  execute() {
+    switch (this.action) {
+      case 'insert':
+        return this.finish(this.runInsert());
+      case 'update':
+        return this.finish(this.runUpdate());
+      case 'delete':
+        return this.finish(this.runDelete());
+      default:
+        return this.runSelect();
+    }
+  }
+
+  runSelect() {
+    const matched = this.matching();
+    sortRows(matched, this.orders);
+
+    const count = this.count === 'exact' ? matched.length : null;
+    if (this.head) {
+      return { data: null, error: null, count, status: 200 };
+    }
+
+    const end = this.max === null ? undefined : this.offset + this.max;
+    return this.shape(matched.slice(this.offset, end), count);
+  }
+
+  runInsert() {
+    const rows = this.store.rows(this.table);
+    const inserted = [];
+
+    for (const values of Array.isArray(this.values) ? this.values : [this.values]) {
+      const row = withGenerated(this.table, { ...(TABLE_DEFAULTS[this.table]?.() || { id: randomUUID() }), ...toRow(values) });
+      if (IDENTITY_TABLES.includes(this.table)) {
+        row.id = this.store.nextId(this.table);
+      }
+
+      const conflict = this.findConflict(row, [...rows, ...inserted]);
+      if (conflict) {
+        return { error: conflict };
+      }
+      inserted.push(row);
+    }
+
+    rows.push(...inserted);
+    return { rows: inserted };
+  }
+
+  runUpdate() {
+    if (APPEND_ONLY_TABLES.includes(this.table)) {
+      return { error: { code: 'P0001', message: `${this.table} is append-only` } };
+    }
+
+    const rows = this.store.rows(this.table);
+    const matched = this.matching();
+    const changes = toRow(this.values);
+    const touched = TOUCHED_TABLES.includes(this.table) && !('updated_at' in changes);
+
+    for (const row of matched) {
+      const updated = withGenerated(this.table, { ...row, ...changes, ...(touched && { updated_at: timestamp() }) });
+      const conflict = this.findConflict(updated, rows.filter(other => other !== row));
+      if (conflict) {
+        return { error: conflict };
+      }
+    }
+
+    const updated = matched.map(row => withGenerated(this.table, Object.assign(row, changes, touched && { updated_at: timestamp() })));
+    return { rows: updated };
+  }
+
+  runDelete() {
+    if (APPEND_ONLY_TABLES.includes(this.table)) {
+      return { error: { code: 'P0001', message: `${this.table} is append-only` } };
+    }
+
+    const matched = this.matching();
+    const rows = this.store.rows(this.table);
+    const remaining = rows.filter(row => !matched.includes(row));
+    rows.splice(0, rows.length, ...remaining);
+
+    if (this.table === 'content_calendar') {
+      const ids = matched.map(row => row.id);
+      for (const { table, column, onDelete } of ENTRY_REFERENCES) {
+        const referencing = this.store.rows(table);
+        if (onDelete === 'cascade') {
+          const kept = referencing.filter(row => !ids.includes(row[column]));
+          referencing.splice(0, referencing.length, ...kept);
+        } else {
+          referencing.filter(row => ids.includes(row[column])).forEach(row => { row[column] = null; });
+        }
+      }
+    }
+
+    return { rows: matched };
+  }
+
+  // Write results carry rows only when .select() asked for them
+  finish({ rows, error }) {
+    if (error) {
+      return { data: null, error, count: null, status: 400 };
+    }
+    if (!this.returning) {
+      return { data: null, error: null, count: null, status: this.action === 'insert' ? 201 : 204 };
+    }
+    return this.shape(rows, null);
+  }
+
+  shape(rows, count) {
+    const data = rows.map(row => project(row, this.columns));
+
+    if (this.expect === null) {
+      return { data, error: null, count, status: 200 };
+    }
+    if (data.length > 1 || (data.length === 0 && this.expect === 'one')) {
+      return {
+        data: null,
+        error: {
+          code: 'PGRST116',
+          message: 'JSON object requested, multiple (or no) rows returned',
+          details: `The result contains ${data.length} rows`
+        },
+        count: null,
+        status: 406
+      };
+    }
+    return { data: data[0] ?? null, error: null, count, status: 200 };
+  }
+
+  matching() {
+    return this.store.rows(this.table).filter(row => this.filters.every(test => test(row)));
+  }
+
+  findConflict(row, others) {
+    const keys = [PRIMARY_KEYS[this.table] || 'id', ...(UNIQUE_COLUMNS[this.table] || [])];
+    const column = keys.find(key => row[key] != null && others.some(other => other[key] === row[key]));
+    return column
+      ? {
+        code: '23505',
+        message: `duplicate key value violates unique constraint "${this.table}_${column}_key"`,
+        details: `Key (${column})=(${row[column]}) already exists.`
+      }
+      : null;
+  }
+}
+
+/**
+ * Column value, following `col->key` / `col->>key` JSON paths (->> reads text)
+ */
+function read(row, column) {
+  const [name, ...path] = column.split(/->>?/);
+  let value = row[name];
+
+  for (const key of path) {
+    value = value == null ? null : value[key];
+  }
+  if (value === undefined) return null;
+  return column.includes('->>') && value !== null && typeof value === 'object' ? JSON.stringify(value) : value;
+}
+
+/**
+ * Three-way comparison with SQL nulls: null when either side is null
+ * Filter values often arrive as strings (from `or` expressions), so numbers
+ * and booleans compare by value.
+ */
+function compare(left, right) {
+  if (left === null || left === undefined || right === null || right === undefined) return null;
+
+  if (typeof left === 'number' || typeof right === 'number') {
+    const a = Number(left);
+    const b = Number(right);
+    if (!isNaN(a) && !isNaN(b)) return a === b ? 0 : a < b ? -1 : 1;
+  }
+  if (typeof left === 'boolean' || typeof right === 'boolean') {
+    return String(left) === String(right) ? 0 : String(left) < String(right) ? -1 : 1;
+  }
+
+  const a = typeof left === 'object' ? JSON.stringify(left) : String(left);
+  const b = typeof right === 'object' ? JSON.stringify(right) : String(right);
+  return a === b ? 0 : a < b ? -1 : 1;
+}
+
+function matchesIs(value, expected) {
+  if (expected === null || expected === 'null') return value === null || value === undefined;
+  return String(value) === String(expected);
+}
+
+/**
+ * A row test for one `column.operator.value` condition
+ */
+function buildCondition(column, operator, value) {
+  switch (operator) {
+    case 'eq':
+      return row => compare(read(row, column), value) === 0;
+    case 'neq':
+      return row => {
+        const result = compare(read(row, column), value);
+        return result !== null && result !== 0;
+      };
+    case 'gt':
+      return row => compare(read(row, column), value) > 0;
+    case 'gte':
+      return row => {
+        const result = compare(read(row, column), value);
+        return result !== null && result >= 0;
+      };
+    case 'lt':
+      return row => compare(read(row, column), value) < 0;
+    case 'lte':
+      return row => {
+        const result = compare(read(row, column), value);
+        return result !== null && result <= 0;
+      };
+    case 'is':
+      return row => matchesIs(read(row, column), value);
+    case 'in': {
+      const values = Array.isArray(value) ? value : splitTopLevel(String(value).replace(/^\(|\)$/g, '')).map(unquote);
+      return row => values.some(item => compare(read(row, column), item) === 0);
+    }
+    default:
+      throw new Error(`Unsupported filter operator: ${operator}`);
+  }
+}
+
+/**
+ * Parse a PostgREST `or`/`and` list into row tests
+ */
+function parseLogicTree(expression) {
+  return splitTopLevel(expression).map(part => {
+    const group = part.match(/^(and|or)\((.*)\)$/s);
+    if (group) {
+      const conditions = parseLogicTree(group[2]);
+      return group[1] === 'and'
+        ? row => conditions.every(test => test(row))
+        : row => conditions.some(test => test(row));
+    }
+
+    const [column, ...rest] = splitOnDots(part);
+    const negated = rest[0] === 'not';
+    const [operator, ...value] = negated ? rest.slice(1) : rest;
+    const test = buildCondition(column, operator, unquote(value.join('.')));
+    return negated ? row => !test(row) : test;
+  });
+}
+
+/**
+ * Split on commas outside parentheses and double quotes
+ */
+function splitTopLevel(expression) {
+  const parts = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i];
+    if (char === '\\' && quoted) {
+      current += char + expression[++i];
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+    if (!quoted && depth === 0 && char === ',') {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) parts.push(current.trim());
+  return parts;
+}
+
+/**
+ * column.operator.value, keeping dots inside the value (timestamps, quoted text)
+ */
+function splitOnDots(condition) {
+  const [column, ...rest] = condition.split('.');
+  if (rest[0] === 'not') {
+    return [column, 'not', rest[1], rest.slice(2).join('.')];
+  }
+  return [column, rest[0], rest.slice(1).join('.')];
+}
+
+function unquote(value) {
+  const match = value.match(/^"(.*)"$/s);
+  return match ? match[1].replace(/\\(.)/g, '$1') : value;
+}
+
+/**
+ * Order rows in place by each order() in turn
+ */
+function sortRows(rows, orders) {
+  rows.sort((a, b) => {
+    for (const { column, ascending, nullsFirst } of orders) {
+      const left = read(a, column);
+      const right = read(b, column);
+      if (left === null && right === null) continue;
+      if (left === null) return nullsFirst ? -1 : 1;
+      if (right === null) return nullsFirst ? 1 : -1;
+
+      const result = compare(left, right);
+      if (result !== 0) return ascending ? result : -result;
+    }
+    return 0;
+  });
+}
+
+/**
+ * Copy of a row with only the selected columns ('*' for all)
+ */
+function project(row, columns) {
+  const names = columns.split(',').map(name => name.trim()).filter(Boolean);
+  if (names.includes('*')) {
+    return structuredClone(row);
+  }
+
+  const projected = {};
+  for (const name of names) {
+    const [alias, column] = name.includes(':') ? name.split(':').map(part => part.trim()) : [name.split(/->>?/).pop(), name];
+    projected[alias] = structuredClone(read(row, column));
+  }
+  return projected;
+}
+
+/**
+ * Fill in a row's generated columns, in place
+ */
+function withGenerated(table, row) {
+  for (const [column, compute] of Object.entries(GENERATED_COLUMNS[table] || {})) {
+    row[column] = compute(row);
+  }
+  return row;
+}
+
+/**
+ * Values as they arrive over the wire: JSON, so undefined keys are dropped
+ */
+function toRow(values) {
+  return JSON.parse(JSON.stringify(values));
+}
+
+function timestamp() {
+  return new Date().toISOString();
+}
@@ -0,0 +1,194 @@
+/**
+ * Pipeline Value
+ *
+ * Commercial value of a keyword for a RevOps consultancy. A keyword's
+ * traffic value is its estimated monthly traffic times its CPC: what the
+ * same visits would cost as paid clicks. Conversion assumptions turn that
+ * into estimated monthly pipeline: the share of visits that become leads,
+ * and what a lead is worth as a multiple of the keyword's CPC.
+ *
+ * ROI compares the pipeline an article earns over the ROI horizon (ramping up
+ * as in the traffic forecast) with the average historical cost of generating
+ * an article. Every entry shares the same cost and assumptions, so ranking by
+ * ROI is ranking by traffic_value, which is stored alongside the score with
+ * the settings it was valued under (value_basis). Entries valued under other
+ * settings count as stale scores, so the scoring backfill revalues them.
+ *
+ * The 'high' ROI band is relative: the top ROI_HIGH_SHARE of entries with a
+ * value, as long as they pay back.
+ */
+
+import { calculateEstimatedTraffic, getRampDays } from './trafficForecast.js';
+
+// ROI bands for the approvals table (see getRoiBands); 'no-cpc' matches entries without a CPC
+export const ROI_BANDS = ['high', 'positive', 'negative'];
+
+// Articles and workflow runs sampled for the average generation cost
+const COST_SAMPLE_SIZE = 200;
+
+const DAYS_PER_MONTH = 30.44;
+
+/**
+ * Conversion assumptions from environment defaults
+ *
+ * Env:
+ * - PIPELINE_CONVERSION_RATE: share of visits that become leads (default 0.02)
+ * - PIPELINE_CPC_MULTIPLE: value of a lead as a multiple of the keyword's CPC (default 50)
+ * - ROI_HORIZON_MONTHS: months of pipeline counted against the generation cost (default 12)
+ * - ROI_HIGH_SHARE: share of valued entries in the 'high' ROI band (default 0.25)
+ */
+export function getValueAssumptions() {
+  const conversionRate = parseFloat(import.meta.env.PIPELINE_CONVERSION_RATE);
+  const cpcMultiple = parseFloat(import.meta.env.PIPELINE_CPC_MULTIPLE);
+  const horizonMonths = parseInt(import.meta.env.ROI_HORIZON_MONTHS);
+  const highShare = parseFloat(import.meta.env.ROI_HIGH_SHARE);
+
+  return {
+    conversionRate: conversionRate > 0 ? conversionRate : 0.02,
+    cpcMultiple: cpcMultiple > 0 ? cpcMultiple : 50,
+    horizonMonths: horizonMonths > 0 ? horizonMonths : 12,
+    rampDays: getRampDays(),
+    highShare: highShare > 0 && highShare <= 1 ? highShare : 0.25
+  };
+}
+
+/**
+ * The value settings stored with each traffic_value (value_basis)
+ */
+export function getValueBasis({ conversionRate, cpcMultiple, horizonMonths, rampDays } = getValueAssumptions()) {
+  return `conversion_rate=${conversionRate};cpc_multiple=${cpcMultiple};horizon_months=${horizonMonths};ramp_days=${rampDays}`;
+}
+
+/**
+ * Monthly traffic value (estimated traffic × CPC), or null without a CPC
+ */
+export function calculateTrafficValue(entry) {
+  const cpc = Number(entry.seo_insights?.cpc);
+  if (!(cpc > 0)) return null;
+  return Math.round(calculateEstimatedTraffic(entry.search_volume, entry.difficulty) * cpc * 100) / 100;
+}
+
+/**
+ * Months of full traffic an article earns within the horizon, given its ramp-up
+ */
+function effectiveMonths({ horizonMonths, rampDays }) {
+  const rampMonths = rampDays / DAYS_PER_MONTH;
+  return horizonMonths >= rampMonths
+    ? horizonMonths - rampMonths / 2
+    : (horizonMonths * horizonMonths) / (2 * rampMonths);
+}
+
+/**
+ * Average historical cost of generating an article
+ * Uses articles.generation_cost, falling back to the per-run total of
+ * workflow_logs costs for articles generated before costs were recorded.
+ * Takes the storage repository (lib/storage.js).
+ * Returns: { average, samples, source: 'articles' | 'workflow_logs' | null }
+ */
+export async function loadGenerationCost({ articles, workflowLogs }) {
+  const articleCosts = await articles.listGenerationCosts(COST_SAMPLE_SIZE);
+
+  if (articleCosts.length > 0) {
+    return { average: average(articleCosts), samples: articleCosts.length, source: 'articles' };
+  }
+
+  const runCosts = await workflowLogs.listRunCosts(COST_SAMPLE_SIZE * 10);
+
+  if (runCosts.length === 0) {
+    return { average: null, samples: 0, source: null };
+  }
+
+  return { average: average(runCosts), samples: runCosts.length, source: 'workflow_logs' };
+}
+
+/**
+ * Everything value and ROI depend on: assumptions, the average cost and
+ * `highRoi`, where the 'high' ROI band starts (null without cost history)
+ */
+export async function loadValuation(repository) {
+  const assumptions = getValueAssumptions();
+  const [cost, highTrafficValue] = await Promise.all([
+    loadGenerationCost(repository),
+    repository.entries.trafficValueAtShare(assumptions.highShare)
+  ]);
+
+  const valuation = { assumptions, cost, highRoi: null };
+  if (cost.average) {
+    const { roi } = valueEntry({ traffic_value: highTrafficValue ?? 0 }, valuation);
+    valuation.highRoi = Math.max(roi ?? 0, 0);
+  }
+  return valuation;
+}
+
+/**
+ * ROI range of each band: { band: [min, max] }, either end may be null
+ */
+export function getRoiBands({ highRoi }) {
+  return {
+    high: [highRoi ?? 0, null],
+    positive: [0, null],
+    negative: [null, 0]
+  };
+}
+
+/**
+ * Estimated value and ROI of one entry
+ * Returns: { traffic_value, pipeline_value, horizon_value, cost, roi, payback_months }
+ * pipeline_value is monthly once ramped up; roi is (horizon_value - cost) / cost.
+ * Values are null without a CPC, ROI also without cost history.
+ */
+export function valueEntry(entry, { assumptions, cost }) {
+  const trafficValue = entry.traffic_value != null ? Number(entry.traffic_value) : calculateTrafficValue(entry);
+  const averageCost = cost.average;
+
+  if (trafficValue === null) {
+    return { traffic_value: null, pipeline_value: null, horizon_value: null, cost: averageCost, roi: null, payback_months: null };
+  }
+
+  const pipelineValue = trafficValue * assumptions.conversionRate * assumptions.cpcMultiple;
+  const horizonValue = pipelineValue * effectiveMonths(assumptions);
+
+  return {
+    traffic_value: trafficValue,
+    pipeline_value: round(pipelineValue),
+    horizon_value: round(horizonValue),
+    cost: averageCost,
+    roi: averageCost ? round((horizonValue - averageCost) / averageCost) : null,
+    payback_months: averageCost && pipelineValue > 0 ? round(averageCost / pipelineValue, 1) : null
+  };
+}
+
+/**
+ * Whether a valued entry (see valueEntry) falls in an ROI band or 'no-cpc'
+ */
+export function matchesRoiBand(value, band, valuation) {
+  if (band === 'no-cpc') return value.traffic_value === null;
+  if (!ROI_BANDS.includes(band) || value.roi === null) return false;
+
+  const [min, max] = getRoiBands(valuation)[band];
+  return (min === null || value.roi >= min) && (max === null || value.roi < max);
+}
+
+/**
+ * The traffic_value range matching an ROI band, or null if ROI cannot be computed
+ * Returns: [min, max] (either may be null)
+ */
+export function roiBandToTrafficValue(band, valuation) {
+  const { assumptions, cost } = valuation;
+  if (!ROI_BANDS.includes(band) || !cost.average) return null;
+
+  const perTrafficValue = assumptions.conversionRate * assumptions.cpcMultiple * effectiveMonths(assumptions);
+  const toTrafficValue = roi => (roi === null ? null : round((cost.average * (1 + roi)) / perTrafficValue));
+
+  const [min, max] = getRoiBands(valuation)[band];
+  return [toTrafficValue(min), toTrafficValue(max)];
+}
+
+function average(costs) {
+  return round(costs.reduce((sum, cost) => sum + cost, 0) / costs.length);
+}
+
+function round(value, digits = 2) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateTrafficValue, getRoiBands, matchesRoiBand, roiBandToTrafficValue, valueEntry } from './pipelineValue.js';
+
+// Without a ramp-up every month of the horizon earns the full pipeline value
+const valuation = {
+  assumptions: { conversionRate: 0.02, cpcMultiple: 50, horizonMonths: 12, rampDays: 0, highShare: 0.25 },
+  cost: { average: 100, samples: 3, source: 'articles' },
+  highRoi: 2
+};
+
+const bandOf = trafficValue => {
+  const value = valueEntry({ traffic_value: trafficValue }, valuation);
+  return ['high', 'positive', 'negative', 'no-cpc'].filter(band => matchesRoiBand(value, band, valuation));
+};
+
+test('calculateTrafficValue needs a CPC', () => {
+  assert.equal(calculateTrafficValue({ search_volume: 1000, difficulty: 20, seo_insights: { cpc: 2.5 } }), 250);
+  assert.equal(calculateTrafficValue({ search_volume: 1000, difficulty: 20, seo_insights: {} }), null);
+});
+
+test('valueEntry turns traffic value into pipeline, ROI and payback', () => {
+  assert.deepEqual(valueEntry({ traffic_value: 10 }, valuation), {
+    traffic_value: 10,
+    pipeline_value: 10,
+    horizon_value: 120,
+    cost: 100,
+    roi: 0.2,
+    payback_months: 10
+  });
+  assert.equal(valueEntry({ traffic_value: 10 }, { ...valuation, cost: { average: null } }).roi, null);
+});
+
+test('ROI bands split at the high threshold and at break-even', () => {
+  assert.deepEqual(getRoiBands(valuation), { high: [2, null], positive: [0, null], negative: [null, 0] });
+
+  assert.deepEqual(bandOf(50), ['high', 'positive']);
+  assert.deepEqual(bandOf(10), ['positive']);
+  assert.deepEqual(bandOf(5), ['negative']);
+  assert.deepEqual(bandOf(null), ['no-cpc']);
+});
+
+test('roiBandToTrafficValue gives the traffic_value range of a band', () => {
+  assert.deepEqual(roiBandToTrafficValue('high', valuation), [25, null]);
+  assert.deepEqual(roiBandToTrafficValue('negative', valuation), [null, 8.33]);
+  assert.equal(roiBandToTrafficValue('high', { ...valuation, cost: { average: null } }), null);
+});
@@ -0,0 +1,292 @@
+/**
+ * Request Schemas
+ *
+ * Typed validation for API request bodies, query strings and path params, and
+ * the error envelope every /api/calendar/* route responds with:
+ *
+ *   { success: false, code, error, fields? }
+ *
+ * `code` is one of ERROR_CODES and decides the HTTP status, `error` is a
+ * readable summary and `fields` maps each invalid field to its message.
+ * lib/calendarApi.ts turns codes into typed exceptions.
+ *
+ * A schema is an object of field name -> rule (see `rules`). Validation
+ * collects every field's error rather than stopping at the first, drops
+ * fields that are absent and have no default, and returns the parsed values:
+ * query-string numbers become numbers, comma-separated lists become arrays.
+ */
+
+export const ERROR_CODES = {
+  // Well-formed but not allowed, e.g. an action the entry's status does not permit
+  BAD_REQUEST: 400,
+  // Invalid fields; the response lists them in `fields`
+  VALIDATION_FAILED: 400,
+  FORBIDDEN: 403,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  // No longer available, e.g. an expired undo
+  GONE: 410,
+  INTERNAL_ERROR: 500,
+  UPSTREAM_FAILED: 502
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const INTEGER_PATTERN = /^-?\d+$/;
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Rule builders
+ * Every rule takes { required, nullable, default } besides its own options.
+ * Empty strings count as absent, so optional query params can be left blank.
+ */
+export const rules = {
+  string: ({ max, ...options } = {}) => rule(options, (value, name) => {
+    if (typeof value !== 'string') return fail(`${name} must be text`);
+    const text = value.trim();
+    if (max && text.length > max) return fail(`${name} must be at most ${max} characters`);
+    return { value: text };
+  }),
+
+  integer: ({ min, max, ...options } = {}) => rule(options, (value, name, strings) => {
+    const number = strings && typeof value === 'string' && INTEGER_PATTERN.test(value) ? Number(value) : value;
+    if (!Number.isInteger(number)) return fail(`${name} must be a whole number`);
+    return checkRange(number, name, min, max);
+  }),
+
+  number: ({ min, max, ...options } = {}) => rule(options, (value, name, strings) => {
+    const number = strings && typeof value === 'string' && NUMBER_PATTERN.test(value) ? Number(value) : value;
+    if (typeof number !== 'number' || !Number.isFinite(number)) return fail(`${name} must be a number`);
+    return checkRange(number, name, min, max);
+  }),
+
+  boolean: (options = {}) => rule(options, (value, name, strings) => {
+    if (strings && (value === 'true' || value === 'false')) return { value: value === 'true' };
+    if (typeof value !== 'boolean') return fail(`${name} must be true or false`);
+    return { value };
+  }),
+
+  // Calendar date, YYYY-MM-DD
+  date: (options = {}) => rule(options, (value, name) => {
+    if (typeof value !== 'string' || !DATE_PATTERN.test(value) || !isCalendarDate(value)) {
+      return fail(`${name} must be a date (YYYY-MM-DD)`);
+    }
+    return { value };
+  }),
+
+  // ISO 8601 date or date-time
+  timestamp: (options = {}) => rule(options, (value, name) => {
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}/.test(value) || isNaN(Date.parse(value))) {
+      return fail(`${name} must be an ISO date`);
+    }
+    return { value };
+  }),
+
+  uuid: (options = {}) => rule(options, (value, name) => {
+    if (typeof value !== 'string' || !UUID_PATTERN.test(value)) return fail(`${name} must be a valid id`);
+    return { value: value.toLowerCase() };
+  }),
+
+  oneOf: (values, options = {}) => rule(options, (value, name) => {
+    if (!values.includes(value)) return fail(`${name} must be one of: ${values.join(', ')}`);
+    return { value };
+  }),
+
+  // Array in a body, comma-separated in a query string
+  list: (item, { max, ...options } = {}) => rule(options, (value, name, strings) => {
+    const items = strings && typeof value === 'string'
+      ? value.split(',').map(part => part.trim()).filter(Boolean)
+      : value;
+    if (!Array.isArray(items)) return fail(`${name} must be a list`);
+    if (max && items.length > max) return fail(`${name} takes at most ${max} items`);
+
+    const parsed = [];
+    for (const [index, entry] of items.entries()) {
+      const result = item.check(entry, `${name}[${index}]`, strings);
+      if (result.error) return result;
+      parsed.push(result.value);
+    }
+    return { value: parsed };
+  }),
+
+  // Plain JSON object, validated further by whoever uses it
+  object: (options = {}) => rule(options, (value, name) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return fail(`${name} must be an object`);
+    return { value };
+  })
+};
+
+/**
+ * Validate input against a schema
+ * Options:
+ * - strings: input came from a query string or path (values are text)
+ * - strict: reject fields the schema does not name; a string is used as the
+ *   message suffix (default 'is not a known field')
+ * Returns: { value } or { errors: { field: message } }
+ */
+export function validate(schema, input, { strings = false, strict = false } = {}) {
+  const value = {};
+  const errors = {};
+
+  for (const [name, fieldRule] of Object.entries(schema)) {
+    const result = fieldRule.parse(input[name], name, strings);
+    if (result.error) {
+      errors[name] = result.error;
+    } else if (result.value !== undefined) {
+      value[name] = result.value;
+    }
+  }
+
+  if (strict) {
+    for (const name of Object.keys(input)) {
+      if (!(name in schema)) {
+        errors[name] = `${name} ${typeof strict === 'string' ? strict : 'is not a known field'}`;
+      }
+    }
+  }
+
+  return Object.keys(errors).length > 0 ? { errors } : { value };
+}
+
+/**
+ * Validate query params (a URL, URLSearchParams or params object)
+ * Returns: { value } or { response } with the 400 to send
+ */
+export function parseQuery(schema, query) {
+  const params = query instanceof URL ? query.searchParams : query;
+  const input = params instanceof URLSearchParams ? Object.fromEntries(params) : params;
+  return toResult(validate(schema, input, { strings: true }));
+}
+
+/**
+ * Validate path params that are row ids (uuids), e.g. parseIds(params, ['id', 'commentId'])
+ * Returns: { value } or { response } with the 400 to send
+ */
+export function parseIds(params, names = ['id']) {
+  const schema = Object.fromEntries(names.map(name => [name, rules.uuid({ required: true })]));
+  return toResult(validate(schema, params, { strings: true }));
+}
+
+/**
+ * Read a JSON object request body, for routes that validate it in steps
+ * With `optional`, an empty body reads as {}.
+ * Returns: { value } or { response } with the 400 to send
+ */
+export async function readBody(request, { optional = false } = {}) {
+  let body;
+  try {
+    const text = await request.text();
+    body = optional && text.trim() === '' ? {} : JSON.parse(text);
+  } catch {
+    return { response: validationError({ body: 'Request body must be valid JSON' }) };
+  }
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { response: validationError({ body: 'Request body must be a JSON object' }) };
+  }
+
+  return { value: body };
+}
+
+/**
+ * Read and validate a JSON request body
+ * Options: `optional` (see readBody), plus validate's
+ * Returns: { value } or { response } with the 400 to send
+ */
+export async function parseBody(schema, request, { optional = false, ...options } = {}) {
+  const { value: body, response } = await readBody(request, { optional });
+  if (response) {
+    return { response };
+  }
+
+  return toResult(validate(schema, body, options));
+}
+
+/**
+ * Error envelope response for an ERROR_CODES code
+ */
+export function errorResponse(code, error, extra = {}) {
+  return new Response(JSON.stringify({
+    success: false,
+    code,
+    error,
+    ...extra
+  }), {
+    status: ERROR_CODES[code],
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * 400 listing every invalid field: { field: message }
+ */
+export function validationError(fields) {
+  return errorResponse('VALIDATION_FAILED', Object.values(fields).join('; '), { fields });
+}
+
+/**
+ * Error envelope for a lib result that carries an HTTP status (e.g. applyTransition)
+ */
+export function statusError(status, error) {
+  const code = Object.keys(ERROR_CODES).find(key => ERROR_CODES[key] === status)
+    || (status >= 500 ? 'INTERNAL_ERROR' : 'BAD_REQUEST');
+  return errorResponse(code, error);
+}
+
+/**
+ * 500 for an unexpected error; routes log it first
+ */
+export function serverError(error) {
+  return errorResponse('INTERNAL_ERROR', error?.message || 'Internal error');
+}
+
+function rule({ required = false, nullable = false, default: fallback } = {}, check) {
+  return {
+    check,
+    parse(value, name, strings) {
+      if (value === '' && nullable) {
+        return required ? fail(`${name} is required`) : { value: null };
+      }
+      if (value === undefined || value === '') {
+        if (required) return fail(`${name} is required`);
+        return { value: fallback };
+      }
+      if (value === null) {
+        if (nullable) return { value: null };
+        return required ? fail(`${name} is required`) : fail(`${name} cannot be null`);
+      }
+
+      const result = check(value, name, strings);
+      if (!result.error && required && result.value === '') {
+        return fail(`${name} is required`);
+      }
+      if (!result.error && result.value === '') {
+        return { value: nullable ? null : fallback };
+      }
+      return result;
+    }
+  };
+}
+
+function checkRange(number, name, min, max) {
+  if (min !== undefined && number < min) {
+    return fail(max !== undefined ? `${name} must be between ${min} and ${max}` : `${name} must be at least ${min}`);
+  }
+  if (max !== undefined && number > max) {
+    return fail(min !== undefined ? `${name} must be between ${min} and ${max}` : `${name} must be at most ${max}`);
+  }
+  return { value: number };
+}
+
+function isCalendarDate(value) {
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function toResult({ value, errors }) {
+  return errors ? { response: validationError(errors) } : { value };
+}
+
+function fail(error) {
+  return { error };
+}
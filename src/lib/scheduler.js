@@ -0,0 +1,213 @@
+/**
+ * Scheduling Engine
+ *
+ * Assigns planned dates to approved calendar entries by filling the first
+ * free publishing slots, taking existing bookings, publishing weekdays and
+ * blackout dates into account.
+ */
+
+import { rules } from './requestSchema.js';
+
+// Statuses that occupy a publishing slot on their planned_date
+export const OCCUPYING_STATUSES = ['scheduled', 'generating', 'in_progress', 'published'];
+
+// Never search further ahead than this for a free slot
+const MAX_HORIZON_DAYS = 365;
+
+// Most articles a request may schedule on one day
+export const MAX_PER_DAY = 20;
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Request fields that override the scheduling rules (see getSchedulingRules)
+export const SCHEDULING_OVERRIDES = {
+  per_day: rules.integer({ min: 1, max: MAX_PER_DAY }),
+  publish_weekdays: rules.list(rules.integer({ min: 0, max: 6 }), { max: 7 }),
+  blackout_dates: rules.list(rules.date(), { max: MAX_HORIZON_DAYS }),
+  pillar_first: rules.boolean()
+};
+
+/**
+ * Resolve scheduling rules from environment defaults and per-request overrides
+ * Overrides: per_day, publish_weekdays, blackout_dates, pillar_first (default true)
+ *
+ * Env:
+ * - PUBLISH_WEEKDAYS: comma-separated weekday numbers, 0 = Sunday (default: every day)
+ * - BLACKOUT_DATES: comma-separated YYYY-MM-DD dates (holidays, launch freezes)
+ */
+export function getSchedulingRules(overrides = {}) {
+  const publishWeekdays = overrides.publish_weekdays
+    ?? parseList(import.meta.env.PUBLISH_WEEKDAYS).map(Number);
+  const blackoutDates = overrides.blackout_dates
+    ?? parseList(import.meta.env.BLACKOUT_DATES);
+
+  return {
+    perDay: Math.max(1, parseInt(overrides.per_day) || 1),
+    publishWeekdays: publishWeekdays.length > 0
+      ? publishWeekdays.filter(day => day >= 0 && day <= 6)
+      : [0, 1, 2, 3, 4, 5, 6],
+    blackoutDates: new Set(blackoutDates),
+    pillarFirst: overrides.pillar_first !== false
+  };
+}
+
+/**
+ * Planned dates of pillars referenced by entries but not part of the batch
+ * Returns: { pillarId: 'YYYY-MM-DD' }
+ */
+export async function loadPillarDates(repository, entries) {
+  const batchIds = new Set(entries.map(entry => entry.id));
+  const pillarIds = [...new Set(entries
+    .map(entry => entry.parent_id)
+    .filter(parentId => parentId && !batchIds.has(parentId)))];
+
+  if (pillarIds.length === 0) return {};
+
+  const data = await repository.entries.listPlannedDates(pillarIds);
+  return Object.fromEntries(data.map(row => [row.id, row.planned_date.split('T')[0]]));
+}
+
+/**
+ * Count entries already booked per date, starting at startDate
+ * Returns: { 'YYYY-MM-DD': count }
+ */
+export async function loadOccupancy(repository, startDate) {
+  const data = await repository.entries.listPlannedBetween(OCCUPYING_STATUSES, startDate, addDays(startDate, MAX_HORIZON_DAYS));
+
+  const occupancy = {};
+  for (const row of data) {
+    const date = row.planned_date.split('T')[0];
+    occupancy[date] = (occupancy[date] || 0) + 1;
+  }
+  return occupancy;
+}
+
+/**
+ * Plan publishing dates for entries, highest priority first
+ *
+ * Each entry takes the first date on or after startDate that is a publishing
+ * weekday, not blacked out, and holds fewer than perDay bookings. With
+ * rules.pillarFirst, a cluster article is only placed after its pillar's
+ * planned date; pillars in the same batch are placed ahead of their clusters.
+ * pillarDates supplies planned dates of pillars outside the batch.
+ *
+ * Returns one assignment per entry with the chosen date, a human-readable
+ * reason and the dates that were skipped on the way. Entries that find no
+ * slot within the horizon get planned_date: null.
+ */
+export function planSchedule(entries, { startDate, rules, occupancy = {}, pillarDates = {} }) {
+  const booked = { ...occupancy };
+  const placedDates = { ...pillarDates };
+  const batchById = Object.fromEntries(entries.map(entry => [entry.id, entry]));
+
+  const sorted = [...entries].sort((a, b) =>
+    (b.priority_score || 0) - (a.priority_score || 0)
+  );
+
+  // Pull pillars in the batch ahead of their first cluster
+  const ordered = [];
+  const visited = new Set();
+  const visit = entry => {
+    if (visited.has(entry.id)) return;
+    visited.add(entry.id);
+    if (rules.pillarFirst && entry.parent_id && batchById[entry.parent_id]) {
+      visit(batchById[entry.parent_id]);
+    }
+    ordered.push(entry);
+  };
+  sorted.forEach(visit);
+
+  const assignments = [];
+  let reportFrom = startDate;
+
+  for (const entry of ordered) {
+    const pillarDate = rules.pillarFirst && entry.parent_id ? placedDates[entry.parent_id] : null;
+    const earliest = pillarDate && addDays(pillarDate, 1) > startDate
+      ? addDays(pillarDate, 1)
+      : startDate;
+
+    const skipped = [];
+    let date = earliest;
+    let plannedDate = null;
+
+    for (let i = 0; i <= MAX_HORIZON_DAYS; i++) {
+      const blocked = getBlockedReason(date, rules, booked);
+      if (!blocked) {
+        plannedDate = date;
+        break;
+      }
+      // Days before the previous placement were already explained there
+      if (date >= reportFrom) {
+        skipped.push({ date, reason: blocked });
+      }
+      date = addDays(date, 1);
+    }
+
+    if (!plannedDate) {
+      assignments.push({
+        id: entry.id,
+        keyword: entry.keyword,
+        planned_date: null,
+        reason: `No free publishing slot within ${MAX_HORIZON_DAYS} days of ${earliest}`,
+        skipped: []
+      });
+      continue;
+    }
+
+    booked[plannedDate] = (booked[plannedDate] || 0) + 1;
+    placedDates[entry.id] = plannedDate;
+    reportFrom = plannedDate;
+
+    const alreadyBooked = booked[plannedDate] - 1;
+    let reason = alreadyBooked > 0
+      ? `First free slot on ${plannedDate} (${alreadyBooked} of ${rules.perDay} already booked)`
+      : `First free slot on ${plannedDate}`;
+    if (pillarDate && earliest > startDate) {
+      reason += ` after its pillar publishes on ${pillarDate}`;
+    }
+
+    assignments.push({
+      id: entry.id,
+      keyword: entry.keyword,
+      planned_date: plannedDate,
+      reason,
+      skipped
+    });
+  }
+
+  return assignments;
+}
+
+/**
+ * Why a date cannot take another entry, or null if it is free
+ */
+function getBlockedReason(date, rules, booked) {
+  if (rules.blackoutDates.has(date)) {
+    return 'blackout date';
+  }
+
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  if (!rules.publishWeekdays.includes(weekday)) {
+    return `${WEEKDAY_NAMES[weekday]} is not a publishing day`;
+  }
+
+  if ((booked[date] || 0) >= rules.perDay) {
+    return `already holds ${booked[date]} scheduled ${booked[date] === 1 ? 'entry' : 'entries'}`;
+  }
+
+  return null;
+}
+
+/**
+ * Add days to a YYYY-MM-DD date string
+ */
+export function addDays(date, amount) {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + amount);
+  return next.toISOString().split('T')[0];
+}
+
+function parseList(value) {
+  if (!value) return [];
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
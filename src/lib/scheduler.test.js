@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getSchedulingRules, planSchedule } from './scheduler.js';
+
+// 2026-10-16 is a Friday
+const START = '2026-10-16';
+
+const weekdays = (overrides = {}) => getSchedulingRules({
+  per_day: 1,
+  publish_weekdays: [1, 2, 3, 4, 5],
+  blackout_dates: [],
+  ...overrides
+});
+
+test('planSchedule skips days that are not publishing weekdays', () => {
+  const [assignment] = planSchedule([{ id: 'a', keyword: 'lead scoring' }], {
+    startDate: '2026-10-17',
+    rules: weekdays()
+  });
+
+  assert.equal(assignment.planned_date, '2026-10-19');
+  assert.deepEqual(assignment.skipped, [
+    { date: '2026-10-17', reason: 'Saturday is not a publishing day' },
+    { date: '2026-10-18', reason: 'Sunday is not a publishing day' }
+  ]);
+});
+
+test('planSchedule fills slots by priority and steps over blackouts and booked days', () => {
+  const assignments = planSchedule([
+    { id: 'low', keyword: 'sales ops', priority_score: 10 },
+    { id: 'high', keyword: 'lead scoring', priority_score: 90 }
+  ], {
+    startDate: START,
+    rules: weekdays({ blackout_dates: ['2026-10-19'] }),
+    occupancy: { '2026-10-20': 1 }
+  });
+
+  assert.deepEqual(assignments.map(item => [item.id, item.planned_date]), [
+    ['high', '2026-10-16'],
+    ['low', '2026-10-21']
+  ]);
+  assert.deepEqual(assignments[1].skipped.map(item => item.reason), [
+    'already holds 1 scheduled entry',
+    'Saturday is not a publishing day',
+    'Sunday is not a publishing day',
+    'blackout date',
+    'already holds 1 scheduled entry'
+  ]);
+});
+
+test('planSchedule places a pillar in the batch ahead of its cluster', () => {
+  const assignments = planSchedule([
+    { id: 'cluster', keyword: 'lead scoring models', parent_id: 'pillar', priority_score: 90 },
+    { id: 'pillar', keyword: 'lead scoring', priority_score: 10 }
+  ], {
+    startDate: START,
+    rules: weekdays({ per_day: 5 })
+  });
+
+  assert.deepEqual(assignments.map(item => [item.id, item.planned_date]), [
+    ['pillar', '2026-10-16'],
+    ['cluster', '2026-10-19']
+  ]);
+  assert.match(assignments[1].reason, /after its pillar publishes on 2026-10-16/);
+});
+
+test('planSchedule waits for a pillar planned outside the batch unless pillar_first is off', () => {
+  const entries = [{ id: 'cluster', keyword: 'lead scoring models', parent_id: 'pillar' }];
+  const pillarDates = { pillar: '2026-10-21' };
+
+  const [after] = planSchedule(entries, { startDate: START, rules: weekdays(), pillarDates });
+  assert.equal(after.planned_date, '2026-10-22');
+
+  const [ignored] = planSchedule(entries, { startDate: START, rules: weekdays({ pillar_first: false }), pillarDates });
+  assert.equal(ignored.planned_date, START);
+});
@@ -0,0 +1,322 @@
+/**
+ * Opportunity Scoring
+ *
+ * The single opportunity score for a calendar entry, stored as priority_score.
+ * The score is a weighted average of normalized factors (search volume,
+ * difficulty, competitors, CPC and article type), scaled to 0-100. Each score
+ * is stored with a per-factor breakdown and the formula version that produced
+ * it, so the UI can explain it and the backfill can find stale scores.
+ *
+ * Admins tune the weights on /calendar/scoring; every change is saved as a
+ * new version in scoring_formulas and the latest version is the one in use.
+ * FORMULA_NAME identifies how the factors themselves are computed: changing
+ * that code means a new name, and a migration inserting its first version.
+ *
+ * traffic_value (see lib/pipelineValue.js) depends on the same inputs, so it is
+ * written and backfilled together with the score. A score also counts as
+ * stale when its traffic_value was worked out under other value settings
+ * (value_basis).
+ */
+
+import { ARTICLE_TYPES } from './keywordImport.js';
+import { buildEvent, recordEvents } from './eventLog.js';
+import { calculateTrafficValue, getValueBasis } from './pipelineValue.js';
+import { rules, validate } from './requestSchema.js';
+
+export const FORMULA_NAME = 'weighted-factors';
+
+export const SCORE_FACTORS = [
+  { key: 'volume', label: 'Search volume' },
+  { key: 'difficulty', label: 'Difficulty' },
+  { key: 'competitors', label: 'Competitors' },
+  { key: 'cpc', label: 'CPC' },
+  { key: 'article_type', label: 'Article type' }
+];
+
+// Used until the first version is saved (mirrors the migration's seed)
+export const DEFAULT_FORMULA = {
+  name: FORMULA_NAME,
+  version: 1,
+  weights: {
+    volume: 0.35,
+    difficulty: 0.3,
+    competitors: 0.15,
+    cpc: 0.1,
+    article_type: 0.1
+  },
+  article_types: {
+    guide: 1,
+    tutorial: 0.9,
+    comparison: 0.8,
+    listicle: 0.6,
+    checklist: 0.5
+  }
+};
+
+// Entry columns the score is computed from; changing one means rescoring
+export const SCORE_INPUTS = ['search_volume', 'difficulty', 'competitor_count', 'article_type', 'seo_insights'];
+
+// Columns written only by the scorer
+export const SCORE_FIELDS = ['priority_score', 'score_breakdown', 'score_version', 'scored_at', 'traffic_value', 'value_basis'];
+
+export const MAX_BACKFILL_BATCH = 500;
+
+// Volume at which the volume factor maxes out (log scale)
+const VOLUME_CAP = 10000;
+// Competitor count at which the competitors factor bottoms out
+const COMPETITOR_CAP = 10;
+// CPC (USD) at which the CPC factor maxes out
+const CPC_CAP = 20;
+// Factor value when difficulty or competitors are unknown
+const UNKNOWN = 0.5;
+
+/**
+ * Normalized 0-1 value of each factor for an entry, with the input it came from
+ */
+function factorValues(entry, formula) {
+  const volume = numberOrNull(entry.search_volume);
+  const difficulty = numberOrNull(entry.difficulty);
+  const competitors = numberOrNull(entry.competitor_count);
+  const cpc = numberOrNull(entry.seo_insights?.cpc);
+  const articleType = entry.article_type || null;
+
+  return {
+    volume: {
+      input: volume,
+      value: volume > 0 ? Math.min(Math.log10(volume + 1) / Math.log10(VOLUME_CAP + 1), 1) : 0
+    },
+    difficulty: {
+      input: difficulty,
+      value: difficulty === null ? UNKNOWN : 1 - clamp(difficulty, 0, 100) / 100
+    },
+    competitors: {
+      input: competitors,
+      value: competitors === null ? UNKNOWN : 1 - Math.min(Math.max(competitors, 0), COMPETITOR_CAP) / COMPETITOR_CAP
+    },
+    cpc: {
+      input: cpc,
+      value: cpc > 0 ? Math.min(cpc, CPC_CAP) / CPC_CAP : 0
+    },
+    article_type: {
+      input: articleType,
+      value: formula.article_types[articleType] ?? UNKNOWN
+    }
+  };
+}
+
+/**
+ * Score an entry (or import row) with a formula
+ * Returns: { score, breakdown } where breakdown is
+ * { formula, version, factors: [{ factor, label, input, value, weight, points }] }
+ * `weight` is the factor's share of the total weight; the points add up to the score.
+ */
+export function scoreEntry(entry, formula = DEFAULT_FORMULA) {
+  const values = factorValues(entry, formula);
+  const totalWeight = SCORE_FACTORS.reduce((sum, { key }) => sum + (formula.weights[key] || 0), 0) || 1;
+
+  const factors = SCORE_FACTORS.map(({ key, label }) => {
+    const weight = (formula.weights[key] || 0) / totalWeight;
+    return {
+      factor: key,
+      label,
+      input: values[key].input,
+      value: round(values[key].value, 2),
+      weight: round(weight, 3),
+      points: round(values[key].value * weight * 100, 1)
+    };
+  });
+
+  const score = Math.round(factors.reduce((sum, factor) => sum + factor.points, 0));
+
+  return {
+    score: clamp(score, 0, 100),
+    breakdown: { formula: formula.name, version: formula.version, factors }
+  };
+}
+
+/**
+ * Columns to write for an entry's score
+ */
+export function scoreFields(entry, formula = DEFAULT_FORMULA, now = new Date()) {
+  const { score, breakdown } = scoreEntry(entry, formula);
+  return {
+    priority_score: score,
+    score_breakdown: breakdown,
+    score_version: formula.version,
+    scored_at: now.toISOString(),
+    traffic_value: calculateTrafficValue(entry),
+    value_basis: getValueBasis()
+  };
+}
+
+// Weight of each factor, and 0-1 value of each article type, in a formula body
+const WEIGHTS_BODY = Object.fromEntries(SCORE_FACTORS.map(({ key }) => [key, rules.number({ min: 0 })]));
+const ARTICLE_TYPES_BODY = Object.fromEntries(ARTICLE_TYPES.map(type => [type, rules.number({ min: 0, max: 1 })]));
+
+/**
+ * Validate a new formula version
+ * Weights are non-negative numbers with at least one above zero; article type
+ * values are 0-1. Omitted keys keep the current formula's value.
+ * Returns: { formula } or { errors } keyed weights.<factor> / article_types.<type>
+ */
+export function parseFormula(input, current = DEFAULT_FORMULA) {
+  const weights = validate(WEIGHTS_BODY, input?.weights || {}, { strict: 'is not a scoring factor' });
+  const articleTypes = validate(ARTICLE_TYPES_BODY, input?.article_types || {}, { strict: 'is not an article type' });
+  const errors = {
+    ...prefixKeys('weights', weights.errors),
+    ...prefixKeys('article_types', articleTypes.errors)
+  };
+
+  const merged = { ...current.weights, ...weights.value };
+  if (!weights.errors && !SCORE_FACTORS.some(({ key }) => merged[key] > 0)) {
+    errors.weights = 'At least one weight must be above 0';
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { errors };
+  }
+
+  const notes = typeof input?.notes === 'string' ? input.notes.trim() : '';
+
+  return {
+    formula: {
+      name: FORMULA_NAME,
+      weights: merged,
+      article_types: { ...current.article_types, ...articleTypes.value },
+      notes: notes || null
+    }
+  };
+}
+
+function prefixKeys(prefix, errors = {}) {
+  return Object.fromEntries(Object.entries(errors).map(([key, message]) => [`${prefix}.${key}`, message]));
+}
+
+/**
+ * The formula version in use: the latest saved one, or the default
+ */
+export async function loadScoringFormula(supabase) {
+  const { data, error } = await supabase
+    .from('scoring_formulas')
+    .select('*')
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data || DEFAULT_FORMULA;
+}
+
+/**
+ * Every saved formula version, newest first
+ */
+export async function loadFormulaHistory(supabase, limit = 20) {
+  const { data, error } = await supabase
+    .from('scoring_formulas')
+    .select('*')
+    .order('version', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Save a validated formula as the next version
+ * A concurrent save of the same version fails with 23505; callers report it as a conflict.
+ */
+export async function saveScoringFormula(supabase, formula, createdBy = null) {
+  const current = await loadScoringFormula(supabase);
+
+  const { data, error } = await supabase
+    .from('scoring_formulas')
+    .insert({
+      ...formula,
+      version: current.version + 1,
+      created_by: createdBy
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Number of entries scored by an older formula version (or never scored),
+ * or valued under other value settings
+ */
+export async function countStaleScores(repository, version) {
+  return repository.entries.countStaleScores(version, getValueBasis());
+}
+
+/**
+ * Rescore one batch of entries whose score is stale (see countStaleScores)
+ * Call repeatedly until `remaining` is 0. Each changed score is recorded as
+ * a 'rescore' event.
+ * Returns: { version, rescored, remaining }
+ */
+export async function backfillScores(repository, formula, { batchSize = 200, actor = null, source = null, now = new Date() } = {}) {
+  const entries = await repository.entries.listStaleScores(
+    formula.version,
+    getValueBasis(),
+    'id, keyword, search_volume, difficulty, competitor_count, article_type, seo_insights, priority_score, score_version',
+    Math.min(Math.max(batchSize, 1), MAX_BACKFILL_BATCH)
+  );
+
+  const events = [];
+  for (const entry of entries) {
+    const fields = scoreFields(entry, formula, now);
+
+    await repository.entries.update(entry.id, fields);
+
+    events.push(buildEvent(
+      'rescore',
+      { id: entry.id, keyword: entry.keyword, priority_score: entry.priority_score },
+      { id: entry.id, keyword: entry.keyword, priority_score: fields.priority_score },
+      { actor, source }
+    ));
+  }
+
+  await recordEvents(repository.db, events);
+
+  return {
+    version: formula.version,
+    rescored: entries.length,
+    remaining: await countStaleScores(repository, formula.version)
+  };
+}
+
+/**
+ * Get difficulty label
+ */
+export function getDifficultyLabel(difficulty) {
+  if (!difficulty) return 'Unknown';
+  if (difficulty < 30) return 'Easy';
+  if (difficulty < 50) return 'Medium';
+  if (difficulty < 70) return 'Hard';
+  return 'Very Hard';
+}
+
+function numberOrNull(value) {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && isFinite(number) ? number : null;
+}
+
+function clamp(value, min, max) {
+  return Math.min(Math.max(value, min), max);
+}
+
+function round(value, digits) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,44 @@
+/**
+ * Status History
+ *
+ * Timeline of an entry's lifecycle, reconstructed from the timestamps and
+ * reviewer fields stored on its content_calendar row.
+ */
+
+import { getDeclineCategoryLabel } from './declineReasons.js';
+
+/**
+ * Build the status history for an entry, oldest first
+ * Returns: [{ status, label, at, actor, detail }]
+ */
+export function buildStatusHistory(entry) {
+  const events = [];
+  const add = (status, label, at, actor = null, detail = null) => {
+    if (at) events.push({ status, label, at, actor, detail });
+  };
+
+  add('suggested', 'Suggested', entry.created_at);
+
+  const approvals = entry.approvals || [];
+  if (approvals.length > 0) {
+    approvals.forEach((approval, i) => {
+      const label = approvals.length > 1 ? `Approval ${i + 1} of ${approvals.length}` : 'Approved';
+      add(i === 0 && approvals.length > 1 ? 'pending_second_approval' : 'approved', label, approval.at, approval.reviewer);
+    });
+  } else {
+    add('approved', 'Approved', entry.approved_at, entry.approved_by);
+  }
+
+  if (entry.declined_at) {
+    const categories = (entry.decline_categories || []).map(getDeclineCategoryLabel);
+    const detail = [categories.join(', '), entry.decline_reason].filter(Boolean).join(' — ');
+    add('rejected', 'Declined', entry.declined_at, entry.declined_by, detail || null);
+  }
+
+  const attempts = entry.generation_attempts || 0;
+  add('generating', attempts > 1 ? `Generation started (attempt ${attempts})` : 'Generation started', entry.generation_started_at);
+  add('failed', 'Generation failed', entry.failed_at, null, entry.failure_reason || null);
+  add('published', 'Published', entry.published_at);
+
+  return events.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+}
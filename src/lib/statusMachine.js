@@ -0,0 +1,427 @@
+/**
+ * Status Machine
+ *
+ * The one table of calendar entry statuses and the actions that move an entry
+ * between them. Routes never write `status` directly: they run an action
+ * through applyTransition / applyTransitions, which check the current status,
+ * the action's required inputs and its guard, then write the new status with
+ * the action's side effects. The update only lands if the entry is still in
+ * the status it was read in.
+ *
+ * Undo (undoLog.js) is the one exception: it restores an entry's recorded
+ * prior state, and only while the entry is still where the action left it.
+ *
+ * Every transition that lands is appended to the event log (eventLog.js)
+ * under the action's name, with the context's `actor` (or `reviewer`) and
+ * `source` route.
+ */
+
+import { buildEvent, recordEvents } from './eventLog.js';
+
+export const ENTRY_STATUSES = [
+  'suggested',
+  'pending_second_approval',
+  'approved',
+  'scheduled',
+  'generating',
+  'in_progress',
+  'published',
+  'failed',
+  'rejected'
+];
+
+// Statuses a new entry may be created in
+export const INITIAL_STATUSES = ['suggested', 'approved', 'scheduled'];
+
+// Most entries one batch request (approve, decline) may act on
+export const MAX_BATCH_SIZE = 500;
+
+// Lifecycle columns only transitions may write; the generic PATCH rejects them
+export const LIFECYCLE_FIELDS = [
+  'status',
+  'approved_at',
+  'approved_by',
+  'approvals',
+  'declined_at',
+  'declined_by',
+  'generation_started_at',
+  'generation_attempts',
+  'failure_reason',
+  'failed_at',
+  'published_at',
+  'auto_rule_id',
+  'auto_rule_name'
+];
+
+const ALL = ENTRY_STATUSES;
+const except = (...statuses) => ALL.filter(status => !statuses.includes(status));
+
+/**
+ * Every action, keyed by name
+ * - from: statuses the action is legal in
+ * - to: statuses it can leave the entry in ([] when status does not change)
+ * - requires: context inputs the caller must supply
+ * - blocked: clearer errors for specific illegal statuses
+ * - guard(entry, context): error message when the action is not allowed, else null
+ * - apply(entry, context): the row update, including `status`
+ * - claim: columns that must still hold the values the caller saw (context.seen,
+ *   else the row as read here) for the update to apply; for actions that
+ *   leave the status unchanged
+ * - system: run by the app or workflow, not offered to reviewers
+ *
+ * approve and decline record context.rule (an approval rule deciding
+ * automatically) in auto_rule_id / auto_rule_name, and clear it otherwise.
+ */
+export const TRANSITIONS = {
+  approve: {
+    label: 'Approve',
+    from: ['suggested', 'rejected', 'pending_second_approval'],
+    to: ['approved', 'pending_second_approval'],
+    requires: ['reviewer'],
+    guard(entry, { reviewer }) {
+      if (entry.status === 'pending_second_approval' && reviewer
+        && (entry.approvals || []).some(a => sameReviewer(a.reviewer, reviewer))) {
+        return `Already approved by ${reviewer}; a different reviewer must give the second approval`;
+      }
+      return null;
+    },
+    apply(entry, { reviewer: name, now, requiredApprovals, rule }) {
+      const reviewer = name.trim();
+      const approval = { reviewer, at: now.toISOString() };
+
+      // A declined entry approved after all no longer counts as declined
+      const undecline = entry.status === 'rejected'
+        ? { declined_at: null, declined_by: null, decline_reason: null, decline_categories: null }
+        : {};
+
+      if (entry.status === 'pending_second_approval') {
+        return {
+          status: 'approved',
+          approved_at: approval.at,
+          approved_by: reviewer,
+          approvals: [...(entry.approvals || []), approval],
+          ...ruleLabel(rule)
+        };
+      }
+
+      // The two-person policy parks a first approval until a second reviewer signs off
+      if (requiredApprovals(entry) > 1) {
+        return {
+          status: 'pending_second_approval',
+          approved_at: null,
+          approved_by: null,
+          approvals: [approval],
+          ...undecline,
+          ...ruleLabel(rule)
+        };
+      }
+
+      return {
+        status: 'approved',
+        approved_at: approval.at,
+        approved_by: reviewer,
+        approvals: [approval],
+        ...undecline,
+        ...ruleLabel(rule)
+      };
+    }
+  },
+
+  decline: {
+    label: 'Decline',
+    from: ['suggested', 'pending_second_approval', 'approved'],
+    to: ['rejected'],
+    requires: ['reviewer'],
+    apply(entry, { reviewer, now, declineReason, declineCategories = [], rule }) {
+      return {
+        ...ruleLabel(rule),
+        status: 'rejected',
+        approved_at: null,
+        approved_by: null,
+        approvals: [],
+        declined_at: now.toISOString(),
+        declined_by: reviewer,
+        ...(declineReason && { decline_reason: declineReason }),
+        ...(declineCategories.length > 0 && { decline_categories: declineCategories })
+      };
+    }
+  },
+
+  schedule: {
+    label: 'Schedule',
+    from: ['approved', 'scheduled', 'failed'],
+    to: ['scheduled'],
+    requires: ['plannedDate'],
+    apply(entry, { plannedDate }) {
+      return { status: 'scheduled', planned_date: plannedDate };
+    }
+  },
+
+  generate: {
+    label: 'Generate Now',
+    from: ['suggested', 'approved', 'scheduled', 'failed'],
+    to: ['generating'],
+    blocked: {
+      generating: 'Article is already being generated',
+      in_progress: 'Article is already being generated'
+    },
+    // "Generate Now" on a suggestion is an implicit single approval, which the
+    // two-person policy does not allow for high-cost entries
+    guard(entry, { requiredApprovals }) {
+      if (entry.status === 'suggested' && requiredApprovals(entry) > 1) {
+        return 'Two reviewers must approve this entry before it can be generated';
+      }
+      return null;
+    },
+    apply(entry, { now }) {
+      return {
+        status: 'generating',
+        generation_started_at: now.toISOString(),
+        generation_attempts: (entry.generation_attempts || 0) + 1,
+        failure_reason: null,
+        failed_at: null
+      };
+    }
+  },
+
+  retry_generation: {
+    label: 'Retry generation',
+    from: ['generating'],
+    to: ['generating'],
+    requires: ['reason'],
+    // Two watchdog sweeps must not both dispatch the same retry
+    claim: ['generation_attempts', 'generation_started_at'],
+    system: true,
+    apply(entry, { now, reason }) {
+      return {
+        status: 'generating',
+        failure_reason: reason,
+        failed_at: now.toISOString(),
+        generation_started_at: now.toISOString(),
+        generation_attempts: (entry.generation_attempts || 1) + 1
+      };
+    }
+  },
+
+  generation_failed: {
+    label: 'Mark generation failed',
+    from: ['generating', 'in_progress'],
+    to: ['failed'],
+    requires: ['reason'],
+    system: true,
+    apply(entry, { now, reason }) {
+      return { status: 'failed', failure_reason: reason, failed_at: now.toISOString() };
+    }
+  },
+
+  revert_generation: {
+    label: 'Return to schedule',
+    from: ['generating', 'in_progress'],
+    to: ['scheduled'],
+    requires: ['reason'],
+    system: true,
+    guard(entry) {
+      return entry.planned_date ? null : 'Entry has no planned date to return to';
+    },
+    apply(entry, { now, reason }) {
+      return { status: 'scheduled', failure_reason: reason, failed_at: now.toISOString() };
+    }
+  },
+
+  start_writing: {
+    label: 'Start writing',
+    from: ['generating'],
+    to: ['in_progress'],
+    system: true,
+    apply() {
+      return { status: 'in_progress' };
+    }
+  },
+
+  publish: {
+    label: 'Publish',
+    from: ['generating', 'in_progress'],
+    to: ['published'],
+    system: true,
+    apply(entry, { now, articleId }) {
+      return {
+        status: 'published',
+        published_at: now.toISOString(),
+        ...(articleId && { article_id: articleId })
+      };
+    }
+  },
+
+  // Field edits (generic PATCH, set_pillar) while the workflow is not using the entry
+  edit: {
+    label: 'Edit',
+    from: except('generating', 'in_progress', 'published'),
+    to: [],
+    blocked: {
+      generating: 'Entry cannot be edited while its article is being generated',
+      in_progress: 'Entry cannot be edited while its article is being generated',
+      published: 'Published entries cannot be edited'
+    }
+  },
+
+  delete: {
+    label: 'Delete',
+    from: except('generating', 'in_progress', 'published'),
+    to: [],
+    blocked: {
+      generating: 'Cannot delete an entry while its article is being generated',
+      in_progress: 'Cannot delete an entry while its article is being generated',
+      published: 'Cannot delete published articles. Archive instead.'
+    }
+  }
+};
+
+const REQUIRED_INPUTS = {
+  reviewer: 'reviewer is required',
+  plannedDate: 'planned_date is required for scheduling',
+  reason: 'a failure reason is required'
+};
+
+/**
+ * Whether two reviewer names are the same person (ignoring case and spacing)
+ */
+export function sameReviewer(a, b) {
+  const key = name => String(name ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+  return key(a) === key(b);
+}
+
+/**
+ * Check whether an action may run on an entry
+ * Returns an error message, or null when the action is allowed.
+ */
+export function checkTransition(action, entry, context = {}) {
+  const transition = TRANSITIONS[action];
+  if (!transition) {
+    return `Unknown action: ${action}`;
+  }
+
+  if (!transition.from.includes(entry.status)) {
+    return transition.blocked?.[entry.status]
+      || `Entry is ${entry.status} and cannot be ${describe(action)}`;
+  }
+
+  for (const input of transition.requires || []) {
+    if (!context[input]) {
+      return REQUIRED_INPUTS[input];
+    }
+  }
+
+  return transition.guard?.(entry, withDefaults(context)) || null;
+}
+
+/**
+ * Actions a reviewer can take on an entry in its current status
+ * Input-dependent guards are only applied when the context supplies the input
+ * (e.g. pass `reviewer` to know whether this reviewer can give a second approval).
+ * Returns: [{ action, label, to, requires, blocked_reason }]
+ */
+export function getNextActions(entry, context = {}) {
+  return Object.entries(TRANSITIONS)
+    .filter(([, transition]) => !transition.system && transition.from.includes(entry.status))
+    .map(([action, transition]) => ({
+      action,
+      label: transition.label,
+      to: transition.to,
+      requires: transition.requires || [],
+      blocked_reason: transition.guard?.(entry, withDefaults(context)) || null
+    }));
+}
+
+/**
+ * Run an action on one entry
+ * Returns { data } with the updated row, or { error, status } with the HTTP status to send
+ */
+export async function applyTransition(repository, action, id, context = {}) {
+  const { updated, failed } = await applyTransitions(repository, action, [id], context);
+
+  if (failed.length > 0) {
+    return failed[0];
+  }
+  return { data: updated[0] };
+}
+
+/**
+ * Run an action on many entries, each checked on its own
+ * context.actor (default: context.reviewer) and context.source label the logged events.
+ * context.seen is the row as the caller read it, for actions with a `claim`.
+ * Returns: { updated: row[], failed: [{ id, error, status }] } in the order of `ids`
+ */
+export async function applyTransitions(repository, action, ids, context = {}) {
+  const transition = TRANSITIONS[action];
+  if (!transition?.apply) {
+    throw new Error(`${action} does not change status`);
+  }
+
+  const entries = await repository.entries.getMany(ids);
+
+  const resolved = withDefaults(context);
+  const byId = Object.fromEntries(entries.map(entry => [entry.id, entry]));
+  const updated = [];
+  const failed = [];
+  const events = [];
+
+  for (const id of ids) {
+    const entry = byId[id];
+
+    if (!entry) {
+      failed.push({ id, error: 'Calendar entry not found', status: 404 });
+      continue;
+    }
+
+    const reason = checkTransition(action, entry, resolved);
+    if (reason) {
+      failed.push({ id, error: reason, status: 400 });
+      continue;
+    }
+
+    const data = await repository.entries.update(id, transition.apply(entry, resolved), {
+      status: entry.status,
+      match: Object.fromEntries((transition.claim || []).map(column => [column, (resolved.seen ?? entry)[column] ?? null]))
+    });
+
+    if (!data) {
+      failed.push({ id, error: `Entry changed while trying to ${describe(action, 'present')}; reload and try again`, status: 409 });
+      continue;
+    }
+
+    updated.push(data);
+    events.push(buildEvent(action, entry, data, {
+      actor: resolved.actor ?? resolved.reviewer,
+      source: resolved.source
+    }));
+  }
+
+  await recordEvents(repository.db, events);
+
+  return { updated, failed };
+}
+
+function ruleLabel(rule) {
+  return { auto_rule_id: rule?.id ?? null, auto_rule_name: rule?.name ?? null };
+}
+
+function withDefaults(context) {
+  return {
+    now: new Date(),
+    requiredApprovals: () => 1,
+    ...context
+  };
+}
+
+function describe(action, tense = 'past') {
+  const label = TRANSITIONS[action].label.toLowerCase();
+  if (tense === 'present') return label;
+  return {
+    approve: 'approved',
+    decline: 'declined',
+    schedule: 'scheduled',
+    generate: 'generated',
+    edit: 'edited',
+    delete: 'deleted'
+  }[action] || `moved by "${label}"`;
+}
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRepository } from './storage.js';
+import { createMemoryClient } from './memoryStore.js';
+import { TRANSITIONS, applyTransition, checkTransition, getNextActions } from './statusMachine.js';
+
+const now = new Date('2026-10-19T09:00:00Z');
+
+test('checkTransition explains illegal statuses and missing inputs', () => {
+  assert.equal(checkTransition('archive', { status: 'suggested' }), 'Unknown action: archive');
+  assert.equal(checkTransition('approve', { status: 'published' }, { reviewer: 'sam' }), 'Entry is published and cannot be approved');
+  assert.equal(checkTransition('delete', { status: 'generating' }), 'Cannot delete an entry while its article is being generated');
+  assert.equal(checkTransition('schedule', { status: 'approved' }), 'planned_date is required for scheduling');
+  assert.equal(checkTransition('approve', { status: 'suggested' }, { reviewer: 'sam' }), null);
+});
+
+test('a second approval must come from a different reviewer, ignoring case and spacing', () => {
+  const entry = { status: 'pending_second_approval', approvals: [{ reviewer: 'Dana  Lee', at: now.toISOString() }] };
+
+  assert.match(checkTransition('approve', entry, { reviewer: ' dana lee' }), /a different reviewer must give the second approval/);
+  assert.equal(checkTransition('approve', entry, { reviewer: 'sam' }), null);
+});
+
+test('generating a suggestion needs the approvals the policy requires', () => {
+  const entry = { status: 'suggested' };
+
+  assert.equal(checkTransition('generate', entry, { requiredApprovals: () => 2 }), 'Two reviewers must approve this entry before it can be generated');
+  assert.equal(checkTransition('generate', entry), null);
+  assert.equal(checkTransition('revert_generation', { status: 'generating' }, { reason: 'timeout' }), 'Entry has no planned date to return to');
+});
+
+test('getNextActions offers reviewer actions only, with their guard result', () => {
+  const actions = getNextActions(
+    { status: 'pending_second_approval', approvals: [{ reviewer: 'dana' }] },
+    { reviewer: 'Dana', requiredApprovals: () => 2 }
+  );
+
+  assert.deepEqual(actions.map(action => action.action), ['approve', 'decline', 'edit', 'delete']);
+  assert.match(actions[0].blocked_reason, /Already approved by Dana/);
+  assert.ok(actions.every(action => !TRANSITIONS[action.action].system));
+});
+
+test('approving a declined entry clears the decline', () => {
+  const update = TRANSITIONS.approve.apply(
+    { status: 'rejected', decline_reason: 'Off topic' },
+    { reviewer: ' sam ', now, requiredApprovals: () => 1 }
+  );
+
+  assert.equal(update.status, 'approved');
+  assert.equal(update.approved_by, 'sam');
+  assert.equal(update.decline_reason, null);
+  assert.equal(update.declined_at, null);
+});
+
+test('a retry only applies while the entry still holds the attempt the caller saw', async () => {
+  const seen = { id: 'a', keyword: 'lead scoring', status: 'generating', generation_attempts: 1, generation_started_at: '2026-10-19T08:00:00.000Z' };
+  const repository = createRepository(createMemoryClient({ content_calendar: [{ ...seen }] }), 'memory');
+
+  const first = await applyTransition(repository, 'retry_generation', 'a', { reason: 'timeout', now, seen });
+  assert.equal(first.data.generation_attempts, 2);
+
+  const second = await applyTransition(repository, 'retry_generation', 'a', { reason: 'timeout', now, seen });
+  assert.equal(second.status, 409);
+});
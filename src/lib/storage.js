@@ -0,0 +1,564 @@
+/**
+ * Calendar Storage
+ *
+ * The repository every /api/calendar/* route goes through. It wraps a query
+ * client - Supabase, or the in-memory store for offline development and
+ * tests - with the operations routes need on calendar entries, articles and
+ * workflow logs. lib/* helpers that read or write calendar entries take the
+ * repository and go through `repository.entries`; the rest take the query
+ * client itself (`repository.db`), which both backends implement.
+ *
+ * Env:
+ * - CALENDAR_STORAGE: 'supabase' (default) or 'memory'. The memory backend is
+ *   seeded from lib/storageFixtures.js when first used and lives as long as
+ *   the server process.
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { createMemoryClient } from './memoryStore.js';
+import { createFixtures } from './storageFixtures.js';
+import { keywordKey } from './keywordImport.js';
+
+export const STORAGE_BACKENDS = ['supabase', 'memory'];
+
+// Columns of the article linked to an entry (GET /api/calendar/[id])
+const LINKED_ARTICLE_COLUMNS = 'id, slug, title, published_at, quality_score, actual_word_count, generation_cost';
+
+// Rows per request when reading a whole table; Supabase returns at most 1000 (its max-rows setting)
+const PAGE_SIZE = 1000;
+
+let repository = null;
+
+/**
+ * The configured backend's name
+ */
+export function getStorageBackend() {
+  const backend = import.meta.env.CALENDAR_STORAGE || 'supabase';
+  if (!STORAGE_BACKENDS.includes(backend)) {
+    throw new Error(`CALENDAR_STORAGE must be one of: ${STORAGE_BACKENDS.join(', ')}`);
+  }
+  return backend;
+}
+
+/**
+ * The process-wide repository for the configured backend
+ */
+export function getRepository() {
+  if (!repository) {
+    const backend = getStorageBackend();
+    const db = backend === 'memory'
+      ? createMemoryClient(createFixtures())
+      : createClient(
+        import.meta.env.SUPABASE_URL || '',
+        import.meta.env.SUPABASE_SERVICE_KEY || import.meta.env.SUPABASE_ANON_KEY || ''
+      );
+    repository = createRepository(db, backend);
+  }
+  return repository;
+}
+
+/**
+ * Repository over any query client (e.g. a memory client seeded for a test)
+ */
+export function createRepository(db, backend = 'supabase') {
+  const articles = createArticleRepository(db);
+
+  return {
+    backend,
+    db,
+    entries: createEntryRepository(db, articles),
+    articles,
+    workflowLogs: createWorkflowLogRepository(db)
+  };
+}
+
+/**
+ * content_calendar
+ * Methods throw the backend's error; lookups return null when nothing matches.
+ * Updates and deletes can be guarded by the status the caller last saw (updates
+ * also by other column values, `match`), and return null (or nothing) when
+ * the entry has moved on.
+ */
+function createEntryRepository(db, articles) {
+  // listKeywords() result kept for callers that accept a stale list: { at, rows }
+  let keywordCache = null;
+
+  return {
+    /**
+     * Query builder for callers that compose their own filters
+     */
+    query(columns = '*', options) {
+      return db.from('content_calendar').select(columns, options);
+    },
+
+    /**
+     * Every row a composed query matches, read a page at a time
+     * `build(query)` adds filters and order to a fresh query; rows are also
+     * ordered by id so pages do not overlap.
+     */
+    async queryAll(columns, build = query => query) {
+      return readAll(() => build(this.query(columns)).order('id', { ascending: true }));
+    },
+
+    async get(id, columns = '*') {
+      const { data, error } = await db
+        .from('content_calendar')
+        .select(columns)
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+      return data;
+    },
+
+    /**
+     * Entry with its generated article as `articles` (null if none)
+     */
+    async getWithArticle(id) {
+      const entry = await this.get(id);
+      if (!entry) {
+        return null;
+      }
+      return {
+        ...entry,
+        articles: entry.article_id ? await articles.get(entry.article_id, LINKED_ARTICLE_COLUMNS) : null
+      };
+    },
+
+    /**
+     * Entries by id, optionally only those in one of `statuses`; ids that do not match are left out
+     */
+    async getMany(ids, columns = '*', { statuses } = {}) {
+      let query = db
+        .from('content_calendar')
+        .select(columns)
+        .in('id', ids);
+
+      if (statuses) {
+        query = query.in('status', statuses);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw error;
+      }
+      return data;
+    },
+
+    /**
+     * Every entry, or every entry in one of `statuses`, newest first
+     */
+    async list(columns = '*', { statuses } = {}) {
+      return this.queryAll(columns, query => {
+        query = query.order('created_at', { ascending: false });
+        return statuses ? query.in('status', statuses) : query;
+      });
+    },
+
+    /**
+     * Entry with the same keyword, ignoring case and spacing (the unique keyword_key column)
+     */
+    async findByKeyword(keyword, columns = 'id') {
+      const { data, error } = await db
+        .from('content_calendar')
+        .select(columns)
+        .eq('keyword_key', keywordKey(keyword))
+        .limit(1);
+
+      if (error) {
+        throw error;
+      }
+      return data[0] || null;
+    },
+
+    /**
+     * Every entry's id, keyword and status, for duplicate and cannibalization checks
+     * With `maxAge` (ms), a list read that recently is reused; writes through
+     * this repository drop it, writes from other server instances do not.
+     */
+    async listKeywords({ maxAge = 0 } = {}) {
+      if (keywordCache && Date.now() - keywordCache.at < maxAge) {
+        return keywordCache.rows;
+      }
+
+      const rows = await this.queryAll('id, keyword, status');
+      keywordCache = { at: Date.now(), rows };
+      return rows;
+    },
+
+    /**
+     * Dates of the entries in `ids` that have one: [{ id, planned_date }]
+     */
+    async listPlannedDates(ids) {
+      const { data, error } = await db
+        .from('content_calendar')
+        .select('id, planned_date')
+        .in('id', ids)
+        .not('planned_date', 'is', null);
+
+      if (error) {
+        throw error;
+      }
+      return data;
+    },
+
+    /**
+     * Dates taken by entries in `statuses` between two dates (inclusive): [{ planned_date }]
+     */
+    async listPlannedBetween(statuses, startDate, endDate) {
+      const { data, error } = await db
+        .from('content_calendar')
+        .select('planned_date')
+        .in('status', statuses)
+        .gte('planned_date', startDate)
+        .lte('planned_date', endDate);
+
+      if (error) {
+        throw error;
+      }
+      return data;
+    },
+
+    /**
+     * Entries declined since a time; declines from before declined_at existed
+     * count from updated_at
+     */
+    async listDeclinedSince(since, columns = '*') {
+      const [recent, undated] = await Promise.all([
+        this.queryAll(columns, query => query.eq('status', 'rejected').gte('declined_at', since)),
+        this.queryAll(columns, query => query.eq('status', 'rejected').is('declined_at', null).gte('updated_at', since))
+      ]);
+
+      return [...recent, ...undated];
+    },
+
+    /**
+     * Entries with a stale score, in id order: scored before formula `version`
+     * (or never), or valued under settings other than `valueBasis`
+     */
+    async listStaleScores(version, valueBasis, columns = '*', limit) {
+      const results = await Promise.all(staleScoreFilters(version, valueBasis).map(filter =>
+        filter(db.from('content_calendar').select(columns))
+          .order('id', { ascending: true })
+          .limit(limit)
+      ));
+
+      const failed = results.find(result => result.error);
+      if (failed) {
+        throw failed.error;
+      }
+      return results
+        .flatMap(result => result.data)
+        .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+        .slice(0, limit);
+    },
+
+    /**
+     * Who approved or declined the `limit` most recently updated reviewed entries
+     * Returns reviewer names, repeats included
+     */
+    async listRecentReviewers(limit) {
+      const reviewed = column => db
+        .from('content_calendar')
+        .select(column)
+        .not(column, 'is', null)
+        .order('updated_at', { ascending: false })
+        .limit(limit);
+
+      const [approvals, declines] = await Promise.all([reviewed('approved_by'), reviewed('declined_by')]);
+
+      if (approvals.error || declines.error) {
+        throw approvals.error || declines.error;
+      }
+      return [
+        ...approvals.data.map(row => row.approved_by),
+        ...declines.data.map(row => row.declined_by)
+      ];
+    },
+
+    /**
+     * Number of entries with a stale score (see listStaleScores)
+     */
+    async countStaleScores(version, valueBasis) {
+      const results = await Promise.all(staleScoreFilters(version, valueBasis).map(filter =>
+        filter(db.from('content_calendar').select('id', { count: 'exact', head: true }))
+      ));
+
+      const failed = results.find(result => result.error);
+      if (failed) {
+        throw failed.error;
+      }
+      return results.reduce((sum, result) => sum + (result.count || 0), 0);
+    },
+
+    /**
+     * Lowest traffic_value among the top `share` of entries that have one
+     * (0.25: the upper quartile), or null when none do
+     */
+    async trafficValueAtShare(share) {
+      const valued = options => db
+        .from('content_calendar')
+        .select(options ? 'id' : 'traffic_value', options)
+        .not('traffic_value', 'is', null);
+
+      const { count, error } = await valued({ count: 'exact', head: true });
+
+      if (error) {
+        throw error;
+      }
+      if (!count) {
+        return null;
+      }
+
+      const rank = Math.min(Math.max(Math.ceil(count * share) - 1, 0), count - 1);
+      const { data, error: rowError } = await valued()
+        .order('traffic_value', { ascending: false })
+        .range(rank, rank);
+
+      if (rowError) {
+        throw rowError;
+      }
+      return data.length > 0 ? Number(data[0].traffic_value) : null;
+    },
+
+    /**
+     * Entries in 'generating' that started before a time, or have no start time
+     */
+    async listGeneratingBefore(before, columns = '*') {
+      const generating = () => db
+        .from('content_calendar')
+        .select(columns)
+        .eq('status', 'generating');
+
+      const [started, unstarted] = await Promise.all([
+        generating().lt('generation_started_at', before),
+        generating().is('generation_started_at', null)
+      ]);
+
+      if (started.error || unstarted.error) {
+        throw started.error || unstarted.error;
+      }
+      return [...started.data, ...unstarted.data];
+    },
+
+    /**
+     * Number of cluster articles attached to a pillar
+     */
+    async countClusters(parentId) {
+      const { count, error } = await db
+        .from('content_calendar')
+        .select('id', { count: 'exact', head: true })
+        .eq('parent_id', parentId);
+
+      if (error) {
+        throw error;
+      }
+      return count;
+    },
+
+    async count(statuses) {
+      const { count, error } = await db
+        .from('content_calendar')
+        .select('id', { count: 'exact', head: true })
+        .in('status', statuses);
+
+      if (error) {
+        throw error;
+      }
+      return count;
+    },
+
+    async insert(values) {
+      const { data, error } = await db
+        .from('content_calendar')
+        .insert(values)
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+      keywordCache = null;
+      return data;
+    },
+
+    async insertMany(rows) {
+      const { data, error } = await db
+        .from('content_calendar')
+        .insert(rows)
+        .select();
+
+      if (error) {
+        throw error;
+      }
+      keywordCache = null;
+      return data;
+    },
+
+    async update(id, changes, { status, match = {} } = {}) {
+      let query = db
+        .from('content_calendar')
+        .update(changes)
+        .eq('id', id);
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+      for (const [column, value] of Object.entries(match)) {
+        query = value === null ? query.is(column, null) : query.eq(column, value);
+      }
+
+      const { data, error } = await query.select().maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+      if ('keyword' in changes || 'status' in changes) {
+        keywordCache = null;
+      }
+      return data;
+    },
+
+    /**
+     * Returns whether the entry was deleted
+     */
+    async remove(id, { status } = {}) {
+      let query = db
+        .from('content_calendar')
+        .delete()
+        .eq('id', id);
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query.select('id');
+
+      if (error) {
+        throw error;
+      }
+      keywordCache = null;
+      return data.length > 0;
+    }
+  };
+}
+
+/**
+ * Filters for the entries a stale score can come from; the sets do not overlap,
+ * so their counts add up
+ */
+function staleScoreFilters(version, valueBasis) {
+  return [
+    query => query.is('score_version', null),
+    query => query.lt('score_version', version),
+    query => query.gte('score_version', version).is('value_basis', null),
+    query => query.gte('score_version', version).neq('value_basis', valueBasis)
+  ];
+}
+
+/**
+ * Read every page of a query; `buildQuery()` returns a fresh, consistently ordered query
+ */
+async function readAll(buildQuery) {
+  const rows = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await buildQuery().range(from, from + PAGE_SIZE - 1);
+
+    if (error) {
+      throw error;
+    }
+    rows.push(...data);
+
+    if (data.length < PAGE_SIZE) {
+      return rows;
+    }
+  }
+}
+
+/**
+ * articles (written by the generation workflow; read-only here)
+ */
+function createArticleRepository(db) {
+  return {
+    async get(id, columns = '*') {
+      const { data, error } = await db
+        .from('articles')
+        .select(columns)
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+      return data;
+    },
+
+    /**
+     * Recorded generation costs, most recently published first
+     */
+    async listGenerationCosts(limit) {
+      const { data, error } = await db
+        .from('articles')
+        .select('generation_cost')
+        .gt('generation_cost', 0)
+        .order('published_at', { ascending: false, nullsFirst: false })
+        .limit(limit);
+
+      if (error) {
+        throw error;
+      }
+      return data.map(article => Number(article.generation_cost));
+    }
+  };
+}
+
+/**
+ * workflow_logs (one row per generation step; written by the workflow)
+ */
+function createWorkflowLogRepository(db) {
+  return {
+    /**
+     * Total cost per workflow run, over the most recent `limit` logged steps
+     */
+    async listRunCosts(limit) {
+      const { data, error } = await db
+        .from('workflow_logs')
+        .select('workflow_id, cost')
+        .gt('cost', 0)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        throw error;
+      }
+
+      const runs = {};
+      for (const log of data) {
+        runs[log.workflow_id] = (runs[log.workflow_id] || 0) + Number(log.cost);
+      }
+      return Object.values(runs);
+    },
+
+    /**
+     * The latest step logged for a keyword since a time, or null
+     */
+    async latestStep(keyword, since) {
+      const { data, error } = await db
+        .from('workflow_logs')
+        .select('step, status, created_at')
+        .eq('keyword', keyword)
+        .gte('created_at', since)
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+      if (error) {
+        throw error;
+      }
+      return data[0] || null;
+    }
+  };
+}
@@ -0,0 +1,98 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRepository } from './storage.js';
+import { createMemoryClient } from './memoryStore.js';
+import { applyTransition } from './statusMachine.js';
+
+const at = iso => new Date(iso).toISOString();
+
+function seededRepository() {
+  const db = createMemoryClient({
+    content_calendar: [
+      { id: 'a', keyword: 'Revenue  Operations', status: 'suggested', score_version: null },
+      { id: 'b', keyword: 'revops metrics', status: 'suggested', score_version: 1 },
+      { id: 'c', keyword: 'lead scoring', status: 'suggested', score_version: 2, value_basis: 'current' },
+      { id: 'd', keyword: 'pipeline reviews', status: 'rejected', declined_at: at('2026-10-10'), updated_at: at('2026-10-10') },
+      { id: 'e', keyword: 'sales ops', status: 'rejected', declined_at: null, updated_at: at('2026-10-12') },
+      { id: 'f', keyword: 'quota setting', status: 'rejected', declined_at: at('2026-09-01'), updated_at: at('2026-10-15') },
+      { id: 'g', keyword: 'territory planning', status: 'suggested', score_version: 2, value_basis: 'previous' }
+    ]
+  });
+  return createRepository(db, 'memory');
+}
+
+test('findByKeyword ignores case and spacing', async () => {
+  const repository = seededRepository();
+
+  const entry = await repository.entries.findByKeyword(' revenue operations ');
+  assert.equal(entry?.id, 'a');
+});
+
+test('inserting a keyword that differs only in case fails as a unique violation', async () => {
+  const repository = seededRepository();
+
+  await assert.rejects(
+    repository.entries.insert({ keyword: 'REVOPS   metrics' }),
+    { code: '23505' }
+  );
+});
+
+test('list reads past the 1000-row page size', async () => {
+  const rows = Array.from({ length: 2500 }, (_, i) => ({ id: `row-${i}`, keyword: `keyword ${i}` }));
+  const repository = createRepository(createMemoryClient({ content_calendar: rows }), 'memory');
+
+  const entries = await repository.entries.list('id');
+  assert.equal(entries.length, 2500);
+  assert.equal(new Set(entries.map(entry => entry.id)).size, 2500);
+});
+
+test('listKeywords reuses a recent list until an entry is written', async () => {
+  const repository = seededRepository();
+
+  const first = await repository.entries.listKeywords({ maxAge: 60000 });
+  assert.equal(await repository.entries.listKeywords({ maxAge: 60000 }), first);
+
+  await repository.entries.insert({ keyword: 'sales playbook' });
+  const after = await repository.entries.listKeywords({ maxAge: 60000 });
+  assert.equal(after.length, first.length + 1);
+});
+
+test('listStaleScores returns unscored, older and differently valued entries in id order', async () => {
+  const repository = seededRepository();
+
+  const stale = await repository.entries.listStaleScores(2, 'current', 'id', 10);
+  assert.deepEqual(stale.map(entry => entry.id), ['a', 'b', 'd', 'e', 'f', 'g']);
+  assert.equal(await repository.entries.countStaleScores(2, 'current'), 6);
+});
+
+test('trafficValueAtShare finds where the top share of traffic values starts', async () => {
+  const rows = [120, 40, null, 80, 10].map((value, i) => ({ id: `v${i}`, keyword: `keyword ${i}`, traffic_value: value }));
+  const repository = createRepository(createMemoryClient({ content_calendar: rows }), 'memory');
+
+  assert.equal(await repository.entries.trafficValueAtShare(0.25), 120);
+  assert.equal(await repository.entries.trafficValueAtShare(0.5), 80);
+  assert.equal(await repository.entries.trafficValueAtShare(1), 10);
+  assert.equal(await seededRepository().entries.trafficValueAtShare(0.25), null);
+});
+
+test('listDeclinedSince falls back to updated_at for undated declines', async () => {
+  const repository = seededRepository();
+
+  const declined = await repository.entries.listDeclinedSince(at('2026-10-01'), 'id');
+  assert.deepEqual(declined.map(entry => entry.id).sort(), ['d', 'e']);
+});
+
+test('applyTransition approves through the repository and logs the event', async () => {
+  const repository = seededRepository();
+
+  const { data } = await applyTransition(repository, 'approve', 'a', { reviewer: 'sam', source: 'test' });
+  assert.equal(data.status, 'approved');
+  assert.equal(data.approved_by, 'sam');
+
+  const { data: events } = await repository.db.from('calendar_events').select('*').eq('entry_id', 'a');
+  assert.equal(events.length, 1);
+  assert.equal(events[0].actor, 'sam');
+
+  const again = await applyTransition(repository, 'approve', 'a', { reviewer: 'sam' });
+  assert.equal(again.status, 400);
+});
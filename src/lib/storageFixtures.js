@@ -0,0 +1,461 @@
+/**
+ * Storage Fixtures
+ *
+ * Seed data for the in-memory store (CALENDAR_STORAGE=memory): a RevOps
+ * content calendar with two topic clusters and entries in every status,
+ * the articles behind published entries and the workflow_logs of their
+ * generation runs, plus the rows the migrations seed (scoring formula,
+ * approval views and rules). Dates are relative to `now`, so the calendar,
+ * forecast and watchdog always have something current to show.
+ */
+
+import { DEFAULT_FORMULA, scoreFields } from './scoring.js';
+
+// Cost (USD) of each workflow step, 1-10
+const STEP_COSTS = [0.02, 0.15, 0.05, 0.12, 0.6, 1.1, 0.35, 0.45, 0.2, 0.01];
+
+/**
+ * Build every seeded table: { table: [rows] }
+ */
+export function createFixtures(now = new Date()) {
+  const at = days => new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString();
+  const date = days => at(days).split('T')[0];
+
+  const articles = [
+    article(1, 'revenue operations', 'What Is Revenue Operations? The Complete Guide', at(-40), 92, 4200, 4.1),
+    article(2, 'revops metrics', '21 RevOps Metrics Every Team Should Track', at(-12), 88, 2900, 3.65),
+    article(3, 'lead scoring model', 'How to Build a Lead Scoring Model (Step by Step)', at(-75), 85, 3100, 3.9)
+  ];
+
+  const entries = [
+    // Pillar: revenue operations
+    {
+      id: fixtureId(1),
+      keyword: 'revenue operations',
+      article_type: 'guide',
+      search_volume: 4400,
+      difficulty: 72,
+      competitor_count: 9,
+      seo_insights: insights('dataforseo', 18.5, 'Head term for the whole RevOps cluster; every cluster article links back here.'),
+      status: 'published',
+      planned_date: date(-40),
+      published_at: at(-40),
+      article_id: articles[0].id,
+      ...approved('dana', at(-48)),
+      created_at: at(-55)
+    },
+    {
+      id: fixtureId(2),
+      keyword: 'revops metrics',
+      article_type: 'listicle',
+      search_volume: 1300,
+      difficulty: 45,
+      competitor_count: 6,
+      seo_insights: insights('dataforseo', 12.4, 'High commercial intent from teams setting up RevOps reporting.'),
+      status: 'published',
+      planned_date: date(-12),
+      published_at: at(-12),
+      article_id: articles[1].id,
+      parent_id: fixtureId(1),
+      ...approved('sam', at(-20)),
+      created_at: at(-30)
+    },
+    {
+      id: fixtureId(3),
+      keyword: 'revops tech stack',
+      article_type: 'guide',
+      search_volume: 880,
+      difficulty: 38,
+      competitor_count: 5,
+      seo_insights: insights('dataforseo', 9.8, 'Tool-selection searches convert well for implementation work.'),
+      status: 'scheduled',
+      planned_date: date(3),
+      parent_id: fixtureId(1),
+      ...approved('dana', at(-6)),
+      created_at: at(-14)
+    },
+    {
+      id: fixtureId(4),
+      keyword: 'revops team structure',
+      article_type: 'guide',
+      search_volume: 590,
+      difficulty: 33,
+      competitor_count: 4,
+      seo_insights: insights('dataforseo', 7.2, 'Org-design questions from heads of sales and marketing.'),
+      status: 'scheduled',
+      planned_date: date(8),
+      parent_id: fixtureId(1),
+      ...approved('sam', at(-5)),
+      created_at: at(-14)
+    },
+    {
+      id: fixtureId(5),
+      keyword: 'revops vs sales ops',
+      article_type: 'comparison',
+      search_volume: 720,
+      difficulty: 41,
+      competitor_count: 5,
+      seo_insights: insights('dataforseo', 8.9, 'Comparison intent; readers are deciding how to staff the function.'),
+      status: 'approved',
+      parent_id: fixtureId(1),
+      ...approved('dana', at(-2)),
+      created_at: at(-9)
+    },
+
+    // Pillar: sales forecasting
+    {
+      id: fixtureId(6),
+      keyword: 'sales forecasting',
+      article_type: 'guide',
+      search_volume: 2900,
+      difficulty: 64,
+      competitor_count: 8,
+      seo_insights: insights('dataforseo', 15.3, 'Pillar for forecasting content; strong fit with pipeline consulting.'),
+      status: 'scheduled',
+      planned_date: date(5),
+      ...approved('sam', at(-4)),
+      created_at: at(-10)
+    },
+    {
+      id: fixtureId(7),
+      keyword: 'sales forecasting methods',
+      article_type: 'listicle',
+      search_volume: 1600,
+      difficulty: 52,
+      competitor_count: 7,
+      seo_insights: insights('dataforseo', 11, 'Supports the sales forecasting pillar with a method-by-method overview.'),
+      parent_id: fixtureId(6),
+      created_at: at(-3)
+    },
+    {
+      id: fixtureId(8),
+      keyword: 'sales forecast template',
+      article_type: 'checklist',
+      search_volume: 1000,
+      difficulty: 29,
+      competitor_count: 3,
+      seo_insights: insights('dataforseo', 6.4, 'Template searches are an easy win and a natural lead magnet.'),
+      parent_id: fixtureId(6),
+      created_at: at(-3)
+    },
+
+    // Generation pipeline
+    {
+      id: fixtureId(9),
+      keyword: 'hubspot salesforce integration',
+      article_type: 'tutorial',
+      search_volume: 1900,
+      difficulty: 58,
+      competitor_count: 7,
+      seo_insights: insights('dataforseo', 22.1, 'Integration projects are our highest-value engagements.'),
+      status: 'generating',
+      planned_date: date(0),
+      generation_started_at: at(-2 / 24),
+      generation_attempts: 1,
+      ...approved('dana', at(-7)),
+      created_at: at(-15)
+    },
+    {
+      id: fixtureId(10),
+      keyword: 'quote to cash process',
+      article_type: 'guide',
+      search_volume: 880,
+      difficulty: 44,
+      competitor_count: 5,
+      seo_insights: insights('dataforseo', 13.7, 'Finance-adjacent RevOps topic with little good coverage.'),
+      status: 'failed',
+      planned_date: date(-1),
+      generation_started_at: at(-1),
+      generation_attempts: 2,
+      failure_reason: 'Workflow failed at step 6',
+      failed_at: at(-1 + 3 / 24),
+      ...approved('sam', at(-8)),
+      created_at: at(-16)
+    },
+    {
+      id: fixtureId(11),
+      keyword: 'lead scoring model',
+      article_type: 'tutorial',
+      search_volume: 1300,
+      difficulty: 47,
+      competitor_count: 6,
+      seo_insights: insights('dataforseo', 14.2, 'Practical how-to that maps directly onto our HubSpot work.'),
+      status: 'published',
+      planned_date: date(-75),
+      published_at: at(-75),
+      article_id: articles[2].id,
+      ...approved('dana', at(-82)),
+      created_at: at(-90)
+    },
+    {
+      id: fixtureId(12),
+      keyword: 'territory planning',
+      article_type: 'guide',
+      search_volume: 590,
+      difficulty: 39,
+      competitor_count: 4,
+      seo_insights: insights('dataforseo', 8.1, 'Annual-planning season topic for sales leaders.'),
+      status: 'scheduled',
+      planned_date: date(12),
+      ...approved('sam', at(-3)),
+      created_at: at(-11)
+    },
+
+    // Awaiting review
+    {
+      id: fixtureId(13),
+      keyword: 'pipeline velocity',
+      article_type: 'guide',
+      search_volume: 480,
+      difficulty: 27,
+      competitor_count: 3,
+      seo_insights: insights('dataforseo', 10.5, 'Low difficulty with clear commercial intent.'),
+      created_at: at(-1)
+    },
+    {
+      id: fixtureId(14),
+      keyword: 'crm data hygiene',
+      article_type: 'checklist',
+      search_volume: 390,
+      difficulty: 22,
+      competitor_count: 2,
+      seo_insights: insights('dataforseo', 5.1, 'Checklist format suits the recurring clean-up work teams search for.'),
+      created_at: at(-1)
+    },
+    {
+      id: fixtureId(15),
+      keyword: 'customer churn analysis',
+      article_type: 'guide',
+      search_volume: 2400,
+      difficulty: 68,
+      competitor_count: 8,
+      seo_insights: insights('dataforseo', 9.9, 'Broad topic; worth it only with original benchmark data.'),
+      status: 'pending_second_approval',
+      approvals: [{ reviewer: 'dana', at: at(-1 / 24) }],
+      created_at: at(-2)
+    },
+    {
+      id: fixtureId(16),
+      keyword: 'marketing attribution models',
+      article_type: 'comparison',
+      search_volume: 3600,
+      difficulty: 71,
+      competitor_count: 9,
+      seo_insights: insights('estimated', 16.8, 'Estimated from similar keywords; crowded SERP dominated by vendors.'),
+      created_at: at(-4)
+    },
+    {
+      id: fixtureId(17),
+      keyword: 'deal desk',
+      article_type: 'guide',
+      search_volume: 320,
+      difficulty: 35,
+      competitor_count: 4,
+      seo_insights: insights('estimated', null, 'Niche but growing term among enterprise sales teams.'),
+      created_at: at(-5)
+    },
+    {
+      id: fixtureId(18),
+      keyword: 'revops for startups',
+      article_type: 'guide',
+      search_volume: 210,
+      difficulty: 18,
+      competitor_count: 2,
+      seo_insights: insights('estimated', null, 'Early-stage founders hiring their first ops person.'),
+      created_at: at(-6)
+    },
+
+    // Declined
+    {
+      id: fixtureId(19),
+      keyword: 'free crm software',
+      article_type: 'listicle',
+      search_volume: 18000,
+      difficulty: 89,
+      competitor_count: 10,
+      seo_insights: insights('dataforseo', 4.2, 'Huge volume, but owned by review sites and CRM vendors.'),
+      status: 'rejected',
+      decline_reason: 'Review sites own this SERP',
+      decline_categories: ['too_competitive'],
+      declined_by: 'sam',
+      declined_at: at(-8),
+      created_at: at(-12)
+    },
+    {
+      id: fixtureId(20),
+      keyword: 'sales motivation quotes',
+      article_type: 'listicle',
+      search_volume: 6600,
+      difficulty: 31,
+      competitor_count: 5,
+      seo_insights: insights('estimated', 0.6, 'Popular but consumer-oriented.'),
+      status: 'rejected',
+      decline_reason: 'Not our buyers',
+      decline_categories: ['off_niche', 'low_intent'],
+      declined_by: 'dana',
+      declined_at: at(-6),
+      created_at: at(-12)
+    }
+  ];
+
+  return {
+    content_calendar: entries.map(entry => calendarEntry(entry, now)),
+    articles,
+    workflow_logs: [
+      ...workflowRun('revenue operations', at(-41), 10),
+      ...workflowRun('lead scoring model', at(-76), 10),
+      ...workflowRun('revops metrics', at(-13), 10),
+      ...workflowRun('quote to cash process', at(-1), 6, 'failed'),
+      ...workflowRun('hubspot salesforce integration', at(-2 / 24), 4, 'started')
+    ],
+    scoring_formulas: [
+      {
+        version: DEFAULT_FORMULA.version,
+        name: DEFAULT_FORMULA.name,
+        weights: DEFAULT_FORMULA.weights,
+        article_types: DEFAULT_FORMULA.article_types,
+        notes: 'Initial weights',
+        created_by: null,
+        created_at: at(-90)
+      }
+    ],
+    approval_views: [
+      {
+        id: fixtureId(101),
+        name: 'Real-data easy wins',
+        filters: { data_source: 'dataforseo', difficulty: 'easy' },
+        created_by: null,
+        created_at: at(-30),
+        updated_at: at(-30)
+      },
+      {
+        id: fixtureId(102),
+        name: 'This week\'s AI estimates',
+        filters: { data_source: 'estimated', created: 'this-week' },
+        created_by: null,
+        created_at: at(-30),
+        updated_at: at(-30)
+      }
+    ],
+    approval_rules: [
+      {
+        id: fixtureId(201),
+        name: 'Real-data easy guides',
+        decision: 'approve',
+        conditions: [
+          { field: 'seo_insights.data_source', op: 'eq', value: 'dataforseo' },
+          { field: 'difficulty', op: 'lt', value: 30 },
+          { field: 'search_volume', op: 'gt', value: 100 },
+          { field: 'article_type', op: 'in', value: ['guide', 'tutorial'] }
+        ],
+        priority: 100,
+        enabled: false,
+        auto_schedule: false,
+        decline_categories: [],
+        decline_reason: null,
+        created_by: null,
+        created_at: at(-30),
+        updated_at: at(-30)
+      }
+    ],
+    calendar_events: [],
+    calendar_comments: [
+      {
+        id: fixtureId(301),
+        entry_id: fixtureId(15),
+        author: 'dana',
+        body: 'Approved on my side if we can get the churn benchmark data. @sam can you sign off?',
+        mentions: ['sam'],
+        edits: [],
+        created_at: at(-1 / 24),
+        updated_at: at(-1 / 24),
+        deleted_at: null
+      }
+    ],
+    calendar_undo_log: []
+  };
+}
+
+/**
+ * Deterministic uuid for fixture rows, so links survive a restart
+ */
+export function fixtureId(n) {
+  return `00000000-0000-4000-8000-${String(n).padStart(12, '0')}`;
+}
+
+function calendarEntry(entry, now) {
+  const row = {
+    status: 'suggested',
+    planned_date: null,
+    notes: null,
+    brief_content: null,
+    parent_id: null,
+    article_id: null,
+    published_at: null,
+    approved_at: null,
+    approved_by: null,
+    approvals: [],
+    declined_by: null,
+    declined_at: null,
+    decline_reason: null,
+    decline_categories: null,
+    generation_started_at: null,
+    generation_attempts: 0,
+    failure_reason: null,
+    failed_at: null,
+    auto_rule_id: null,
+    auto_rule_name: null,
+    quality_score: null,
+    ...entry
+  };
+
+  return {
+    ...row,
+    ...scoreFields(row, DEFAULT_FORMULA, now),
+    updated_at: row.declined_at || row.published_at || row.approved_at || row.created_at
+  };
+}
+
+function approved(reviewer, at) {
+  return { approved_by: reviewer, approved_at: at, approvals: [{ reviewer, at }] };
+}
+
+function insights(dataSource, cpc, strategicReasoning) {
+  return { data_source: dataSource, cpc, strategic_reasoning: strategicReasoning };
+}
+
+function article(n, keyword, title, publishedAt, qualityScore, wordCount, generationCost) {
+  return {
+    id: fixtureId(400 + n),
+    slug: keyword.replace(/\s+/g, '-'),
+    title,
+    published_at: publishedAt,
+    quality_score: qualityScore,
+    actual_word_count: wordCount,
+    generation_cost: generationCost,
+    created_at: publishedAt
+  };
+}
+
+/**
+ * One generation run's step logs, a few minutes apart from `startedAt`
+ * The last step ends with `lastStatus`; earlier steps completed.
+ */
+function workflowRun(keyword, startedAt, steps, lastStatus = 'completed') {
+  const workflowId = `wf-${keyword.replace(/\s+/g, '-')}`;
+  const start = new Date(startedAt).getTime();
+
+  return STEP_COSTS.slice(0, steps).map((cost, i) => {
+    const status = i === steps - 1 ? lastStatus : 'completed';
+    return {
+      id: `${workflowId}-${i + 1}`,
+      workflow_id: workflowId,
+      workflow_type: 'article',
+      keyword,
+      step: i + 1,
+      status,
+      cost: status === 'completed' ? cost : 0,
+      created_at: new Date(start + (i + 1) * 4 * 60 * 1000).toISOString()
+    };
+  });
+}
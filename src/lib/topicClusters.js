@@ -0,0 +1,85 @@
+/**
+ * Topic Clusters
+ *
+ * Pillar/cluster relationships between calendar entries. A cluster article
+ * points at its pillar through parent_id; pillars themselves have no parent,
+ * so the hierarchy is always one level deep.
+ */
+
+// Statuses counted as "scheduled" in cluster coverage
+const SCHEDULED_STATUSES = ['approved', 'scheduled', 'generating', 'in_progress'];
+
+/**
+ * Check that parentId can become the pillar of entry id
+ * Returns an error message, or null if the relationship is valid
+ */
+export async function validateParent(repository, id, parentId) {
+  if (!parentId) return null;
+
+  if (parentId === id) {
+    return 'An entry cannot be its own pillar';
+  }
+
+  const parent = await repository.entries.get(parentId, 'id, parent_id');
+
+  if (!parent) {
+    return `Pillar entry ${parentId} not found`;
+  }
+
+  if (parent.parent_id) {
+    return 'The selected pillar is itself a cluster article';
+  }
+
+  if (id) {
+    const count = await repository.entries.countClusters(id);
+
+    if (count > 0) {
+      return `This entry is a pillar with ${count} cluster ${count === 1 ? 'article' : 'articles'} and cannot become a cluster`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Group entries into pillars with their clusters and coverage counts
+ * Returns: { pillars: [...], unclustered: number }
+ */
+export function buildClusterTree(entries) {
+  const childrenByParent = {};
+  for (const entry of entries) {
+    if (entry.parent_id) {
+      (childrenByParent[entry.parent_id] = childrenByParent[entry.parent_id] || []).push(entry);
+    }
+  }
+
+  const pillars = entries
+    .filter(entry => !entry.parent_id && childrenByParent[entry.id])
+    .map(pillar => {
+      const clusters = childrenByParent[pillar.id];
+      return {
+        ...pillar,
+        clusters,
+        coverage: countCoverage([pillar, ...clusters])
+      };
+    })
+    .sort((a, b) => b.clusters.length - a.clusters.length);
+
+  const unclustered = entries.filter(entry =>
+    !entry.parent_id && !childrenByParent[entry.id]
+  ).length;
+
+  return { pillars, unclustered };
+}
+
+function countCoverage(entries) {
+  const coverage = { total: entries.length, published: 0, scheduled: 0, suggested: 0 };
+
+  for (const entry of entries) {
+    if (entry.status === 'published') coverage.published++;
+    else if (SCHEDULED_STATUSES.includes(entry.status)) coverage.scheduled++;
+    else if (entry.status === 'suggested') coverage.suggested++;
+  }
+
+  return coverage;
+}
@@ -0,0 +1,267 @@
+/**
+ * Traffic Forecast
+ *
+ * Projects monthly organic traffic for the calendar. Each entry's steady-state
+ * traffic is its search volume times the click-through rate of the position
+ * its difficulty suggests (a position-CTR curve). A new article ramps up
+ * linearly to that traffic over the ramp-up period after it publishes:
+ * published_at for published entries, planned_date for everything else.
+ *
+ * The curve is for the forecast only. The two-person approval policy, the
+ * approval queue and the stored traffic_value keep the coarser difficulty
+ * buckets of calculateEstimatedTraffic.
+ *
+ * Scenarios answer "what if": schedule the approved backlog (and optionally a
+ * selection of suggestions, as if approved now) at a different per_day, and
+ * compare the projection with the calendar as it stands.
+ */
+
+import {
+  MAX_PER_DAY,
+  OCCUPYING_STATUSES,
+  addDays,
+  getSchedulingRules,
+  loadOccupancy,
+  loadPillarDates,
+  planSchedule
+} from './scheduler.js';
+import { rules, validate } from './requestSchema.js';
+
+// Click-through rate by organic position, 1-10; positions 11-20 share PAGE_TWO_CTR
+export const POSITION_CTR = [0.28, 0.15, 0.11, 0.08, 0.06, 0.05, 0.04, 0.03, 0.025, 0.02];
+const PAGE_TWO_CTR = 0.01;
+const LAST_POSITION = 20;
+
+// Assumed difficulty when a keyword has none
+const DEFAULT_DIFFICULTY = 50;
+
+export const DEFAULT_FORECAST_MONTHS = 12;
+export const MAX_FORECAST_MONTHS = 24;
+export const MAX_SCENARIO_ENTRIES = 200;
+
+// Entries that count towards the forecast once they have a date
+const FORECAST_STATUSES = [...OCCUPYING_STATUSES, 'approved'];
+
+// Suggestions a scenario may treat as approved
+const APPROVABLE_STATUSES = ['suggested', 'pending_second_approval'];
+
+const FORECAST_COLUMNS = 'id, keyword, status, search_volume, difficulty, planned_date, published_at, parent_id, priority_score';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Days for a new article to reach its full traffic
+ *
+ * Env:
+ * - TRAFFIC_RAMP_DAYS: ramp-up period (default 180)
+ */
+export function getRampDays() {
+  const days = parseInt(import.meta.env.TRAFFIC_RAMP_DAYS);
+  return days > 0 ? days : 180;
+}
+
+/**
+ * Expected organic position for a keyword difficulty (0-100): 1 for the
+ * easiest keywords, 16 for the hardest
+ */
+export function expectedPosition(difficulty) {
+  const value = difficulty ?? DEFAULT_DIFFICULTY;
+  return Math.min(Math.max(1 + value * 0.15, 1), LAST_POSITION);
+}
+
+/**
+ * Click-through rate at a (possibly fractional) position, interpolated along the curve
+ */
+export function ctrAtPosition(position) {
+  const rateAt = rank => (rank <= POSITION_CTR.length ? POSITION_CTR[rank - 1] : rank <= LAST_POSITION ? PAGE_TWO_CTR : 0);
+  const lower = Math.floor(position);
+  const fraction = position - lower;
+  return rateAt(lower) + (rateAt(lower + 1) - rateAt(lower)) * fraction;
+}
+
+/**
+ * Steady-state monthly traffic once an article has ramped up, along the position-CTR curve
+ */
+export function forecastSteadyTraffic(searchVolume, difficulty) {
+  if (!searchVolume) return 0;
+  return Math.round(searchVolume * ctrAtPosition(expectedPosition(difficulty)));
+}
+
+/**
+ * Calculate estimated monthly traffic
+ * Four CTR buckets by difficulty; used by the approval policy and traffic_value.
+ */
+export function calculateEstimatedTraffic(searchVolume, difficulty) {
+  if (!searchVolume) return 0;
+
+  // Estimate CTR based on difficulty (position estimate)
+  let estimatedCTR;
+  if (difficulty < 30) {
+    estimatedCTR = 0.10; // Top 3 position likely
+  } else if (difficulty < 50) {
+    estimatedCTR = 0.05; // Top 5 position likely
+  } else if (difficulty < 70) {
+    estimatedCTR = 0.02; // Top 10 position likely
+  } else {
+    estimatedCTR = 0.005; // Page 2+
+  }
+
+  return Math.round(searchVolume * estimatedCTR);
+}
+
+/**
+ * The date an entry starts earning traffic, or null if it has none yet
+ */
+export function forecastStartDate(entry) {
+  const date = entry.status === 'published' && entry.published_at ? entry.published_at : entry.planned_date;
+  return date ? date.split('T')[0] : null;
+}
+
+/**
+ * Project monthly and cumulative traffic for entries, month by month from startMonth
+ * Each day an article earns its steady-state traffic / days in month, scaled
+ * by how far through the ramp-up it is.
+ * Returns: { entries, unscheduled, total, monthly: [{ month: 'YYYY-MM', traffic, cumulative }] }
+ */
+export function forecastTraffic(entries, { startMonth, months = DEFAULT_FORECAST_MONTHS, rampDays = getRampDays() }) {
+  const dated = [];
+  let unscheduled = 0;
+
+  for (const entry of entries) {
+    const start = forecastStartDate(entry);
+    if (!start) {
+      unscheduled++;
+      continue;
+    }
+    dated.push({
+      start: Date.parse(`${start}T00:00:00Z`),
+      traffic: forecastSteadyTraffic(entry.search_volume, entry.difficulty)
+    });
+  }
+
+  const monthly = [];
+  let cumulative = 0;
+  let monthStart = Date.parse(`${startMonth}-01T00:00:00Z`);
+
+  for (let i = 0; i < months; i++) {
+    const next = new Date(monthStart);
+    next.setUTCMonth(next.getUTCMonth() + 1);
+    const daysInMonth = Math.round((next.getTime() - monthStart) / DAY_MS);
+
+    let traffic = 0;
+    for (const entry of dated) {
+      if (entry.start >= next.getTime() || entry.traffic === 0) continue;
+      if (entry.start + rampDays * DAY_MS <= monthStart) {
+        traffic += entry.traffic;
+        continue;
+      }
+      for (let day = monthStart; day < next.getTime(); day += DAY_MS) {
+        const age = (day - entry.start) / DAY_MS;
+        if (age < 0) continue;
+        traffic += (entry.traffic / daysInMonth) * Math.min(age / rampDays, 1);
+      }
+    }
+
+    traffic = Math.round(traffic);
+    cumulative += traffic;
+    monthly.push({ month: new Date(monthStart).toISOString().slice(0, 7), traffic, cumulative });
+    monthStart = next.getTime();
+  }
+
+  return { entries: dated.length, unscheduled, total: cumulative, monthly };
+}
+
+/**
+ * Query params accepted by GET /api/calendar/forecast
+ * - months: months to project, from the current one (default 12, max MAX_FORECAST_MONTHS)
+ * - per_day: scenario publishing rate for the approved backlog (and approve_ids)
+ * - approve_ids: comma-separated suggestion ids to treat as approved in the scenario
+ * A scenario is only projected when per_day or approve_ids is given.
+ */
+export const FORECAST_QUERY = {
+  months: rules.integer({ min: 1, max: MAX_FORECAST_MONTHS, default: DEFAULT_FORECAST_MONTHS }),
+  per_day: rules.integer({ min: 1, max: MAX_PER_DAY }),
+  approve_ids: rules.list(rules.uuid(), { max: MAX_SCENARIO_ENTRIES, default: [] })
+};
+
+/**
+ * Read forecast options from query params (see FORECAST_QUERY)
+ * Returns: { options } or { errors: { field: message } }
+ */
+export function parseForecastParams(params) {
+  const { value: query, errors } = validate(FORECAST_QUERY, Object.fromEntries(params), { strings: true });
+  if (errors) {
+    return { errors };
+  }
+
+  const perDay = query.per_day ?? null;
+
+  return {
+    options: {
+      months: query.months,
+      perDay,
+      approveIds: query.approve_ids,
+      scenario: perDay !== null || query.approve_ids.length > 0
+    }
+  };
+}
+
+/**
+ * Forecast the calendar as it stands, and optionally a scenario
+ * The scenario schedules approved entries without a date, plus the
+ * approve_ids suggestions, into the first free slots from tomorrow at per_day.
+ * Returns: { months, start_month, ramp_days, baseline, scenario }
+ */
+export async function loadForecast(repository, { months = DEFAULT_FORECAST_MONTHS, perDay = null, approveIds = [], scenario = false, now = new Date() } = {}) {
+  const startMonth = now.toISOString().slice(0, 7);
+  const rampDays = getRampDays();
+
+  const entries = await repository.entries.list(FORECAST_COLUMNS, { statuses: FORECAST_STATUSES });
+
+  const baseline = forecastTraffic(entries, { startMonth, months, rampDays });
+
+  if (!scenario) {
+    return { months, start_month: startMonth, ramp_days: rampDays, baseline, scenario: null };
+  }
+
+  let selected = [];
+  if (approveIds.length > 0) {
+    selected = await repository.entries.getMany(approveIds, FORECAST_COLUMNS, { statuses: APPROVABLE_STATUSES });
+  }
+
+  const queued = [
+    ...entries.filter(entry => entry.status === 'approved' && !entry.planned_date),
+    ...selected.map(entry => ({ ...entry, planned_date: null }))
+  ];
+
+  const rules = getSchedulingRules({ per_day: perDay ?? undefined });
+  const startDate = addDays(now.toISOString().split('T')[0], 1);
+  const schedule = queued.length > 0
+    ? planSchedule(queued, {
+      startDate,
+      rules,
+      occupancy: await loadOccupancy(repository, startDate),
+      pillarDates: await loadPillarDates(repository, queued)
+    })
+    : [];
+
+  const plannedDates = Object.fromEntries(schedule.map(item => [item.id, item.planned_date]));
+  const projected = [
+    ...entries.filter(entry => !(entry.status === 'approved' && !entry.planned_date)),
+    ...queued.map(entry => ({ ...entry, status: 'scheduled', planned_date: plannedDates[entry.id] }))
+  ];
+
+  return {
+    months,
+    start_month: startMonth,
+    ramp_days: rampDays,
+    baseline,
+    scenario: {
+      ...forecastTraffic(projected, { startMonth, months, rampDays }),
+      per_day: rules.perDay,
+      approved: selected.length,
+      ignored: approveIds.filter(id => !selected.some(entry => entry.id === id)),
+      schedule: schedule.map(({ id, keyword, planned_date }) => ({ id, keyword, planned_date }))
+    }
+  };
+}
@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ctrAtPosition, expectedPosition, forecastSteadyTraffic, forecastTraffic, parseForecastParams } from './trafficForecast.js';
+
+test('steady traffic follows the position-CTR curve for the keyword difficulty', () => {
+  assert.equal(expectedPosition(0), 1);
+  assert.equal(expectedPosition(100), 16);
+  assert.equal(ctrAtPosition(2), 0.15);
+  assert.equal(ctrAtPosition(1.5).toFixed(3), '0.215');
+  assert.equal(forecastSteadyTraffic(1000, 0), 280);
+  assert.equal(forecastSteadyTraffic(null, 0), 0);
+});
+
+test('forecastTraffic ramps new articles up and skips undated entries', () => {
+  const forecast = forecastTraffic([
+    { status: 'published', published_at: '2026-09-01T10:00:00Z', planned_date: '2026-08-01', search_volume: 1000, difficulty: 0 },
+    { status: 'scheduled', planned_date: '2026-11-01', search_volume: 1000, difficulty: 0 },
+    { status: 'approved', planned_date: null, search_volume: 1000, difficulty: 0 }
+  ], { startMonth: '2026-10', months: 3, rampDays: 30 });
+
+  assert.equal(forecast.entries, 2);
+  assert.equal(forecast.unscheduled, 1);
+  assert.deepEqual(forecast.monthly, [
+    { month: '2026-10', traffic: 280, cumulative: 280 },
+    { month: '2026-11', traffic: 415, cumulative: 695 },
+    { month: '2026-12', traffic: 560, cumulative: 1255 }
+  ]);
+  assert.equal(forecast.total, 1255);
+});
+
+test('parseForecastParams only projects a scenario for per_day or approve_ids', () => {
+  assert.deepEqual(parseForecastParams(new URLSearchParams('')).options, {
+    months: 12,
+    perDay: null,
+    approveIds: [],
+    scenario: false
+  });
+  assert.equal(parseForecastParams(new URLSearchParams('per_day=3')).options.scenario, true);
+  assert.equal(parseForecastParams(new URLSearchParams('approve_ids=00000000-0000-4000-8000-000000000001')).options.scenario, true);
+  assert.ok(parseForecastParams(new URLSearchParams('months=60')).errors.months);
+});
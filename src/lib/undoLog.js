@@ -0,0 +1,154 @@
+/**
+ * Undo Log
+ *
+ * Records the prior state of every row an approve, decline or schedule action
+ * touches, and restores those rows while the undo window is open.
+ */
+
+import { buildEvent, recordEvents } from './eventLog.js';
+
+// Columns an undoable action may change, restored verbatim on undo
+export const UNDO_FIELDS = [
+  'status',
+  'planned_date',
+  'approved_at',
+  'approved_by',
+  'approvals',
+  'decline_reason',
+  'decline_categories',
+  'declined_at',
+  'declined_by',
+  'auto_rule_id',
+  'auto_rule_name'
+];
+
+/**
+ * Resolve the undo window from environment
+ *
+ * Env:
+ * - UNDO_WINDOW_MINUTES: how long an action can be undone (default 10)
+ */
+export function getUndoWindowMinutes() {
+  return parseInt(import.meta.env.UNDO_WINDOW_MINUTES) || 10;
+}
+
+/**
+ * Read the undoable columns of entries before an action changes them
+ * Returns: { [id]: { status, planned_date, ... } }
+ */
+export async function snapshotEntries(repository, ids) {
+  const data = await repository.entries.getMany(ids, `id, ${UNDO_FIELDS.join(', ')}`);
+  return Object.fromEntries(data.map(({ id, ...fields }) => [id, fields]));
+}
+
+/**
+ * Record an action against the rows it changed
+ * `after` is the list of updated rows; only those are restored on undo. The
+ * status, date and update time each row was left with are kept to tell later
+ * changes apart, as reschedules and edits keep the status.
+ * Returns: { action_id, expires_at } or null if nothing changed
+ */
+export async function recordAction(supabase, action, snapshot, after, now = new Date()) {
+  const entries = after
+    .filter(row => snapshot[row.id])
+    .map(row => ({
+      id: row.id,
+      before: snapshot[row.id],
+      after_status: row.status,
+      after_planned_date: row.planned_date ?? null,
+      after_updated_at: row.updated_at
+    }));
+
+  if (entries.length === 0) return null;
+
+  const expiresAt = new Date(now.getTime() + getUndoWindowMinutes() * 60 * 1000);
+
+  const { data, error } = await supabase
+    .from('calendar_undo_log')
+    .insert({
+      action,
+      entries,
+      created_at: now.toISOString(),
+      expires_at: expiresAt.toISOString()
+    })
+    .select('id, expires_at')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return { action_id: data.id, expires_at: data.expires_at };
+}
+
+/**
+ * Restore the rows recorded for an action
+ * Rows that changed since the action (status, planned_date or updated_at no
+ * longer what it left them with) are skipped rather than overwritten. Each restored row is logged as an
+ * 'undo' event under `actor` and `source`.
+ * Returns: { error, status } on failure, otherwise { action, restored, skipped }
+ */
+export async function undoAction(repository, actionId, { now = new Date(), actor = null, source = null } = {}) {
+  const { db } = repository;
+  const { data: record, error } = await db
+    .from('calendar_undo_log')
+    .select('*')
+    .eq('id', actionId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!record) {
+    return { error: 'Undo record not found', status: 404 };
+  }
+  if (record.undone_at) {
+    return { error: 'This action has already been undone', status: 409 };
+  }
+  if (new Date(record.expires_at) < now) {
+    return { error: 'The undo window for this action has expired', status: 410 };
+  }
+
+  // Claim the record first so concurrent undos cannot both restore
+  const { data: claimed, error: claimError } = await db
+    .from('calendar_undo_log')
+    .update({ undone_at: now.toISOString() })
+    .eq('id', actionId)
+    .is('undone_at', null)
+    .select('id');
+
+  if (claimError) {
+    throw claimError;
+  }
+  if (claimed.length === 0) {
+    return { error: 'This action has already been undone', status: 409 };
+  }
+
+  const current = await snapshotEntries(repository, record.entries.map(entry => entry.id));
+  const restored = [];
+  const skipped = [];
+
+  for (const entry of record.entries) {
+    const row = await repository.entries.update(entry.id, entry.before, {
+      status: entry.after_status,
+      match: afterState(entry)
+    });
+
+    if (row) {
+      restored.push(row);
+    } else {
+      skipped.push({ id: entry.id, error: 'Entry changed since this action and was left as is' });
+    }
+  }
+
+  await recordEvents(db, restored.map(row => buildEvent('undo', current[row.id], row, { actor, source })));
+
+  return { action: record.action, restored, skipped };
+}
+
+// Records made before planned_date and updated_at were kept are guarded by status alone
+function afterState(entry) {
+  if (!('after_updated_at' in entry)) return {};
+  return { planned_date: entry.after_planned_date, updated_at: entry.after_updated_at };
+}
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRepository } from './storage.js';
+import { createMemoryClient } from './memoryStore.js';
+import { undoAction } from './undoLog.js';
+
+const now = new Date('2026-10-19T09:00:00Z');
+const UPDATED_AT = '2026-10-19T08:55:00.000Z';
+
+// An entry rescheduled from 2026-10-20 to 2026-10-22, and the undo record of that action
+function rescheduledRepository(undo = {}) {
+  const db = createMemoryClient({
+    content_calendar: [
+      { id: 'a', keyword: 'lead scoring', status: 'scheduled', planned_date: '2026-10-22', updated_at: UPDATED_AT }
+    ],
+    calendar_undo_log: [{
+      id: 'undo-1',
+      action: 'schedule',
+      entries: [{
+        id: 'a',
+        before: { status: 'scheduled', planned_date: '2026-10-20' },
+        after_status: 'scheduled',
+        after_planned_date: '2026-10-22',
+        after_updated_at: UPDATED_AT
+      }],
+      created_at: '2026-10-19T08:55:00.000Z',
+      expires_at: '2026-10-19T09:05:00.000Z',
+      undone_at: null,
+      ...undo
+    }]
+  });
+  return createRepository(db, 'memory');
+}
+
+test('undoAction restores the recorded rows and can only run once', async () => {
+  const repository = rescheduledRepository();
+
+  const result = await undoAction(repository, 'undo-1', { now, actor: 'sam' });
+  assert.deepEqual(result.skipped, []);
+  assert.equal(result.restored[0].planned_date, '2026-10-20');
+
+  const again = await undoAction(repository, 'undo-1', { now });
+  assert.equal(again.status, 409);
+});
+
+test('undoAction leaves rows edited after the action, even with the same status and date', async () => {
+  const repository = rescheduledRepository();
+  await repository.entries.update('a', { notes: 'Moved for the launch' });
+
+  const result = await undoAction(repository, 'undo-1', { now });
+  assert.deepEqual(result.restored, []);
+  assert.deepEqual(result.skipped.map(entry => entry.id), ['a']);
+
+  const entry = await repository.entries.get('a');
+  assert.equal(entry.planned_date, '2026-10-22');
+});
+
+test('undoAction refuses missing and expired records', async () => {
+  assert.equal((await undoAction(rescheduledRepository(), 'undo-2', { now })).status, 404);
+
+  const expired = rescheduledRepository({ expires_at: '2026-10-19T08:59:00.000Z' });
+  assert.equal((await undoAction(expired, 'undo-1', { now })).status, 410);
+});
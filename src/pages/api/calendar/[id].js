@@ -8,54 +8,112 @@
 
 export const prerender = false;
 
-import { createClient } from '@supabase/supabase-js';
-
-// Initialize Supabase client
-const supabase = createClient(
-  import.meta.env.SUPABASE_URL || '',
-  import.meta.env.SUPABASE_SERVICE_KEY || import.meta.env.SUPABASE_ANON_KEY || ''
-);
+import { getRepository } from '../../../lib/storage.js';
+import {
+  errorResponse,
+  parseIds,
+  parseQuery,
+  readBody,
+  rules,
+  serverError,
+  statusError,
+  validate,
+  validationError
+} from '../../../lib/requestSchema.js';
+import { validateParent } from '../../../lib/topicClusters.js';
+import { parseDeclineCategories } from '../../../lib/declineReasons.js';
+import { recordAction, snapshotEntries } from '../../../lib/undoLog.js';
+import { MAX_REVIEWER_LENGTH, approveEntries, getApprovalRequirement } from '../../../lib/approvals.js';
+import { buildStatusHistory } from '../../../lib/statusHistory.js';
+import { keywordKey } from '../../../lib/keywordImport.js';
+import { ENTRY_FIELDS, normalizeKeyword } from '../../../lib/entryFields.js';
+import { findCannibalization } from '../../../lib/keywordSimilarity.js';
+import { applyTransition, checkTransition, getNextActions, LIFECYCLE_FIELDS, TRANSITIONS } from '../../../lib/statusMachine.js';
+import { recordEvent } from '../../../lib/eventLog.js';
+import { loadScoringFormula, scoreFields, SCORE_FIELDS, SCORE_INPUTS } from '../../../lib/scoring.js';
+
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const repository = getRepository();
+const { db } = repository;
+
+const ACTIONS = ['approve', 'reject', 'reschedule', 'set_pillar'];
+
+// Fields of a regular update: the writable entry fields, plus who made it.
+// id, created_at and updated_at are ignored, so a fetched entry can be sent back.
+const UPDATE_BODY = {
+  ...ENTRY_FIELDS,
+  reviewer: rules.string({ max: MAX_REVIEWER_LENGTH })
+};
+const READONLY_FIELDS = ['id', 'created_at', 'updated_at'];
+
+// Statuses whose planned_date only the reschedule action may change
+const SCHEDULE_STATUSES = TRANSITIONS.schedule.from;
+
+// ?reviewer= on GET and DELETE
+const REVIEWER_QUERY = {
+  reviewer: rules.string({ max: MAX_REVIEWER_LENGTH })
+};
+
+const ACTION_BODY = {
+  action: rules.oneOf(ACTIONS, { required: true }),
+  reviewer: rules.string({ max: MAX_REVIEWER_LENGTH }),
+  approver: rules.string({ max: MAX_REVIEWER_LENGTH }),
+  decline_reason: rules.string({ max: 2000, nullable: true }),
+  planned_date: rules.date(),
+  parent_id: rules.uuid({ nullable: true })
+};
 
 /**
  * GET /api/calendar/[id] - Get single calendar entry with full details
+ * Includes the linked article, pillar/cluster context, status_history and
+ * next_actions (pass ?reviewer= to check second-approval eligibility).
  */
-export async function GET({ params }) {
+export async function GET({ params, url }) {
   try {
-    const { id } = params;
-
-    const { data, error } = await supabase
-      .from('content_calendar')
-      .select(`
-        *,
-        articles (
-          id,
-          slug,
-          title,
-          published_at,
-          quality_score,
-          actual_word_count,
-          generation_cost
-        )
-      `)
-      .eq('id', id)
-      .single();
-
-    if (error) {
-      if (error.code === 'PGRST116') {
-        return new Response(JSON.stringify({
-          success: false,
-          error: 'Calendar entry not found'
-        }), {
-          status: 404,
-          headers: { 'Content-Type': 'application/json' }
-        });
-      }
-      throw error;
+    const { value: path, response: pathResponse } = parseIds(params);
+    if (pathResponse) {
+      return pathResponse;
+    }
+
+    const { id } = path;
+    const { value: query, response } = parseQuery(REVIEWER_QUERY, new URL(url));
+    if (response) {
+      return response;
+    }
+
+    const data = await repository.entries.getWithArticle(id);
+
+    if (!data) {
+      return errorResponse('NOT_FOUND', 'Calendar entry not found');
+    }
+
+    // Topic cluster context: the pillar this entry supports, or its clusters
+    const { data: clusters, error: clustersError } = await repository.entries
+      .query('id, keyword, article_type, status, planned_date')
+      .eq('parent_id', id)
+      .order('planned_date', { ascending: true });
+
+    if (clustersError) {
+      throw clustersError;
+    }
+
+    let pillar = null;
+    if (data.parent_id) {
+      pillar = await repository.entries.get(data.parent_id, 'id, keyword, article_type, status, planned_date');
     }
 
     return new Response(JSON.stringify({
       success: true,
-      data
+      data: {
+        ...data,
+        pillar,
+        clusters,
+        status_history: buildStatusHistory(data),
+        next_actions: getNextActions(data, {
+          reviewer: query.reviewer ?? null,
+          requiredApprovals: entry => getApprovalRequirement(entry).required
+        })
+      }
     }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' }
@@ -63,79 +121,148 @@ export async function GET({ params }) {
 
   } catch (error) {
     console.error('Failed to fetch calendar entry:', error);
-    return new Response(JSON.stringify({
-      success: false,
-      error: error.message
-    }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' }
-    });
+    return serverError(error);
   }
 }
 
 /**
  * PATCH /api/calendar/[id] - Update calendar entry
- * Body: Any fields to update (status, planned_date, notes, etc.)
+ * Body: Fields to update, from ENTRY_FIELDS (lib/entryFields.js): keyword,
+ * article_type, planned_date, search_volume, difficulty, competitor_count,
+ * notes, brief_content, seo_insights, parent_id. Any other field is rejected;
+ * errors list each offending field in `fields`. A keyword that already exists
+ * is rejected with 409, and near-duplicates are returned as `cannibalization`.
  * Special actions:
- * - { action: 'approve' } - Approve the entry
- * - { action: 'reject' } - Reject the entry
+ * - { action: 'approve', reviewer } - Approve the entry (first of two if the two-person policy applies)
+ * - { action: 'reject', reviewer, decline_reason?, decline_categories? } - Reject the entry
  * - { action: 'reschedule', planned_date: 'YYYY-MM-DD' } - Reschedule
+ * - { action: 'set_pillar', parent_id: string | null } - Attach to (or detach from) a pillar
+ * approve, reject and reschedule return an `undo` token for POST /api/calendar/undo
+ * Status only changes through these actions (see lib/statusMachine.js); a regular
+ * update that sets status or another lifecycle field is rejected, and so is
+ * planned_date on approved, scheduled and failed entries (use reschedule).
+ * priority_score and its breakdown come from the scoring formula: they cannot be
+ * set directly, and are recomputed when a field they depend on changes.
+ * `reviewer` names who made a regular update, reschedule or pillar change in the event log.
  */
 export async function PATCH({ params, request }) {
   try {
-    const { id } = params;
-    const body = await request.json();
+    const { value: path, response: pathResponse } = parseIds(params);
+    if (pathResponse) {
+      return pathResponse;
+    }
+
+    const { id } = path;
+    const { value: body, response } = await readBody(request);
+    if (response) {
+      return response;
+    }
 
     // Handle special actions
-    if (body.action) {
-      switch (body.action) {
+    if (body.action !== undefined) {
+      const { value: action, errors } = validate(ACTION_BODY, body);
+      if (errors) {
+        return validationError(errors);
+      }
+
+      const actor = action.reviewer ?? null;
+      switch (action.action) {
         case 'approve':
-          return await approveEntry(id, body.approver);
+          return await approveEntry(id, action.reviewer ?? action.approver);
         case 'reject':
-          return await rejectEntry(id, body.decline_reason);
+          return await rejectEntry(id, action.reviewer, action.decline_reason, body.decline_categories);
         case 'reschedule':
-          return await rescheduleEntry(id, body.planned_date);
-        default:
-          return new Response(JSON.stringify({
-            success: false,
-            error: `Unknown action: ${body.action}`
-          }), {
-            status: 400,
-            headers: { 'Content-Type': 'application/json' }
-          });
+          return await rescheduleEntry(id, action.planned_date, actor);
+        case 'set_pillar':
+          return await setPillar(id, action.parent_id ?? null, actor);
       }
     }
 
-    // Regular update
-    const updateData = { ...body };
-    delete updateData.id; // Remove ID if present
-    delete updateData.created_at; // Remove readonly fields
-    delete updateData.updated_at;
-
-    const { data, error } = await supabase
-      .from('content_calendar')
-      .update(updateData)
-      .eq('id', id)
-      .select()
-      .single();
-
-    if (error) {
-      if (error.code === 'PGRST116') {
-        return new Response(JSON.stringify({
-          success: false,
-          error: 'Calendar entry not found'
-        }), {
-          status: 404,
-          headers: { 'Content-Type': 'application/json' }
-        });
+    // Regular update: every field error is reported together
+    const fieldErrors = {};
+    for (const field of LIFECYCLE_FIELDS.filter(field => field in body)) {
+      fieldErrors[field] = `${field} can only be changed by an action (approve, reject, reschedule) or POST /api/calendar/[id]/generate`;
+    }
+    for (const field of SCORE_FIELDS.filter(field => field in body)) {
+      fieldErrors[field] = `${field} is computed by the scoring formula and cannot be set directly`;
+    }
+
+    // Blank keywords would be dropped as absent; an update cannot clear the keyword
+    if ('keyword' in body && !(typeof body.keyword === 'string' && body.keyword.trim())) {
+      fieldErrors.keyword = 'Keyword is required';
+    }
+
+    const writable = Object.fromEntries(Object.entries(body)
+      .filter(([field]) => !READONLY_FIELDS.includes(field) && !(field in fieldErrors)));
+    const { value: fields, errors } = validate(UPDATE_BODY, writable, { strict: 'cannot be updated' });
+    Object.assign(fieldErrors, errors);
+
+    const editable = await loadEditableEntry(id);
+    if (editable.response) {
+      return editable.response;
+    }
+
+    // Once approved, the date belongs to scheduling: moves go through the
+    // reschedule action, which logs them and can be undone
+    if ('planned_date' in body && SCHEDULE_STATUSES.includes(editable.entry.status)) {
+      fieldErrors.planned_date = `Entry is ${editable.entry.status}; change its date with the reschedule action`;
+    }
+
+    if (Object.keys(fieldErrors).length > 0) {
+      return validationError(fieldErrors);
+    }
+
+    // reviewer is recorded as the event's actor, not a column
+    const { reviewer: actor = null, ...updateData } = fields;
+    if (Object.keys(updateData).length === 0) {
+      return validationError({ body: 'No fields to update' });
+    }
+
+    const edits = await validateEdits(id, updateData);
+    if (edits.response) {
+      return edits.response;
+    }
+
+    if (SCORE_INPUTS.some(field => field in updateData)) {
+      const formula = await loadScoringFormula(db);
+      Object.assign(updateData, scoreFields({ ...editable.entry, ...updateData }, formula));
+    }
+
+    // Pillar changes go through the same checks as the set_pillar action
+    if (updateData.parent_id) {
+      const parentError = await validateParent(repository, id, updateData.parent_id);
+      if (parentError) {
+        return validationError({ parent_id: parentError });
       }
-      throw error;
     }
 
+    let data;
+    try {
+      data = await repository.entries.update(id, updateData, { status: editable.entry.status });
+    } catch (error) {
+      // Keyword taken by another entry since validateEdits checked it
+      const duplicate = error.code === '23505' && 'keyword' in updateData
+        && await repository.entries.findByKeyword(updateData.keyword, 'id, keyword, status');
+      if (!duplicate) throw error;
+      return keywordConflict(duplicate);
+    }
+
+    if (!data) {
+      return errorResponse('CONFLICT', 'Entry changed status while saving; reload and try again');
+    }
+
+    await recordEvent(db, 'update', editable.entry, data, {
+      actor,
+      source: 'PATCH /api/calendar/[id]'
+    });
+
     return new Response(JSON.stringify({
       success: true,
-      message: 'Calendar entry updated successfully',
-      data
+      message: edits.cannibalization?.length > 0
+        ? `Calendar entry updated, but its keyword overlaps ${edits.cannibalization.length} existing ${edits.cannibalization.length === 1 ? 'entry' : 'entries'}`
+        : 'Calendar entry updated successfully',
+      data,
+      ...(edits.cannibalization && { cannibalization: edits.cannibalization })
     }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' }
@@ -143,58 +270,52 @@ export async function PATCH({ params, request }) {
 
   } catch (error) {
     console.error('Failed to update calendar entry:', error);
-    return new Response(JSON.stringify({
-      success: false,
-      error: error.message
-    }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' }
-    });
+    return serverError(error);
   }
 }
 
 /**
  * DELETE /api/calendar/[id] - Delete calendar entry
+ * Query params:
+ * - reviewer: Who deleted the entry, for the event log
  */
-export async function DELETE({ params }) {
+export async function DELETE({ params, url }) {
   try {
-    const { id } = params;
-
-    // Check if entry has published article
-    const { data: entry } = await supabase
-      .from('content_calendar')
-      .select('status, article_id')
-      .eq('id', id)
-      .single();
-
-    if (entry?.status === 'published') {
-      return new Response(JSON.stringify({
-        success: false,
-        error: 'Cannot delete published articles. Archive instead.'
-      }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' }
-      });
+    const { value: path, response: pathResponse } = parseIds(params);
+    if (pathResponse) {
+      return pathResponse;
     }
 
-    const { error } = await supabase
-      .from('content_calendar')
-      .delete()
-      .eq('id', id);
-
-    if (error) {
-      if (error.code === 'PGRST116') {
-        return new Response(JSON.stringify({
-          success: false,
-          error: 'Calendar entry not found'
-        }), {
-          status: 404,
-          headers: { 'Content-Type': 'application/json' }
-        });
-      }
-      throw error;
+    const { id } = path;
+    const { value: query, response } = parseQuery(REVIEWER_QUERY, new URL(url));
+    if (response) {
+      return response;
+    }
+
+    const entry = await repository.entries.get(id);
+
+    if (!entry) {
+      return errorResponse('NOT_FOUND', 'Calendar entry not found');
     }
 
+    // Published articles, and entries the workflow is writing, stay
+    const deleteError = checkTransition('delete', entry);
+    if (deleteError) {
+      return errorResponse('BAD_REQUEST', deleteError);
+    }
+
+    const deleted = await repository.entries.remove(id, { status: entry.status });
+
+    if (!deleted) {
+      return errorResponse('CONFLICT', 'Entry changed status while deleting; reload and try again');
+    }
+
+    // The entry's history stays in the event log, ending with its last state
+    await recordEvent(db, 'delete', entry, null, {
+      actor: query.reviewer ?? null,
+      source: 'DELETE /api/calendar/[id]'
+    });
+
     return new Response(JSON.stringify({
       success: true,
       message: 'Calendar entry deleted successfully'
@@ -205,49 +326,90 @@ export async function DELETE({ params }) {
 
   } catch (error) {
     console.error('Failed to delete calendar entry:', error);
-    return new Response(JSON.stringify({
-      success: false,
-      error: error.message
-    }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' }
-    });
+    return serverError(error);
   }
 }
 
 /**
- * Approve a calendar entry
+ * Load an entry that field edits are allowed on in its current status
+ * Returns { entry } (the full row, logged as the edit's before state) or { response } with the error to send
  */
-async function approveEntry(id, approver = 'api') {
-  const { data, error } = await supabase
-    .from('content_calendar')
-    .update({
-      status: 'approved',
-      approved_at: new Date().toISOString(),
-      approved_by: approver
-    })
-    .eq('id', id)
-    .in('status', ['suggested', 'rejected'])
-    .select()
-    .single();
+async function loadEditableEntry(id) {
+  const entry = await repository.entries.get(id);
 
-  if (error) {
-    throw error;
+  if (!entry) {
+    return {
+      response: errorResponse('NOT_FOUND', 'Calendar entry not found')
+    };
   }
 
-  if (!data) {
-    return new Response(JSON.stringify({
-      success: false,
-      error: 'Entry not found or not in approvable state'
-    }), {
-      status: 400,
-      headers: { 'Content-Type': 'application/json' }
-    });
+  const editError = checkTransition('edit', entry);
+  if (editError) {
+    return {
+      response: errorResponse('BAD_REQUEST', editError)
+    };
+  }
+
+  return { entry };
+}
+
+/**
+ * Check a keyword change against the calendar, normalizing it in place
+ * Returns { cannibalization } (set when the keyword changes) or { response } with the error to send
+ */
+async function validateEdits(id, updateData) {
+  if (!('keyword' in updateData)) {
+    return {};
+  }
+
+  const keyword = normalizeKeyword(updateData.keyword);
+  updateData.keyword = keyword;
+
+  const calendarKeywords = await repository.entries.listKeywords();
+  const duplicate = calendarKeywords.find(entry => entry.id !== id && keywordKey(entry.keyword) === keywordKey(keyword));
+  if (duplicate) {
+    return { response: keywordConflict(duplicate) };
   }
 
+  return { cannibalization: findCannibalization(keyword, calendarKeywords, { excludeId: id }) };
+}
+
+/**
+ * 409 for a keyword another entry already has
+ */
+function keywordConflict(existing) {
+  return errorResponse('CONFLICT', `Keyword "${existing.keyword}" already exists in calendar (${existing.status})`, {
+    fields: { keyword: 'Keyword already exists in calendar' }
+  });
+}
+
+/**
+ * Approve a calendar entry
+ */
+async function approveEntry(id, reviewer) {
+  if (!reviewer) {
+    return validationError({ reviewer: 'reviewer is required' });
+  }
+
+  const snapshot = await snapshotEntries(repository, [id]);
+
+  const { approved, pending, failed } = await approveEntries(repository, [id], reviewer, {
+    source: 'PATCH /api/calendar/[id]'
+  });
+
+  if (failed.length > 0) {
+    return errorResponse('BAD_REQUEST', failed[0].error);
+  }
+
+  const data = approved[0] || pending[0];
+  const undo = await recordAction(db, 'approve', snapshot, [data]);
+
   return new Response(JSON.stringify({
     success: true,
-    message: 'Entry approved successfully',
+    message: data.status === 'pending_second_approval'
+      ? `Approved by ${reviewer}; waiting for a second reviewer`
+      : 'Entry approved successfully',
+    undo,
     data
   }), {
     status: 200,
@@ -258,43 +420,35 @@ async function approveEntry(id, approver = 'api') {
 /**
  * Reject a calendar entry with optional decline reason
  */
-async function rejectEntry(id, declineReason = null) {
-  const updateData = {
-    status: 'rejected',
-    approved_at: null,
-    approved_by: null
-  };
-
-  // Store decline reason for AI learning
-  if (declineReason) {
-    updateData.decline_reason = declineReason;
+async function rejectEntry(id, reviewer, declineReason = null, declineCategories = null) {
+  if (!reviewer) {
+    return validationError({ reviewer: 'reviewer is required' });
+  }
+
+  const { categories, invalid } = parseDeclineCategories(declineCategories);
+  if (invalid.length > 0) {
+    return validationError({ decline_categories: `Unknown reason categories: ${invalid.join(', ')}` });
   }
 
-  const { data, error } = await supabase
-    .from('content_calendar')
-    .update(updateData)
-    .eq('id', id)
-    .in('status', ['suggested', 'approved'])
-    .select()
-    .single();
+  const snapshot = await snapshotEntries(repository, [id]);
+
+  const { data, error, status } = await applyTransition(repository, 'decline', id, {
+    reviewer,
+    declineReason,
+    declineCategories: categories,
+    source: 'PATCH /api/calendar/[id]'
+  });
 
   if (error) {
-    throw error;
+    return statusError(status, error);
   }
 
-  if (!data) {
-    return new Response(JSON.stringify({
-      success: false,
-      error: 'Entry not found or not in rejectable state'
-    }), {
-      status: 400,
-      headers: { 'Content-Type': 'application/json' }
-    });
-  }
+  const undo = await recordAction(db, 'reject', snapshot, [data]);
 
   return new Response(JSON.stringify({
     success: true,
     message: declineReason ? 'Entry rejected with feedback' : 'Entry rejected',
+    undo,
     data
   }), {
     status: 200,
@@ -305,48 +459,67 @@ async function rejectEntry(id, declineReason = null) {
 /**
  * Reschedule a calendar entry
  */
-async function rescheduleEntry(id, plannedDate) {
+async function rescheduleEntry(id, plannedDate, actor) {
   if (!plannedDate) {
-    return new Response(JSON.stringify({
-      success: false,
-      error: 'planned_date is required for rescheduling'
-    }), {
-      status: 400,
-      headers: { 'Content-Type': 'application/json' }
-    });
+    return validationError({ planned_date: 'planned_date is required for rescheduling' });
   }
 
-  const { data, error } = await supabase
-    .from('content_calendar')
-    .update({
-      planned_date: plannedDate,
-      status: 'scheduled'
-    })
-    .eq('id', id)
-    .in('status', ['approved', 'scheduled'])
-    .select()
-    .single();
+  const snapshot = await snapshotEntries(repository, [id]);
+
+  const { data, error, status } = await applyTransition(repository, 'schedule', id, {
+    plannedDate,
+    actor,
+    source: 'PATCH /api/calendar/[id]'
+  });
 
   if (error) {
-    throw error;
+    return statusError(status, error);
   }
 
+  const undo = await recordAction(db, 'reschedule', snapshot, [data]);
+
+  return new Response(JSON.stringify({
+    success: true,
+    message: `Entry rescheduled to ${plannedDate}`,
+    undo,
+    data
+  }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+/**
+ * Attach a calendar entry to a pillar, or detach it with parent_id: null
+ */
+async function setPillar(id, parentId, actor) {
+  const editable = await loadEditableEntry(id);
+  if (editable.response) {
+    return editable.response;
+  }
+
+  const parentError = await validateParent(repository, id, parentId);
+  if (parentError) {
+    return validationError({ parent_id: parentError });
+  }
+
+  const data = await repository.entries.update(id, { parent_id: parentId });
+
   if (!data) {
-    return new Response(JSON.stringify({
-      success: false,
-      error: 'Entry not found or not in schedulable state'
-    }), {
-      status: 400,
-      headers: { 'Content-Type': 'application/json' }
-    });
+    return errorResponse('NOT_FOUND', 'Calendar entry not found');
   }
 
+  await recordEvent(db, 'set_pillar', editable.entry, data, {
+    actor,
+    source: 'PATCH /api/calendar/[id]'
+  });
+
   return new Response(JSON.stringify({
     success: true,
-    message: `Entry rescheduled to ${plannedDate}`,
+    message: parentId ? 'Entry attached to pillar' : 'Entry detached from pillar',
     data
   }), {
     status: 200,
     headers: { 'Content-Type': 'application/json' }
   });
-}
\ No newline at end of file
+}
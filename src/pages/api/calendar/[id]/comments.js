@@ -0,0 +1,117 @@
+/**
+ * Entry Comments API Endpoint
+ *
+ * GET /api/calendar/[id]/comments - Comment thread for a calendar entry
+ * POST /api/calendar/[id]/comments - Add a comment
+ */
+
+export const prerender = false;
+
+import { getRepository } from '../../../../lib/storage.js';
+import { errorResponse, parseBody, parseIds, serverError } from '../../../../lib/requestSchema.js';
+import { COMMENT_BODY, loadTeammates, parseMentions } from '../../../../lib/comments.js';
+
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const repository = getRepository();
+const { db } = repository;
+
+/**
+ * GET /api/calendar/[id]/comments - List comments, oldest first
+ * Deleted comments are returned without their body so replies keep context.
+ */
+export async function GET({ params }) {
+  try {
+    const { value: path, response } = parseIds(params);
+    if (response) {
+      return response;
+    }
+
+    const { id } = path;
+
+    const { data, error } = await db
+      .from('calendar_comments')
+      .select('*')
+      .eq('entry_id', id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    const comments = data.map(comment => comment.deleted_at
+      ? { ...comment, body: '', mentions: [], edits: [] }
+      : comment
+    );
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: comments,
+      teammates: await loadTeammates(repository)
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to fetch comments:', error);
+    return serverError(error);
+  }
+}
+
+/**
+ * POST /api/calendar/[id]/comments - Add a comment
+ * Body: {
+ *   author: string (required) - Name of the commenter
+ *   body: string (required) - Comment text; @name mentions a teammate
+ * }
+ */
+export async function POST({ params, request }) {
+  try {
+    const { value: path, response: pathResponse } = parseIds(params);
+    if (pathResponse) {
+      return pathResponse;
+    }
+
+    const { id } = path;
+    const { value: body, response } = await parseBody(COMMENT_BODY, request);
+    if (response) {
+      return response;
+    }
+
+    const { author } = body;
+
+    const entry = await repository.entries.get(id, 'id');
+
+    if (!entry) {
+      return errorResponse('NOT_FOUND', 'Calendar entry not found');
+    }
+
+    const { data, error } = await db
+      .from('calendar_comments')
+      .insert({
+        entry_id: id,
+        author,
+        body: body.body,
+        mentions: parseMentions(body.body)
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'Comment added',
+      data
+    }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to add comment:', error);
+    return serverError(error);
+  }
+}
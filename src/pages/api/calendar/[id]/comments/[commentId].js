@@ -0,0 +1,167 @@
+/**
+ * Entry Comment API Endpoint
+ *
+ * PATCH /api/calendar/[id]/comments/[commentId] - Edit a comment, keeping its history
+ * DELETE /api/calendar/[id]/comments/[commentId] - Delete a comment
+ */
+
+export const prerender = false;
+
+import { getRepository } from '../../../../../lib/storage.js';
+import { errorResponse, parseBody, parseIds, parseQuery, serverError } from '../../../../../lib/requestSchema.js';
+import { COMMENT_BODY, parseMentions } from '../../../../../lib/comments.js';
+
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const { db } = getRepository();
+
+const DELETE_QUERY = {
+  author: COMMENT_BODY.author
+};
+
+/**
+ * PATCH /api/calendar/[id]/comments/[commentId] - Edit a comment
+ * Body: {
+ *   author: string (required) - Must match the comment's author
+ *   body: string (required) - New comment text
+ * }
+ * The previous text is appended to the comment's `edits` history.
+ */
+export async function PATCH({ params, request }) {
+  try {
+    const { value: path, response: pathResponse } = parseIds(params, ['id', 'commentId']);
+    if (pathResponse) {
+      return pathResponse;
+    }
+
+    const { id, commentId } = path;
+    const { value: body, response } = await parseBody(COMMENT_BODY, request);
+    if (response) {
+      return response;
+    }
+
+    const { author } = body;
+
+    const result = await loadOwnComment(id, commentId, author);
+    if (result.response) {
+      return result.response;
+    }
+
+    const { comment } = result;
+    const now = new Date().toISOString();
+
+    const { data, error } = await db
+      .from('calendar_comments')
+      .update({
+        body: body.body,
+        mentions: parseMentions(body.body),
+        edits: [...(comment.edits || []), { body: comment.body, edited_at: now }],
+        updated_at: now
+      })
+      .eq('id', commentId)
+      .eq('updated_at', comment.updated_at)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return errorResponse('CONFLICT', 'Comment was edited elsewhere; reload and try again');
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'Comment updated',
+      data
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to update comment:', error);
+    return serverError(error);
+  }
+}
+
+/**
+ * DELETE /api/calendar/[id]/comments/[commentId] - Delete a comment
+ * Query params:
+ * - author: Must match the comment's author
+ * The comment is soft-deleted so its place in the thread is kept.
+ */
+export async function DELETE({ params, url }) {
+  try {
+    const { value: path, response: pathResponse } = parseIds(params, ['id', 'commentId']);
+    if (pathResponse) {
+      return pathResponse;
+    }
+
+    const { id, commentId } = path;
+    const { value: query, response } = parseQuery(DELETE_QUERY, new URL(url));
+    if (response) {
+      return response;
+    }
+
+    const { author } = query;
+
+    const result = await loadOwnComment(id, commentId, author);
+    if (result.response) {
+      return result.response;
+    }
+
+    const { error } = await db
+      .from('calendar_comments')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', commentId);
+
+    if (error) {
+      throw error;
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'Comment deleted'
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to delete comment:', error);
+    return serverError(error);
+  }
+}
+
+/**
+ * Load a live comment on an entry, checking that `author` wrote it
+ * Returns { comment } or { response } with the error to send
+ */
+async function loadOwnComment(entryId, commentId, author) {
+  const { data: comment, error } = await db
+    .from('calendar_comments')
+    .select('*')
+    .eq('id', commentId)
+    .eq('entry_id', entryId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  if (!comment) {
+    return {
+      response: errorResponse('NOT_FOUND', 'Comment not found')
+    };
+  }
+
+  if (comment.author !== author) {
+    return {
+      response: errorResponse('FORBIDDEN', 'Only the author can change this comment')
+    };
+  }
+
+  return { comment };
+}
@@ -0,0 +1,71 @@
+/**
+ * Entry Event Log API Endpoint
+ *
+ * GET /api/calendar/[id]/events - Change history of one calendar entry
+ */
+
+export const prerender = false;
+
+import { getRepository } from '../../../../lib/storage.js';
+import { parseIds, serverError, validationError } from '../../../../lib/requestSchema.js';
+import { loadEvents, parseEventParams } from '../../../../lib/eventLog.js';
+
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const { db } = getRepository();
+
+/**
+ * GET /api/calendar/[id]/events - The entry's events, newest first
+ * Query params: event, actor, since/until, limit, cursor (see parseEventParams)
+ * Also returns `counts` of every event type across the entry's whole history
+ * (e.g. counts.schedule is how many times it was scheduled or rescheduled).
+ * Works for deleted entries too.
+ */
+export async function GET({ params, url }) {
+  try {
+    const { value: path, response } = parseIds(params);
+    if (response) {
+      return response;
+    }
+
+    const { id } = path;
+    const { options, errors } = parseEventParams(new URL(url).searchParams);
+
+    if (errors) {
+      return validationError(errors);
+    }
+
+    const { events, hasMore, nextCursor } = await loadEvents(db, { ...options, entryId: id });
+
+    const { data: types, error: countsError } = await db
+      .from('calendar_events')
+      .select('event')
+      .eq('entry_id', id);
+
+    if (countsError) {
+      throw countsError;
+    }
+
+    const counts = {};
+    for (const { event } of types) {
+      counts[event] = (counts[event] || 0) + 1;
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: events,
+      counts,
+      pagination: {
+        limit: options.limit,
+        hasMore,
+        nextCursor
+      }
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to fetch entry events:', error);
+    return serverError(error);
+  }
+}
@@ -7,118 +7,77 @@
 // Mark this route as server-rendered (not pre-rendered at build time)
 export const prerender = false;
 
-import { createClient } from '@supabase/supabase-js';
+import { getRepository } from '../../../../lib/storage.js';
+import { errorResponse, parseBody, parseIds, rules, serverError, statusError } from '../../../../lib/requestSchema.js';
+import { dispatchGeneration } from '../../../../lib/generationDispatch.js';
+import { MAX_REVIEWER_LENGTH, getApprovalRequirement } from '../../../../lib/approvals.js';
+import { applyTransition } from '../../../../lib/statusMachine.js';
 
-// Initialize Supabase client
-const supabase = createClient(
-  import.meta.env.SUPABASE_URL || '',
-  import.meta.env.SUPABASE_SERVICE_KEY || import.meta.env.SUPABASE_ANON_KEY || ''
-);
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const repository = getRepository();
+
+// Event log source for generation started (or failed to start) here
+const SOURCE = 'POST /api/calendar/[id]/generate';
+
+const GENERATE_BODY = {
+  reviewer: rules.string({ max: MAX_REVIEWER_LENGTH })
+};
 
 /**
  * POST /api/calendar/[id]/generate - Immediately trigger workflow for keyword
+ * Body (optional): {
+ *   reviewer: string - Who triggered generation, for the event log
+ * }
  */
-export async function POST({ params }) {
+export async function POST({ params, request }) {
   try {
-    const { id } = params;
-
-    // Get the calendar entry
-    const { data: entry, error: fetchError } = await supabase
-      .from('content_calendar')
-      .select('*')
-      .eq('id', id)
-      .single();
-
-    if (fetchError) {
-      if (fetchError.code === 'PGRST116') {
-        return new Response(JSON.stringify({
-          success: false,
-          error: 'Calendar entry not found'
-        }), {
-          status: 404,
-          headers: { 'Content-Type': 'application/json' }
-        });
-      }
-      throw fetchError;
+    const { value: path, response } = parseIds(params);
+    if (response) {
+      return response;
     }
 
-    // Validate entry can be generated (allow suggested, approved, or scheduled)
-    if (!['suggested', 'approved', 'scheduled'].includes(entry.status)) {
-      return new Response(JSON.stringify({
-        success: false,
-        error: `Cannot generate article with status "${entry.status}". Must be suggested, approved, or scheduled.`
-      }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' }
-      });
+    const { id } = path;
+    const { value: body, response: bodyResponse } = await parseBody(GENERATE_BODY, request, { optional: true });
+    if (bodyResponse) {
+      return bodyResponse;
     }
 
-    // Check if already generating
-    if (entry.status === 'generating') {
-      return new Response(JSON.stringify({
-        success: false,
-        error: 'Article is already being generated'
-      }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' }
-      });
-    }
+    const actor = body.reviewer ?? null;
 
-    // Update status to 'generating'
-    const { error: updateError } = await supabase
-      .from('content_calendar')
-      .update({
-        status: 'generating',
-        generation_started_at: new Date().toISOString()
-      })
-      .eq('id', id);
+    // Move to 'generating' (allowed from suggested, approved, scheduled or failed)
+    const { data: entry, error, status } = await applyTransition(repository, 'generate', id, {
+      requiredApprovals: row => getApprovalRequirement(row).required,
+      actor,
+      source: SOURCE
+    });
 
-    if (updateError) {
-      throw updateError;
+    if (error) {
+      return statusError(status, error);
     }
 
     // Trigger GitHub Actions workflow via repository_dispatch
     const keyword = entry.keyword;
-    const type = entry.article_type || 'guide';
-
-    const githubToken = import.meta.env.GITHUB_TOKEN;
-    const githubRepo = 'Bonke88/revops-partner-site';
-
-    if (githubToken) {
-      try {
-        const dispatchResponse = await fetch(
-          `https://api.github.com/repos/${githubRepo}/dispatches`,
-          {
-            method: 'POST',
-            headers: {
-              'Accept': 'application/vnd.github+json',
-              'Authorization': `Bearer ${githubToken}`,
-              'X-GitHub-Api-Version': '2022-11-28'
-            },
-            body: JSON.stringify({
-              event_type: 'generate-article',
-              client_payload: {
-                keyword,
-                article_type: type,
-                calendar_id: id
-              }
-            })
-          }
-        );
-
-        if (!dispatchResponse.ok) {
-          console.error('Failed to trigger GitHub Actions:', await dispatchResponse.text());
-          throw new Error('Failed to trigger GitHub Actions workflow');
-        }
-
-        console.log(`✓ GitHub Actions workflow triggered for keyword: "${keyword}" (ID: ${id})`);
-      } catch (githubError) {
-        console.error('GitHub Actions trigger error:', githubError);
-        // Don't fail the request - the status is already set to generating
-        // User can manually trigger from GitHub if needed
+
+    let failure = null;
+    try {
+      const { dispatched } = await dispatchGeneration(entry);
+      if (!dispatched) {
+        failure = 'GITHUB_TOKEN is not configured';
       }
-    } else {
-      console.warn('GITHUB_TOKEN not configured - workflow must be triggered manually');
+    } catch (githubError) {
+      console.error('GitHub Actions trigger error:', githubError);
+      failure = githubError.message;
+    }
+
+    // Don't leave the entry stuck in 'generating' when the workflow never started
+    if (failure) {
+      await applyTransition(repository, 'generation_failed', id, {
+        reason: failure,
+        actor,
+        source: SOURCE
+      });
+
+      return errorResponse('UPSTREAM_FAILED', `Failed to start workflow for "${keyword}": ${failure}`);
     }
 
     return new Response(JSON.stringify({
@@ -137,12 +96,6 @@ export async function POST({ params }) {
 
   } catch (error) {
     console.error('Failed to trigger workflow:', error);
-    return new Response(JSON.stringify({
-      success: false,
-      error: error.message
-    }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' }
-    });
+    return serverError(error);
   }
 }
@@ -2,132 +2,142 @@
  * Batch Approval API Endpoint
  *
  * POST /api/calendar/approve - Batch approve multiple calendar entries
+ * GET /api/calendar/approve - Entries awaiting a first or second approval
  */
 
 export const prerender = false;
 
-import { createClient } from '@supabase/supabase-js';
+import { getRepository } from '../../../lib/storage.js';
+import { errorResponse, parseBody, rules, serverError, validationError } from '../../../lib/requestSchema.js';
+import { SCHEDULING_OVERRIDES, getSchedulingRules, loadOccupancy, loadPillarDates, planSchedule } from '../../../lib/scheduler.js';
+import { findCannibalization } from '../../../lib/keywordSimilarity.js';
+import { getDifficultyLabel } from '../../../lib/scoring.js';
+import { calculateEstimatedTraffic } from '../../../lib/trafficForecast.js';
+import { loadValuation, roiBandToTrafficValue, valueEntry } from '../../../lib/pipelineValue.js';
+import { MAX_REVIEWER_LENGTH, approveEntries, getApprovalPolicy, getApprovalRequirement } from '../../../lib/approvals.js';
+import { MAX_BATCH_SIZE, applyTransition, getNextActions } from '../../../lib/statusMachine.js';
+import { recordAction, snapshotEntries } from '../../../lib/undoLog.js';
+import { countComments } from '../../../lib/comments.js';
+import { applyQueueFilters, applySortAndCursor, encodeCursor, parseQueueParams } from '../../../lib/approvalQueue.js';
 
-// Initialize Supabase client
-const supabase = createClient(
-  import.meta.env.SUPABASE_URL || '',
-  import.meta.env.SUPABASE_SERVICE_KEY || import.meta.env.SUPABASE_ANON_KEY || ''
-);
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const repository = getRepository();
+const { db } = repository;
+
+// Event log source for approvals and auto-scheduling made here
+const SOURCE = 'POST /api/calendar/approve';
+
+// How long (ms) the queue may reuse the keyword list it checks cannibalization against
+const KEYWORD_LIST_MAX_AGE = 60 * 1000;
+
+const APPROVE_BODY = {
+  ids: rules.list(rules.uuid(), { required: true, max: MAX_BATCH_SIZE }),
+  reviewer: rules.string({ max: MAX_REVIEWER_LENGTH }),
+  approver: rules.string({ max: MAX_REVIEWER_LENGTH }),
+  auto_schedule: rules.boolean({ default: false }),
+  schedule_start_date: rules.date(),
+  ...SCHEDULING_OVERRIDES
+};
 
 /**
  * POST /api/calendar/approve - Batch approve calendar entries
  * Body: {
- *   ids: string[] (required) - Array of calendar entry IDs
- *   approver: string (optional) - Name/ID of approver
+ *   ids: string[] (required) - Array of calendar entry IDs (at most MAX_BATCH_SIZE)
+ *   reviewer: string (required) - Name of the reviewer signing off (`approver` is accepted as an alias)
  *   auto_schedule: boolean (optional) - Auto-schedule approved items
- *   schedule_start_date: string (optional) - Start date for auto-scheduling
- *   per_day: number (optional) - Articles per day for auto-scheduling
+ *   schedule_start_date: string (optional) - Start date for auto-scheduling (YYYY-MM-DD)
+ *   per_day: number (optional) - Articles per day for auto-scheduling (max MAX_PER_DAY)
+ *   publish_weekdays: number[] (optional) - Allowed weekdays, 0 = Sunday (default: PUBLISH_WEEKDAYS)
+ *   blackout_dates: string[] (optional) - Dates to skip (default: BLACKOUT_DATES)
+ *   pillar_first: boolean (optional) - Schedule clusters after their pillar (default: true)
  * }
+ * Entries covered by the two-person policy move to 'pending_second_approval'
+ * on their first approval and are only scheduled once a second reviewer approves.
  */
 export async function POST({ request }) {
   try {
-    const body = await request.json();
-
-    // Validate required fields
-    if (!body.ids || !Array.isArray(body.ids) || body.ids.length === 0) {
-      return new Response(JSON.stringify({
-        success: false,
-        error: 'IDs array is required and must not be empty'
-      }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' }
-      });
+    const { value: body, response } = await parseBody(APPROVE_BODY, request);
+    if (response) {
+      return response;
     }
 
-    const approver = body.approver || 'batch_api';
-    const approvedAt = new Date().toISOString();
-
-    // Batch approve entries
-    const { data: approved, error: approveError } = await supabase
-      .from('content_calendar')
-      .update({
-        status: 'approved',
-        approved_at: approvedAt,
-        approved_by: approver
-      })
-      .in('id', body.ids)
-      .in('status', ['suggested', 'rejected'])
-      .select();
+    if (body.ids.length === 0) {
+      return validationError({ ids: 'ids must not be empty' });
+    }
 
-    if (approveError) {
-      throw approveError;
+    const reviewer = body.reviewer ?? body.approver;
+    if (!reviewer) {
+      return validationError({ reviewer: 'reviewer is required' });
     }
 
+    // Prior state, so the whole approval (and its scheduling) can be undone
+    const snapshot = await snapshotEntries(repository, body.ids);
+
+    // Batch approve entries
+    const { approved, pending, failed } = await approveEntries(repository, body.ids, reviewer, { source: SOURCE });
+
     let scheduled = [];
+    let schedule = [];
 
     // Auto-schedule if requested
     if (body.auto_schedule && approved.length > 0) {
       const startDate = body.schedule_start_date
-        ? new Date(body.schedule_start_date)
-        : new Date(Date.now() + 24 * 60 * 60 * 1000); // Tomorrow
-
-      const perDay = body.per_day || 1;
-
-      // Sort approved entries by priority score (highest first)
-      const sortedApproved = [...approved].sort((a, b) =>
-        (b.priority_score || 0) - (a.priority_score || 0)
-      );
-
-      // Assign dates
-      const scheduledUpdates = [];
-      let currentDate = new Date(startDate);
-      let dailyCount = 0;
-
-      for (const entry of sortedApproved) {
-        scheduledUpdates.push({
-          id: entry.id,
-          planned_date: currentDate.toISOString().split('T')[0],
-          status: 'scheduled'
-        });
+        || new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0]; // Tomorrow
 
-        dailyCount++;
-        if (dailyCount >= perDay) {
-          // Move to next day
-          currentDate.setDate(currentDate.getDate() + 1);
-          dailyCount = 0;
-        }
-      }
+      const rules = getSchedulingRules(body);
+      const occupancy = await loadOccupancy(repository, startDate);
+      const pillarDates = await loadPillarDates(repository, approved);
+
+      // Fill the first free slots around what is already booked
+      schedule = planSchedule(approved, { startDate, rules, occupancy, pillarDates });
 
       // Update scheduled dates
-      for (const update of scheduledUpdates) {
-        const { data, error } = await supabase
-          .from('content_calendar')
-          .update({
-            planned_date: update.planned_date,
-            status: update.status
-          })
-          .eq('id', update.id)
-          .select()
-          .single();
-
-        if (!error && data) {
+      for (const assignment of schedule) {
+        if (!assignment.planned_date) continue;
+
+        const { data } = await applyTransition(repository, 'schedule', assignment.id, {
+          plannedDate: assignment.planned_date,
+          actor: reviewer,
+          source: SOURCE
+        });
+
+        if (data) {
           scheduled.push(data);
         }
       }
     }
 
+    const scheduledById = Object.fromEntries(scheduled.map(entry => [entry.id, entry]));
+    const undo = await recordAction(
+      db,
+      'approve',
+      snapshot,
+      [...approved.map(entry => scheduledById[entry.id] || entry), ...pending]
+    );
+
     // Get summary statistics
     const totalProcessed = approved.length;
     const totalScheduled = scheduled.length;
-    const failedCount = body.ids.length - totalProcessed;
 
     return new Response(JSON.stringify({
       success: true,
-      message: `Successfully approved ${totalProcessed} entries`,
+      message: pending.length > 0
+        ? `Approved ${totalProcessed} entries; ${pending.length} waiting for a second reviewer`
+        : `Successfully approved ${totalProcessed} entries`,
       summary: {
         requested: body.ids.length,
         approved: totalProcessed,
+        pending_second_approval: pending.length,
         scheduled: totalScheduled,
-        failed: failedCount
+        failed: failed.length
       },
+      undo,
       data: {
         approved,
-        scheduled
+        pending,
+        scheduled,
+        schedule,
+        failed
       }
     }), {
       status: 200,
@@ -136,63 +146,111 @@ export async function POST({ request }) {
 
   } catch (error) {
     console.error('Failed to batch approve entries:', error);
-    return new Response(JSON.stringify({
-      success: false,
-      error: error.message
-    }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' }
-    });
+    return serverError(error);
   }
 }
 
 /**
  * GET /api/calendar/approve - Get entries pending approval
+ * Includes entries waiting for a second reviewer, with who has signed off so far.
+ * Query params: see parseQueueParams (filters, sort/order, limit, cursor)
+ * Returns one page plus `total` (all matching entries) and `pagination.nextCursor`.
+ * Each entry carries its estimated `value` and ROI; `valuation` holds the
+ * assumptions and average generation cost behind them.
  */
 export async function GET({ url }) {
   try {
     const params = new URL(url).searchParams;
-    const limit = parseInt(params.get('limit') || '50');
+    const { options, errors } = parseQueueParams(params);
 
-    // Get suggested entries sorted by opportunity score
-    const { data, error} = await supabase
-      .from('content_calendar')
-      .select(`
+    if (errors) {
+      return validationError(errors);
+    }
+
+    const valuation = await loadValuation(repository);
+    if (options.filters.roi && options.filters.roi !== 'no-cpc') {
+      options.filters.roiRange = roiBandToTrafficValue(options.filters.roi, valuation);
+      if (!options.filters.roiRange) {
+        return errorResponse('BAD_REQUEST', 'ROI needs a generation cost history; no costs found in articles or workflow_logs');
+      }
+    }
+
+    // Total matching entries, independent of the page being fetched
+    const { count: total, error: countError } = await applyQueueFilters(
+      repository.entries.query('id', { count: 'exact', head: true }),
+      options.filters
+    );
+
+    if (countError) {
+      throw countError;
+    }
+
+    // One more row than requested tells us whether another page exists
+    const query = repository.entries
+      .query(`
         id,
         keyword,
         article_type,
         search_volume,
         difficulty,
         priority_score,
+        score_breakdown,
+        traffic_value,
         competitor_count,
-        opportunity_score,
         data_sources,
         created_at,
         notes,
-        seo_insights
-      `)
-      .eq('status', 'suggested')
-      .order('priority_score', { ascending: false })
-      .limit(limit);
+        seo_insights,
+        status,
+        approvals,
+        auto_rule_name
+      `);
+
+    const { data: rows, error } = await applySortAndCursor(applyQueueFilters(query, options.filters), options)
+      .limit(options.limit + 1);
 
     if (error) {
       throw error;
     }
 
+    const hasMore = rows.length > options.limit;
+    const data = rows.slice(0, options.limit);
+
+    // Every calendar keyword, to flag suggestions that cannibalize them
+    const calendarKeywords = await repository.entries.listKeywords({ maxAge: KEYWORD_LIST_MAX_AGE });
+
+    const policy = getApprovalPolicy();
+    const commentCounts = await countComments(db, data.map(entry => entry.id));
+
     // Calculate additional metrics
     const enrichedData = data.map(entry => ({
       ...entry,
+      cannibalization: findCannibalization(entry.keyword, calendarKeywords, { excludeId: entry.id }),
       estimated_traffic: calculateEstimatedTraffic(
         entry.search_volume,
         entry.difficulty
       ),
-      difficulty_label: getDifficultyLabel(entry.difficulty)
+      difficulty_label: getDifficultyLabel(entry.difficulty),
+      value: valueEntry(entry, valuation),
+      approval_requirement: getApprovalRequirement(entry, policy),
+      comment_count: commentCounts[entry.id] || 0,
+      next_actions: getNextActions(entry, {
+        requiredApprovals: row => getApprovalRequirement(row, policy).required
+      })
     }));
 
     return new Response(JSON.stringify({
       success: true,
-      pendingCount: enrichedData.length,
-      data: enrichedData
+      pendingCount: total,
+      total,
+      approvalPolicy: policy,
+      valuation,
+      data: enrichedData,
+      pagination: {
+        limit: options.limit,
+        hasMore,
+        nextCursor: hasMore ? encodeCursor(data[data.length - 1], options.sort, options.order) : null
+      }
     }), {
       status: 200,
       headers: { 'Content-Type': 'application/json' }
@@ -200,44 +258,6 @@ export async function GET({ url }) {
 
   } catch (error) {
     console.error('Failed to fetch pending approvals:', error);
-    return new Response(JSON.stringify({
-      success: false,
-      error: error.message
-    }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' }
-    });
-  }
-}
-
-/**
- * Calculate estimated monthly traffic
- */
-function calculateEstimatedTraffic(searchVolume, difficulty) {
-  if (!searchVolume) return 0;
-
-  // Estimate CTR based on difficulty (position estimate)
-  let estimatedCTR;
-  if (difficulty < 30) {
-    estimatedCTR = 0.10; // Top 3 position likely
-  } else if (difficulty < 50) {
-    estimatedCTR = 0.05; // Top 5 position likely
-  } else if (difficulty < 70) {
-    estimatedCTR = 0.02; // Top 10 position likely
-  } else {
-    estimatedCTR = 0.005; // Page 2+
+    return serverError(error);
   }
-
-  return Math.round(searchVolume * estimatedCTR);
 }
-
-/**
- * Get difficulty label
- */
-function getDifficultyLabel(difficulty) {
-  if (!difficulty) return 'Unknown';
-  if (difficulty < 30) return 'Easy';
-  if (difficulty < 50) return 'Medium';
-  if (difficulty < 70) return 'Hard';
-  return 'Very Hard';
-}
\ No newline at end of file
@@ -0,0 +1,46 @@
+/**
+ * Topic Clusters API Endpoint
+ *
+ * GET /api/calendar/clusters - Pillar pages with their cluster articles
+ */
+
+export const prerender = false;
+
+import { getRepository } from '../../../lib/storage.js';
+import { serverError } from '../../../lib/requestSchema.js';
+import { buildClusterTree } from '../../../lib/topicClusters.js';
+
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const repository = getRepository();
+
+/**
+ * GET /api/calendar/clusters - Cluster tree with coverage per pillar
+ * Coverage counts published, scheduled (approved through in progress) and
+ * suggested entries across the pillar and its clusters. Rejected entries
+ * are left out.
+ */
+export async function GET() {
+  try {
+    const data = await repository.entries.queryAll(
+      'id, keyword, article_type, status, planned_date, published_at, parent_id',
+      query => query
+        .neq('status', 'rejected')
+        .order('planned_date', { ascending: true, nullsFirst: false })
+    );
+
+    const tree = buildClusterTree(data);
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: tree.pillars,
+      unclustered: tree.unclustered
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to fetch topic clusters:', error);
+    return serverError(error);
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Decline Analytics API Endpoint
+ *
+ * GET /api/calendar/decline-analytics - Declines broken down by category,
+ * data source, difficulty band and week
+ */
+
+export const prerender = false;
+
+import { getRepository } from '../../../lib/storage.js';
+import { parseQuery, rules, serverError } from '../../../lib/requestSchema.js';
+import { loadDeclines, summarizeDeclines } from '../../../lib/declineReasons.js';
+
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const repository = getRepository();
+
+const ANALYTICS_QUERY = {
+  days: rules.integer({ min: 1, max: 730, default: 90 })
+};
+
+/**
+ * GET /api/calendar/decline-analytics - Aggregated decline feedback
+ * Query params:
+ * - days: Look-back window in days (default 90, max 730)
+ */
+export async function GET({ url }) {
+  try {
+    const { value: params, response } = parseQuery(ANALYTICS_QUERY, new URL(url));
+    if (response) {
+      return response;
+    }
+
+    const { days } = params;
+
+    const declines = await loadDeclines(repository, days);
+    const summary = summarizeDeclines(declines);
+
+    return new Response(JSON.stringify({
+      success: true,
+      days,
+      data: summary
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to fetch decline analytics:', error);
+    return serverError(error);
+  }
+}
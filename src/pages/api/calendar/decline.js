@@ -0,0 +1,108 @@
+/**
+ * Batch Decline API Endpoint
+ *
+ * POST /api/calendar/decline - Batch decline multiple calendar entries
+ */
+
+export const prerender = false;
+
+import { getRepository } from '../../../lib/storage.js';
+import { parseBody, rules, serverError, validationError } from '../../../lib/requestSchema.js';
+import { parseDeclineCategories } from '../../../lib/declineReasons.js';
+import { recordAction, snapshotEntries } from '../../../lib/undoLog.js';
+import { MAX_REVIEWER_LENGTH } from '../../../lib/approvals.js';
+import { MAX_BATCH_SIZE, applyTransitions } from '../../../lib/statusMachine.js';
+
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const repository = getRepository();
+const { db } = repository;
+
+// Categories are checked by parseDeclineCategories, which also takes a single value
+const DECLINE_BODY = {
+  ids: rules.list(rules.uuid(), { required: true, max: MAX_BATCH_SIZE }),
+  reviewer: rules.string({ required: true, max: MAX_REVIEWER_LENGTH }),
+  reason: rules.string({ max: 2000 }),
+  reason_categories: rules.list(rules.string()),
+  reason_category: rules.string()
+};
+
+/**
+ * POST /api/calendar/decline - Batch decline calendar entries
+ * Body: {
+ *   ids: string[] (required) - Array of calendar entry IDs (at most MAX_BATCH_SIZE)
+ *   reviewer: string (required) - Name of the reviewer declining
+ *   reason: string (optional) - Free-text feedback for the keyword bot
+ *   reason_categories: string[] (optional) - Values from DECLINE_CATEGORIES
+ *   reason_category: string (optional) - Single category, same as reason_categories: [value]
+ * }
+ */
+export async function POST({ request }) {
+  try {
+    const { value: body, response } = await parseBody(DECLINE_BODY, request);
+    if (response) {
+      return response;
+    }
+
+    if (body.ids.length === 0) {
+      return validationError({ ids: 'ids must not be empty' });
+    }
+
+    const { reviewer } = body;
+
+    const { categories, invalid } = parseDeclineCategories(
+      body.reason_categories ?? body.reason_category
+    );
+
+    if (invalid.length > 0) {
+      const field = body.reason_categories ? 'reason_categories' : 'reason_category';
+      return validationError({
+        [field]: `Unknown reason ${invalid.length === 1 ? 'category' : 'categories'}: ${invalid.join(', ')}`
+      });
+    }
+
+    const snapshot = await snapshotEntries(repository, body.ids);
+
+    // Batch decline entries; each is checked against the status machine
+    const { updated: declined, failed } = await applyTransitions(repository, 'decline', body.ids, {
+      reviewer,
+      declineReason: body.reason,
+      declineCategories: categories,
+      source: 'POST /api/calendar/decline'
+    });
+
+    const undo = await recordAction(db, 'decline', snapshot, declined);
+    const failures = failed.map(({ id, error }) => ({ id, error }));
+
+    const results = body.ids.map(id => {
+      const failure = failures.find(f => f.id === id);
+      return failure
+        ? { id, success: false, error: failure.error }
+        : { id, success: true };
+    });
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: failures.length > 0
+        ? `Declined ${declined.length} of ${body.ids.length} entries`
+        : `Successfully declined ${declined.length} entries`,
+      summary: {
+        requested: body.ids.length,
+        declined: declined.length,
+        failed: failures.length
+      },
+      undo,
+      results,
+      data: {
+        declined,
+        failed: failures
+      }
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to batch decline entries:', error);
+    return serverError(error);
+  }
+}
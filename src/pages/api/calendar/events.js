@@ -0,0 +1,48 @@
+/**
+ * Calendar Event Log API Endpoint
+ *
+ * GET /api/calendar/events - Changes to every calendar entry, newest first
+ */
+
+export const prerender = false;
+
+import { getRepository } from '../../../lib/storage.js';
+import { serverError, validationError } from '../../../lib/requestSchema.js';
+import { loadEvents, parseEventParams } from '../../../lib/eventLog.js';
+
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const { db } = getRepository();
+
+/**
+ * GET /api/calendar/events - Page through the event log
+ * Query params: see parseEventParams (entry_id, event, actor, since/until, limit, cursor)
+ * Deleted entries keep their events; `keyword` is the entry's keyword at the time.
+ */
+export async function GET({ url }) {
+  try {
+    const { options, errors } = parseEventParams(new URL(url).searchParams);
+
+    if (errors) {
+      return validationError(errors);
+    }
+
+    const { events, hasMore, nextCursor } = await loadEvents(db, options);
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: events,
+      pagination: {
+        limit: options.limit,
+        hasMore,
+        nextCursor
+      }
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to fetch calendar events:', error);
+    return serverError(error);
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Calendar Feed API - iCalendar (RFC 5545) subscription feed
+ *
+ * GET /api/calendar/feed.ics - Scheduled and published entries as VEVENTs
+ */
+
+export const prerender = false;
+
+import { getRepository } from '../../../lib/storage.js';
+import { parseQuery, rules, serverError } from '../../../lib/requestSchema.js';
+import { ENTRY_STATUSES } from '../../../lib/statusMachine.js';
+
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const repository = getRepository();
+
+// Statuses included in the feed when no status filter is given
+const FEED_STATUSES = ['scheduled', 'published'];
+
+const FEED_QUERY = {
+  status: rules.oneOf(ENTRY_STATUSES),
+  start_date: rules.date(),
+  end_date: rules.date()
+};
+
+/**
+ * GET /api/calendar/feed.ics - Subscribable calendar feed
+ * Query params (same as GET /api/calendar):
+ * - status: Filter by status (default: scheduled and published)
+ * - start_date: Start of date range (YYYY-MM-DD)
+ * - end_date: End of date range (YYYY-MM-DD)
+ */
+export async function GET({ url }) {
+  try {
+    const requestUrl = new URL(url);
+    const { value: params, response } = parseQuery(FEED_QUERY, requestUrl);
+    if (response) {
+      return response;
+    }
+
+    const { status } = params;
+    const startDate = params.start_date;
+    const endDate = params.end_date;
+
+    const data = await repository.entries.queryAll(`
+        id,
+        planned_date,
+        keyword,
+        article_type,
+        search_volume,
+        difficulty,
+        status,
+        created_at,
+        updated_at,
+        published_at
+      `, query => {
+      query = query.not('planned_date', 'is', null);
+
+      // Apply filters
+      if (status) {
+        query = query.eq('status', status);
+      } else {
+        query = query.in('status', FEED_STATUSES);
+      }
+      if (startDate) {
+        query = query.gte('planned_date', startDate);
+      }
+      if (endDate) {
+        query = query.lte('planned_date', endDate);
+      }
+
+      return query.order('planned_date', { ascending: true });
+    });
+
+    const calendar = buildCalendar(data, requestUrl.origin);
+
+    return new Response(calendar, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="content-calendar.ics"'
+      }
+    });
+
+  } catch (error) {
+    console.error('Failed to build calendar feed:', error);
+    return serverError(error);
+  }
+}
+
+/**
+ * Build a VCALENDAR document with one all-day VEVENT per entry
+ */
+function buildCalendar(entries, origin) {
+  const host = new URL(origin).hostname;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//RevOps Partner//Content Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Content Calendar',
+    'X-PUBLISHED-TTL:PT1H'
+  ];
+
+  for (const entry of entries) {
+    const date = entry.planned_date.split('T')[0];
+    const modified = new Date(entry.updated_at || entry.created_at);
+    const link = `${origin}/?entry=${entry.id}`;
+
+    const description = [
+      `Keyword: ${entry.keyword}`,
+      `Article type: ${entry.article_type || 'guide'}`,
+      `Search volume: ${entry.search_volume != null ? entry.search_volume.toLocaleString('en-US') : 'N/A'}/mo`,
+      `Difficulty: ${entry.difficulty ?? 'N/A'}`,
+      `Status: ${entry.status}`,
+      '',
+      link
+    ].join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      // Stable per entry so calendar clients update the event in place
+      `UID:calendar-${entry.id}@${host}`,
+      `DTSTAMP:${formatTimestamp(modified)}`,
+      `LAST-MODIFIED:${formatTimestamp(modified)}`,
+      `SEQUENCE:${Math.floor(modified.getTime() / 1000)}`,
+      `DTSTART;VALUE=DATE:${formatDate(date)}`,
+      `DTEND;VALUE=DATE:${formatDate(nextDay(date))}`,
+      `SUMMARY:${escapeText(`${entry.status === 'published' ? '✓ ' : ''}${entry.keyword} (${entry.article_type || 'guide'})`)}`,
+      `DESCRIPTION:${escapeText(description)}`,
+      `URL:${link}`,
+      `STATUS:${entry.status === 'published' ? 'CONFIRMED' : 'TENTATIVE'}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Escape TEXT values (RFC 5545 section 3.3.11)
+ */
+function escapeText(value) {
+  return String(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold lines longer than 75 octets (RFC 5545 section 3.1)
+ */
+function foldLine(line) {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const parts = [];
+  let current = '';
+  let currentLength = 0;
+
+  for (const char of line) {
+    const charLength = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentLength + charLength > limit) {
+      parts.push(current);
+      current = '';
+      currentLength = 0;
+    }
+    current += char;
+    currentLength += charLength;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/**
+ * YYYY-MM-DD -> YYYYMMDD
+ */
+function formatDate(date) {
+  return date.replace(/-/g, '');
+}
+
+/**
+ * Date -> UTC date-time (YYYYMMDDTHHMMSSZ)
+ */
+function formatTimestamp(date) {
+  return date.toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z';
+}
+
+function nextDay(date) {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().split('T')[0];
+}
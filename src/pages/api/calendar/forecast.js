@@ -0,0 +1,44 @@
+/**
+ * Traffic Forecast API Endpoint
+ *
+ * GET /api/calendar/forecast - Projected organic traffic for scheduled and published entries
+ */
+
+export const prerender = false;
+
+import { getRepository } from '../../../lib/storage.js';
+import { serverError, validationError } from '../../../lib/requestSchema.js';
+import { loadForecast, parseForecastParams } from '../../../lib/trafficForecast.js';
+
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const repository = getRepository();
+
+/**
+ * GET /api/calendar/forecast - Monthly and cumulative traffic, month by month from the current one
+ * Query params: see parseForecastParams (months, per_day, approve_ids)
+ * Returns the calendar as it stands (`baseline`) and, when per_day or
+ * approve_ids is given, a what-if `scenario` with the schedule it assumed.
+ * Nothing is written.
+ */
+export async function GET({ url }) {
+  try {
+    const { options, errors } = parseForecastParams(new URL(url).searchParams);
+    if (errors) {
+      return validationError(errors);
+    }
+
+    const forecast = await loadForecast(repository, options);
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: forecast
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to forecast traffic:', error);
+    return serverError(error);
+  }
+}
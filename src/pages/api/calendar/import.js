@@ -0,0 +1,204 @@
+/**
+ * Bulk Keyword Import API Endpoint
+ *
+ * POST /api/calendar/import - Preview or import keywords from CSV/JSON
+ */
+
+export const prerender = false;
+
+import { getRepository } from '../../../lib/storage.js';
+import { parseBody, rules, serverError, validate, validationError } from '../../../lib/requestSchema.js';
+import { loadScoringFormula, scoreFields } from '../../../lib/scoring.js';
+import {
+  parseImport,
+  guessMapping,
+  mapRecord,
+  keywordKey,
+  IMPORT_FIELDS,
+  MAX_IMPORT_ROWS
+} from '../../../lib/keywordImport.js';
+import { ENTRY_FIELDS } from '../../../lib/entryFields.js';
+import { MAX_REVIEWER_LENGTH } from '../../../lib/approvals.js';
+import { buildEvent, recordEvents } from '../../../lib/eventLog.js';
+
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const repository = getRepository();
+const { db } = repository;
+
+const IMPORT_BODY = {
+  format: rules.oneOf(['csv', 'json'], { required: true }),
+  content: rules.string({ required: true }),
+  mapping: rules.object(),
+  dry_run: rules.boolean({ default: true }),
+  reviewer: rules.string({ max: MAX_REVIEWER_LENGTH })
+};
+
+// Calendar field -> source column name
+const MAPPING = Object.fromEntries(IMPORT_FIELDS.map(field => [field, rules.string()]));
+
+// Imported values get the same limits as entries created through POST /api/calendar
+const IMPORT_ROW = Object.fromEntries(IMPORT_FIELDS.map(field => [field, ENTRY_FIELDS[field]]));
+
+/**
+ * POST /api/calendar/import - Bulk import keywords as suggestions
+ * Body: {
+ *   format: 'csv' | 'json' (required)
+ *   content: string (required) - Raw file contents
+ *   mapping: object (optional) - Calendar field (IMPORT_FIELDS) -> source column, guessed if omitted
+ *   dry_run: boolean (default: true) - Preview without inserting
+ *   reviewer: string (optional) - Who ran the import, for the event log
+ * }
+ *
+ * Every row is reported as new, duplicate (already in the calendar or
+ * repeated in the file) or invalid. Only new rows are inserted, scored with
+ * the current formula; a row whose keyword was added meanwhile is moved to
+ * the duplicates.
+ */
+export async function POST({ request }) {
+  try {
+    const { value: body, response } = await parseBody(IMPORT_BODY, request);
+    if (response) {
+      return response;
+    }
+
+    if (body.mapping) {
+      const { errors } = validate(MAPPING, body.mapping, { strict: 'is not an importable field' });
+      if (errors) {
+        return validationError(Object.fromEntries(
+          Object.entries(errors).map(([field, message]) => [`mapping.${field}`, message])
+        ));
+      }
+    }
+
+    let parsed;
+    try {
+      parsed = parseImport(body.format, body.content);
+    } catch (parseError) {
+      return validationError({ content: `Could not parse ${body.format.toUpperCase()}: ${parseError.message}` });
+    }
+
+    if (parsed.records.length > MAX_IMPORT_ROWS) {
+      return validationError({ content: `Imports are limited to ${MAX_IMPORT_ROWS} rows (got ${parsed.records.length})` });
+    }
+
+    const mapping = body.mapping || guessMapping(parsed.columns);
+    const dryRun = body.dry_run;
+
+    // Load existing keywords for duplicate detection
+    const existing = await repository.entries.listKeywords();
+    const formula = await loadScoringFormula(db);
+    const existingByKey = new Map(existing.map(entry => [keywordKey(entry.keyword), entry]));
+    const seenInFile = new Map();
+
+    const preview = { new: [], duplicate: [], invalid: [] };
+
+    parsed.records.forEach((record, index) => {
+      const row = index + 1;
+      const { values, errors } = mapRecord(record, mapping);
+      if (errors.length === 0) {
+        errors.push(...Object.values(validate(IMPORT_ROW, values).errors || {}));
+      }
+
+      if (errors.length > 0) {
+        preview.invalid.push({ row, values, errors });
+        return;
+      }
+
+      const key = keywordKey(values.keyword);
+      const match = existingByKey.get(key);
+      if (match) {
+        preview.duplicate.push({
+          row,
+          values,
+          reason: `Already in calendar as "${match.keyword}" (${match.status})`
+        });
+        return;
+      }
+      if (seenInFile.has(key)) {
+        preview.duplicate.push({
+          row,
+          values,
+          reason: `Repeats row ${seenInFile.get(key)} of this file`
+        });
+        return;
+      }
+
+      seenInFile.set(key, row);
+      preview.new.push({
+        row,
+        values: {
+          ...values,
+          ...scoreFields(values, formula)
+        }
+      });
+    });
+
+    let inserted = [];
+
+    if (!dryRun && preview.new.length > 0) {
+      inserted = await insertRows(preview);
+
+      const meta = { actor: body.reviewer ?? null, source: 'POST /api/calendar/import' };
+      await recordEvents(db, inserted.map(row => buildEvent('import', null, row, meta)));
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: dryRun
+        ? `Preview: ${preview.new.length} new, ${preview.duplicate.length} duplicate, ${preview.invalid.length} invalid`
+        : `Imported ${inserted.length} keywords`,
+      dryRun,
+      columns: parsed.columns,
+      mapping,
+      summary: {
+        total: parsed.records.length,
+        new: preview.new.length,
+        duplicate: preview.duplicate.length,
+        invalid: preview.invalid.length,
+        imported: inserted.length
+      },
+      preview,
+      data: inserted
+    }), {
+      status: dryRun ? 200 : 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to import keywords:', error);
+    return serverError(error);
+  }
+}
+
+/**
+ * Insert the preview's new rows as suggestions
+ * If a keyword was created since the duplicate check (the keyword_key unique
+ * index rejects the batch), rows are inserted one at a time and the taken
+ * ones moved from preview.new to preview.duplicate.
+ * Returns: the inserted rows
+ */
+async function insertRows(preview) {
+  const toRow = ({ values }) => ({ ...values, status: 'suggested' });
+
+  try {
+    return await repository.entries.insertMany(preview.new.map(toRow));
+  } catch (error) {
+    if (error.code !== '23505') throw error;
+  }
+
+  const inserted = [];
+  const added = [];
+
+  for (const item of preview.new) {
+    try {
+      inserted.push(await repository.entries.insert(toRow(item)));
+      added.push(item);
+    } catch (error) {
+      if (error.code !== '23505') throw error;
+      preview.duplicate.push({ row: item.row, values: item.values, reason: 'Added to the calendar while importing' });
+    }
+  }
+
+  preview.new = added;
+  return inserted;
+}
@@ -7,13 +7,62 @@
 
 export const prerender = false;
 
-import { createClient } from '@supabase/supabase-js';
+import { getRepository } from '../../../lib/storage.js';
+import { errorResponse, parseBody, parseQuery, rules, serverError, validationError } from '../../../lib/requestSchema.js';
+import { loadScoringFormula, scoreFields } from '../../../lib/scoring.js';
+import { findCannibalization } from '../../../lib/keywordSimilarity.js';
+import { validateParent } from '../../../lib/topicClusters.js';
+import { ENTRY_STATUSES, INITIAL_STATUSES, applyTransition, getNextActions } from '../../../lib/statusMachine.js';
+import { MAX_REVIEWER_LENGTH, approveEntries } from '../../../lib/approvals.js';
+import { ENTRY_FIELDS, MAX_KEYWORD_LENGTH, normalizeKeyword } from '../../../lib/entryFields.js';
+import { ARTICLE_TYPES } from '../../../lib/keywordImport.js';
+import { recordEvent } from '../../../lib/eventLog.js';
+import { applyApprovalRules } from '../../../lib/approvalRules.js';
 
-// Initialize Supabase client
-const supabase = createClient(
-  import.meta.env.SUPABASE_URL || '',
-  import.meta.env.SUPABASE_SERVICE_KEY || import.meta.env.SUPABASE_ANON_KEY || ''
-);
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const repository = getRepository();
+const { db } = repository;
+
+const SOURCE = 'POST /api/calendar';
+
+// Columns the list can be sorted by
+const SORT_FIELDS = [
+  'planned_date',
+  'keyword',
+  'article_type',
+  'search_volume',
+  'difficulty',
+  'status',
+  'priority_score',
+  'quality_score',
+  'competitor_count',
+  'created_at',
+  'updated_at',
+  'approved_at',
+  'published_at'
+];
+
+// The calendar grid loads a whole range at once
+const MAX_LIST_LIMIT = 1000;
+
+const LIST_QUERY = {
+  status: rules.oneOf(ENTRY_STATUSES),
+  start_date: rules.date(),
+  end_date: rules.date(),
+  parent_id: rules.uuid(),
+  limit: rules.integer({ min: 1, max: MAX_LIST_LIMIT, default: 50 }),
+  offset: rules.integer({ min: 0, default: 0 }),
+  sort: rules.oneOf(SORT_FIELDS, { default: 'planned_date' }),
+  order: rules.oneOf(['asc', 'desc'], { default: 'asc' })
+};
+
+const CREATE_BODY = {
+  ...ENTRY_FIELDS,
+  keyword: rules.string({ max: MAX_KEYWORD_LENGTH, required: true }),
+  article_type: rules.oneOf(ARTICLE_TYPES, { default: 'guide' }),
+  status: rules.oneOf(INITIAL_STATUSES, { default: 'suggested' }),
+  reviewer: rules.string({ max: MAX_REVIEWER_LENGTH })
+};
 
 /**
  * GET /api/calendar - List calendar entries with filtering
@@ -21,26 +70,27 @@ const supabase = createClient(
  * - status: Filter by status (suggested, approved, scheduled, published, etc.)
  * - start_date: Start of date range (YYYY-MM-DD)
  * - end_date: End of date range (YYYY-MM-DD)
- * - limit: Number of results (default 50)
+ * - parent_id: Only cluster articles of this pillar
+ * - limit: Number of results (default 50, max MAX_LIST_LIMIT)
  * - offset: Pagination offset (default 0)
- * - sort: Sort field (default: planned_date)
+ * - sort: Sort field, one of SORT_FIELDS (default: planned_date)
  * - order: Sort order (asc/desc, default: asc)
  */
 export async function GET({ url }) {
   try {
-    const params = new URL(url).searchParams;
-    const status = params.get('status');
-    const startDate = params.get('start_date');
-    const endDate = params.get('end_date');
-    const limit = parseInt(params.get('limit') || '50');
-    const offset = parseInt(params.get('offset') || '0');
-    const sort = params.get('sort') || 'planned_date';
-    const order = params.get('order') || 'asc';
+    const { value: params, response } = parseQuery(LIST_QUERY, new URL(url));
+    if (response) {
+      return response;
+    }
+
+    const { status, limit, offset, sort, order } = params;
+    const startDate = params.start_date;
+    const endDate = params.end_date;
+    const parentId = params.parent_id;
 
     // Build query
-    let query = supabase
-      .from('content_calendar')
-      .select(`
+    let query = repository.entries
+      .query(`
         id,
         planned_date,
         keyword,
@@ -49,6 +99,7 @@ export async function GET({ url }) {
         difficulty,
         status,
         priority_score,
+        score_breakdown,
         quality_score,
         competitor_count,
         created_at,
@@ -57,6 +108,7 @@ export async function GET({ url }) {
         approved_by,
         published_at,
         article_id,
+        parent_id,
         notes
       `, { count: 'exact' });
 
@@ -70,6 +122,9 @@ export async function GET({ url }) {
     if (endDate) {
       query = query.lte('planned_date', endDate);
     }
+    if (parentId) {
+      query = query.eq('parent_id', parentId);
+    }
 
     // Apply sorting and pagination
     query = query
@@ -82,14 +137,9 @@ export async function GET({ url }) {
       throw error;
     }
 
-    // Calculate opportunity score for each entry
     const enrichedData = data.map(entry => ({
       ...entry,
-      opportunity_score: calculateOpportunityScore(
-        entry.search_volume,
-        entry.difficulty,
-        entry.competitor_count
-      )
+      next_actions: getNextActions(entry)
     }));
 
     return new Response(JSON.stringify({
@@ -108,13 +158,7 @@ export async function GET({ url }) {
 
   } catch (error) {
     console.error('Failed to fetch calendar entries:', error);
-    return new Response(JSON.stringify({
-      success: false,
-      error: error.message
-    }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' }
-    });
+    return serverError(error);
   }
 }
 
@@ -122,78 +166,125 @@ export async function GET({ url }) {
  * POST /api/calendar - Create new calendar entry
  * Body: {
  *   keyword: string (required)
- *   article_type: string (default: 'guide')
+ *   article_type: string - One of ARTICLE_TYPES (default: 'guide')
  *   planned_date: string (YYYY-MM-DD)
  *   search_volume: number
- *   difficulty: number
+ *   difficulty: number (0-100)
+ *   competitor_count: number
  *   notes: string
+ *   brief_content: string
+ *   parent_id: string - Pillar entry this article supports
+ *   status: string - One of INITIAL_STATUSES (default: 'suggested'); 'scheduled' needs planned_date
+ *   seo_insights: object - Keyword research data (data_source, cpc, ...)
+ *   reviewer: string - Who created the entry, for the event log; required for
+ *     'approved' and 'scheduled', whose approval they give
  * }
+ * Fields are validated against ENTRY_FIELDS (lib/entryFields.js).
+ * priority_score is computed by the current scoring formula (lib/scoring.js).
+ * New suggestions run through the enabled approval rules (lib/approvalRules.js);
+ * `auto_decision` reports the rule that approved or declined the entry, if any.
+ * Other statuses are reached through the approve and schedule transitions, so
+ * the two-person policy can leave the entry in 'pending_second_approval'.
  */
 export async function POST({ request }) {
   try {
-    const body = await request.json();
-
-    // Validate required fields
-    if (!body.keyword) {
-      return new Response(JSON.stringify({
-        success: false,
-        error: 'Keyword is required'
-      }), {
-        status: 400,
-        headers: { 'Content-Type': 'application/json' }
-      });
+    const { value: body, response } = await parseBody(CREATE_BODY, request);
+    if (response) {
+      return response;
+    }
+
+    const { status } = body;
+    if (status === 'scheduled' && !body.planned_date) {
+      return validationError({ planned_date: 'planned_date is required to create a scheduled entry' });
     }
+    if (status !== 'suggested' && !body.reviewer) {
+      return validationError({ reviewer: `reviewer is required to create an entry as ${status}` });
+    }
+
+    body.keyword = normalizeKeyword(body.keyword);
 
     // Check for duplicate keyword
-    const { data: existing } = await supabase
-      .from('content_calendar')
-      .select('id')
-      .eq('keyword', body.keyword)
-      .single();
+    const existing = await repository.entries.findByKeyword(body.keyword, 'id, keyword, status');
 
     if (existing) {
-      return new Response(JSON.stringify({
-        success: false,
-        error: `Keyword "${body.keyword}" already exists in calendar`
-      }), {
-        status: 409,
-        headers: { 'Content-Type': 'application/json' }
+      return keywordConflict(existing);
+    }
+
+    // Validate pillar reference
+    const parentError = await validateParent(repository, null, body.parent_id);
+    if (parentError) {
+      return validationError({ parent_id: parentError });
+    }
+
+    // Flag near-duplicates that would compete with this keyword in search
+    const cannibalization = findCannibalization(body.keyword, await repository.entries.listKeywords());
+
+    const entryData = {
+      keyword: body.keyword,
+      article_type: body.article_type,
+      planned_date: body.planned_date || null,
+      search_volume: body.search_volume ?? null,
+      difficulty: body.difficulty ?? null,
+      competitor_count: body.competitor_count ?? null,
+      status: 'suggested',
+      notes: body.notes || null,
+      brief_content: body.brief_content || null,
+      seo_insights: body.seo_insights || null,
+      parent_id: body.parent_id || null
+    };
+
+    // Create new entry, scored with the current formula
+    const formula = await loadScoringFormula(db);
+    let data;
+    try {
+      data = await repository.entries.insert({
+        ...entryData,
+        ...scoreFields(entryData, formula)
       });
+    } catch (error) {
+      // Created by someone else since the check above
+      const duplicate = error.code === '23505' && await repository.entries.findByKeyword(body.keyword, 'id, keyword, status');
+      if (!duplicate) throw error;
+      return keywordConflict(duplicate);
     }
 
-    // Calculate priority score
-    const priorityScore = calculateOpportunityScore(
-      body.search_volume || 0,
-      body.difficulty || 50,
-      0
-    );
-
-    // Create new entry
-    const { data, error } = await supabase
-      .from('content_calendar')
-      .insert({
-        keyword: body.keyword,
-        article_type: body.article_type || 'guide',
-        planned_date: body.planned_date || null,
-        search_volume: body.search_volume || null,
-        difficulty: body.difficulty || null,
-        status: body.status || 'suggested',
-        priority_score: priorityScore,
-        notes: body.notes || null,
-        brief_content: body.brief_content || null,
-        seo_insights: body.seo_insights || null
-      })
-      .select()
-      .single();
+    await recordEvent(db, 'create', null, data, {
+      actor: body.reviewer ?? null,
+      source: SOURCE
+    });
 
-    if (error) {
-      throw error;
+    let entry = data;
+    let autoDecision = null;
+    if (status === 'suggested') {
+      autoDecision = await applyApprovalRules(repository, data, { source: SOURCE });
+      entry = autoDecision?.entry || data;
+    } else {
+      entry = await advanceNewEntry(data, status, body.reviewer);
+    }
+
+    let message = cannibalization.length > 0
+      ? `Calendar entry created, but it overlaps ${cannibalization.length} existing ${cannibalization.length === 1 ? 'entry' : 'entries'}`
+      : 'Calendar entry created successfully';
+    if (autoDecision?.entry) {
+      message += `; ${autoDecision.decision === 'approve' ? 'approved' : 'declined'} by rule "${autoDecision.rule.name}"`;
+    }
+    if (entry.status === 'pending_second_approval') {
+      message += `; approved by ${body.reviewer}, waiting for a second reviewer`;
     }
 
     return new Response(JSON.stringify({
       success: true,
-      message: 'Calendar entry created successfully',
-      data
+      message,
+      data: entry,
+      cannibalization,
+      auto_decision: autoDecision && {
+        rule: autoDecision.rule,
+        decision: autoDecision.decision,
+        status: entry.status,
+        planned_date: entry.planned_date,
+        schedule: autoDecision.schedule || null,
+        error: autoDecision.error || null
+      }
     }), {
       status: 201,
       headers: { 'Content-Type': 'application/json' }
@@ -201,41 +292,42 @@ export async function POST({ request }) {
 
   } catch (error) {
     console.error('Failed to create calendar entry:', error);
-    return new Response(JSON.stringify({
-      success: false,
-      error: error.message
-    }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' }
-    });
+    return serverError(error);
   }
 }
 
 /**
- * Calculate opportunity score based on volume and difficulty
+ * 409 for a keyword the calendar already has, in any case or spacing
  */
-function calculateOpportunityScore(volume, difficulty, competitorCount) {
-  if (!volume || !difficulty) return 0;
-
-  // Base score from volume/difficulty ratio
-  let score = (volume / Math.max(difficulty, 1)) * 10;
+function keywordConflict(existing) {
+  return errorResponse('CONFLICT', `Keyword "${existing.keyword}" already exists in calendar (${existing.status})`, {
+    fields: { keyword: 'Keyword already exists in calendar' }
+  });
+}
 
-  // Boost for low competition
-  if (competitorCount <= 3) {
-    score *= 1.5;
-  } else if (competitorCount <= 5) {
-    score *= 1.2;
+/**
+ * Take a new suggestion to the status it was created in
+ * Runs the approve transition under the approval policy, then schedule on
+ * its planned_date. An entry that needs a second approval stops there.
+ * Returns: the updated row
+ */
+async function advanceNewEntry(entry, status, reviewer) {
+  const { approved, pending, failed } = await approveEntries(repository, [entry.id], reviewer, { source: SOURCE });
+  if (failed.length > 0) {
+    throw new Error(failed[0].error);
   }
 
-  // Boost for sweet spot difficulty (30-50)
-  if (difficulty >= 30 && difficulty <= 50) {
-    score *= 1.3;
+  if (status !== 'scheduled' || pending.length > 0) {
+    return approved[0] || pending[0];
   }
 
-  // Penalty for very high difficulty
-  if (difficulty > 70) {
-    score *= 0.5;
+  const { data, error } = await applyTransition(repository, 'schedule', entry.id, {
+    plannedDate: entry.planned_date,
+    actor: reviewer,
+    source: SOURCE
+  });
+  if (error) {
+    throw new Error(error);
   }
-
-  return Math.round(Math.min(score, 100));
-}
\ No newline at end of file
+  return data;
+}
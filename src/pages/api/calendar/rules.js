@@ -0,0 +1,106 @@
+/**
+ * Approval Rules API Endpoint
+ *
+ * GET /api/calendar/rules - List auto-approve / auto-decline rules
+ * POST /api/calendar/rules - Create a rule
+ */
+
+export const prerender = false;
+
+import { getRepository } from '../../../lib/storage.js';
+import { errorResponse, readBody, rules, serverError, validate, validationError } from '../../../lib/requestSchema.js';
+import { loadRules, parseRule, RULE_FIELDS, RULE_OPERATORS } from '../../../lib/approvalRules.js';
+import { MAX_REVIEWER_LENGTH } from '../../../lib/approvals.js';
+
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const { db } = getRepository();
+
+// Besides the rule definition (checked by parseRule)
+const CREATE_BODY = {
+  created_by: rules.string({ max: MAX_REVIEWER_LENGTH })
+};
+
+/**
+ * GET /api/calendar/rules - List rules in evaluation order
+ * Also returns the fields and operators conditions may use.
+ */
+export async function GET() {
+  try {
+    const approvalRules = await loadRules(db);
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: approvalRules,
+      fields: RULE_FIELDS,
+      operators: RULE_OPERATORS
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to fetch approval rules:', error);
+    return serverError(error);
+  }
+}
+
+/**
+ * POST /api/calendar/rules - Create a rule
+ * Body: {
+ *   name: string (required) - Unique rule name, shown on every decision it makes
+ *   decision: 'approve' | 'decline' (required)
+ *   conditions: [{ field, op, value }] (required) - All must match; see RULE_FIELDS / RULE_OPERATORS
+ *   priority: number (default 100) - Lower runs first; the first matching rule decides
+ *   enabled: boolean (default true)
+ *   auto_schedule: boolean (approve only) - Schedule approved entries in the first free slot
+ *   decline_categories: string[] (decline only) - Values from DECLINE_CATEGORIES
+ *   decline_reason: string (decline only) - Feedback recorded on declined entries
+ *   created_by: string (optional) - Who created the rule
+ * }
+ */
+export async function POST({ request }) {
+  try {
+    const { value: body, response } = await readBody(request);
+    if (response) {
+      return response;
+    }
+
+    const { value: meta, errors: metaErrors } = validate(CREATE_BODY, body);
+    const { rule, errors: ruleErrors } = parseRule(body);
+    if (metaErrors || ruleErrors) {
+      return validationError({ ...ruleErrors, ...metaErrors });
+    }
+
+    const { data, error } = await db
+      .from('approval_rules')
+      .insert({
+        ...rule,
+        created_by: meta.created_by ?? null
+      })
+      .select()
+      .single();
+
+    if (error?.code === '23505') {
+      return errorResponse('CONFLICT', `A rule named "${rule.name}" already exists`, {
+        fields: { name: 'Rule name already exists' }
+      });
+    }
+
+    if (error) {
+      throw error;
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'Rule created',
+      data
+    }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to create approval rule:', error);
+    return serverError(error);
+  }
+}
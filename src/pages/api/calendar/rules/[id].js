@@ -0,0 +1,124 @@
+/**
+ * Approval Rule API Endpoint
+ *
+ * PATCH /api/calendar/rules/[id] - Change a rule, or switch it on or off
+ * DELETE /api/calendar/rules/[id] - Delete a rule
+ */
+
+export const prerender = false;
+
+import { getRepository } from '../../../../lib/storage.js';
+import { errorResponse, parseIds, readBody, serverError, validationError } from '../../../../lib/requestSchema.js';
+import { parseRule } from '../../../../lib/approvalRules.js';
+
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const { db } = getRepository();
+
+/**
+ * PATCH /api/calendar/rules/[id] - Update a rule
+ * Body: any of the fields accepted by POST /api/calendar/rules
+ * The merged rule is validated as a whole. Changes only affect entries created afterwards.
+ */
+export async function PATCH({ params, request }) {
+  try {
+    const { value: path, response: pathResponse } = parseIds(params);
+    if (pathResponse) {
+      return pathResponse;
+    }
+
+    const { id } = path;
+    const { value: body, response } = await readBody(request);
+    if (response) {
+      return response;
+    }
+
+    const { data: existing, error: existingError } = await db
+      .from('approval_rules')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (existingError) {
+      throw existingError;
+    }
+
+    if (!existing) {
+      return errorResponse('NOT_FOUND', 'Rule not found');
+    }
+
+    const { rule, errors } = parseRule(body, existing);
+    if (errors) {
+      return validationError(errors);
+    }
+
+    const { data, error } = await db
+      .from('approval_rules')
+      .update({ ...rule, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error?.code === '23505') {
+      return errorResponse('CONFLICT', `A rule named "${rule.name}" already exists`, {
+        fields: { name: 'Rule name already exists' }
+      });
+    }
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return errorResponse('NOT_FOUND', 'Rule not found');
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'Rule updated',
+      data
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to update approval rule:', error);
+    return serverError(error);
+  }
+}
+
+/**
+ * DELETE /api/calendar/rules/[id] - Delete a rule
+ * Entries it decided keep its name in auto_rule_name.
+ */
+export async function DELETE({ params }) {
+  try {
+    const { value: path, response } = parseIds(params);
+    if (response) {
+      return response;
+    }
+
+    const { id } = path;
+
+    const { error } = await db
+      .from('approval_rules')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'Rule deleted'
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to delete approval rule:', error);
+    return serverError(error);
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Approval Rule Preview API Endpoint
+ *
+ * POST /api/calendar/rules/preview - Dry-run a rule against existing entries
+ */
+
+export const prerender = false;
+
+import { getRepository } from '../../../../lib/storage.js';
+import { readBody, serverError, validationError } from '../../../../lib/requestSchema.js';
+import { parseRule, previewRule } from '../../../../lib/approvalRules.js';
+
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const repository = getRepository();
+
+/**
+ * POST /api/calendar/rules/preview - What a rule would have matched
+ * Body: a rule definition as for POST /api/calendar/rules (saved or not)
+ * Nothing is changed. Matches are compared with what reviewers actually
+ * decided; `conflicts` lists matches they decided the other way.
+ */
+export async function POST({ request }) {
+  try {
+    const { value: body, response } = await readBody(request);
+    if (response) {
+      return response;
+    }
+
+    const { rule, errors } = parseRule(body);
+    if (errors) {
+      return validationError(errors);
+    }
+
+    const preview = await previewRule(repository, rule);
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: `Would have matched ${preview.matched} of ${preview.scanned} entries`,
+      data: preview
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to preview approval rule:', error);
+    return serverError(error);
+  }
+}
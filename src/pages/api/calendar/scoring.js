@@ -0,0 +1,113 @@
+/**
+ * Opportunity Scoring API Endpoint
+ *
+ * GET /api/calendar/scoring - Current formula, its history and how many scores are stale
+ * POST /api/calendar/scoring - Save new weights as the next formula version
+ */
+
+export const prerender = false;
+
+import { getRepository } from '../../../lib/storage.js';
+import { errorResponse, parseBody, rules, serverError, validationError } from '../../../lib/requestSchema.js';
+import {
+  countStaleScores,
+  loadFormulaHistory,
+  loadScoringFormula,
+  parseFormula,
+  saveScoringFormula,
+  SCORE_FACTORS
+} from '../../../lib/scoring.js';
+import { ARTICLE_TYPES } from '../../../lib/keywordImport.js';
+import { MAX_REVIEWER_LENGTH } from '../../../lib/approvals.js';
+
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const repository = getRepository();
+const { db } = repository;
+
+// Weights and article type values are checked by parseFormula
+const FORMULA_BODY = {
+  weights: rules.object(),
+  article_types: rules.object(),
+  notes: rules.string({ max: 2000 }),
+  created_by: rules.string({ max: MAX_REVIEWER_LENGTH })
+};
+
+/**
+ * GET /api/calendar/scoring - The formula in use
+ * Returns the formula, earlier versions (`history`), the factors and article
+ * types it weighs, and `stale`: entries scored by an older version, or valued
+ * under other value settings (see lib/pipelineValue.js).
+ */
+export async function GET() {
+  try {
+    const formula = await loadScoringFormula(db);
+    const [history, stale] = await Promise.all([
+      loadFormulaHistory(db),
+      countStaleScores(repository, formula.version)
+    ]);
+
+    return new Response(JSON.stringify({
+      success: true,
+      data: formula,
+      history,
+      stale,
+      factors: SCORE_FACTORS,
+      article_types: ARTICLE_TYPES
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to fetch scoring formula:', error);
+    return serverError(error);
+  }
+}
+
+/**
+ * POST /api/calendar/scoring - Save a new formula version
+ * Body: {
+ *   weights: { volume?, difficulty?, competitors?, cpc?, article_type? } - Non-negative numbers; relative to each other
+ *   article_types: { [type]: number } - 0-1 value of each article type
+ *   notes: string (optional) - Why the weights changed
+ *   created_by: string (optional) - Who saved the version
+ * }
+ * Omitted weights keep their current value. Existing scores are not touched:
+ * run POST /api/calendar/scoring/backfill to rescore them.
+ */
+export async function POST({ request }) {
+  try {
+    const { value: body, response } = await parseBody(FORMULA_BODY, request);
+    if (response) {
+      return response;
+    }
+
+    const current = await loadScoringFormula(db);
+    const { formula, errors } = parseFormula(body, current);
+    if (errors) {
+      return validationError(errors);
+    }
+
+    let data;
+    try {
+      data = await saveScoringFormula(db, formula, body.created_by ?? null);
+    } catch (error) {
+      if (error.code !== '23505') throw error;
+      return errorResponse('CONFLICT', 'Someone else saved a new version at the same time; reload and try again');
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: `Saved scoring formula version ${data.version}`,
+      data,
+      stale: await countStaleScores(repository, data.version)
+    }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to save scoring formula:', error);
+    return serverError(error);
+  }
+}
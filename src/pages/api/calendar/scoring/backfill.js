@@ -0,0 +1,60 @@
+/**
+ * Score Backfill API Endpoint
+ *
+ * POST /api/calendar/scoring/backfill - Rescore entries scored by an older formula version
+ */
+
+export const prerender = false;
+
+import { getRepository } from '../../../../lib/storage.js';
+import { parseBody, rules, serverError } from '../../../../lib/requestSchema.js';
+import { MAX_BACKFILL_BATCH, backfillScores, loadScoringFormula } from '../../../../lib/scoring.js';
+import { MAX_REVIEWER_LENGTH } from '../../../../lib/approvals.js';
+
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const repository = getRepository();
+const { db } = repository;
+
+const BACKFILL_BODY = {
+  batch_size: rules.integer({ min: 1, max: MAX_BACKFILL_BATCH, default: 200 }),
+  reviewer: rules.string({ max: MAX_REVIEWER_LENGTH })
+};
+
+/**
+ * POST /api/calendar/scoring/backfill - Rescore one batch with the current formula
+ * Body (optional): {
+ *   batch_size: number (default 200, max MAX_BACKFILL_BATCH)
+ *   reviewer: string (optional) - Who ran the backfill, for the event log
+ * }
+ * Returns { version, rescored, remaining }; call again until remaining is 0.
+ */
+export async function POST({ request }) {
+  try {
+    const { value: body, response } = await parseBody(BACKFILL_BODY, request, { optional: true });
+    if (response) {
+      return response;
+    }
+
+    const formula = await loadScoringFormula(db);
+    const result = await backfillScores(repository, formula, {
+      batchSize: body.batch_size,
+      actor: body.reviewer ?? null,
+      source: 'POST /api/calendar/scoring/backfill'
+    });
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: result.remaining > 0
+        ? `Rescored ${result.rescored} entries; ${result.remaining} left`
+        : `Rescored ${result.rescored} entries; all scores use version ${result.version}`,
+      data: result
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to backfill scores:', error);
+    return serverError(error);
+  }
+}
@@ -6,13 +6,11 @@
 
 export const prerender = false;
 
-import { createClient } from '@supabase/supabase-js';
+import { getRepository } from '../../../lib/storage.js';
+import { serverError } from '../../../lib/requestSchema.js';
 
-// Initialize Supabase client
-const supabase = createClient(
-  import.meta.env.SUPABASE_URL || '',
-  import.meta.env.SUPABASE_SERVICE_KEY || import.meta.env.SUPABASE_ANON_KEY || ''
-);
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const repository = getRepository();
 
 /**
  * GET /api/calendar/stats - Get calendar statistics
@@ -21,46 +19,28 @@ const supabase = createClient(
 export async function GET() {
   try {
     // Get all counts in parallel using aggregation
-    const [suggestedResult, approvedResult, scheduledResult, publishedResult, todayResult] = await Promise.all([
-      supabase
-        .from('content_calendar')
-        .select('id', { count: 'exact', head: true })
-        .eq('status', 'suggested'),
-      supabase
-        .from('content_calendar')
-        .select('id', { count: 'exact', head: true })
-        .eq('status', 'approved'),
-      supabase
-        .from('content_calendar')
-        .select('id', { count: 'exact', head: true })
-        .eq('status', 'scheduled'),
-      supabase
-        .from('content_calendar')
-        .select('id', { count: 'exact', head: true })
-        .eq('status', 'published'),
-      supabase
-        .from('content_calendar')
-        .select('*')
+    const [suggested, approved, scheduled, published, todayResult] = await Promise.all([
+      repository.entries.count(['suggested', 'pending_second_approval']), // Everything awaiting review
+      repository.entries.count(['approved']),
+      repository.entries.count(['scheduled']),
+      repository.entries.count(['published']),
+      repository.entries
+        .query('*')
         .eq('status', 'scheduled')
         .gte('planned_date', new Date().toISOString().split('T')[0])
         .lte('planned_date', new Date().toISOString().split('T')[0])
         .limit(1)
     ]);
 
-    // Check for errors
-    if (suggestedResult.error) throw suggestedResult.error;
-    if (approvedResult.error) throw approvedResult.error;
-    if (scheduledResult.error) throw scheduledResult.error;
-    if (publishedResult.error) throw publishedResult.error;
     if (todayResult.error) throw todayResult.error;
 
     return new Response(JSON.stringify({
       success: true,
       stats: {
-        suggested: suggestedResult.count || 0,
-        approved: approvedResult.count || 0,
-        scheduled: scheduledResult.count || 0,
-        published: publishedResult.count || 0,
+        suggested: suggested || 0,
+        approved: approved || 0,
+        scheduled: scheduled || 0,
+        published: published || 0,
         todayScheduled: todayResult.data?.[0] || null
       }
     }), {
@@ -70,12 +50,6 @@ export async function GET() {
 
   } catch (error) {
     console.error('Failed to fetch calendar stats:', error);
-    return new Response(JSON.stringify({
-      success: false,
-      error: error.message
-    }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' }
-    });
+    return serverError(error);
   }
 }
@@ -7,29 +7,49 @@
 
 export const prerender = false;
 
-import { createClient } from '@supabase/supabase-js';
+import { getRepository } from '../../../lib/storage.js';
+import { errorResponse, parseBody, rules, serverError } from '../../../lib/requestSchema.js';
 import Anthropic from '@anthropic-ai/sdk';
+import { loadDeclines, summarizeDeclines, formatDeclinePatterns } from '../../../lib/declineReasons.js';
+import { loadValuation, matchesRoiBand, ROI_BANDS, valueEntry } from '../../../lib/pipelineValue.js';
 
-const supabase = createClient(
-  import.meta.env.SUPABASE_URL || '',
-  import.meta.env.SUPABASE_SERVICE_KEY || import.meta.env.SUPABASE_ANON_KEY || ''
-);
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const repository = getRepository();
+
+const SUMMARY_BODY = {
+  days: rules.integer({ min: 1, max: 365, default: 7 }),
+  rank_by: rules.oneOf(['recent', 'roi'], { default: 'recent' }),
+  roi: rules.oneOf([...ROI_BANDS, 'no-cpc'], { nullable: true })
+};
 
 const anthropic = new Anthropic({
   apiKey: import.meta.env.ANTHROPIC_API_KEY || '',
 });
 
+/**
+ * POST /api/calendar/strategy-summary - Generate the strategy report
+ * Body: {
+ *   days: number (default 7, max 365) - Suggestions created in the last N days
+ *   rank_by: 'recent' | 'roi' (default 'recent') - Order keywords are presented in
+ *   roi: 'high' | 'positive' | 'negative' | 'no-cpc' (optional) - Only keywords in this ROI band
+ *     ('high': the top ROI_HIGH_SHARE of valued entries that pay back)
+ * }
+ */
 export async function POST({ request }) {
   try {
-    const { days = 7 } = await request.json();
+    const { value: body, response } = await parseBody(SUMMARY_BODY, request);
+    if (response) {
+      return response;
+    }
+
+    const { days, rank_by: rankBy, roi = null } = body;
 
     // Fetch recent keyword suggestions
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - days);
 
-    const { data: recentKeywords, error: keywordsError } = await supabase
-      .from('content_calendar')
-      .select('*')
+    const { data: recentKeywords, error: keywordsError } = await repository.entries
+      .query('*')
       .eq('status', 'suggested')
       .gte('created_at', cutoffDate.toISOString())
       .order('created_at', { ascending: false});
@@ -38,43 +58,45 @@ export async function POST({ request }) {
       throw new Error(`Failed to fetch keywords: ${keywordsError.message}`);
     }
 
+    // Estimated value and ROI per keyword, for ranking, filtering and the prompt
+    const valuation = await loadValuation(repository);
+    let keywords = (recentKeywords || []).map(keyword => ({ ...keyword, value: valueEntry(keyword, valuation) }));
+    if (roi) {
+      keywords = keywords.filter(keyword => matchesRoiBand(keyword.value, roi, valuation));
+    }
+    if (rankBy === 'roi') {
+      keywords.sort((a, b) => (b.value.roi ?? b.value.pipeline_value ?? -Infinity) - (a.value.roi ?? a.value.pipeline_value ?? -Infinity));
+    }
+
+    if (recentKeywords?.length > 0 && keywords.length === 0) {
+      return errorResponse('NOT_FOUND', 'No recent keyword suggestions match the ROI filter');
+    }
+
     if (!recentKeywords || recentKeywords.length === 0) {
-      return new Response(JSON.stringify({
-        success: false,
-        error: 'No recent keyword suggestions found'
-      }), {
-        status: 404,
-        headers: { 'Content-Type': 'application/json' }
-      });
+      return errorResponse('NOT_FOUND', 'No recent keyword suggestions found');
     }
 
-    // Fetch declined keywords for context
-    const { data: declinedKeywords } = await supabase
-      .from('content_calendar')
-      .select('keyword, decline_reason, search_volume, difficulty')
-      .eq('status', 'rejected')
-      .not('decline_reason', 'is', null)
-      .order('created_at', { ascending: false })
-      .limit(20);
+    // Aggregate decline feedback for context
+    const declinePatterns = summarizeDeclines(await loadDeclines(repository, 90));
 
     // Fetch existing/approved keywords for context
-    const { data: existingKeywords } = await supabase
-      .from('content_calendar')
-      .select('keyword, article_type')
+    const { data: existingKeywords } = await repository.entries
+      .query('keyword, article_type')
       .in('status', ['approved', 'scheduled', 'generating', 'in_progress', 'published'])
       .limit(50);
 
     // Generate strategy summary with Claude
     const summary = await generateStrategySummary(
-      recentKeywords,
-      declinedKeywords || [],
-      existingKeywords || []
+      keywords,
+      declinePatterns,
+      existingKeywords || [],
+      { valuation, rankBy }
     );
 
     return new Response(JSON.stringify({
       success: true,
       summary,
-      keywordCount: recentKeywords.length,
+      keywordCount: keywords.length,
       generatedAt: new Date().toISOString()
     }), {
       status: 200,
@@ -83,32 +105,29 @@ export async function POST({ request }) {
 
   } catch (error) {
     console.error('Failed to generate strategy summary:', error);
-    return new Response(JSON.stringify({
-      success: false,
-      error: error.message
-    }), {
-      status: 500,
-      headers: { 'Content-Type': 'application/json' }
-    });
+    return serverError(error);
   }
 }
 
-async function generateStrategySummary(recentKeywords, declinedKeywords, existingKeywords) {
+async function generateStrategySummary(recentKeywords, declinePatterns, existingKeywords, { valuation, rankBy }) {
+  const { assumptions, cost } = valuation;
   const prompt = `You are an SEO strategist analyzing keyword research decisions for a RevOps automation consulting agency.
 
-**RECENT KEYWORD SUGGESTIONS (${recentKeywords.length} keywords):**
+**RECENT KEYWORD SUGGESTIONS (${recentKeywords.length} keywords${rankBy === 'roi' ? ', highest estimated ROI first' : ''}):**
 ${recentKeywords.map(k => {
   const dataSource = k.data_sources?.search_volume === 'dataforseo' ? '📊 Real Data' : '🤖 AI Estimate';
   return `- "${k.keyword}" (${k.article_type})
-  Volume: ${k.search_volume?.toLocaleString() || 'N/A'}/mo | Difficulty: ${k.difficulty || 'N/A'} | Opportunity: ${k.opportunity_score || 'N/A'}/100
+  Volume: ${k.search_volume?.toLocaleString() || 'N/A'}/mo | Difficulty: ${k.difficulty || 'N/A'} | Opportunity: ${k.priority_score ?? 'N/A'}/100
   Competitors: ${k.competitor_count || 'N/A'} | Source: ${dataSource}
+  CPC: ${k.seo_insights?.cpc != null ? `$${k.seo_insights.cpc}` : 'N/A'} | Est. pipeline: ${k.value.pipeline_value != null ? `$${k.value.pipeline_value}/mo` : 'N/A'} | Est. ROI: ${k.value.roi != null ? `${Math.round(k.value.roi * 100)}%` : 'N/A'}
   Reasoning: ${k.notes || 'N/A'}`;
 }).join('\n\n')}
 
-**PREVIOUSLY DECLINED KEYWORDS (for context):**
-${declinedKeywords.length > 0 ? declinedKeywords.slice(0, 10).map(k =>
-  `- "${k.keyword}" - Declined because: ${k.decline_reason}`
-).join('\n') : 'None'}
+**VALUE ASSUMPTIONS:**
+Pipeline = estimated traffic × CPC × ${assumptions.conversionRate} lead rate × ${assumptions.cpcMultiple}× CPC per lead. ROI counts ${assumptions.horizonMonths} months of pipeline against the average generation cost of ${cost.average != null ? `$${cost.average} per article` : 'an article (no cost history yet, so no ROI)'}.
+
+**DECLINE PATTERNS, LAST 90 DAYS (${declinePatterns.total} declined keywords, by reviewer category):**
+${formatDeclinePatterns(declinePatterns)}
 
 **EXISTING/APPROVED KEYWORDS (for context):**
 ${existingKeywords.length > 0 ? existingKeywords.slice(0, 20).map(k =>
@@ -130,7 +149,7 @@ Write a comprehensive 1-2 page strategic analysis document explaining:
 
 4. **Data Quality Assessment** - Comment on the mix of real DataForSEO data vs. AI estimates and what that means
 
-5. **Opportunity Analysis** - Which keywords have the highest potential and why?
+5. **Opportunity Analysis** - Which keywords have the highest potential and why? Weigh estimated pipeline value and ROI, not just volume
 
 6. **Risk Assessment** - Are there any concerns or challenges with these selections?
 
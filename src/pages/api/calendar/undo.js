@@ -0,0 +1,64 @@
+/**
+ * Undo API Endpoint
+ *
+ * POST /api/calendar/undo - Restore the rows changed by an approve, decline or schedule action
+ */
+
+export const prerender = false;
+
+import { getRepository } from '../../../lib/storage.js';
+import { parseBody, rules, serverError, statusError } from '../../../lib/requestSchema.js';
+import { undoAction } from '../../../lib/undoLog.js';
+import { MAX_REVIEWER_LENGTH } from '../../../lib/approvals.js';
+
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const repository = getRepository();
+
+const UNDO_BODY = {
+  action_id: rules.uuid({ required: true }),
+  reviewer: rules.string({ max: MAX_REVIEWER_LENGTH })
+};
+
+/**
+ * POST /api/calendar/undo - Undo an action within its undo window
+ * Body: {
+ *   action_id: string (required) - undo.action_id returned by the action
+ *   reviewer: string (optional) - Who undid the action, for the event log
+ * }
+ */
+export async function POST({ request }) {
+  try {
+    const { value: body, response } = await parseBody(UNDO_BODY, request);
+    if (response) {
+      return response;
+    }
+
+    const result = await undoAction(repository, body.action_id, {
+      actor: body.reviewer ?? null,
+      source: 'POST /api/calendar/undo'
+    });
+
+    if (result.error) {
+      return statusError(result.status, result.error);
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: result.skipped.length > 0
+        ? `Restored ${result.restored.length} of ${result.restored.length + result.skipped.length} entries`
+        : `Restored ${result.restored.length} ${result.restored.length === 1 ? 'entry' : 'entries'}`,
+      action: result.action,
+      data: {
+        restored: result.restored,
+        skipped: result.skipped
+      }
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to undo action:', error);
+    return serverError(error);
+  }
+}
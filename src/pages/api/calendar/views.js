@@ -0,0 +1,105 @@
+/**
+ * Saved Views API Endpoint
+ *
+ * GET /api/calendar/views - List saved approval table views
+ * POST /api/calendar/views - Save the current filters as a named view
+ */
+
+export const prerender = false;
+
+import { getRepository } from '../../../lib/storage.js';
+import { errorResponse, parseBody, rules, serverError, validationError } from '../../../lib/requestSchema.js';
+import { MAX_VIEW_NAME_LENGTH, parseApprovalFilters, serializeApprovalFilters } from '../../../lib/approvalFilters.js';
+import { MAX_REVIEWER_LENGTH } from '../../../lib/approvals.js';
+
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const { db } = getRepository();
+
+// Filter values are checked by parseApprovalFilters
+const VIEW_BODY = {
+  name: rules.string({ required: true, max: MAX_VIEW_NAME_LENGTH }),
+  filters: rules.object({ required: true }),
+  created_by: rules.string({ max: MAX_REVIEWER_LENGTH })
+};
+
+/**
+ * GET /api/calendar/views - List saved views, alphabetically
+ */
+export async function GET() {
+  try {
+    const { data, error } = await db
+      .from('approval_views')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      data
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to fetch saved views:', error);
+    return serverError(error);
+  }
+}
+
+/**
+ * POST /api/calendar/views - Save a view
+ * Body: {
+ *   name: string (required) - Unique view name
+ *   filters: object (required) - Approval table filters, as in the page URL
+ *   created_by: string (optional) - Who saved the view
+ * }
+ */
+export async function POST({ request }) {
+  try {
+    const { value: body, response } = await parseBody(VIEW_BODY, request);
+    if (response) {
+      return response;
+    }
+
+    const { name } = body;
+    const { filters, invalid } = parseApprovalFilters(body.filters);
+    if (invalid.length > 0) {
+      return validationError({ filters: `Invalid filters: ${invalid.join(', ')}` });
+    }
+
+    const { data, error } = await db
+      .from('approval_views')
+      .insert({
+        name,
+        filters: serializeApprovalFilters(filters),
+        created_by: body.created_by ?? null
+      })
+      .select()
+      .single();
+
+    if (error?.code === '23505') {
+      return errorResponse('CONFLICT', `A view named "${name}" already exists`);
+    }
+
+    if (error) {
+      throw error;
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'View saved',
+      data
+    }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to save view:', error);
+    return serverError(error);
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Saved View API Endpoint
+ *
+ * PATCH /api/calendar/views/[id] - Rename a view or replace its filters
+ * DELETE /api/calendar/views/[id] - Delete a view
+ */
+
+export const prerender = false;
+
+import { getRepository } from '../../../../lib/storage.js';
+import { errorResponse, parseBody, parseIds, rules, serverError, validationError } from '../../../../lib/requestSchema.js';
+import { MAX_VIEW_NAME_LENGTH, parseApprovalFilters, serializeApprovalFilters } from '../../../../lib/approvalFilters.js';
+
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const { db } = getRepository();
+
+const UPDATE_BODY = {
+  name: rules.string({ max: MAX_VIEW_NAME_LENGTH }),
+  filters: rules.object()
+};
+
+/**
+ * PATCH /api/calendar/views/[id] - Update a view
+ * Body: {
+ *   name: string (optional) - New unique name
+ *   filters: object (optional) - Replacement filters
+ * }
+ */
+export async function PATCH({ params, request }) {
+  try {
+    const { value: path, response: pathResponse } = parseIds(params);
+    if (pathResponse) {
+      return pathResponse;
+    }
+
+    const { id } = path;
+    const { value: body, response } = await parseBody(UPDATE_BODY, request);
+    if (response) {
+      return response;
+    }
+
+    const updates = {};
+
+    if (body.name !== undefined) {
+      updates.name = body.name;
+    }
+
+    if (body.filters !== undefined) {
+      const { filters, invalid } = parseApprovalFilters(body.filters);
+      if (invalid.length > 0) {
+        return validationError({ filters: `Invalid filters: ${invalid.join(', ')}` });
+      }
+      updates.filters = serializeApprovalFilters(filters);
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return validationError({ body: 'Nothing to update; send name and/or filters' });
+    }
+
+    const { data, error } = await db
+      .from('approval_views')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .maybeSingle();
+
+    if (error?.code === '23505') {
+      return errorResponse('CONFLICT', `A view named "${updates.name}" already exists`);
+    }
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      return errorResponse('NOT_FOUND', 'View not found');
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'View updated',
+      data
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to update view:', error);
+    return serverError(error);
+  }
+}
+
+/**
+ * DELETE /api/calendar/views/[id] - Delete a view
+ */
+export async function DELETE({ params }) {
+  try {
+    const { value: path, response } = parseIds(params);
+    if (response) {
+      return response;
+    }
+
+    const { id } = path;
+
+    const { data, error } = await db
+      .from('approval_views')
+      .delete()
+      .eq('id', id)
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+
+    if (data.length === 0) {
+      return errorResponse('NOT_FOUND', 'View not found');
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: 'View deleted'
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to delete view:', error);
+    return serverError(error);
+  }
+}
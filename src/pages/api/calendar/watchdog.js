@@ -0,0 +1,92 @@
+/**
+ * Generation Watchdog API Endpoint
+ *
+ * GET /api/calendar/watchdog - Failed generations with their reasons
+ * POST /api/calendar/watchdog - Recover entries stuck in 'generating'
+ *
+ * The sweep also runs on a schedule through GET /api/calendar/watchdog/cron.
+ */
+
+export const prerender = false;
+
+import { getRepository } from '../../../lib/storage.js';
+import { parseQuery, rules, serverError } from '../../../lib/requestSchema.js';
+import { getWatchdogPolicy, runWatchdog, summarizeRecoveries } from '../../../lib/generationWatchdog.js';
+
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const repository = getRepository();
+
+const FAILED_QUERY = {
+  limit: rules.integer({ min: 1, max: 200, default: 20 })
+};
+
+/**
+ * GET /api/calendar/watchdog - Entries whose generation failed
+ * Query params:
+ * - limit: Number of results (default 20, max 200)
+ */
+export async function GET({ url }) {
+  try {
+    const { value: params, response } = parseQuery(FAILED_QUERY, new URL(url));
+    if (response) {
+      return response;
+    }
+
+    const { limit } = params;
+
+    const { data, error } = await repository.entries
+      .query('id, keyword, article_type, status, planned_date, failure_reason, failed_at, generation_attempts')
+      .eq('status', 'failed')
+      .order('failed_at', { ascending: false, nullsFirst: false })
+      .limit(limit);
+
+    if (error) {
+      throw error;
+    }
+
+    return new Response(JSON.stringify({
+      success: true,
+      policy: getWatchdogPolicy(),
+      data
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to fetch failed generations:', error);
+    return serverError(error);
+  }
+}
+
+/**
+ * POST /api/calendar/watchdog - Sweep stuck generations
+ * Entries in 'generating' past GENERATION_TIMEOUT_MINUTES without workflow
+ * progress are marked failed with a reason, then retried or reverted to
+ * 'scheduled' per the retry policy. Safe to call repeatedly (e.g. from cron).
+ */
+export async function POST() {
+  try {
+    const policy = getWatchdogPolicy();
+    const results = await runWatchdog(repository, policy);
+
+    const summary = summarizeRecoveries(results);
+
+    return new Response(JSON.stringify({
+      success: true,
+      message: results.length > 0
+        ? `Recovered ${results.length} stuck ${results.length === 1 ? 'generation' : 'generations'}`
+        : 'No stuck generations',
+      policy,
+      summary,
+      data: results
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to run generation watchdog:', error);
+    return serverError(error);
+  }
+}
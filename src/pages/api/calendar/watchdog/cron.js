@@ -0,0 +1,49 @@
+/**
+ * Scheduled Generation Watchdog
+ *
+ * GET /api/calendar/watchdog/cron - Recover stuck generations on a schedule
+ *
+ * Called by the Vercel cron job in vercel.json, so stuck jobs are recovered
+ * whether or not anyone has the dashboard open.
+ *
+ * Env:
+ * - CRON_SECRET: when set, requests must send `Authorization: Bearer <secret>`
+ *   (Vercel adds it to cron requests)
+ */
+
+export const prerender = false;
+
+import { getRepository } from '../../../../lib/storage.js';
+import { errorResponse, serverError } from '../../../../lib/requestSchema.js';
+import { runWatchdog, summarizeRecoveries } from '../../../../lib/generationWatchdog.js';
+
+// Calendar storage: Supabase, or the in-memory store (see lib/storage.js)
+const repository = getRepository();
+
+/**
+ * GET /api/calendar/watchdog/cron - Sweep stuck generations
+ * Same sweep as POST /api/calendar/watchdog.
+ */
+export async function GET({ request }) {
+  const secret = import.meta.env.CRON_SECRET;
+  if (secret && request.headers.get('Authorization') !== `Bearer ${secret}`) {
+    return errorResponse('FORBIDDEN', 'Invalid cron secret');
+  }
+
+  try {
+    const results = await runWatchdog(repository);
+
+    return new Response(JSON.stringify({
+      success: true,
+      summary: summarizeRecoveries(results),
+      data: results
+    }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Failed to run scheduled generation watchdog:', error);
+    return serverError(error);
+  }
+}
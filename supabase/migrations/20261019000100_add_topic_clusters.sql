@@ -0,0 +1,5 @@
+-- Topic clusters: a cluster article references its pillar page
+alter table content_calendar
+  add column if not exists parent_id uuid references content_calendar(id) on delete set null;
+
+create index if not exists content_calendar_parent_id_idx on content_calendar(parent_id);
@@ -0,0 +1,9 @@
+-- Stuck-generation watchdog: failure reason and retry bookkeeping
+alter table content_calendar
+  add column if not exists failure_reason text,
+  add column if not exists failed_at timestamptz,
+  add column if not exists generation_attempts integer not null default 0;
+
+create index if not exists content_calendar_generating_idx
+  on content_calendar(generation_started_at)
+  where status = 'generating';
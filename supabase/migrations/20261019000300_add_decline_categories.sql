@@ -0,0 +1,5 @@
+-- Declines: structured reason categories alongside the free-text reason,
+-- several per decline, and when the decline happened
+alter table content_calendar
+  add column if not exists decline_categories text[],
+  add column if not exists declined_at timestamptz;
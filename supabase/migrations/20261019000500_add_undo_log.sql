@@ -0,0 +1,13 @@
+-- Undo for approve, decline and schedule actions: prior state of every row an action touched
+create table if not exists calendar_undo_log (
+  id uuid primary key default gen_random_uuid(),
+  action text not null,
+  entries jsonb not null,
+  created_at timestamptz not null default now(),
+  expires_at timestamptz not null,
+  undone_at timestamptz
+);
+
+create index if not exists calendar_undo_log_expires_idx
+  on calendar_undo_log(expires_at)
+  where undone_at is null;
@@ -0,0 +1,9 @@
+-- Named reviewers and two-person approval
+-- approvals: [{ reviewer, at }] sign-offs for the current approval round
+alter table content_calendar
+  add column if not exists approvals jsonb not null default '[]'::jsonb,
+  add column if not exists declined_by text;
+
+create index if not exists content_calendar_pending_second_approval_idx
+  on content_calendar(created_at)
+  where status = 'pending_second_approval';
@@ -0,0 +1,19 @@
+-- Per-entry comment threads with @mentions and edit history
+-- edits: [{ body, edited_at }] previous versions, oldest first
+create table if not exists calendar_comments (
+  id uuid primary key default gen_random_uuid(),
+  entry_id uuid not null references content_calendar(id) on delete cascade,
+  author text not null,
+  body text not null,
+  mentions text[] not null default '{}',
+  edits jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  deleted_at timestamptz
+);
+
+create index if not exists calendar_comments_entry_idx
+  on calendar_comments(entry_id, created_at);
+
+create index if not exists calendar_comments_mentions_idx
+  on calendar_comments using gin(mentions);
@@ -0,0 +1,15 @@
+-- Named, shared filter/sort presets for the approvals table
+-- filters: only the values that differ from the table defaults (see src/lib/approvalFilters.js)
+create table if not exists approval_views (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  filters jsonb not null default '{}'::jsonb,
+  created_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+insert into approval_views (name, filters, created_by) values
+  ('Real-data easy wins', '{"data_source": "dataforseo", "difficulty": "easy"}'::jsonb, null),
+  ('This week''s AI estimates', '{"data_source": "estimated", "created": "this-week"}'::jsonb, null)
+on conflict (name) do nothing;
@@ -0,0 +1,38 @@
+-- Append-only audit log of every change to a calendar entry
+-- before/after: only the columns the change touched (whole row for create and delete)
+-- entry_id has no foreign key so an entry's history outlives the entry
+create table if not exists calendar_events (
+  id bigint generated always as identity primary key,
+  entry_id uuid not null,
+  keyword text,
+  event text not null,
+  actor text,
+  source text,
+  before jsonb,
+  after jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists calendar_events_entry_idx
+  on calendar_events(entry_id, id);
+
+create index if not exists calendar_events_event_idx
+  on calendar_events(event, id);
+
+create index if not exists calendar_events_actor_idx
+  on calendar_events(actor, id)
+  where actor is not null;
+
+create or replace function calendar_events_append_only()
+returns trigger
+language plpgsql
+as $$
+begin
+  raise exception 'calendar_events is append-only';
+end;
+$$;
+
+drop trigger if exists calendar_events_append_only on calendar_events;
+create trigger calendar_events_append_only
+  before update or delete on calendar_events
+  for each row execute function calendar_events_append_only();
@@ -0,0 +1,38 @@
+-- Rules that approve or decline new suggestions automatically
+-- conditions: [{ field, op, value }], all must match (see src/lib/approvalRules.js)
+-- Enabled rules run in priority order (lowest first); the first match decides
+create table if not exists approval_rules (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  decision text not null check (decision in ('approve', 'decline')),
+  conditions jsonb not null default '[]'::jsonb,
+  priority integer not null default 100,
+  enabled boolean not null default true,
+  auto_schedule boolean not null default false,
+  decline_categories text[] not null default '{}',
+  decline_reason text,
+  created_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- The rule behind an automatic approval or decline; the name is kept if the rule is deleted
+alter table content_calendar
+  add column if not exists auto_rule_id uuid references approval_rules(id) on delete set null,
+  add column if not exists auto_rule_name text;
+
+-- Starts disabled: preview it, then switch it on
+insert into approval_rules (name, decision, conditions, priority, enabled) values
+  (
+    'Real-data easy guides',
+    'approve',
+    '[
+      {"field": "seo_insights.data_source", "op": "eq", "value": "dataforseo"},
+      {"field": "difficulty", "op": "lt", "value": 30},
+      {"field": "search_volume", "op": "gt", "value": 100},
+      {"field": "article_type", "op": "in", "value": ["guide", "tutorial"]}
+    ]'::jsonb,
+    100,
+    false
+  )
+on conflict (name) do nothing;
@@ -0,0 +1,31 @@
+-- Versions of the opportunity score formula (see src/lib/scoring.js)
+-- The highest version is the one in use; saving new weights inserts the next version
+create table if not exists scoring_formulas (
+  version integer primary key,
+  name text not null,
+  weights jsonb not null,
+  article_types jsonb not null,
+  notes text,
+  created_by text,
+  created_at timestamptz not null default now()
+);
+
+insert into scoring_formulas (version, name, weights, article_types, notes) values
+  (
+    1,
+    'weighted-factors',
+    '{"volume": 0.35, "difficulty": 0.3, "competitors": 0.15, "cpc": 0.1, "article_type": 0.1}'::jsonb,
+    '{"guide": 1, "tutorial": 0.9, "comparison": 0.8, "listicle": 0.6, "checklist": 0.5}'::jsonb,
+    'Initial weights'
+  )
+on conflict (version) do nothing;
+
+-- priority_score is the single opportunity score; these explain it and date it
+alter table content_calendar
+  add column if not exists score_breakdown jsonb,
+  add column if not exists score_version integer,
+  add column if not exists scored_at timestamptz;
+
+-- Finds entries the backfill still has to rescore
+create index if not exists content_calendar_score_version_idx
+  on content_calendar (score_version);
@@ -0,0 +1,13 @@
+-- Estimated monthly traffic x CPC (see src/lib/pipelineValue.js); null without a CPC
+-- Written with the opportunity score; ROI ranks and filters on it
+alter table content_calendar
+  add column if not exists traffic_value numeric;
+
+create index if not exists content_calendar_traffic_value_idx
+  on content_calendar (traffic_value);
+
+-- Entries with a CPC need a value: mark their scores stale so the scoring backfill fills it in
+update content_calendar
+  set score_version = null
+  where traffic_value is null
+    and (seo_insights->>'cpc') is not null;
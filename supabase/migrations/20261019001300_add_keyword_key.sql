@@ -0,0 +1,12 @@
+-- Duplicate check key: the keyword lowercased with whitespace collapsed, as
+-- keywordKey() in src/lib/keywordImport.js computes it
+alter table content_calendar
+  add column if not exists keyword_key text
+    generated always as (lower(btrim(regexp_replace(keyword, '\s+', ' ', 'g')))) stored;
+
+-- One entry per keyword, whatever its case or spacing. Creating the index fails
+-- while duplicates exist; find them with
+--   select keyword_key, array_agg(keyword) from content_calendar
+--   group by keyword_key having count(*) > 1;
+create unique index if not exists content_calendar_keyword_key_key
+  on content_calendar (keyword_key);
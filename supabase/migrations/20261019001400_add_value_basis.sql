@@ -0,0 +1,5 @@
+-- Value settings traffic_value was worked out under (see getValueBasis in src/lib/pipelineValue.js)
+-- Scores with a different or missing basis count as stale, so the scoring
+-- backfill revalues entries after PIPELINE_*, ROI_HORIZON_MONTHS or TRAFFIC_RAMP_DAYS change
+alter table content_calendar
+  add column if not exists value_basis text;
@@ -0,0 +1,6 @@
+-- Approval rules test the scored priority_score, not the research tool's
+-- seo_insights.priority_score (see RULE_FIELDS in src/lib/approvalRules.js)
+update approval_rules
+  set conditions = replace(conditions::text, '"seo_insights.priority_score"', '"priority_score"')::jsonb,
+      updated_at = now()
+  where conditions::text like '%"seo_insights.priority_score"%';